@@ -2,7 +2,9 @@
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
-  moduleNameMapping: {
+  globalSetup: '<rootDir>/jest.globalSetup.js',
+  setupFiles: ['<rootDir>/jest.setup.js'],
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
   },
   testMatch: [
@@ -13,6 +15,7 @@ module.exports = {
     'src/**/*.{ts,tsx}',
     '!src/**/*.d.ts',
     '!src/**/index.ts',
+    '!src/test/**',
   ],
   coverageThreshold: {
     global: {
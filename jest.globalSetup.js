@@ -0,0 +1,5 @@
+// Run tests in an Australian timezone, away from UTC, so date code that
+// depends on the host timezone fails here rather than only in production
+module.exports = () => {
+    process.env.TZ = 'Australia/Sydney';
+};
@@ -0,0 +1,30 @@
+import { type NextRequest } from "next/server";
+import { getExtractionAccuracy } from "@/dal/ai/getExtractionAccuracy";
+import { getAccessContext } from "@/lib/auth";
+import { extractionAccuracyQuerySchema } from "@/schema/aiSchema";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * AI extraction accuracy API route
+ * - GET /api/ai/accuracy - Per-field share of AI-extracted values users left
+ *   uncorrected, across all users (admin only)
+ *   Query: since (only invoices created from this date)
+ */
+export async function GET(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { since } = extractionAccuracyQuerySchema.parse(
+            Object.fromEntries(request.nextUrl.searchParams),
+        );
+        const fields = await getExtractionAccuracy(ctx, since);
+        return apiSuccess({ since: since ?? null, fields });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
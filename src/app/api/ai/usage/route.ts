@@ -0,0 +1,34 @@
+import { type NextRequest } from "next/server";
+import { getAIUsageByUser } from "@/dal/ai/getAIUsageByUser";
+import { getAIUsageStats } from "@/dal/ai/getAIUsageStats";
+import { getAccessContext } from "@/lib/auth";
+import { getAIUsageQuota } from "@/services/ai/usage";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * AI usage API route
+ * - GET /api/ai/usage - Caller's AI usage this month and their quota
+ * - GET /api/ai/usage?view=users - Per-user usage this month (admin only)
+ */
+export async function GET(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const quota = await getAIUsageQuota(ctx);
+
+        if (request.nextUrl.searchParams.get("view") === "users") {
+            const users = await getAIUsageByUser(ctx, quota.periodStart);
+            return apiSuccess({ periodStart: quota.periodStart, users });
+        }
+
+        const stats = await getAIUsageStats(ctx, ctx.id, quota.periodStart);
+        return apiSuccess({ stats, quota });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
@@ -0,0 +1,62 @@
+import { type NextRequest } from "next/server";
+import { deleteAsset } from "@/dal/asset/deleteAsset";
+import { updateAsset } from "@/dal/asset/updateAsset";
+import { getAccessContext } from "@/lib/auth";
+import { assetUpdateSchema } from "@/schema/assetSchema";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { getAssetWithSchedule, mapAssetUpdate } from "@/services/asset/assets";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Single asset API route
+ * - GET /api/assets/[id] - Asset with its year-by-year depreciation schedule
+ * - PATCH /api/assets/[id] - Partial update (body: assetUpdateSchema)
+ * - DELETE /api/assets/[id] - Remove from the register
+ *
+ * Access to other users' assets is enforced by the DAL (403 when denied)
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const asset = await getAssetWithSchedule(ctx, id);
+        return apiSuccess(asset);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const body = assetUpdateSchema.parse(await request.json());
+        const asset = await updateAsset(ctx, id, mapAssetUpdate(body));
+        return apiSuccess(asset, { message: SUCCESS_MESSAGES.ASSET_UPDATED });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        await deleteAsset(ctx, id);
+        return apiSuccess(null, { message: SUCCESS_MESSAGES.ASSET_DELETED });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
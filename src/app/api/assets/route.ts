@@ -0,0 +1,50 @@
+import { type NextRequest } from "next/server";
+import { listAssets } from "@/dal/asset/listAssets";
+import { getAccessContext } from "@/lib/auth";
+import { assetInputSchema } from "@/schema/assetSchema";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { createAssetFromInput } from "@/services/asset/assets";
+import { getWorkspaceUserId } from "@/utils/core/auth";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * Asset register API route
+ * - GET /api/assets - Depreciating assets of the current workspace
+ * - POST /api/assets - Add an asset (body: assetInputSchema); name, cost and
+ *   start date default from the linked invoice or line item
+ */
+export async function GET() {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const assets = await listAssets(ctx, getWorkspaceUserId(ctx));
+        return apiSuccess(assets);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const body = assetInputSchema.parse(await request.json());
+        const asset = await createAssetFromInput(
+            ctx,
+            getWorkspaceUserId(ctx),
+            body,
+        );
+        return apiSuccess(asset, {
+            status: 201,
+            message: SUCCESS_MESSAGES.ASSET_CREATED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
@@ -0,0 +1,65 @@
+import { type NextRequest } from "next/server";
+import { deleteCustomCategory } from "@/dal/category/deleteCustomCategory";
+import { getCustomCategoryById } from "@/dal/category/getCustomCategoryById";
+import { getAccessContext } from "@/lib/auth";
+import { customCategoryUpdateSchema } from "@/schema/categorySchema";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { updateCustomCategoryFromInput } from "@/services/category/categories";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Single custom category API route
+ * - GET /api/categories/[id] - Custom category
+ * - PATCH /api/categories/[id] - Partial update (body: customCategoryUpdateSchema);
+ *   a new name or parent category is applied to linked invoices
+ * - DELETE /api/categories/[id] - Remove; linked invoices keep the parent category
+ *
+ * Access to other users' categories is enforced by the DAL (403 when denied)
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const category = await getCustomCategoryById(ctx, id);
+        return apiSuccess(category);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const body = customCategoryUpdateSchema.parse(await request.json());
+        const category = await updateCustomCategoryFromInput(ctx, id, body);
+        return apiSuccess(category, {
+            message: SUCCESS_MESSAGES.CATEGORY_UPDATED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        await deleteCustomCategory(ctx, id);
+        return apiSuccess(null, { message: SUCCESS_MESSAGES.CATEGORY_DELETED });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
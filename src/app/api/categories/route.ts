@@ -0,0 +1,53 @@
+import { type NextRequest } from "next/server";
+import { listCustomCategories } from "@/dal/category/listCustomCategories";
+import { getAccessContext } from "@/lib/auth";
+import { customCategoryInputSchema } from "@/schema/categorySchema";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { createCustomCategoryFromInput } from "@/services/category/categories";
+import { getWorkspaceUserId } from "@/utils/core/auth";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * Custom categories API route
+ * - GET /api/categories - Custom categories of the current workspace
+ * - POST /api/categories - Add a custom category (body: customCategoryInputSchema);
+ *   409 when the name is already used
+ */
+export async function GET() {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const categories = await listCustomCategories(
+            ctx,
+            getWorkspaceUserId(ctx),
+        );
+        return apiSuccess(categories);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const body = customCategoryInputSchema.parse(await request.json());
+        const category = await createCustomCategoryFromInput(
+            ctx,
+            getWorkspaceUserId(ctx),
+            body,
+        );
+        return apiSuccess(category, {
+            status: 201,
+            message: SUCCESS_MESSAGES.CATEGORY_CREATED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
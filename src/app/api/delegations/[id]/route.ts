@@ -0,0 +1,57 @@
+import { type NextRequest } from "next/server";
+import { revokeDelegation } from "@/dal/delegation/revokeDelegation";
+import { updateDelegationPermissions } from "@/dal/delegation/updateDelegationPermissions";
+import { getAccessContext } from "@/lib/auth";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { delegationPermissionsUpdateSchema } from "@/schema/userSchema";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Single delegation API route
+ * - PATCH /api/delegations/[id] - Client changes the accountant's permissions
+ *   (body: delegationPermissionsUpdateSchema)
+ * - DELETE /api/delegations/[id] - Accountant or client revokes the delegation
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const body = delegationPermissionsUpdateSchema.parse(
+            await request.json(),
+        );
+        const delegation = await updateDelegationPermissions(
+            ctx.id,
+            id,
+            body.permissions,
+        );
+
+        return apiSuccess(delegation, {
+            message: SUCCESS_MESSAGES.DELEGATION_UPDATED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const delegation = await revokeDelegation(ctx.id, id);
+        return apiSuccess(delegation, {
+            message: SUCCESS_MESSAGES.DELEGATION_REVOKED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
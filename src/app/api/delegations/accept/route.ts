@@ -0,0 +1,35 @@
+import { type NextRequest } from "next/server";
+import { acceptDelegationInvite } from "@/dal/delegation/acceptDelegationInvite";
+import { getAccessContext } from "@/lib/auth";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { delegationAcceptSchema } from "@/schema/userSchema";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * Delegation invite acceptance API route
+ * - POST /api/delegations/accept - Invited client accepts an invite
+ *   (body: delegationAcceptSchema; permissions may narrow the requested set)
+ */
+export async function POST(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const body = delegationAcceptSchema.parse(await request.json());
+        const delegation = await acceptDelegationInvite(
+            ctx.id,
+            body.token,
+            body.permissions,
+        );
+
+        return apiSuccess(delegation, {
+            message: SUCCESS_MESSAGES.DELEGATION_ACCEPTED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
@@ -0,0 +1,60 @@
+import { type NextRequest } from "next/server";
+import { createDelegationInvite } from "@/dal/delegation/createDelegationInvite";
+import { listDelegations } from "@/dal/delegation/listDelegations";
+import { getUserByEmail } from "@/dal/user/getUserByEmail";
+import { getAccessContext } from "@/lib/auth";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { delegationInviteSchema } from "@/schema/userSchema";
+import { AppError } from "@/utils/core/error";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * Accountant–client delegation API route
+ * - GET /api/delegations - Delegations the signed-in user is part of
+ *   (asAccountant / asClient, including pending and revoked)
+ * - POST /api/delegations - Accountant invites a client by email
+ *   (body: delegationInviteSchema); returns the pending delegation with its invite token
+ */
+export async function GET() {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const delegations = await listDelegations(ctx.id);
+        return apiSuccess(delegations);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        if (ctx.role !== "ACCOUNTANT") {
+            throw new AppError("DELEGATION_ACCOUNTANT_ONLY", 403);
+        }
+
+        const body = delegationInviteSchema.parse(await request.json());
+        const client = await getUserByEmail(body.clientEmail);
+        if (!client) return apiError("USER_NOT_FOUND", 404);
+
+        const delegation = await createDelegationInvite(
+            ctx.id,
+            client.user.id,
+            body.permissions,
+        );
+
+        return apiSuccess(delegation, {
+            status: 201,
+            message: SUCCESS_MESSAGES.DELEGATION_INVITE_SENT,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getExportJobById } from "@/dal/export/getExportJobById";
+import { getAccessContext } from "@/lib/auth";
+import { resolveExportJobStatus } from "@/services/file/exportJobs";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Single export job API route
+ * - GET /api/export/[id] - Job status, progress and download link
+ * - GET /api/export/[id]?download=1 - Redirect to the file (409 while the job
+ *   is still running, 410 once the link has expired)
+ *
+ * Stale and expired jobs are reported as FAILED / EXPIRED until the scheduled
+ * cleanup (/api/export/cleanup) records it
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const job = resolveExportJobStatus(await getExportJobById(ctx, id));
+
+        if (request.nextUrl.searchParams.get("download") !== "1") {
+            return apiSuccess(job);
+        }
+        if (job.status === "EXPIRED") {
+            return apiError("EXPORT_JOB_EXPIRED", 410);
+        }
+        if (job.status !== "COMPLETED" || !job.downloadUrl) {
+            return apiError("EXPORT_NOT_READY", 409);
+        }
+        return NextResponse.redirect(job.downloadUrl);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
@@ -0,0 +1,32 @@
+import { type NextRequest } from "next/server";
+import { env } from "@/schema/envSchema";
+import { cleanupExpiredExportJobs } from "@/services/file/exportJobs";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * Scheduled export cleanup API route
+ * - GET /api/export/cleanup - Fail stale export jobs, expire completed jobs
+ *   past expiresAt and delete their files from S3, for every owner
+ *
+ * Called hourly by Vercel Cron (vercel.json) with
+ * "Authorization: Bearer <CRON_SECRET>"; disabled while CRON_SECRET is unset
+ */
+export async function GET(request: NextRequest) {
+    if (
+        !env.CRON_SECRET ||
+        request.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`
+    ) {
+        return apiError("UNAUTHORIZED", 401);
+    }
+
+    try {
+        await cleanupExpiredExportJobs();
+        return apiSuccess(null);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
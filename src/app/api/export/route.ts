@@ -0,0 +1,53 @@
+import { type NextRequest } from "next/server";
+import { listExportJobs } from "@/dal/export/listExportJobs";
+import { getAccessContext } from "@/lib/auth";
+import { createExportJobRequestSchema } from "@/schema/exportSchema";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import {
+    resolveExportJobStatus,
+    startExportJob,
+} from "@/services/file/exportJobs";
+import { resolveExportOptions } from "@/services/file/exportTemplates";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * Export jobs API route
+ * - GET /api/export - Recent export jobs for the current workspace, newest first
+ * - POST /api/export - Start an export (body: createExportJobRequestSchema);
+ *   options come from templateId or the caller's default template, overridden
+ *   by body options; returns 202 with the PENDING job, which the export worker
+ *   picks up and generates (see exportJobs.ts)
+ */
+export async function GET() {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const jobs = await listExportJobs(ctx);
+        return apiSuccess(jobs.map((job) => resolveExportJobStatus(job)));
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const body = createExportJobRequestSchema.parse(await request.json());
+        const options = await resolveExportOptions(ctx.id, body);
+        const job = await startExportJob(ctx, options);
+
+        return apiSuccess(job, {
+            status: 202,
+            message: SUCCESS_MESSAGES.EXPORT_STARTED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
@@ -0,0 +1,72 @@
+import { type NextRequest } from "next/server";
+import { deleteExportTemplate } from "@/dal/export/deleteExportTemplate";
+import { updateExportTemplate } from "@/dal/export/updateExportTemplate";
+import { getAccessContext } from "@/lib/auth";
+import { exportTemplateUpdateSchema } from "@/schema/exportSchema";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import {
+    assertEditableExportTemplate,
+    getExportTemplate,
+    toExportTemplate,
+} from "@/services/file/exportTemplates";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Single export template API route
+ * - GET /api/export/templates/[id] - Built-in or saved template
+ * - PATCH /api/export/templates/[id] - Partial update (body: exportTemplateUpdateSchema)
+ * - DELETE /api/export/templates/[id] - Delete a saved template
+ *
+ * Built-in templates are read-only (403); other users' templates are not found (404)
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const template = await getExportTemplate(ctx.id, id);
+        return apiSuccess(template);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        assertEditableExportTemplate(id);
+        const body = exportTemplateUpdateSchema.parse(await request.json());
+        const template = await updateExportTemplate(ctx.id, id, body);
+        return apiSuccess(toExportTemplate(template), {
+            message: SUCCESS_MESSAGES.EXPORT_TEMPLATE_UPDATED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        assertEditableExportTemplate(id);
+        await deleteExportTemplate(ctx.id, id);
+        return apiSuccess(null, {
+            message: SUCCESS_MESSAGES.EXPORT_TEMPLATE_DELETED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
@@ -0,0 +1,49 @@
+import { type NextRequest } from "next/server";
+import { createExportTemplateRecord } from "@/dal/export/createExportTemplateRecord";
+import { getAccessContext } from "@/lib/auth";
+import { exportTemplateInputSchema } from "@/schema/exportSchema";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import {
+    listAvailableExportTemplates,
+    toExportTemplate,
+} from "@/services/file/exportTemplates";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * Export templates API route
+ * - GET /api/export/templates - Built-in templates, then the caller's saved
+ *   templates (default first)
+ * - POST /api/export/templates - Save a template (body: exportTemplateInputSchema);
+ *   isDefault replaces the caller's previous default
+ */
+export async function GET() {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const templates = await listAvailableExportTemplates(ctx.id);
+        return apiSuccess(templates);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const body = exportTemplateInputSchema.parse(await request.json());
+        const template = await createExportTemplateRecord(ctx.id, body);
+        return apiSuccess(toExportTemplate(template), {
+            status: 201,
+            message: SUCCESS_MESSAGES.EXPORT_TEMPLATE_CREATED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
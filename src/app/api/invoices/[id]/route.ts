@@ -0,0 +1,78 @@
+import { type NextRequest } from "next/server";
+import { deleteInvoice } from "@/dal/invoice/deleteInvoice";
+import { getInvoiceById } from "@/dal/invoice/getInvoiceById";
+import { listInvoiceLineItems } from "@/dal/invoice/listInvoiceLineItems";
+import { getAccessContext } from "@/lib/auth";
+import { invoiceUpdateSchema } from "@/schema/invoiceSchema";
+import { type InvoiceWithItems } from "@/schema/invoiceQueries";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { mapInvoiceInput } from "@/services/invoice/mapping";
+import { saveInvoiceUpdate } from "@/services/invoice/updates";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Single invoice API route
+ * - GET /api/invoices/[id] - Invoice with its file and line items
+ * - PATCH /api/invoices/[id] - Partial update (body: invoiceUpdateSchema;
+ *   a fileId must be one of the owner's uploads; items, when present,
+ *   replace all line items and any line business-use percentages set the
+ *   invoice's; changed supplier details re-link the supplier; a custom
+ *   category sets the category to its parent; changes to AI-extracted fields
+ *   are recorded as extraction corrections), then re-run anomaly detection
+ *   (see saveInvoiceUpdate)
+ * - DELETE /api/invoices/[id] - Delete invoice
+ *
+ * Access to other users' invoices is enforced by the DAL (403 when denied)
+ */
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const result = await getInvoiceById(ctx, id);
+        const detail: InvoiceWithItems = {
+            ...result,
+            items: await listInvoiceLineItems(ctx, id),
+        };
+        return apiSuccess(detail);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const body = invoiceUpdateSchema.parse(await request.json());
+        const invoice = await saveInvoiceUpdate(ctx, id, mapInvoiceInput(body));
+        return apiSuccess(invoice, {
+            message: SUCCESS_MESSAGES.INVOICE_UPDATED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        await deleteInvoice(ctx, id);
+        return apiSuccess(null, { message: SUCCESS_MESSAGES.INVOICE_DELETED });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
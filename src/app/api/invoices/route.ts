@@ -0,0 +1,92 @@
+import { type NextRequest } from "next/server";
+import { createInvoice } from "@/dal/invoice/createInvoice";
+import { listInvoices } from "@/dal/invoice/listInvoices";
+import { getAccessContext } from "@/lib/auth";
+import {
+    invoiceListQuerySchema,
+    manualInvoiceSchema,
+} from "@/schema/invoiceSchema";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { checkInvoiceAnomalies } from "@/services/ai/anomaly";
+import { applyInvoiceCustomCategory } from "@/services/category/categories";
+import { applyLineItemBusinessUse } from "@/services/invoice/businessUse";
+import { mapInvoiceInput } from "@/services/invoice/mapping";
+import { applyNewInvoiceRules } from "@/services/rule/rules";
+import { applyNewInvoiceSupplier } from "@/services/supplier/suppliers";
+import { getWorkspaceUserId } from "@/utils/core/auth";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+    buildPaginationHeaders,
+} from "@/utils/core/response";
+
+/**
+ * Invoice collection API route
+ * - GET /api/invoices - Paginated invoice list for the current workspace
+ *   Query: page, limit, sortBy, sortOrder, category, status, supplierId,
+ *   supplierName, description, dateFrom, dateTo, amountMin, amountMax
+ *   Headers: x-page, x-limit, x-total, x-total-pages
+ * - POST /api/invoices - Create an invoice manually (body: manualInvoiceSchema)
+ *   and run anomaly detection against the owner's history. A custom category
+ *   sets the category to its parent; otherwise the owner's categorisation
+ *   rules, then the invoice's supplier (created when unknown), fill the
+ *   category, business-use percentage and other fields the input omits
+ */
+export async function GET(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const query = invoiceListQuerySchema.parse(
+            Object.fromEntries(request.nextUrl.searchParams),
+        );
+        const { page, limit, sortBy, sortOrder, ...filters } = query;
+        const result = await listInvoices(
+            ctx,
+            filters,
+            { field: sortBy, direction: sortOrder },
+            page,
+            limit,
+        );
+
+        return apiSuccess(result.invoices, {
+            headers: buildPaginationHeaders(page, limit, result.totalCount),
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const body = manualInvoiceSchema.parse(await request.json());
+        const userId = getWorkspaceUserId(ctx);
+        const mapped = await applyInvoiceCustomCategory(
+            ctx,
+            userId,
+            mapInvoiceInput(body),
+        );
+        const data = await applyNewInvoiceSupplier(
+            ctx,
+            userId,
+            await applyNewInvoiceRules(ctx, userId, mapped),
+        );
+        const createdInvoice = await createInvoice(ctx, {
+            ...applyLineItemBusinessUse(data),
+            userId,
+            fileId: null,
+        });
+        const invoice = await checkInvoiceAnomalies(ctx, createdInvoice.id);
+
+        return apiSuccess(invoice, {
+            status: 201,
+            message: SUCCESS_MESSAGES.INVOICE_CREATED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
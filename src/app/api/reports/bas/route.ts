@@ -0,0 +1,42 @@
+import { type NextRequest } from "next/server";
+import { getAccessContext } from "@/lib/auth";
+import { BAS_CONSTANTS, basReportQuerySchema } from "@/schema/reportSchema";
+import { getFileExtension, getMimeType } from "@/services/file/export";
+import { createBASReportFile, getBASReport } from "@/services/report/bas";
+import {
+    apiError,
+    apiErrorFromException,
+    apiFile,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * BAS report API route
+ * - GET /api/reports/bas?financialYear=2024&quarter=1 - G10/G11 purchases, 1B
+ *   GST credits and included/excluded invoices for the current workspace;
+ *   every quarter of the financial year when quarter is omitted
+ * - GET /api/reports/bas?...&format=EXCEL|CSV - Download the report file
+ */
+export async function GET(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { financialYear, quarter, format } = basReportQuerySchema.parse(
+            Object.fromEntries(request.nextUrl.searchParams),
+        );
+        const reports = await getBASReport(ctx, financialYear, quarter);
+        if (!format) return apiSuccess(reports);
+
+        const content = await createBASReportFile(reports, format);
+        const fileName = BAS_CONSTANTS.FILE_NAME.replace(
+            "{financialYear}",
+            `${financialYear}-${financialYear + 1}`,
+        )
+            .replace("{quarter}", quarter ? `_Q${quarter}` : "")
+            .replace("{extension}", getFileExtension(format));
+        return apiFile(content, fileName, getMimeType(format));
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
@@ -0,0 +1,46 @@
+import { type NextRequest } from "next/server";
+import { getAccessContext } from "@/lib/auth";
+import {
+    DEDUCTION_CONSTANTS,
+    deductionSummaryQuerySchema,
+} from "@/schema/reportSchema";
+import { getFileExtension, getMimeType } from "@/services/file/export";
+import {
+    createDeductionSummaryFile,
+    getDeductionSummary,
+} from "@/services/report/deductions";
+import {
+    apiError,
+    apiErrorFromException,
+    apiFile,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * Tax deduction summary API route
+ * - GET /api/reports/deductions?financialYear=2024 - Claimable amount, GST
+ *   credits and non-deductible portion per category with supporting invoices
+ *   for the current workspace
+ * - GET /api/reports/deductions?...&format=EXCEL|CSV - Download the summary file
+ */
+export async function GET(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { financialYear, format } = deductionSummaryQuerySchema.parse(
+            Object.fromEntries(request.nextUrl.searchParams),
+        );
+        const summary = await getDeductionSummary(ctx, financialYear);
+        if (!format) return apiSuccess(summary);
+
+        const content = await createDeductionSummaryFile(summary, format);
+        const fileName = DEDUCTION_CONSTANTS.FILE_NAME.replace(
+            "{financialYear}",
+            `${financialYear}-${financialYear + 1}`,
+        ).replace("{extension}", getFileExtension(format));
+        return apiFile(content, fileName, getMimeType(format));
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
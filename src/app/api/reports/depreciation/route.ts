@@ -0,0 +1,46 @@
+import { type NextRequest } from "next/server";
+import { getAccessContext } from "@/lib/auth";
+import {
+    ASSET_CONSTANTS,
+    depreciationReportQuerySchema,
+} from "@/schema/assetSchema";
+import {
+    createDepreciationReportFile,
+    getDepreciationYearSchedule,
+} from "@/services/asset/depreciation";
+import { getFileExtension, getMimeType } from "@/services/file/export";
+import {
+    apiError,
+    apiErrorFromException,
+    apiFile,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * Depreciation schedule API route
+ * - GET /api/reports/depreciation?financialYear=2024 - Decline in value and
+ *   deductible amount of every asset held during the financial year for the
+ *   current workspace
+ * - GET /api/reports/depreciation?...&format=EXCEL|CSV - Download the schedule file
+ */
+export async function GET(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { financialYear, format } = depreciationReportQuerySchema.parse(
+            Object.fromEntries(request.nextUrl.searchParams),
+        );
+        const schedule = await getDepreciationYearSchedule(ctx, financialYear);
+        if (!format) return apiSuccess(schedule);
+
+        const content = await createDepreciationReportFile(schedule, format);
+        const fileName = ASSET_CONSTANTS.FILE_NAME.replace(
+            "{financialYear}",
+            `${financialYear}-${financialYear + 1}`,
+        ).replace("{extension}", getFileExtension(format));
+        return apiFile(content, fileName, getMimeType(format));
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
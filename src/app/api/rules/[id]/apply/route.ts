@@ -0,0 +1,41 @@
+import { type NextRequest } from "next/server";
+import { getAccessContext } from "@/lib/auth";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { ruleApplyQuerySchema } from "@/schema/ruleSchema";
+import { applyRuleToInvoices } from "@/services/rule/rules";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Apply a categorisation rule to existing invoices
+ * - POST /api/rules/[id]/apply - Invoices the rule matches and the changes it
+ *   makes to each. Query: dryRun (default true) only previews the changes;
+ *   dryRun=false saves them
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const { dryRun } = ruleApplyQuerySchema.parse(
+            Object.fromEntries(request.nextUrl.searchParams),
+        );
+        const result = await applyRuleToInvoices(ctx, id, dryRun);
+        return apiSuccess(result, {
+            ...(!dryRun && {
+                message: SUCCESS_MESSAGES.RULE_APPLIED.replace(
+                    "{count}",
+                    String(result.changedCount),
+                ),
+            }),
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
@@ -0,0 +1,62 @@
+import { type NextRequest } from "next/server";
+import { deleteRule } from "@/dal/rule/deleteRule";
+import { getRuleById } from "@/dal/rule/getRuleById";
+import { updateRule } from "@/dal/rule/updateRule";
+import { getAccessContext } from "@/lib/auth";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { ruleUpdateSchema } from "@/schema/ruleSchema";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Single categorisation rule API route
+ * - GET /api/rules/[id] - Rule with its conditions and actions
+ * - PATCH /api/rules/[id] - Partial update (body: ruleUpdateSchema)
+ * - DELETE /api/rules/[id] - Remove; invoices it already changed are kept
+ *
+ * Access to other users' rules is enforced by the DAL (403 when denied)
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const rule = await getRuleById(ctx, id);
+        return apiSuccess(rule);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const body = ruleUpdateSchema.parse(await request.json());
+        const rule = await updateRule(ctx, id, body);
+        return apiSuccess(rule, { message: SUCCESS_MESSAGES.RULE_UPDATED });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        await deleteRule(ctx, id);
+        return apiSuccess(null, { message: SUCCESS_MESSAGES.RULE_DELETED });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
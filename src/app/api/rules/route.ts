@@ -0,0 +1,46 @@
+import { type NextRequest } from "next/server";
+import { createRule } from "@/dal/rule/createRule";
+import { listRules } from "@/dal/rule/listRules";
+import { getAccessContext } from "@/lib/auth";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { ruleInputSchema } from "@/schema/ruleSchema";
+import { getWorkspaceUserId } from "@/utils/core/auth";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * Categorisation rules API route
+ * - GET /api/rules - Rules of the current workspace in evaluation order
+ *   (lowest priority number first)
+ * - POST /api/rules - Add a rule (body: ruleInputSchema)
+ */
+export async function GET() {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const rules = await listRules(ctx, getWorkspaceUserId(ctx));
+        return apiSuccess(rules);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const body = ruleInputSchema.parse(await request.json());
+        const rule = await createRule(ctx, getWorkspaceUserId(ctx), body);
+        return apiSuccess(rule, {
+            status: 201,
+            message: SUCCESS_MESSAGES.RULE_CREATED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
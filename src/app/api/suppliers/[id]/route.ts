@@ -0,0 +1,64 @@
+import { type NextRequest } from "next/server";
+import { deleteSupplier } from "@/dal/supplier/deleteSupplier";
+import { getSupplierById } from "@/dal/supplier/getSupplierById";
+import { getAccessContext } from "@/lib/auth";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { supplierUpdateSchema } from "@/schema/supplierSchema";
+import { updateSupplierFromInput } from "@/services/supplier/suppliers";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Single supplier API route
+ * - GET /api/suppliers/[id] - Supplier with aliases, defaults and contacts
+ * - PATCH /api/suppliers/[id] - Partial update (body: supplierUpdateSchema)
+ * - DELETE /api/suppliers/[id] - Remove; linked invoices are unlinked
+ *
+ * Access to other users' suppliers is enforced by the DAL (403 when denied)
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const supplier = await getSupplierById(ctx, id);
+        return apiSuccess(supplier);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        const body = supplierUpdateSchema.parse(await request.json());
+        const supplier = await updateSupplierFromInput(ctx, id, body);
+        return apiSuccess(supplier, {
+            message: SUCCESS_MESSAGES.SUPPLIER_UPDATED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const { id } = await params;
+        await deleteSupplier(ctx, id);
+        return apiSuccess(null, { message: SUCCESS_MESSAGES.SUPPLIER_DELETED });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
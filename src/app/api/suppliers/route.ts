@@ -0,0 +1,50 @@
+import { type NextRequest } from "next/server";
+import { listSuppliers } from "@/dal/supplier/listSuppliers";
+import { getAccessContext } from "@/lib/auth";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { supplierInputSchema } from "@/schema/supplierSchema";
+import { createSupplierFromInput } from "@/services/supplier/suppliers";
+import { getWorkspaceUserId } from "@/utils/core/auth";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * Supplier directory API route
+ * - GET /api/suppliers - Suppliers of the current workspace
+ * - POST /api/suppliers - Add a supplier (body: supplierInputSchema);
+ *   409 when the name or tax ID already belongs to a supplier
+ */
+export async function GET() {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const suppliers = await listSuppliers(ctx, getWorkspaceUserId(ctx));
+        return apiSuccess(suppliers);
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+
+    try {
+        const body = supplierInputSchema.parse(await request.json());
+        const supplier = await createSupplierFromInput(
+            ctx,
+            getWorkspaceUserId(ctx),
+            body,
+        );
+        return apiSuccess(supplier, {
+            status: 201,
+            message: SUCCESS_MESSAGES.SUPPLIER_CREATED,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
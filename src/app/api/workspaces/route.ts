@@ -0,0 +1,68 @@
+import { type NextRequest } from "next/server";
+import { getClientWorkspace } from "@/dal/delegation/getClientWorkspace";
+import { listClientWorkspaces } from "@/dal/delegation/listClientWorkspaces";
+import { getAccessContext } from "@/lib/auth";
+import { AUTH_CONSTANTS } from "@/schema/authSchema";
+import { SUCCESS_MESSAGES } from "@/schema/messageSchema";
+import { workspaceSwitchSchema } from "@/schema/userSchema";
+import {
+    apiError,
+    apiErrorFromException,
+    apiSuccess,
+} from "@/utils/core/response";
+
+/**
+ * Accountant client workspace API route
+ * - GET /api/workspaces - Client workspaces the accountant can switch into,
+ *   plus the currently active workspace ID
+ * - POST /api/workspaces - Switch workspace (body: workspaceSwitchSchema;
+ *   clientId null returns to the accountant's own workspace)
+ */
+export async function GET() {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+    if (ctx.role !== "ACCOUNTANT") return apiError("PERMISSION_DENIED", 403);
+
+    try {
+        const workspaces = await listClientWorkspaces(ctx.id);
+        return apiSuccess({
+            workspaces,
+            activeClientId: ctx.workspaceUserId ?? null,
+        });
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const ctx = await getAccessContext();
+    if (!ctx) return apiError("UNAUTHORIZED", 401);
+    if (ctx.role !== "ACCOUNTANT") return apiError("PERMISSION_DENIED", 403);
+
+    try {
+        const { clientId } = workspaceSwitchSchema.parse(await request.json());
+
+        if (!clientId) {
+            const response = apiSuccess(null, {
+                message: SUCCESS_MESSAGES.WORKSPACE_SWITCHED,
+            });
+            response.cookies.delete(AUTH_CONSTANTS.WORKSPACE_COOKIE_NAME);
+            return response;
+        }
+
+        const workspace = await getClientWorkspace(ctx.id, clientId);
+        const response = apiSuccess(workspace, {
+            message: SUCCESS_MESSAGES.WORKSPACE_SWITCHED,
+        });
+        response.cookies.set(AUTH_CONSTANTS.WORKSPACE_COOKIE_NAME, clientId, {
+            httpOnly: true,
+            sameSite: "lax",
+            secure: process.env.NODE_ENV === "production",
+            path: "/",
+            maxAge: AUTH_CONSTANTS.SESSION_MAX_AGE * 60,
+        });
+        return response;
+    } catch (error) {
+        return apiErrorFromException(error);
+    }
+}
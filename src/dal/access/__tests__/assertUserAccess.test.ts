@@ -0,0 +1,63 @@
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { getActiveDelegation } from "@/dal/delegation/getActiveDelegation";
+import { type AccountantClient } from "@/schema/userTables";
+import { AccessDeniedError } from "@/utils/core/error";
+
+jest.mock("@/dal/delegation/getActiveDelegation", () => ({
+    getActiveDelegation: jest.fn(),
+}));
+
+const mockGetActiveDelegation = jest.mocked(getActiveDelegation);
+
+const delegation: AccountantClient = {
+    id: "delegation-1",
+    accountantId: "accountant",
+    clientId: "client",
+    status: "ACTIVE",
+    permissions: ["VIEW"],
+    inviteToken: null,
+    inviteExpiresAt: null,
+    acceptedAt: new Date("2024-08-01T00:00:00"),
+    revokedAt: null,
+    createdAt: new Date("2024-08-01T00:00:00"),
+    updatedAt: new Date("2024-08-01T00:00:00"),
+};
+
+describe("assertUserAccess", () => {
+    const accountant = { id: "accountant", role: "ACCOUNTANT" as const };
+
+    beforeEach(() => mockGetActiveDelegation.mockReset());
+
+    it("lets accountants use the permissions their client granted", async () => {
+        mockGetActiveDelegation.mockResolvedValue(delegation);
+
+        await expect(
+            assertUserAccess(accountant, "client", "VIEW"),
+        ).resolves.toBeUndefined();
+        await expect(
+            assertUserAccess(accountant, "client", "EDIT"),
+        ).rejects.toThrow(AccessDeniedError);
+        expect(mockGetActiveDelegation).toHaveBeenCalledWith(
+            "accountant",
+            "client",
+        );
+    });
+
+    it("rejects accountants without an active delegation", async () => {
+        mockGetActiveDelegation.mockResolvedValue(null);
+
+        await expect(assertUserAccess(accountant, "client")).rejects.toThrow(
+            AccessDeniedError,
+        );
+    });
+
+    it("does not look up delegations for the caller's own data", async () => {
+        await expect(
+            assertUserAccess(accountant, "accountant", "EDIT"),
+        ).resolves.toBeUndefined();
+        await expect(
+            assertUserAccess({ id: "user-1", role: "USER" }, "client"),
+        ).rejects.toThrow(AccessDeniedError);
+        expect(mockGetActiveDelegation).not.toHaveBeenCalled();
+    });
+});
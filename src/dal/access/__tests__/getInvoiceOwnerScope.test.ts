@@ -0,0 +1,33 @@
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import { getActiveDelegation } from "@/dal/delegation/getActiveDelegation";
+import { AUTH_CONSTANTS } from "@/schema/authSchema";
+import { AccessDeniedError } from "@/utils/core/error";
+
+jest.mock("@/dal/delegation/getActiveDelegation", () => ({
+    getActiveDelegation: jest.fn().mockResolvedValue(null),
+}));
+
+describe("getInvoiceOwnerScope", () => {
+    const user = { id: "user-1", role: "USER" as const };
+    const admin = { id: "admin", role: "ADMIN" as const };
+
+    it("scopes reads to the caller's own invoices by default", async () => {
+        await expect(getInvoiceOwnerScope(user)).resolves.toBeDefined();
+        expect(getActiveDelegation).not.toHaveBeenCalled();
+    });
+
+    it("rejects another user's invoices", async () => {
+        await expect(getInvoiceOwnerScope(user, "user-2")).rejects.toThrow(
+            AccessDeniedError,
+        );
+    });
+
+    it("allows every user's invoices for admins only", async () => {
+        await expect(
+            getInvoiceOwnerScope(admin, AUTH_CONSTANTS.ALL_USERS_SCOPE),
+        ).resolves.toBeUndefined();
+        await expect(
+            getInvoiceOwnerScope(user, AUTH_CONSTANTS.ALL_USERS_SCOPE),
+        ).rejects.toThrow(AccessDeniedError);
+    });
+});
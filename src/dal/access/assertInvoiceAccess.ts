@@ -0,0 +1,35 @@
+import { eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import { invoices } from "@/schema/invoiceTables";
+import { type DelegationPermission } from "@/schema/userSchema";
+import { NotFoundError } from "@/utils/core/error";
+import { db } from "@/lib/database";
+
+/**
+ * Ensures the caller may access a single invoice
+ * Looks up the invoice owner and applies assertUserAccess
+ * @param ctx - Caller access context (session user ID and role)
+ * @param invoiceId - Invoice ID being read or written
+ * @param permission - Permission required on the owner's data (VIEW, EDIT, EXPORT)
+ * @returns Owner user ID of the invoice
+ * @throws NotFoundError if invoice not found
+ * @throws AccessDeniedError if the caller cannot access the owner's data
+ */
+export const assertInvoiceAccess = async (
+    ctx: AccessContext,
+    invoiceId: string,
+    permission: DelegationPermission = "VIEW",
+): Promise<string> => {
+    const [invoice] = await db
+        .select({ userId: invoices.userId })
+        .from(invoices)
+        .where(eq(invoices.id, invoiceId))
+        .limit(1);
+    if (!invoice) {
+        throw new NotFoundError(`Invoice with ID ${invoiceId} not found`);
+    }
+
+    await assertUserAccess(ctx, invoice.userId, permission);
+    return invoice.userId;
+};
@@ -0,0 +1,36 @@
+import { getActiveDelegation } from "@/dal/delegation/getActiveDelegation";
+import { type AccessContext } from "@/schema/authSchema";
+import { type DelegationPermission } from "@/schema/userSchema";
+import { canAccessUser } from "@/utils/core/auth";
+import { AccessDeniedError } from "@/utils/core/error";
+
+/**
+ * Ensures the caller may access data owned by the target user
+ * Owners and admins always pass; accountants need an active delegation
+ * from the target user granting the requested permission
+ * @param ctx - Caller access context (session user ID and role)
+ * @param targetUserId - Owner of the data being accessed
+ * @param permission - Permission required on the owner's data (VIEW, EDIT, EXPORT)
+ * @throws AccessDeniedError if the caller cannot access the target user's data
+ */
+export const assertUserAccess = async (
+    ctx: AccessContext,
+    targetUserId: string,
+    permission: DelegationPermission = "VIEW",
+): Promise<void> => {
+    const delegation =
+        ctx.role === "ACCOUNTANT" && ctx.id !== targetUserId
+            ? await getActiveDelegation(ctx.id, targetUserId)
+            : null;
+
+    if (
+        !canAccessUser(
+            ctx,
+            targetUserId,
+            permission,
+            delegation ? [delegation] : [],
+        )
+    ) {
+        throw new AccessDeniedError(targetUserId);
+    }
+};
@@ -0,0 +1,37 @@
+import { eq, type SQL } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import {
+    AUTH_CONSTANTS,
+    type AccessContext,
+    type AccessScopeTarget,
+} from "@/schema/authSchema";
+import { invoices } from "@/schema/invoiceTables";
+import { type DelegationPermission } from "@/schema/userSchema";
+import { getWorkspaceUserId, hasPermission } from "@/utils/core/auth";
+import { AccessDeniedError } from "@/utils/core/error";
+
+/**
+ * Builds the invoice owner condition for a scoped read
+ * Defaults to the caller's current workspace; another user's invoices require
+ * canAccessUser, and AUTH_CONSTANTS.ALL_USERS_SCOPE requires ADMIN
+ * @param ctx - Caller access context (session user ID and role)
+ * @param target - User ID to read, or ALL_USERS_SCOPE for every user
+ * @param permission - Permission required on the owner's data (VIEW, EDIT, EXPORT)
+ * @returns Where condition on invoices.userId, or undefined for every user
+ * @throws AccessDeniedError if the caller cannot read the requested scope
+ */
+export const getInvoiceOwnerScope = async (
+    ctx: AccessContext,
+    target: AccessScopeTarget = getWorkspaceUserId(ctx),
+    permission: DelegationPermission = "VIEW",
+): Promise<SQL | undefined> => {
+    if (target === AUTH_CONSTANTS.ALL_USERS_SCOPE) {
+        if (!hasPermission(ctx.role, "ADMIN")) {
+            throw new AccessDeniedError();
+        }
+        return undefined;
+    }
+
+    await assertUserAccess(ctx, target, permission);
+    return eq(invoices.userId, target);
+};
@@ -0,0 +1,49 @@
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import {
+    insertExtractionCorrectionSchema,
+    type CreateExtractionCorrectionData,
+} from "@/schema/aiQueries";
+import {
+    extractionCorrections,
+    type ExtractionCorrection,
+} from "@/schema/aiTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Records corrections a user made to AI-extracted invoice fields
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the corrected invoice
+ * @param corrections - One entry per corrected field
+ * @returns Created corrections (none when the list is empty)
+ * @throws AccessDeniedError if the caller cannot edit the owner's data
+ * @throws Error if database insert fails
+ */
+export const createExtractionCorrections = async (
+    ctx: AccessContext,
+    ownerId: string,
+    corrections: CreateExtractionCorrectionData[],
+): Promise<ExtractionCorrection[]> => {
+    await assertUserAccess(ctx, ownerId, "EDIT");
+    if (corrections.length === 0) return [];
+    const validatedData = corrections.map((correction) =>
+        insertExtractionCorrectionSchema.parse({
+            ...correction,
+            userId: ownerId,
+        }),
+    );
+
+    const records = await db
+        .insert(extractionCorrections)
+        .values(validatedData)
+        .returning();
+
+    logInfo("Extraction corrections recorded", {
+        userId: ownerId,
+        invoiceId: records[0].invoiceId,
+        fields: records.map((record) => record.field),
+    });
+
+    return records;
+};
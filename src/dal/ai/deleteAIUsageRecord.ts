@@ -0,0 +1,11 @@
+import { eq } from "drizzle-orm";
+import { aiUsageRecords } from "@/schema/aiTables";
+import { db } from "@/lib/database";
+
+/**
+ * Deletes an AI usage record, releasing a reservation that was over quota
+ * @param id - Usage record ID
+ */
+export const deleteAIUsageRecord = async (id: string): Promise<void> => {
+    await db.delete(aiUsageRecords).where(eq(aiUsageRecords.id, id));
+};
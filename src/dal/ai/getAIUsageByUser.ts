@@ -0,0 +1,46 @@
+import { desc, eq, gte, sum } from "drizzle-orm";
+import { aiUsageStatsColumns, toAIUsageStats } from "@/dal/ai/getAIUsageStats";
+import { type AIUsageStatsByUser } from "@/schema/aiQueries";
+import { aiUsageRecords } from "@/schema/aiTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { users } from "@/schema/userTables";
+import { hasPermission } from "@/utils/core/auth";
+import { AccessDeniedError } from "@/utils/core/error";
+import { db } from "@/lib/database";
+
+/**
+ * Admin report of AI usage per user, heaviest token consumers first
+ * @param ctx - Caller access context (must be ADMIN)
+ * @param since - Only count usage recorded at or after this time
+ * @returns AI usage statistics for every user with recorded usage
+ * @throws AccessDeniedError if the caller is not an admin
+ * @throws Error if database query fails
+ */
+export const getAIUsageByUser = async (
+    ctx: AccessContext,
+    since?: Date,
+): Promise<AIUsageStatsByUser[]> => {
+    if (!hasPermission(ctx.role, "ADMIN")) {
+        throw new AccessDeniedError();
+    }
+
+    const results = await db
+        .select({
+            userId: aiUsageRecords.userId,
+            userName: users.name,
+            userEmail: users.email,
+            ...aiUsageStatsColumns,
+        })
+        .from(aiUsageRecords)
+        .innerJoin(users, eq(users.id, aiUsageRecords.userId))
+        .where(since ? gte(aiUsageRecords.createdAt, since) : undefined)
+        .groupBy(aiUsageRecords.userId, users.name, users.email)
+        .orderBy(desc(sum(aiUsageRecords.totalTokens)));
+
+    return results.map(({ userId, userName, userEmail, ...stats }) => ({
+        userId,
+        userName,
+        userEmail,
+        ...toAIUsageStats(stats),
+    }));
+};
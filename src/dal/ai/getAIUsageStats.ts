@@ -0,0 +1,92 @@
+import { and, avg, count, eq, gte, max, sql, sum, type SQL } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AIUsageStats } from "@/schema/aiSchema";
+import { aiUsageRecords } from "@/schema/aiTables";
+import {
+    AUTH_CONSTANTS,
+    type AccessContext,
+    type AccessScopeTarget,
+} from "@/schema/authSchema";
+import { hasPermission } from "@/utils/core/auth";
+import { AccessDeniedError } from "@/utils/core/error";
+import { db } from "@/lib/database";
+
+/**
+ * Aggregates AI usage (tokens, requests, success rate, latency)
+ * @param ctx - Caller access context (session user ID and role)
+ * @param target - User whose usage to aggregate; defaults to the caller, ALL_USERS_SCOPE for admins
+ * @param since - Only count usage recorded at or after this time
+ * @returns AI usage statistics
+ * @throws AccessDeniedError if the caller cannot read the requested scope
+ * @throws Error if database query fails
+ */
+export const getAIUsageStats = async (
+    ctx: AccessContext,
+    target: AccessScopeTarget = ctx.id,
+    since?: Date,
+): Promise<AIUsageStats> => {
+    const userScope = await getUsageUserScope(ctx, target);
+
+    const [result] = await db
+        .select(aiUsageStatsColumns)
+        .from(aiUsageRecords)
+        .where(
+            and(
+                userScope,
+                since ? gte(aiUsageRecords.createdAt, since) : undefined,
+            ),
+        );
+
+    return toAIUsageStats(result);
+};
+
+/**
+ * Columns aggregated into AIUsageStats (shared with getAIUsageByUser)
+ */
+export const aiUsageStatsColumns = {
+    requestCount: count(),
+    successCount:
+        sql<number>`count(*) filter (where ${aiUsageRecords.outcome} = 'SUCCESS')`.mapWith(
+            Number,
+        ),
+    tokensUsed: sum(aiUsageRecords.totalTokens),
+    averageLatency: avg(aiUsageRecords.latencyMs),
+    lastUpdated: max(aiUsageRecords.createdAt),
+};
+
+/**
+ * Convert aggregated columns into AIUsageStats
+ */
+export const toAIUsageStats = (result?: {
+    requestCount: number;
+    successCount: number;
+    tokensUsed: string | null;
+    averageLatency: string | null;
+    lastUpdated: Date | null;
+}): AIUsageStats => ({
+    tokensUsed: parseInt(result?.tokensUsed || "0", 10),
+    requestCount: result?.requestCount ?? 0,
+    successRate: result?.requestCount
+        ? result.successCount / result.requestCount
+        : 0,
+    averageProcessingTime: parseFloat(result?.averageLatency || "0"),
+    lastUpdated: result?.lastUpdated ?? new Date(),
+});
+
+/**
+ * Usage owner condition: the target user, or every user for admins
+ */
+const getUsageUserScope = async (
+    ctx: AccessContext,
+    target: AccessScopeTarget,
+): Promise<SQL | undefined> => {
+    if (target === AUTH_CONSTANTS.ALL_USERS_SCOPE) {
+        if (!hasPermission(ctx.role, "ADMIN")) {
+            throw new AccessDeniedError();
+        }
+        return undefined;
+    }
+
+    await assertUserAccess(ctx, target);
+    return eq(aiUsageRecords.userId, target);
+};
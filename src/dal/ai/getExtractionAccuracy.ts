@@ -0,0 +1,79 @@
+import {
+    and,
+    countDistinct,
+    eq,
+    gte,
+    isNotNull,
+    sql,
+    type SQL,
+} from "drizzle-orm";
+import {
+    CORRECTION_EXTRACTED_KEYS,
+    CorrectionFieldEnum,
+    type CorrectionField,
+    type ExtractionFieldAccuracy,
+} from "@/schema/aiSchema";
+import { extractionCorrections } from "@/schema/aiTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { invoices } from "@/schema/invoiceTables";
+import { hasPermission } from "@/utils/core/auth";
+import { AccessDeniedError } from "@/utils/core/error";
+import { db } from "@/lib/database";
+
+/**
+ * Admin report of AI extraction accuracy per field across all users
+ * A field counts as extracted when the invoice's extractedData holds a value
+ * for it, and as corrected when the user changed that value at least once
+ * @param ctx - Caller access context (must be ADMIN)
+ * @param since - Only count invoices created at or after this time
+ * @returns Accuracy of every correctable field
+ * @throws AccessDeniedError if the caller is not an admin
+ * @throws Error if database query fails
+ */
+export const getExtractionAccuracy = async (
+    ctx: AccessContext,
+    since?: Date,
+): Promise<ExtractionFieldAccuracy[]> => {
+    if (!hasPermission(ctx.role, "ADMIN")) {
+        throw new AccessDeniedError();
+    }
+    const createdSince = since ? gte(invoices.createdAt, since) : undefined;
+
+    const [extracted] = await db
+        .select(
+            Object.fromEntries(
+                CorrectionFieldEnum.map((field) => [
+                    field,
+                    sql<number>`count(*) filter (where ${invoices.extractedData} ->> ${CORRECTION_EXTRACTED_KEYS[field]} is not null)`.mapWith(
+                        Number,
+                    ),
+                ]),
+            ) as Record<CorrectionField, SQL<number>>,
+        )
+        .from(invoices)
+        .where(and(isNotNull(invoices.extractedData), createdSince));
+
+    const corrected = await db
+        .select({
+            field: extractionCorrections.field,
+            correctedCount: countDistinct(extractionCorrections.invoiceId),
+        })
+        .from(extractionCorrections)
+        .innerJoin(invoices, eq(invoices.id, extractionCorrections.invoiceId))
+        .where(createdSince)
+        .groupBy(extractionCorrections.field);
+
+    return CorrectionFieldEnum.map((field) => {
+        const extractedCount = extracted?.[field] ?? 0;
+        const correctedCount =
+            corrected.find((row) => row.field === field)?.correctedCount ?? 0;
+        return {
+            field,
+            extractedCount,
+            correctedCount,
+            accuracy: extractedCount
+                ? Math.max(0, 1 - correctedCount / extractedCount)
+                : null,
+        };
+    });
+};
@@ -0,0 +1,30 @@
+import { desc, eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { AI_CORRECTION_CONSTANTS } from "@/schema/aiSchema";
+import {
+    extractionCorrections,
+    type ExtractionCorrection,
+} from "@/schema/aiTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { db } from "@/lib/database";
+
+/**
+ * Lists an owner's most recent extraction corrections
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the corrections
+ * @returns Up to MAX_CORRECTIONS_LOADED corrections, newest first
+ * @throws AccessDeniedError if the caller cannot view the owner's data
+ */
+export const listExtractionCorrections = async (
+    ctx: AccessContext,
+    ownerId: string,
+): Promise<ExtractionCorrection[]> => {
+    await assertUserAccess(ctx, ownerId);
+
+    return db
+        .select()
+        .from(extractionCorrections)
+        .where(eq(extractionCorrections.userId, ownerId))
+        .orderBy(desc(extractionCorrections.createdAt))
+        .limit(AI_CORRECTION_CONSTANTS.MAX_CORRECTIONS_LOADED);
+};
@@ -0,0 +1,44 @@
+import { and, eq, gte, sql } from "drizzle-orm";
+import { aiUsageStatsColumns, toAIUsageStats } from "@/dal/ai/getAIUsageStats";
+import { type AIUsageStats } from "@/schema/aiSchema";
+import { aiUsageRecords, type AIUsageRecord } from "@/schema/aiTables";
+import {
+    insertAIUsageRecordSchema,
+    type CreateAIUsageRecordData,
+} from "@/schema/aiQueries";
+import { db } from "@/lib/database";
+
+/**
+ * Records a PENDING usage record and reads the user's usage since periodStart
+ * (including it) in one batch. A per-user advisory lock held until the batch
+ * commits serialises concurrent reservations, so the returned usage counts
+ * every reservation made before this one
+ * @param data - Usage record data (outcome PENDING)
+ * @param periodStart - Start of the quota period
+ * @returns Created record and the period's usage including it
+ * @throws Error if database insert fails
+ */
+export const reserveAIUsageRecord = async (
+    data: CreateAIUsageRecordData,
+    periodStart: Date,
+): Promise<{ record: AIUsageRecord; usage: AIUsageStats }> => {
+    const validatedData = insertAIUsageRecordSchema.parse(data);
+
+    const [, [record], [usage]] = await db.batch([
+        db.execute(
+            sql`select pg_advisory_xact_lock(hashtext(${validatedData.userId}))`,
+        ),
+        db.insert(aiUsageRecords).values(validatedData).returning(),
+        db
+            .select(aiUsageStatsColumns)
+            .from(aiUsageRecords)
+            .where(
+                and(
+                    eq(aiUsageRecords.userId, validatedData.userId),
+                    gte(aiUsageRecords.createdAt, periodStart),
+                ),
+            ),
+    ]);
+
+    return { record, usage: toAIUsageStats(usage) };
+};
@@ -0,0 +1,37 @@
+import { eq } from "drizzle-orm";
+import { aiUsageRecords, type AIUsageRecord } from "@/schema/aiTables";
+import { type UpdateAIUsageRecordData } from "@/schema/aiQueries";
+import { NotFoundError } from "@/utils/core/error";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Records the outcome, tokens and latency of a reserved AI extraction
+ * @param id - Usage record ID from reserveAIUsageRecord
+ * @param data - Fields to update
+ * @returns Updated usage record
+ * @throws NotFoundError if usage record not found
+ */
+export const updateAIUsageRecord = async (
+    id: string,
+    data: UpdateAIUsageRecordData,
+): Promise<AIUsageRecord> => {
+    const [record] = await db
+        .update(aiUsageRecords)
+        .set(data)
+        .where(eq(aiUsageRecords.id, id))
+        .returning();
+    if (!record) {
+        throw new NotFoundError(`AI usage record with ID ${id} not found`);
+    }
+
+    logInfo("AI usage recorded", {
+        userId: record.userId,
+        provider: record.provider,
+        outcome: record.outcome,
+        totalTokens: record.totalTokens,
+        latencyMs: record.latencyMs,
+    });
+
+    return record;
+};
@@ -1,7 +1,13 @@
-import { count, sum, avg, desc } from "drizzle-orm";
-import { invoices } from "@/schema/invoiceTables";
+import { count, sum, avg, desc, eq, sql, type SQL } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import {
+    type AccessContext,
+    type AccessScopeTarget,
+} from "@/schema/authSchema";
+import { customCategories, invoices } from "@/schema/invoiceTables";
 import {
     INVOICE_CATEGORIES,
+    INVOICE_CONSTANTS,
     type InvoiceCategory,
 } from "@/schema/invoiceSchema";
 import {
@@ -15,16 +21,28 @@ import { db } from "@/lib/database";
 type CategoryTotals = {
     totalInvoices: number;
     totalAmount: number;
+    totalBusinessAmount: number;
 };
 
+// Invoice total scaled by its business-use percentage (null = 100%)
+const businessAmount = sql<number>`${invoices.totalAmount} * coalesce(${invoices.businessUsePercentage}, ${INVOICE_CONSTANTS.FULL_BUSINESS_USE_PERCENTAGE}) / 100`;
+
 /**
  * Gets comprehensive category statistics with detailed breakdown
- * Includes count, total amount, average amount, and category metadata
+ * Includes count, total amount, average amount, business-use amount, and category metadata
+ * Custom categories are reported on their own, separate from their parent category
+ * @param ctx - Caller access context (session user ID and role)
+ * @param target - Owner to aggregate; defaults to the current workspace, ALL_USERS_SCOPE for admins
  * @returns Category statistics data
+ * @throws AccessDeniedError if the caller cannot read the requested scope
  * @throws Error if database query fails
  */
-export const getCategoryStats = async (): Promise<CategoryStatsData> => {
-    const rawCategoryStats = await getCategoryRawStats();
+export const getCategoryStats = async (
+    ctx: AccessContext,
+    target?: AccessScopeTarget,
+): Promise<CategoryStatsData> => {
+    const ownerScope = await getInvoiceOwnerScope(ctx, target);
+    const rawCategoryStats = await getCategoryRawStats(ownerScope);
     const enrichedStats = enrichCategoryData(rawCategoryStats);
     const statsWithPercentage = calculateCategoryPercentages(enrichedStats);
     const totals = calculateCategoryTotals(statsWithPercentage);
@@ -34,26 +52,47 @@ export const getCategoryStats = async (): Promise<CategoryStatsData> => {
         totalCategories: statsWithPercentage.length,
         totalInvoices: totals.totalInvoices,
         totalAmount: totals.totalAmount,
+        totalBusinessAmount: totals.totalBusinessAmount,
     };
 };
 
 /**
  * Get raw category statistics from database
  */
-const getCategoryRawStats = async (): Promise<RawCategoryStats[]> =>
+const getCategoryRawStats = async (
+    ownerScope: SQL | undefined,
+): Promise<RawCategoryStats[]> =>
     await db
         .select({
             category: invoices.category,
+            customCategoryId: invoices.customCategoryId,
+            custom: {
+                name: customCategories.name,
+                description: customCategories.description,
+                color: customCategories.color,
+                keywords: customCategories.keywords,
+            },
             count: count(),
             totalAmount: sum(invoices.totalAmount),
             averageAmount: avg(invoices.totalAmount),
+            businessAmount: sum(businessAmount),
         })
         .from(invoices)
-        .groupBy(invoices.category)
+        .leftJoin(
+            customCategories,
+            eq(invoices.customCategoryId, customCategories.id),
+        )
+        .where(ownerScope)
+        .groupBy(
+            invoices.category,
+            invoices.customCategoryId,
+            customCategories.id,
+        )
         .orderBy(desc(count()));
 
 /**
- * Enrich category data with metadata from INVOICE_CATEGORIES
+ * Enrich category data with metadata from INVOICE_CATEGORIES, or from the
+ * custom category
  */
 const enrichCategoryData = (
     categoryStats: RawCategoryStats[],
@@ -67,9 +106,16 @@ const enrichCategoryData = (
             const categoryInfo = INVOICE_CATEGORIES[stat.category];
             return {
                 ...(categoryInfo || INVOICE_CATEGORIES.OTHER),
+                ...(stat.custom && {
+                    ...stat.custom,
+                    description: stat.custom.description ?? "",
+                }),
+                category: stat.category,
+                customCategoryId: stat.custom ? stat.customCategoryId : null,
                 count: stat.count,
                 totalAmount: parseFloat(stat.totalAmount || "0"),
                 averageAmount: parseFloat(stat.averageAmount || "0"),
+                businessAmount: parseFloat(stat.businessAmount || "0"),
                 percentage: 0,
             };
         });
@@ -101,4 +147,8 @@ const calculateCategoryTotals = (
         (sum, stat) => sum + stat.totalAmount,
         0,
     ),
+    totalBusinessAmount: statsWithPercentage.reduce(
+        (sum, stat) => sum + stat.businessAmount,
+        0,
+    ),
 });
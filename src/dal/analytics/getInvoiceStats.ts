@@ -1,22 +1,40 @@
-import { count, desc, sum } from "drizzle-orm";
-import { invoices } from "@/schema/invoiceTables";
+import { count, desc, eq, sql, sum, type SQL } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import {
+    type AccessContext,
+    type AccessScopeTarget,
+} from "@/schema/authSchema";
+import { INVOICE_CONSTANTS } from "@/schema/invoiceSchema";
+import { invoices, suppliers } from "@/schema/invoiceTables";
 import { type InvoiceStats } from "@/schema/invoiceQueries";
 import { db } from "@/lib/database";
 
+// Invoice total scaled by its business-use percentage (null = 100%)
+const businessAmount = sql<number>`${invoices.totalAmount} * coalesce(${invoices.businessUsePercentage}, ${INVOICE_CONSTANTS.FULL_BUSINESS_USE_PERCENTAGE}) / 100`;
+
 /**
  * Generates comprehensive invoice statistics and analytics
- * Includes total amounts, counts, category breakdown, monthly trends, and top suppliers
+ * Includes total and business-use amounts, counts, category breakdown, monthly trends, and top suppliers
+ * @param ctx - Caller access context (session user ID and role)
+ * @param target - Owner to aggregate; defaults to the current workspace, ALL_USERS_SCOPE for admins
  * @returns Invoice statistics data
+ * @throws AccessDeniedError if the caller cannot read the requested scope
  * @throws Error if database query fails
  */
-export const getInvoiceStats = async (): Promise<InvoiceStats> => {
-    const { totalAmount, totalCount } = await getTotalInvoiceStats();
-    const categoryBreakdown = await getCategoryBreakdown();
-    const monthlyTrend = await getMonthlyTrend();
-    const topSuppliers = await getTopSuppliers();
+export const getInvoiceStats = async (
+    ctx: AccessContext,
+    target?: AccessScopeTarget,
+): Promise<InvoiceStats> => {
+    const ownerScope = await getInvoiceOwnerScope(ctx, target);
+    const { totalAmount, businessAmount, totalCount } =
+        await getTotalInvoiceStats(ownerScope);
+    const categoryBreakdown = await getCategoryBreakdown(ownerScope);
+    const monthlyTrend = await getMonthlyTrend(ownerScope);
+    const topSuppliers = await getTopSuppliers(ownerScope);
 
     return {
         totalAmount,
+        businessAmount,
         totalCount,
         categoryBreakdown,
         monthlyTrend,
@@ -25,32 +43,40 @@ export const getInvoiceStats = async (): Promise<InvoiceStats> => {
 };
 
 /**
- * Get total invoice count and amount
+ * Get total invoice count, amount and business-use amount
  */
-const getTotalInvoiceStats = async () => {
+const getTotalInvoiceStats = async (ownerScope: SQL | undefined) => {
     const [{ count: totalCount }] = await db
         .select({ count: count() })
-        .from(invoices);
+        .from(invoices)
+        .where(ownerScope);
 
     const totalAmountResult = await db
-        .select({ sum: sum(invoices.totalAmount) })
-        .from(invoices);
+        .select({
+            sum: sum(invoices.totalAmount),
+            businessSum: sum(businessAmount),
+        })
+        .from(invoices)
+        .where(ownerScope);
     const totalAmount = parseFloat(totalAmountResult[0]?.sum || "0");
+    const businessTotal = parseFloat(totalAmountResult[0]?.businessSum || "0");
 
-    return { totalCount, totalAmount };
+    return { totalCount, totalAmount, businessAmount: businessTotal };
 };
 
 /**
  * Get category breakdown statistics
  */
-const getCategoryBreakdown = async () => {
+const getCategoryBreakdown = async (ownerScope: SQL | undefined) => {
     const categoryStats = await db
         .select({
             category: invoices.category,
             count: count(),
             amount: sum(invoices.totalAmount),
+            businessAmount: sum(businessAmount),
         })
         .from(invoices)
+        .where(ownerScope)
         .groupBy(invoices.category);
 
     return categoryStats.reduce(
@@ -59,6 +85,7 @@ const getCategoryBreakdown = async () => {
                 acc[stat.category] = {
                     count: stat.count,
                     amount: parseFloat(stat.amount || "0"),
+                    businessAmount: parseFloat(stat.businessAmount || "0"),
                 };
             }
             return acc;
@@ -70,7 +97,7 @@ const getCategoryBreakdown = async () => {
 /**
  * Get monthly trend statistics
  */
-const getMonthlyTrend = async () => {
+const getMonthlyTrend = async (ownerScope: SQL | undefined) => {
     const monthlyStats = await db
         .select({
             month: invoices.invoiceDate,
@@ -78,6 +105,7 @@ const getMonthlyTrend = async () => {
             amount: sum(invoices.totalAmount),
         })
         .from(invoices)
+        .where(ownerScope)
         .groupBy(invoices.invoiceDate)
         .orderBy(invoices.invoiceDate);
 
@@ -90,22 +118,31 @@ const getMonthlyTrend = async () => {
 
 /**
  * Get top 10 suppliers by invoice count
+ * Invoices linked to a directory supplier are grouped by supplierId under its
+ * name; unlinked invoices fall back to the printed supplier name
  */
-const getTopSuppliers = async () => {
+const getTopSuppliers = async (ownerScope: SQL | undefined) => {
+    const supplierName = sql<
+        string | null
+    >`coalesce(${suppliers.name}, ${invoices.supplierName})`;
     const supplierStats = await db
         .select({
-            name: invoices.supplierName,
+            supplierId: invoices.supplierId,
+            name: supplierName,
             count: count(),
             amount: sum(invoices.totalAmount),
         })
         .from(invoices)
-        .groupBy(invoices.supplierName)
+        .leftJoin(suppliers, eq(invoices.supplierId, suppliers.id))
+        .where(ownerScope)
+        .groupBy(invoices.supplierId, supplierName)
         .orderBy(desc(count()))
         .limit(10);
 
     return supplierStats
         .filter((stat) => stat.name)
         .map((stat) => ({
+            supplierId: stat.supplierId,
             name: stat.name!,
             amount: parseFloat(stat.amount || "0"),
             count: stat.count,
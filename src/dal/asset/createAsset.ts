@@ -0,0 +1,38 @@
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { insertAssetSchema, type CreateAssetData } from "@/schema/assetQueries";
+import { assets, type Asset } from "@/schema/assetTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Adds an asset to an owner's depreciating asset register
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the asset register
+ * @param data - Asset details, depreciation method and optional invoice link
+ * @returns Created asset
+ * @throws AccessDeniedError if the caller cannot edit the owner's data
+ * @throws Error if database insert fails
+ */
+export const createAsset = async (
+    ctx: AccessContext,
+    ownerId: string,
+    data: CreateAssetData,
+): Promise<Asset> => {
+    await assertUserAccess(ctx, ownerId, "EDIT");
+    const validatedData = insertAssetSchema.parse({
+        ...data,
+        userId: ownerId,
+    });
+
+    const [asset] = await db.insert(assets).values(validatedData).returning();
+
+    logInfo("Asset created", {
+        assetId: asset.id,
+        userId: ownerId,
+        invoiceId: asset.invoiceId,
+        method: asset.method,
+    });
+
+    return asset;
+};
@@ -0,0 +1,23 @@
+import { eq } from "drizzle-orm";
+import { getAssetById } from "@/dal/asset/getAssetById";
+import { assets } from "@/schema/assetTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Removes an asset from the register; the linked invoice is kept
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Asset ID
+ * @throws NotFoundError if asset not found
+ * @throws AccessDeniedError if the caller cannot edit the asset owner's data
+ */
+export const deleteAsset = async (
+    ctx: AccessContext,
+    id: string,
+): Promise<void> => {
+    const asset = await getAssetById(ctx, id, "EDIT");
+    await db.delete(assets).where(eq(assets.id, id));
+
+    logInfo("Asset deleted", { assetId: id, userId: asset.userId });
+};
@@ -0,0 +1,34 @@
+import { eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { assets, type Asset } from "@/schema/assetTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { type DelegationPermission } from "@/schema/userSchema";
+import { NotFoundError } from "@/utils/core/error";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves an asset from the register by its ID
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Asset ID
+ * @param permission - Permission required on the owner's data (VIEW, EDIT)
+ * @returns Asset
+ * @throws NotFoundError if asset not found
+ * @throws AccessDeniedError if the caller cannot access the asset owner
+ */
+export const getAssetById = async (
+    ctx: AccessContext,
+    id: string,
+    permission: DelegationPermission = "VIEW",
+): Promise<Asset> => {
+    const [asset] = await db
+        .select()
+        .from(assets)
+        .where(eq(assets.id, id))
+        .limit(1);
+    if (!asset) {
+        throw new NotFoundError(`Asset with ID ${id} not found`);
+    }
+
+    await assertUserAccess(ctx, asset.userId, permission);
+    return asset;
+};
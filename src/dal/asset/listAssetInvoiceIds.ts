@@ -0,0 +1,26 @@
+import { and, eq, isNotNull } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { assets } from "@/schema/assetTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { db } from "@/lib/database";
+
+/**
+ * IDs of an owner's invoices that purchased an asset in the register
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the asset register
+ * @returns Distinct invoice IDs linked to assets
+ * @throws AccessDeniedError if the caller cannot view the owner's data
+ */
+export const listAssetInvoiceIds = async (
+    ctx: AccessContext,
+    ownerId: string,
+): Promise<string[]> => {
+    await assertUserAccess(ctx, ownerId);
+
+    const rows = await db
+        .selectDistinct({ invoiceId: assets.invoiceId })
+        .from(assets)
+        .where(and(eq(assets.userId, ownerId), isNotNull(assets.invoiceId)));
+
+    return rows.flatMap(({ invoiceId }) => (invoiceId ? [invoiceId] : []));
+};
@@ -0,0 +1,25 @@
+import { asc, eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { assets, type Asset } from "@/schema/assetTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { db } from "@/lib/database";
+
+/**
+ * Lists an owner's depreciating asset register
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the asset register
+ * @returns Assets, earliest start date first
+ * @throws AccessDeniedError if the caller cannot view the owner's data
+ */
+export const listAssets = async (
+    ctx: AccessContext,
+    ownerId: string,
+): Promise<Asset[]> => {
+    await assertUserAccess(ctx, ownerId);
+
+    return db
+        .select()
+        .from(assets)
+        .where(eq(assets.userId, ownerId))
+        .orderBy(asc(assets.startDate), asc(assets.id));
+};
@@ -0,0 +1,38 @@
+import { eq } from "drizzle-orm";
+import { getAssetById } from "@/dal/asset/getAssetById";
+import { type UpdateAssetData } from "@/schema/assetQueries";
+import { assets, type Asset } from "@/schema/assetTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Updates an asset in the register
+ * Automatically updates the updatedAt timestamp
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Asset ID
+ * @param data - Fields to update
+ * @returns Updated asset
+ * @throws NotFoundError if asset not found
+ * @throws AccessDeniedError if the caller cannot edit the asset owner's data
+ */
+export const updateAsset = async (
+    ctx: AccessContext,
+    id: string,
+    data: UpdateAssetData,
+): Promise<Asset> => {
+    await getAssetById(ctx, id, "EDIT");
+
+    const [asset] = await db
+        .update(assets)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(assets.id, id))
+        .returning();
+
+    logInfo("Asset updated", {
+        assetId: id,
+        updatedFields: Object.keys(data),
+    });
+
+    return asset;
+};
@@ -0,0 +1,43 @@
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    insertCustomCategorySchema,
+    type CreateCustomCategoryData,
+} from "@/schema/categoryQueries";
+import { customCategories, type CustomCategory } from "@/schema/invoiceTables";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Creates a custom category for an owner
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the category
+ * @param data - Name, colour, description, keywords and parent category
+ * @returns Created custom category
+ * @throws AccessDeniedError if the caller cannot edit the owner's data
+ * @throws Error if database insert fails (including a duplicate name)
+ */
+export const createCustomCategory = async (
+    ctx: AccessContext,
+    ownerId: string,
+    data: CreateCustomCategoryData,
+): Promise<CustomCategory> => {
+    await assertUserAccess(ctx, ownerId, "EDIT");
+    const validatedData = insertCustomCategorySchema.parse({
+        ...data,
+        userId: ownerId,
+    });
+
+    const [category] = await db
+        .insert(customCategories)
+        .values(validatedData)
+        .returning();
+
+    logInfo("Custom category created", {
+        customCategoryId: category.id,
+        userId: ownerId,
+        parentCategory: category.parentCategory,
+    });
+
+    return category;
+};
@@ -0,0 +1,35 @@
+import { eq } from "drizzle-orm";
+import { getCustomCategoryById } from "@/dal/category/getCustomCategoryById";
+import { type AccessContext } from "@/schema/authSchema";
+import { customCategories, invoices } from "@/schema/invoiceTables";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Deletes a custom category; linked invoices fall back to its parent
+ * built-in category (customCategoryId and name cleared)
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Custom category ID
+ * @throws NotFoundError if category not found
+ * @throws AccessDeniedError if the caller cannot edit the category owner's data
+ */
+export const deleteCustomCategory = async (
+    ctx: AccessContext,
+    id: string,
+): Promise<void> => {
+    const category = await getCustomCategoryById(ctx, id, "EDIT");
+
+    // neon-http has no interactive transactions; a batch runs atomically
+    await db.batch([
+        db
+            .update(invoices)
+            .set({ customCategory: null, updatedAt: new Date() })
+            .where(eq(invoices.customCategoryId, id)),
+        db.delete(customCategories).where(eq(customCategories.id, id)),
+    ]);
+
+    logInfo("Custom category deleted", {
+        customCategoryId: id,
+        userId: category.userId,
+    });
+};
@@ -0,0 +1,34 @@
+import { eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import { customCategories, type CustomCategory } from "@/schema/invoiceTables";
+import { type DelegationPermission } from "@/schema/userSchema";
+import { NotFoundError } from "@/utils/core/error";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves a custom category by its ID
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Custom category ID
+ * @param permission - Permission required on the owner's data (VIEW, EDIT)
+ * @returns Custom category
+ * @throws NotFoundError if category not found
+ * @throws AccessDeniedError if the caller cannot access the category owner
+ */
+export const getCustomCategoryById = async (
+    ctx: AccessContext,
+    id: string,
+    permission: DelegationPermission = "VIEW",
+): Promise<CustomCategory> => {
+    const [category] = await db
+        .select()
+        .from(customCategories)
+        .where(eq(customCategories.id, id))
+        .limit(1);
+    if (!category) {
+        throw new NotFoundError(`Category with ID ${id} not found`);
+    }
+
+    await assertUserAccess(ctx, category.userId, permission);
+    return category;
+};
@@ -0,0 +1,25 @@
+import { asc, eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import { customCategories, type CustomCategory } from "@/schema/invoiceTables";
+import { db } from "@/lib/database";
+
+/**
+ * Lists an owner's custom categories
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the categories
+ * @returns Custom categories ordered by name
+ * @throws AccessDeniedError if the caller cannot view the owner's data
+ */
+export const listCustomCategories = async (
+    ctx: AccessContext,
+    ownerId: string,
+): Promise<CustomCategory[]> => {
+    await assertUserAccess(ctx, ownerId);
+
+    return db
+        .select()
+        .from(customCategories)
+        .where(eq(customCategories.userId, ownerId))
+        .orderBy(asc(customCategories.name));
+};
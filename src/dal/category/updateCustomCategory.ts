@@ -0,0 +1,61 @@
+import { eq } from "drizzle-orm";
+import { getCustomCategoryById } from "@/dal/category/getCustomCategoryById";
+import { type AccessContext } from "@/schema/authSchema";
+import { type UpdateCustomCategoryData } from "@/schema/categoryQueries";
+import {
+    customCategories,
+    invoices,
+    type CustomCategory,
+} from "@/schema/invoiceTables";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Updates a custom category
+ * Linked invoices take a new name or parent category in the same batch
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Custom category ID
+ * @param data - Fields to update
+ * @returns Updated custom category
+ * @throws NotFoundError if category not found
+ * @throws AccessDeniedError if the caller cannot edit the category owner's data
+ */
+export const updateCustomCategory = async (
+    ctx: AccessContext,
+    id: string,
+    data: UpdateCustomCategoryData,
+): Promise<CustomCategory> => {
+    const existing = await getCustomCategoryById(ctx, id, "EDIT");
+
+    // neon-http has no interactive transactions; a batch runs atomically
+    const updateCategory = db
+        .update(customCategories)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(customCategories.id, id))
+        .returning();
+    const [category] =
+        data.name !== undefined || data.parentCategory !== undefined
+            ? (
+                  await db.batch([
+                      updateCategory,
+                      db
+                          .update(invoices)
+                          .set({
+                              customCategory: data.name ?? existing.name,
+                              category:
+                                  data.parentCategory ??
+                                  existing.parentCategory,
+                              updatedAt: new Date(),
+                          })
+                          .where(eq(invoices.customCategoryId, id)),
+                  ])
+              )[0]
+            : await updateCategory;
+
+    logInfo("Custom category updated", {
+        customCategoryId: id,
+        updatedFields: Object.keys(data),
+    });
+
+    return category;
+};
@@ -0,0 +1,45 @@
+#!/usr/bin/env tsx
+
+// Load environment variables from .env file
+import { config } from "dotenv";
+config();
+import { getUsersByRole } from "@/dal/user/getUserByRole";
+import {
+    backfillInvoiceSuppliers,
+    migrateLegacyBusinessUseDefaults,
+} from "@/services/supplier/backfill";
+import { logError, logInfo } from "@/utils/sys/log";
+
+/**
+ * Backfill the supplier directory for existing data
+ *
+ * Steps (run once after db:push adds the suppliers table):
+ * 1. Move legacy supplier_business_use_defaults rows onto directory entries
+ * 2. Link every invoice without a supplierId to its directory entry
+ *
+ * Runs as the first admin user; safe to run again
+ */
+export async function backfillSuppliers() {
+    const [admin] = await getUsersByRole("ADMIN");
+    if (!admin) {
+        throw new Error("No admin user found; run db:seed first");
+    }
+    const ctx = { id: admin.user.id, role: admin.user.role };
+
+    logInfo("🔄 Starting supplier backfill...");
+    const migrated = await migrateLegacyBusinessUseDefaults(ctx);
+    const linked = await backfillInvoiceSuppliers(ctx);
+    logInfo(
+        `🎉 Supplier backfill completed: ${migrated} business-use defaults migrated, ${linked} invoices linked`,
+    );
+}
+
+// Run backfill if this file is executed directly
+if (require.main === module) {
+    backfillSuppliers()
+        .then(() => process.exit(0))
+        .catch((error) => {
+            logError("❌ Error backfilling suppliers:", error);
+            process.exit(1);
+        });
+}
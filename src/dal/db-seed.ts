@@ -9,11 +9,22 @@ import { UI_CONSTANTS } from "@/schema/uiSchema";
 import { logError, logInfo } from "@/utils/sys/log";
 import { userProfiles, users } from "../schema/userTables";
 import { env } from "../utils/sys/env"; //THIS IS SEPARATE FROM THE db.ts FILE, SEED IS INDEPENDENT
+import * as aiTables from "../schema/aiTables";
+import * as assetTables from "../schema/assetTables";
+import * as exportTables from "../schema/exportTables";
 import * as invoiceTables from "../schema/invoiceTables";
+import * as ruleTables from "../schema/ruleTables";
 import * as userTables from "../schema/userTables";
 
 // Combine all table schemas
-const schema = { ...userTables, ...invoiceTables };
+const schema = {
+    ...userTables,
+    ...invoiceTables,
+    ...aiTables,
+    ...exportTables,
+    ...assetTables,
+    ...ruleTables,
+};
 
 // Create the connection
 const sql = neon(env.DATABASE_URL);
@@ -0,0 +1,72 @@
+import { and, eq } from "drizzle-orm";
+import { accountantClients, type AccountantClient } from "@/schema/userTables";
+import { type DelegationPermission } from "@/schema/userSchema";
+import { isDelegationInviteExpired } from "@/utils/core/auth";
+import { AppError } from "@/utils/core/error";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Accepts a pending delegation invite on behalf of the invited client
+ * The client may narrow the requested permissions when accepting
+ * @param clientId - Signed-in client user ID (must match the invite)
+ * @param inviteToken - Token issued by createDelegationInvite
+ * @param permissions - Optional subset of the requested permissions to grant
+ * @returns Activated delegation
+ * @throws AppError if the invite is unknown, used, for another user, or expired
+ */
+export const acceptDelegationInvite = async (
+    clientId: string,
+    inviteToken: string,
+    permissions?: DelegationPermission[],
+): Promise<AccountantClient> => {
+    const [invite] = await db
+        .select()
+        .from(accountantClients)
+        .where(
+            and(
+                eq(accountantClients.inviteToken, inviteToken),
+                eq(accountantClients.clientId, clientId),
+                eq(accountantClients.status, "PENDING"),
+            ),
+        )
+        .limit(1);
+
+    if (!invite) {
+        throw new AppError("DELEGATION_INVITE_INVALID", 404);
+    }
+    if (isDelegationInviteExpired(invite)) {
+        throw new AppError("DELEGATION_INVITE_EXPIRED", 410);
+    }
+
+    const grantedPermissions = permissions
+        ? invite.permissions.filter((permission) =>
+              permissions.includes(permission),
+          )
+        : invite.permissions;
+    if (grantedPermissions.length === 0) {
+        throw new AppError("VALIDATION_FAILED", 422);
+    }
+
+    const [delegation] = await db
+        .update(accountantClients)
+        .set({
+            status: "ACTIVE",
+            permissions: grantedPermissions,
+            inviteToken: null,
+            inviteExpiresAt: null,
+            acceptedAt: new Date(),
+            updatedAt: new Date(),
+        })
+        .where(eq(accountantClients.id, invite.id))
+        .returning();
+
+    logInfo(`Delegation invite accepted successfully`, {
+        delegationId: delegation.id,
+        accountantId: delegation.accountantId,
+        clientId,
+        permissions: grantedPermissions,
+    });
+
+    return delegation;
+};
@@ -0,0 +1,70 @@
+import { accountantClients, type AccountantClient } from "@/schema/userTables";
+import { insertAccountantClientSchema } from "@/schema/userQueries";
+import { AUTH_CONSTANTS } from "@/schema/authSchema";
+import { type DelegationPermission, USER_CONSTANTS } from "@/schema/userSchema";
+import { generateSecureToken } from "@/utils/core/auth";
+import { AppError } from "@/utils/core/error";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Creates (or re-issues) a pending invitation from an accountant to a client
+ * An existing delegation for the same pair is reset to PENDING with a new token,
+ * so a revoked relationship can be re-established
+ * @param accountantId - Inviting accountant user ID
+ * @param clientId - Invited client user ID
+ * @param permissions - Permissions requested for the client's workspace
+ * @returns Pending delegation including the invite token
+ * @throws AppError if the accountant invites themselves
+ */
+export const createDelegationInvite = async (
+    accountantId: string,
+    clientId: string,
+    permissions: DelegationPermission[],
+): Promise<AccountantClient> => {
+    if (accountantId === clientId) {
+        throw new AppError("DELEGATION_SELF_INVITE", 400);
+    }
+
+    const inviteData = insertAccountantClientSchema.parse({
+        accountantId,
+        clientId,
+        permissions,
+        status: "PENDING",
+        inviteToken: generateSecureToken(),
+        inviteExpiresAt: new Date(
+            Date.now() +
+                USER_CONSTANTS.DELEGATION_INVITE_EXPIRY_DAYS *
+                    AUTH_CONSTANTS.ONE_DAY_MS,
+        ),
+    });
+
+    const [delegation] = await db
+        .insert(accountantClients)
+        .values(inviteData)
+        .onConflictDoUpdate({
+            target: [
+                accountantClients.accountantId,
+                accountantClients.clientId,
+            ],
+            set: {
+                status: inviteData.status,
+                permissions: inviteData.permissions,
+                inviteToken: inviteData.inviteToken,
+                inviteExpiresAt: inviteData.inviteExpiresAt,
+                acceptedAt: null,
+                revokedAt: null,
+                updatedAt: new Date(),
+            },
+        })
+        .returning();
+
+    logInfo(`Delegation invite created successfully`, {
+        delegationId: delegation.id,
+        accountantId,
+        clientId,
+        permissions,
+    });
+
+    return delegation;
+};
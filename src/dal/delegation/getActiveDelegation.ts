@@ -0,0 +1,32 @@
+import { and, eq } from "drizzle-orm";
+import { accountantClients, type AccountantClient } from "@/schema/userTables";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves the active delegation between an accountant and a client
+ * @param accountantId - Accountant user ID
+ * @param clientId - Client user ID
+ * @returns Active delegation, or null if none exists
+ */
+export const getActiveDelegation = async (
+    accountantId: string,
+    clientId: string,
+): Promise<AccountantClient | null> => {
+    const result = await db
+        .select()
+        .from(accountantClients)
+        .where(
+            and(
+                eq(accountantClients.accountantId, accountantId),
+                eq(accountantClients.clientId, clientId),
+                eq(accountantClients.status, "ACTIVE"),
+            ),
+        )
+        .limit(1);
+
+    if (result.length === 0) {
+        return null;
+    }
+
+    return result[0];
+};
@@ -0,0 +1,21 @@
+import { listClientWorkspaces } from "@/dal/delegation/listClientWorkspaces";
+import { type ClientWorkspace } from "@/schema/userQueries";
+import { AccessDeniedError } from "@/utils/core/error";
+
+/**
+ * Resolves a single client workspace for an accountant switching into it
+ * @param accountantId - Accountant user ID
+ * @param clientId - Client user ID to switch to
+ * @returns Client workspace with granted permissions
+ * @throws AccessDeniedError if there is no active delegation for the pair
+ */
+export const getClientWorkspace = async (
+    accountantId: string,
+    clientId: string,
+): Promise<ClientWorkspace> => {
+    const [workspace] = await listClientWorkspaces(accountantId, clientId);
+    if (!workspace) {
+        throw new AccessDeniedError(clientId);
+    }
+    return workspace;
+};
@@ -0,0 +1,42 @@
+import { and, asc, eq } from "drizzle-orm";
+import { accountantClients, users } from "@/schema/userTables";
+import { type ClientWorkspace } from "@/schema/userQueries";
+import { db } from "@/lib/database";
+
+/**
+ * Lists the client workspaces an accountant can switch into
+ * Only ACTIVE delegations are returned, ordered by client name
+ * @param accountantId - Accountant user ID
+ * @param clientId - Optional client ID to restrict the result to one workspace
+ * @returns Client workspaces with granted permissions
+ */
+export const listClientWorkspaces = async (
+    accountantId: string,
+    clientId?: string,
+): Promise<ClientWorkspace[]> => {
+    const whereConditions = [
+        eq(accountantClients.accountantId, accountantId),
+        eq(accountantClients.status, "ACTIVE"),
+    ];
+    if (clientId) {
+        whereConditions.push(eq(accountantClients.clientId, clientId));
+    }
+
+    const result = await db
+        .select({
+            delegationId: accountantClients.id,
+            permissions: accountantClients.permissions,
+            client: {
+                id: users.id,
+                name: users.name,
+                email: users.email,
+                image: users.image,
+            },
+        })
+        .from(accountantClients)
+        .innerJoin(users, eq(accountantClients.clientId, users.id))
+        .where(and(...whereConditions))
+        .orderBy(asc(users.name));
+
+    return result;
+};
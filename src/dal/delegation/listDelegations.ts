@@ -0,0 +1,60 @@
+import { desc, eq, or } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { accountantClients, users } from "@/schema/userTables";
+import {
+    type DelegationListResult,
+    type DelegationWithParties,
+} from "@/schema/userQueries";
+import { db } from "@/lib/database";
+
+/**
+ * Lists every delegation the user is part of, split by their side of it
+ * Includes pending invites and revoked history with both parties' public details
+ * @param userId - User ID (accountant and/or client)
+ * @returns Delegations where the user is the accountant and where they are the client
+ */
+export const listDelegations = async (
+    userId: string,
+): Promise<DelegationListResult> => {
+    const accountants = alias(users, "accountant");
+    const clients = alias(users, "client");
+
+    const result: DelegationWithParties[] = await db
+        .select({
+            delegation: accountantClients,
+            accountant: {
+                id: accountants.id,
+                name: accountants.name,
+                email: accountants.email,
+                image: accountants.image,
+            },
+            client: {
+                id: clients.id,
+                name: clients.name,
+                email: clients.email,
+                image: clients.image,
+            },
+        })
+        .from(accountantClients)
+        .innerJoin(
+            accountants,
+            eq(accountantClients.accountantId, accountants.id),
+        )
+        .innerJoin(clients, eq(accountantClients.clientId, clients.id))
+        .where(
+            or(
+                eq(accountantClients.accountantId, userId),
+                eq(accountantClients.clientId, userId),
+            ),
+        )
+        .orderBy(desc(accountantClients.updatedAt));
+
+    return {
+        asAccountant: result.filter(
+            ({ delegation }) => delegation.accountantId === userId,
+        ),
+        asClient: result.filter(
+            ({ delegation }) => delegation.clientId === userId,
+        ),
+    };
+};
@@ -0,0 +1,49 @@
+import { and, eq, or } from "drizzle-orm";
+import { accountantClients, type AccountantClient } from "@/schema/userTables";
+import { NotFoundError } from "@/utils/core/error";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Revokes a pending or active delegation
+ * Either the accountant or the client can revoke; the invite token is cleared
+ * @param userId - Signed-in user ID (accountant or client on the delegation)
+ * @param delegationId - Delegation ID to revoke
+ * @returns Revoked delegation
+ * @throws NotFoundError if the delegation doesn't exist or isn't the user's
+ */
+export const revokeDelegation = async (
+    userId: string,
+    delegationId: string,
+): Promise<AccountantClient> => {
+    const [delegation] = await db
+        .update(accountantClients)
+        .set({
+            status: "REVOKED",
+            inviteToken: null,
+            inviteExpiresAt: null,
+            revokedAt: new Date(),
+            updatedAt: new Date(),
+        })
+        .where(
+            and(
+                eq(accountantClients.id, delegationId),
+                or(
+                    eq(accountantClients.accountantId, userId),
+                    eq(accountantClients.clientId, userId),
+                ),
+            ),
+        )
+        .returning();
+
+    if (!delegation) {
+        throw new NotFoundError(`Delegation with ID ${delegationId} not found`);
+    }
+
+    logInfo(`Delegation revoked successfully`, {
+        delegationId,
+        revokedBy: userId,
+    });
+
+    return delegation;
+};
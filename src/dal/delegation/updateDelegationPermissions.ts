@@ -0,0 +1,48 @@
+import { and, eq, ne } from "drizzle-orm";
+import { accountantClients, type AccountantClient } from "@/schema/userTables";
+import { type DelegationPermission } from "@/schema/userSchema";
+import { NotFoundError } from "@/utils/core/error";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Updates the permissions a client grants to their accountant
+ * Only the client on the delegation can change permissions
+ * @param clientId - Signed-in client user ID
+ * @param delegationId - Delegation ID to update
+ * @param permissions - New permission set (VIEW, EDIT, EXPORT)
+ * @returns Updated delegation
+ * @throws NotFoundError if the delegation doesn't exist, is revoked, or isn't the client's
+ */
+export const updateDelegationPermissions = async (
+    clientId: string,
+    delegationId: string,
+    permissions: DelegationPermission[],
+): Promise<AccountantClient> => {
+    const [delegation] = await db
+        .update(accountantClients)
+        .set({
+            permissions,
+            updatedAt: new Date(),
+        })
+        .where(
+            and(
+                eq(accountantClients.id, delegationId),
+                eq(accountantClients.clientId, clientId),
+                ne(accountantClients.status, "REVOKED"),
+            ),
+        )
+        .returning();
+
+    if (!delegation) {
+        throw new NotFoundError(`Delegation with ID ${delegationId} not found`);
+    }
+
+    logInfo(`Delegation permissions updated successfully`, {
+        delegationId,
+        clientId,
+        permissions,
+    });
+
+    return delegation;
+};
@@ -0,0 +1,36 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { exportJobs, type ExportJobRecord } from "@/schema/exportTables";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Claims the oldest PENDING export job for the export worker
+ * The job is marked PROCESSING in the same statement, and rows locked by
+ * another worker are skipped, so each job is claimed once
+ * @returns Claimed job, or null if none is waiting
+ */
+export const claimNextExportJob = async (): Promise<ExportJobRecord | null> => {
+    const [job] = await db
+        .update(exportJobs)
+        .set({ status: "PROCESSING", startedAt: new Date(), progress: 10 })
+        .where(
+            and(
+                eq(exportJobs.status, "PENDING"),
+                inArray(
+                    exportJobs.id,
+                    db
+                        .select({ id: exportJobs.id })
+                        .from(exportJobs)
+                        .where(eq(exportJobs.status, "PENDING"))
+                        .orderBy(asc(exportJobs.createdAt))
+                        .limit(1)
+                        .for("update", { skipLocked: true }),
+                ),
+            ),
+        )
+        .returning();
+    if (!job) return null;
+
+    logInfo("Export job claimed", { jobId: job.id });
+    return job;
+};
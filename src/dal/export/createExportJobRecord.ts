@@ -0,0 +1,40 @@
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import { exportJobs, type ExportJobRecord } from "@/schema/exportTables";
+import {
+    insertExportJobSchema,
+    type CreateExportJobData,
+} from "@/schema/exportQueries";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Creates a PENDING export job for the owner's invoices
+ * @param ctx - Caller access context (session user ID and role)
+ * @param data - Owner, requester, file name, export options and expiry
+ * @returns Created export job
+ * @throws AccessDeniedError if the caller cannot export the owner's data
+ * @throws Error if database insert fails
+ */
+export const createExportJobRecord = async (
+    ctx: AccessContext,
+    data: CreateExportJobData,
+): Promise<ExportJobRecord> => {
+    await assertUserAccess(ctx, data.userId, "EXPORT");
+    const validatedData = insertExportJobSchema.parse({
+        ...data,
+        format: data.options.format,
+        status: "PENDING",
+    });
+
+    const [job] = await db.insert(exportJobs).values(validatedData).returning();
+
+    logInfo("Export job created", {
+        jobId: job.id,
+        userId: job.userId,
+        requestedBy: job.requestedBy,
+        format: job.format,
+    });
+
+    return job;
+};
@@ -0,0 +1,59 @@
+import { and, eq } from "drizzle-orm";
+import {
+    exportTemplates,
+    type ExportTemplateRecord,
+} from "@/schema/exportTables";
+import {
+    insertExportTemplateSchema,
+    type CreateExportTemplateData,
+} from "@/schema/exportQueries";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Saves an export template for a user
+ * A new default template replaces the user's previous default in the same batch
+ * @param userId - Signed-in user ID (template owner)
+ * @param data - Template name, description, export options and default flag
+ * @returns Created export template
+ * @throws Error if database insert fails
+ */
+export const createExportTemplateRecord = async (
+    userId: string,
+    data: CreateExportTemplateData,
+): Promise<ExportTemplateRecord> => {
+    const validatedData = insertExportTemplateSchema.parse({
+        ...data,
+        userId,
+    });
+
+    // neon-http has no interactive transactions; a batch runs atomically
+    const insertTemplate = db
+        .insert(exportTemplates)
+        .values(validatedData)
+        .returning();
+    const [template] = validatedData.isDefault
+        ? (
+              await db.batch([
+                  db
+                      .update(exportTemplates)
+                      .set({ isDefault: false, updatedAt: new Date() })
+                      .where(
+                          and(
+                              eq(exportTemplates.userId, userId),
+                              eq(exportTemplates.isDefault, true),
+                          ),
+                      ),
+                  insertTemplate,
+              ])
+          )[1]
+        : await insertTemplate;
+
+    logInfo("Export template created", {
+        templateId: template.id,
+        userId,
+        isDefault: template.isDefault,
+    });
+
+    return template;
+};
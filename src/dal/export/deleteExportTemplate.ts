@@ -0,0 +1,28 @@
+import { and, eq } from "drizzle-orm";
+import { exportTemplates } from "@/schema/exportTables";
+import { NotFoundError } from "@/utils/core/error";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Deletes one of the user's saved export templates
+ * @param userId - Signed-in user ID (template owner)
+ * @param id - Export template ID
+ * @throws NotFoundError if the template doesn't exist or isn't the user's
+ */
+export const deleteExportTemplate = async (
+    userId: string,
+    id: string,
+): Promise<void> => {
+    const [deleted] = await db
+        .delete(exportTemplates)
+        .where(
+            and(eq(exportTemplates.id, id), eq(exportTemplates.userId, userId)),
+        )
+        .returning({ id: exportTemplates.id });
+    if (!deleted) {
+        throw new NotFoundError(`Export template with ID ${id} not found`);
+    }
+
+    logInfo("Export template deleted", { templateId: id, userId });
+};
@@ -0,0 +1,32 @@
+import { and, eq, lte } from "drizzle-orm";
+import { exportJobs, type ExportJobRecord } from "@/schema/exportTables";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Marks completed export jobs past expiresAt as EXPIRED and clears their links
+ * @param now - Reference time
+ * @returns Jobs that were expired (their S3 objects can now be deleted)
+ */
+export const expireExportJobs = async (
+    now: Date = new Date(),
+): Promise<ExportJobRecord[]> => {
+    const expiredJobs = await db
+        .update(exportJobs)
+        .set({ status: "EXPIRED", downloadUrl: null })
+        .where(
+            and(
+                eq(exportJobs.status, "COMPLETED"),
+                lte(exportJobs.expiresAt, now),
+            ),
+        )
+        .returning();
+
+    if (expiredJobs.length > 0) {
+        logInfo("Export jobs expired", {
+            jobIds: expiredJobs.map((job) => job.id),
+        });
+    }
+
+    return expiredJobs;
+};
@@ -0,0 +1,35 @@
+import { and, inArray, lte } from "drizzle-orm";
+import { exportJobs, type ExportJobRecord } from "@/schema/exportTables";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Marks PENDING and PROCESSING export jobs created before a deadline as FAILED
+ * Their worker was stopped before it could record an outcome
+ * @param createdBefore - Jobs created at or before this time are failed
+ * @param error - Error message stored on the jobs
+ * @returns Jobs that were failed
+ */
+export const failStaleExportJobs = async (
+    createdBefore: Date,
+    error: string,
+): Promise<ExportJobRecord[]> => {
+    const staleJobs = await db
+        .update(exportJobs)
+        .set({ status: "FAILED", error, completedAt: new Date() })
+        .where(
+            and(
+                inArray(exportJobs.status, ["PENDING", "PROCESSING"]),
+                lte(exportJobs.createdAt, createdBefore),
+            ),
+        )
+        .returning();
+
+    if (staleJobs.length > 0) {
+        logInfo("Stale export jobs failed", {
+            jobIds: staleJobs.map((job) => job.id),
+        });
+    }
+
+    return staleJobs;
+};
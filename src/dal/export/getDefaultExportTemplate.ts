@@ -0,0 +1,27 @@
+import { and, eq } from "drizzle-orm";
+import {
+    exportTemplates,
+    type ExportTemplateRecord,
+} from "@/schema/exportTables";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves the user's default export template
+ * @param userId - Signed-in user ID (template owner)
+ * @returns Default template, or null when the user has none
+ */
+export const getDefaultExportTemplate = async (
+    userId: string,
+): Promise<ExportTemplateRecord | null> => {
+    const [template] = await db
+        .select()
+        .from(exportTemplates)
+        .where(
+            and(
+                eq(exportTemplates.userId, userId),
+                eq(exportTemplates.isDefault, true),
+            ),
+        )
+        .limit(1);
+    return template ?? null;
+};
@@ -0,0 +1,31 @@
+import { eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import { exportJobs, type ExportJobRecord } from "@/schema/exportTables";
+import { NotFoundError } from "@/utils/core/error";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves an export job by ID
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Export job ID
+ * @returns Export job
+ * @throws NotFoundError if export job not found
+ * @throws AccessDeniedError if the caller cannot export the owner's data
+ * @throws Error if database query fails
+ */
+export const getExportJobById = async (
+    ctx: AccessContext,
+    id: string,
+): Promise<ExportJobRecord> => {
+    const [job] = await db
+        .select()
+        .from(exportJobs)
+        .where(eq(exportJobs.id, id))
+        .limit(1);
+    if (!job) {
+        throw new NotFoundError(`Export job with ID ${id} not found`);
+    }
+    await assertUserAccess(ctx, job.userId, "EXPORT");
+    return job;
+};
@@ -0,0 +1,31 @@
+import { and, eq } from "drizzle-orm";
+import {
+    exportTemplates,
+    type ExportTemplateRecord,
+} from "@/schema/exportTables";
+import { NotFoundError } from "@/utils/core/error";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves one of the user's saved export templates
+ * @param userId - Signed-in user ID (template owner)
+ * @param id - Export template ID
+ * @returns Export template
+ * @throws NotFoundError if the template doesn't exist or isn't the user's
+ */
+export const getExportTemplateById = async (
+    userId: string,
+    id: string,
+): Promise<ExportTemplateRecord> => {
+    const [template] = await db
+        .select()
+        .from(exportTemplates)
+        .where(
+            and(eq(exportTemplates.id, id), eq(exportTemplates.userId, userId)),
+        )
+        .limit(1);
+    if (!template) {
+        throw new NotFoundError(`Export template with ID ${id} not found`);
+    }
+    return template;
+};
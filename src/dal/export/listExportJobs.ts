@@ -0,0 +1,30 @@
+import { desc, eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import { EXPORT_CONSTANTS } from "@/schema/exportSchema";
+import { exportJobs, type ExportJobRecord } from "@/schema/exportTables";
+import { getWorkspaceUserId } from "@/utils/core/auth";
+import { db } from "@/lib/database";
+
+/**
+ * Lists the most recent export jobs for an owner
+ * @param ctx - Caller access context (session user ID and role)
+ * @param userId - Owner whose exports to list; defaults to the current workspace
+ * @param limit - Maximum number of jobs
+ * @returns Export jobs, newest first
+ * @throws AccessDeniedError if the caller cannot export the owner's data
+ * @throws Error if database query fails
+ */
+export const listExportJobs = async (
+    ctx: AccessContext,
+    userId: string = getWorkspaceUserId(ctx),
+    limit: number = EXPORT_CONSTANTS.RECENT_JOBS_LIMIT,
+): Promise<ExportJobRecord[]> => {
+    await assertUserAccess(ctx, userId, "EXPORT");
+    return db
+        .select()
+        .from(exportJobs)
+        .where(eq(exportJobs.userId, userId))
+        .orderBy(desc(exportJobs.createdAt))
+        .limit(limit);
+};
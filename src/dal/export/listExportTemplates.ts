@@ -0,0 +1,20 @@
+import { asc, desc, eq } from "drizzle-orm";
+import {
+    exportTemplates,
+    type ExportTemplateRecord,
+} from "@/schema/exportTables";
+import { db } from "@/lib/database";
+
+/**
+ * Lists the user's saved export templates
+ * @param userId - Signed-in user ID (template owner)
+ * @returns Templates, default first, then by name
+ */
+export const listExportTemplates = async (
+    userId: string,
+): Promise<ExportTemplateRecord[]> =>
+    db
+        .select()
+        .from(exportTemplates)
+        .where(eq(exportTemplates.userId, userId))
+        .orderBy(desc(exportTemplates.isDefault), asc(exportTemplates.name));
@@ -0,0 +1,38 @@
+import { eq } from "drizzle-orm";
+import { exportJobs, type ExportJobRecord } from "@/schema/exportTables";
+import { type UpdateExportJobData } from "@/schema/exportQueries";
+import { NotFoundError } from "@/utils/core/error";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Updates export job status, progress and results
+ * Called by the export worker after access was checked at job creation
+ * @param id - Export job ID
+ * @param updateData - Fields to update
+ * @returns Updated export job
+ * @throws NotFoundError if export job not found
+ */
+export const updateExportJob = async (
+    id: string,
+    updateData: UpdateExportJobData,
+): Promise<ExportJobRecord> => {
+    const [job] = await db
+        .update(exportJobs)
+        .set(updateData)
+        .where(eq(exportJobs.id, id))
+        .returning();
+    if (!job) {
+        throw new NotFoundError(`Export job with ID ${id} not found`);
+    }
+
+    if (updateData.status) {
+        logInfo("Export job status updated", {
+            jobId: id,
+            status: job.status,
+            recordCount: job.recordCount,
+        });
+    }
+
+    return job;
+};
@@ -0,0 +1,68 @@
+import { and, eq, ne } from "drizzle-orm";
+import {
+    exportTemplates,
+    type ExportTemplateRecord,
+} from "@/schema/exportTables";
+import { type UpdateExportTemplateData } from "@/schema/exportQueries";
+import { NotFoundError } from "@/utils/core/error";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Updates one of the user's saved export templates
+ * Making it the default clears the user's other default in the same batch
+ * @param userId - Signed-in user ID (template owner)
+ * @param id - Export template ID
+ * @param updateData - Fields to update
+ * @returns Updated export template
+ * @throws NotFoundError if the template doesn't exist or isn't the user's
+ */
+export const updateExportTemplate = async (
+    userId: string,
+    id: string,
+    updateData: UpdateExportTemplateData,
+): Promise<ExportTemplateRecord> => {
+    const [existing] = await db
+        .select({ id: exportTemplates.id })
+        .from(exportTemplates)
+        .where(
+            and(eq(exportTemplates.id, id), eq(exportTemplates.userId, userId)),
+        );
+    if (!existing) {
+        throw new NotFoundError(`Export template with ID ${id} not found`);
+    }
+
+    // neon-http has no interactive transactions; a batch runs atomically
+    const updateTemplate = db
+        .update(exportTemplates)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(
+            and(eq(exportTemplates.id, id), eq(exportTemplates.userId, userId)),
+        )
+        .returning();
+    const [template] = updateData.isDefault
+        ? (
+              await db.batch([
+                  db
+                      .update(exportTemplates)
+                      .set({ isDefault: false, updatedAt: new Date() })
+                      .where(
+                          and(
+                              eq(exportTemplates.userId, userId),
+                              eq(exportTemplates.isDefault, true),
+                              ne(exportTemplates.id, id),
+                          ),
+                      ),
+                  updateTemplate,
+              ])
+          )[1]
+        : await updateTemplate;
+
+    logInfo("Export template updated", {
+        templateId: id,
+        userId,
+        fields: Object.keys(updateData),
+    });
+
+    return template;
+};
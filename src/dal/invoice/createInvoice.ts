@@ -1,6 +1,14 @@
-import { invoices, type Invoice } from "@/schema/invoiceTables";
+import { createId } from "@paralleldrive/cuid2";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    invoiceLineItems,
+    invoices,
+    type Invoice,
+} from "@/schema/invoiceTables";
 import {
     type CreateInvoiceData,
+    insertInvoiceLineItemSchema,
     insertInvoiceSchema,
 } from "@/schema/invoiceQueries";
 import { logInfo } from "@/utils/sys/log";
@@ -9,23 +17,48 @@ import { db } from "@/lib/database";
 /**
  * Creates a new invoice record in the database
  * Links invoice to user and optionally to an uploaded file
- * @param invoiceData - Invoice creation data containing userId and fileId
+ * Line items, when provided, are written in the same batch
+ * The caller must be able to access the owning user
+ * @param ctx - Caller access context (session user ID and role)
+ * @param invoiceData - Invoice creation data containing userId, fileId and optional items
  * @returns Created invoice data
+ * @throws AccessDeniedError if the caller cannot write for the owning user
  * @throws Error if validation fails or database query fails
  */
 export const createInvoice = async (
+    ctx: AccessContext,
     invoiceData: CreateInvoiceData,
 ): Promise<Invoice> => {
-    const validatedData = insertInvoiceSchema.parse(invoiceData);
+    const { items = [], ...data } = invoiceData;
+    const validatedData = insertInvoiceSchema.parse(data);
+    await assertUserAccess(ctx, validatedData.userId, "EDIT");
 
-    const [newInvoice] = await db
+    // neon-http has no interactive transactions; a batch runs atomically
+    const invoiceId = validatedData.id ?? createId();
+    const insertInvoice = db
         .insert(invoices)
-        .values(validatedData)
+        .values({ ...validatedData, id: invoiceId })
         .returning();
+    const [[newInvoice]] =
+        items.length > 0
+            ? await db.batch([
+                  insertInvoice,
+                  db.insert(invoiceLineItems).values(
+                      items.map((item, index) =>
+                          insertInvoiceLineItemSchema.parse({
+                              ...item,
+                              invoiceId,
+                              lineNumber: index + 1,
+                          }),
+                      ),
+                  ),
+              ])
+            : [await insertInvoice];
 
     logInfo(`Invoice created successfully`, {
         invoiceId: newInvoice.id,
         userId: validatedData.userId,
+        lineItems: items.length,
     });
 
     return newInvoice;
@@ -6,15 +6,17 @@ import { db } from "@/lib/database";
 /**
  * Creates a new invoice file record in the database
  * Links file metadata to uploaded invoice files
- * @param fileData - Invoice file creation data containing file metadata
+ * @param fileData - Invoice file creation data containing the uploader, file metadata and content hash
  * @returns Created invoice file data
  */
 export const createInvoiceFile = async (fileData: {
+    userId: string;
     originalName: string;
     fileName: string;
     fileSize: number;
     mimeType: string;
     s3ObjectKey: string;
+    contentHash?: string;
 }): Promise<InvoiceFile> => {
     const validatedData = insertInvoiceFileSchema.parse(fileData);
 
@@ -25,6 +27,7 @@ export const createInvoiceFile = async (fileData: {
 
     logInfo(`Invoice file created successfully`, {
         fileId: newInvoiceFile.id,
+        userId: newInvoiceFile.userId,
         originalName: newInvoiceFile.originalName,
         fileSize: newInvoiceFile.fileSize,
     });
@@ -0,0 +1,54 @@
+import { eq, max } from "drizzle-orm";
+import { assertInvoiceAccess } from "@/dal/access/assertInvoiceAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import { invoiceLineItems, type InvoiceLineItem } from "@/schema/invoiceTables";
+import {
+    insertInvoiceLineItemSchema,
+    type InvoiceLineItemData,
+} from "@/schema/invoiceQueries";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Appends line items to an existing invoice
+ * Line numbers continue after the invoice's current last line
+ * @param ctx - Caller access context (session user ID and role)
+ * @param invoiceId - Invoice ID to add items to
+ * @param items - Line items in display order
+ * @returns Created line items
+ * @throws NotFoundError if invoice not found
+ * @throws AccessDeniedError if the caller cannot edit the invoice owner's data
+ */
+export const createInvoiceLineItems = async (
+    ctx: AccessContext,
+    invoiceId: string,
+    items: InvoiceLineItemData[],
+): Promise<InvoiceLineItem[]> => {
+    await assertInvoiceAccess(ctx, invoiceId, "EDIT");
+    if (items.length === 0) return [];
+
+    const [{ lastLineNumber }] = await db
+        .select({ lastLineNumber: max(invoiceLineItems.lineNumber) })
+        .from(invoiceLineItems)
+        .where(eq(invoiceLineItems.invoiceId, invoiceId));
+
+    const newItems = await db
+        .insert(invoiceLineItems)
+        .values(
+            items.map((item, index) =>
+                insertInvoiceLineItemSchema.parse({
+                    ...item,
+                    invoiceId,
+                    lineNumber: (lastLineNumber ?? 0) + index + 1,
+                }),
+            ),
+        )
+        .returning();
+
+    logInfo(`Invoice line items created successfully`, {
+        invoiceId,
+        count: newItems.length,
+    });
+
+    return newItems;
+};
@@ -1,4 +1,6 @@
 import { eq } from "drizzle-orm";
+import { assertInvoiceAccess } from "@/dal/access/assertInvoiceAccess";
+import { type AccessContext } from "@/schema/authSchema";
 import { invoices } from "@/schema/invoiceTables";
 import { logInfo } from "@/utils/sys/log";
 import { db } from "@/lib/database";
@@ -6,9 +8,16 @@ import { db } from "@/lib/database";
 /**
  * Deletes an invoice and its associated file
  * Database constraints handle cascading deletion of associated files
+ * @param ctx - Caller access context (session user ID and role)
  * @param id - Invoice ID to delete
+ * @throws NotFoundError if invoice not found
+ * @throws AccessDeniedError if the caller cannot access the invoice owner
  */
-export const deleteInvoice = async (id: string): Promise<void> => {
+export const deleteInvoice = async (
+    ctx: AccessContext,
+    id: string,
+): Promise<void> => {
+    await assertInvoiceAccess(ctx, id, "EDIT");
     await db.delete(invoices).where(eq(invoices.id, id));
 
     logInfo(`Invoice deleted successfully`, { invoiceId: id });
@@ -1,15 +1,24 @@
 import { eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
 import { invoices, invoiceFiles } from "@/schema/invoiceTables";
 import { type InvoiceWithFile } from "@/schema/invoiceQueries";
+import { NotFoundError } from "@/utils/core/error";
 import { db } from "@/lib/database";
 
 /**
  * Retrieves an invoice by its unique ID along with file information
+ * @param ctx - Caller access context (session user ID and role)
  * @param id - Invoice ID to search for
  * @returns Invoice with file data
- * @throws Error if invoice not found or database query fails
+ * @throws NotFoundError if invoice not found
+ * @throws AccessDeniedError if the caller cannot access the invoice owner
+ * @throws Error if database query fails
  */
-export const getInvoiceById = async (id: string): Promise<InvoiceWithFile> => {
+export const getInvoiceById = async (
+    ctx: AccessContext,
+    id: string,
+): Promise<InvoiceWithFile> => {
     const result = await db
         .select({
             invoice: invoices,
@@ -20,8 +29,9 @@ export const getInvoiceById = async (id: string): Promise<InvoiceWithFile> => {
         .where(eq(invoices.id, id))
         .limit(1);
     if (result.length === 0) {
-        throw new Error(`Invoice with ID ${id} not found`);
+        throw new NotFoundError(`Invoice with ID ${id} not found`);
     }
     const [{ invoice, file }] = result;
+    await assertUserAccess(ctx, invoice.userId);
     return { invoice, file };
 };
@@ -1,4 +1,9 @@
-import { desc, eq } from "drizzle-orm";
+import { and, desc, eq } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import {
+    type AccessContext,
+    type AccessScopeTarget,
+} from "@/schema/authSchema";
 import { invoices, invoiceFiles } from "@/schema/invoiceTables";
 import { type InvoiceCategory } from "@/schema/invoiceSchema";
 import { type InvoiceWithFile } from "@/schema/invoiceQueries";
@@ -7,12 +12,18 @@ import { db } from "@/lib/database";
 /**
  * Retrieves all invoices in a specific category
  * Returns invoices with their files ordered by invoice date
+ * @param ctx - Caller access context (session user ID and role)
  * @param category - Invoice category to filter by
+ * @param target - Owner to read; defaults to the current workspace, ALL_USERS_SCOPE for admins
  * @returns Array of invoices with file data matching the category
+ * @throws AccessDeniedError if the caller cannot read the requested scope
  */
 export const getInvoicesByCategory = async (
+    ctx: AccessContext,
     category: InvoiceCategory,
+    target?: AccessScopeTarget,
 ): Promise<InvoiceWithFile[]> => {
+    const ownerScope = await getInvoiceOwnerScope(ctx, target);
     const result = await db
         .select({
             invoice: invoices,
@@ -20,7 +31,7 @@ export const getInvoicesByCategory = async (
         })
         .from(invoices)
         .leftJoin(invoiceFiles, eq(invoices.fileId, invoiceFiles.id))
-        .where(eq(invoices.category, category))
+        .where(and(ownerScope, eq(invoices.category, category)))
         .orderBy(desc(invoices.invoiceDate));
 
     return result;
@@ -0,0 +1,34 @@
+import { and, desc, eq } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import { type AccessContext } from "@/schema/authSchema";
+import { invoices, invoiceFiles } from "@/schema/invoiceTables";
+import { type InvoiceWithFile } from "@/schema/invoiceQueries";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves invoices whose uploaded file has the given content hash
+ * Used to spot exact re-uploads of the same file
+ * @param ctx - Caller access context (session user ID and role)
+ * @param contentHash - SHA-256 of the uploaded object
+ * @param target - Owner to search; defaults to the current workspace
+ * @returns Invoices with file data sharing the content hash, newest first
+ * @throws AccessDeniedError if the caller cannot read the requested scope
+ */
+export const getInvoicesByContentHash = async (
+    ctx: AccessContext,
+    contentHash: string,
+    target?: string,
+): Promise<InvoiceWithFile[]> => {
+    const ownerScope = await getInvoiceOwnerScope(ctx, target);
+    const result = await db
+        .select({
+            invoice: invoices,
+            file: invoiceFiles,
+        })
+        .from(invoices)
+        .innerJoin(invoiceFiles, eq(invoices.fileId, invoiceFiles.id))
+        .where(and(ownerScope, eq(invoiceFiles.contentHash, contentHash)))
+        .orderBy(desc(invoices.createdAt));
+
+    return result;
+};
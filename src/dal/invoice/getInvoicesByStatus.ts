@@ -1,4 +1,9 @@
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import {
+    type AccessContext,
+    type AccessScopeTarget,
+} from "@/schema/authSchema";
 import { invoices, invoiceFiles } from "@/schema/invoiceTables";
 import { type InvoiceStatus } from "@/schema/invoiceSchema";
 import { type InvoiceWithFile } from "@/schema/invoiceQueries";
@@ -7,12 +12,18 @@ import { db } from "@/lib/database";
 /**
  * Retrieves all invoices with a specific status
  * Returns invoices with their files ordered by creation date
+ * @param ctx - Caller access context (session user ID and role)
  * @param status - Invoice status to filter by (PENDING, PROCESSED, ERROR, etc.)
+ * @param target - Owner to read; defaults to the current workspace, ALL_USERS_SCOPE for admins
  * @returns Array of invoices with file data matching the status
+ * @throws AccessDeniedError if the caller cannot read the requested scope
  */
 export const getInvoicesByStatus = async (
+    ctx: AccessContext,
     status: InvoiceStatus,
+    target?: AccessScopeTarget,
 ): Promise<InvoiceWithFile[]> => {
+    const ownerScope = await getInvoiceOwnerScope(ctx, target);
     const result = await db
         .select({
             invoice: invoices,
@@ -20,7 +31,7 @@ export const getInvoicesByStatus = async (
         })
         .from(invoices)
         .leftJoin(invoiceFiles, eq(invoices.fileId, invoiceFiles.id))
-        .where(eq(invoices.status, status))
+        .where(and(ownerScope, eq(invoices.status, status)))
         .orderBy(invoices.createdAt);
 
     return result;
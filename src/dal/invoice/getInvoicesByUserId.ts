@@ -1,4 +1,6 @@
 import { desc, eq } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import { type AccessContext } from "@/schema/authSchema";
 import { invoices, invoiceFiles } from "@/schema/invoiceTables";
 import { type InvoiceWithFile } from "@/schema/invoiceQueries";
 import { db } from "@/lib/database";
@@ -6,12 +8,16 @@ import { db } from "@/lib/database";
 /**
  * Retrieves all invoices for a specific user
  * Returns user's invoices with their files ordered by creation date
+ * @param ctx - Caller access context (session user ID and role)
  * @param userId - User ID to filter invoices by
  * @returns Array of invoices with file data
+ * @throws AccessDeniedError if the caller cannot access the user
  */
 export const getInvoicesByUserId = async (
+    ctx: AccessContext,
     userId: string,
 ): Promise<InvoiceWithFile[]> => {
+    const ownerScope = await getInvoiceOwnerScope(ctx, userId);
     const result = await db
         .select({
             invoice: invoices,
@@ -19,7 +25,7 @@ export const getInvoicesByUserId = async (
         })
         .from(invoices)
         .leftJoin(invoiceFiles, eq(invoices.fileId, invoiceFiles.id))
-        .where(eq(invoices.userId, userId))
+        .where(ownerScope)
         .orderBy(desc(invoices.createdAt));
 
     return result;
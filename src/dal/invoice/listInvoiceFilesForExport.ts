@@ -0,0 +1,32 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    invoiceFiles,
+    invoices,
+    type InvoiceFile,
+} from "@/schema/invoiceTables";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves the uploaded files of the given invoices for an export
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner whose invoices are exported
+ * @param invoiceIds - Invoices to look up; invoices without a file are omitted
+ * @returns Invoice ID and file metadata (including s3ObjectKey) per invoice
+ * @throws AccessDeniedError if the caller cannot export the owner's data
+ */
+export const listInvoiceFilesForExport = async (
+    ctx: AccessContext,
+    ownerId: string,
+    invoiceIds: string[],
+): Promise<{ invoiceId: string; file: InvoiceFile }[]> => {
+    const ownerScope = await getInvoiceOwnerScope(ctx, ownerId, "EXPORT");
+    if (invoiceIds.length === 0) return [];
+
+    return db
+        .select({ invoiceId: invoices.id, file: invoiceFiles })
+        .from(invoices)
+        .innerJoin(invoiceFiles, eq(invoices.fileId, invoiceFiles.id))
+        .where(and(ownerScope, inArray(invoices.id, invoiceIds)));
+};
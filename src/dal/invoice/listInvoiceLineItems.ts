@@ -0,0 +1,26 @@
+import { asc, eq } from "drizzle-orm";
+import { assertInvoiceAccess } from "@/dal/access/assertInvoiceAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import { invoiceLineItems, type InvoiceLineItem } from "@/schema/invoiceTables";
+import { db } from "@/lib/database";
+
+/**
+ * Lists the line items of an invoice in line order
+ * @param ctx - Caller access context (session user ID and role)
+ * @param invoiceId - Invoice ID to list items for
+ * @returns Line items ordered by lineNumber
+ * @throws NotFoundError if invoice not found
+ * @throws AccessDeniedError if the caller cannot access the invoice owner
+ */
+export const listInvoiceLineItems = async (
+    ctx: AccessContext,
+    invoiceId: string,
+): Promise<InvoiceLineItem[]> => {
+    await assertInvoiceAccess(ctx, invoiceId);
+
+    return await db
+        .select()
+        .from(invoiceLineItems)
+        .where(eq(invoiceLineItems.invoiceId, invoiceId))
+        .orderBy(asc(invoiceLineItems.lineNumber));
+};
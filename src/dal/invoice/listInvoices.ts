@@ -1,4 +1,6 @@
 import { and, count, desc, eq, gte, ilike, lte } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import { type AccessContext } from "@/schema/authSchema";
 import { invoices, invoiceFiles } from "@/schema/invoiceTables";
 import {
     type InvoiceListFilters,
@@ -9,20 +11,23 @@ import { db } from "@/lib/database";
 
 /**
  * Lists invoices with pagination, filtering, and sorting capabilities
- * Supports filtering by category, status, supplier, date range, amount range, and tags
- * @param filters - Optional filters for category, status, supplier, dates, amounts, and tags
+ * Supports filtering by owner, category, status, supplier, date range, amount range, and tags
+ * @param ctx - Caller access context (session user ID and role)
+ * @param filters - Optional filters for owner (defaults to the current workspace, ALL_USERS_SCOPE for admins), category, status, supplier (directory ID or name), dates, amounts, and tags
  * @param sort - Sorting configuration with field and direction
  * @param page - Page number for pagination (1-based)
  * @param limit - Number of invoices per page
  * @returns Paginated invoice list with metadata
+ * @throws AccessDeniedError if the caller cannot read the requested owner scope
  */
 export const listInvoices = async (
+    ctx: AccessContext,
     filters: InvoiceListFilters = {},
     sort: InvoiceListSort = { field: "createdAt", direction: "desc" },
     page: number = 1,
     limit: number = 20,
 ): Promise<InvoiceListResult> => {
-    const whereConditions = [];
+    const whereConditions = [await getInvoiceOwnerScope(ctx, filters.userId)];
 
     if (filters.category) {
         whereConditions.push(eq(invoices.category, filters.category));
@@ -30,6 +35,9 @@ export const listInvoices = async (
     if (filters.status) {
         whereConditions.push(eq(invoices.status, filters.status));
     }
+    if (filters.supplierId) {
+        whereConditions.push(eq(invoices.supplierId, filters.supplierId));
+    }
     if (filters.supplierName) {
         whereConditions.push(
             ilike(invoices.supplierName, `%${filters.supplierName}%`),
@@ -53,8 +61,7 @@ export const listInvoices = async (
         );
     }
 
-    const whereClause =
-        whereConditions.length > 0 ? and(...whereConditions) : undefined;
+    const whereClause = and(...whereConditions);
 
     // Get total count
     const [{ count: totalCount }] = await db
@@ -0,0 +1,32 @@
+import { and, asc, gte, lte } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import { type AccessContext } from "@/schema/authSchema";
+import { invoices, type Invoice } from "@/schema/invoiceTables";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves an owner's invoices dated within a period, for tax reports
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner whose invoices are reported
+ * @param from - Period start (inclusive)
+ * @param to - Period end (inclusive)
+ * @returns Invoices in the period, oldest invoice date first
+ * @throws AccessDeniedError if the caller cannot view the owner's invoices
+ */
+export const listInvoicesByDateRange = async (
+    ctx: AccessContext,
+    ownerId: string,
+    from: Date,
+    to: Date,
+): Promise<Invoice[]> =>
+    db
+        .select()
+        .from(invoices)
+        .where(
+            and(
+                await getInvoiceOwnerScope(ctx, ownerId),
+                gte(invoices.invoiceDate, from),
+                lte(invoices.invoiceDate, to),
+            ),
+        )
+        .orderBy(asc(invoices.invoiceDate), asc(invoices.id));
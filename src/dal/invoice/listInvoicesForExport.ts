@@ -0,0 +1,89 @@
+import { and, asc, eq, gte, inArray, lte } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import { type AccessContext } from "@/schema/authSchema";
+import { type ExportFilters } from "@/schema/exportSchema";
+import {
+    InvoiceCategoryEnum,
+    InvoiceStatusEnum,
+    type InvoiceCategory,
+    type InvoiceStatus,
+} from "@/schema/invoiceSchema";
+import { invoices, suppliers, type Invoice } from "@/schema/invoiceTables";
+import { db } from "@/lib/database";
+
+/**
+ * Reads one batch of an owner's invoices for an export, oldest invoice date first
+ * Export filters are applied in SQL except tags, which the caller filters.
+ * Invoices linked to a directory supplier are exported under its name so the
+ * same supplier isn't split across spellings
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner whose invoices are exported
+ * @param filters - Export filters (date range, category keys, custom category IDs, supplier IDs or names, amounts, status)
+ * @param offset - Number of invoices already read
+ * @param limit - Batch size
+ * @returns Invoices in this batch
+ * @throws AccessDeniedError if the caller cannot export the owner's data
+ */
+export const listInvoicesForExport = async (
+    ctx: AccessContext,
+    ownerId: string,
+    filters: ExportFilters = {},
+    offset: number = 0,
+    limit: number = 500,
+): Promise<Invoice[]> => {
+    const categories = filters.categories?.filter(
+        (category): category is InvoiceCategory =>
+            (InvoiceCategoryEnum as readonly string[]).includes(category),
+    );
+    const statuses = filters.status?.filter((status): status is InvoiceStatus =>
+        (InvoiceStatusEnum as readonly string[]).includes(status),
+    );
+
+    const rows = await db
+        .select({ invoice: invoices, supplierName: suppliers.name })
+        .from(invoices)
+        .leftJoin(suppliers, eq(invoices.supplierId, suppliers.id))
+        .where(
+            and(
+                await getInvoiceOwnerScope(ctx, ownerId, "EXPORT"),
+                filters.dateRange
+                    ? and(
+                          gte(invoices.invoiceDate, filters.dateRange.from),
+                          lte(invoices.invoiceDate, filters.dateRange.to),
+                      )
+                    : undefined,
+                categories?.length
+                    ? inArray(invoices.category, categories)
+                    : undefined,
+                filters.customCategoryIds?.length
+                    ? inArray(
+                          invoices.customCategoryId,
+                          filters.customCategoryIds,
+                      )
+                    : undefined,
+                filters.supplierIds?.length
+                    ? inArray(invoices.supplierId, filters.supplierIds)
+                    : undefined,
+                filters.suppliers?.length
+                    ? inArray(invoices.supplierName, filters.suppliers)
+                    : undefined,
+                filters.amountRange
+                    ? and(
+                          gte(invoices.totalAmount, filters.amountRange.min),
+                          lte(invoices.totalAmount, filters.amountRange.max),
+                      )
+                    : undefined,
+                statuses?.length
+                    ? inArray(invoices.status, statuses)
+                    : undefined,
+            ),
+        )
+        .orderBy(asc(invoices.invoiceDate), asc(invoices.id))
+        .limit(limit)
+        .offset(offset);
+
+    return rows.map(({ invoice, supplierName }) => ({
+        ...invoice,
+        supplierName: supplierName ?? invoice.supplierName,
+    }));
+};
@@ -0,0 +1,41 @@
+import { and, asc, gt, isNotNull, isNull } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import {
+    type AccessContext,
+    type AccessScopeTarget,
+} from "@/schema/authSchema";
+import { invoices, type Invoice } from "@/schema/invoiceTables";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves invoices with a supplier name that aren't linked to the supplier
+ * directory, in ID order so callers can page past rows they couldn't link
+ * @param ctx - Caller access context (session user ID and role)
+ * @param target - Owner whose invoices are read, or ALL_USERS_SCOPE for admins
+ * @param afterId - Only invoices with a greater ID; null starts from the first
+ * @param limit - Maximum number of invoices
+ * @returns Unlinked invoices
+ * @throws AccessDeniedError if the caller cannot read the requested scope
+ */
+export const listInvoicesWithoutSupplier = async (
+    ctx: AccessContext,
+    target: AccessScopeTarget,
+    afterId: string | null,
+    limit: number,
+): Promise<Invoice[]> => {
+    const ownerScope = await getInvoiceOwnerScope(ctx, target);
+
+    return db
+        .select()
+        .from(invoices)
+        .where(
+            and(
+                ownerScope,
+                isNull(invoices.supplierId),
+                isNotNull(invoices.supplierName),
+                afterId ? gt(invoices.id, afterId) : undefined,
+            ),
+        )
+        .orderBy(asc(invoices.id))
+        .limit(limit);
+};
@@ -0,0 +1,33 @@
+import { asc, eq } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    invoiceLineItems,
+    invoices,
+    type InvoiceLineItem,
+} from "@/schema/invoiceTables";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves the line item descriptions of all of an owner's invoices
+ * @param ctx - Caller access context (session user ID and role)
+ * @param userId - Owner whose line items to read
+ * @returns Invoice ID and description per line, in line order
+ * @throws AccessDeniedError if the caller cannot access the user
+ */
+export const listLineItemDescriptionsByUserId = async (
+    ctx: AccessContext,
+    userId: string,
+): Promise<Pick<InvoiceLineItem, "invoiceId" | "description">[]> => {
+    const ownerScope = await getInvoiceOwnerScope(ctx, userId);
+
+    return db
+        .select({
+            invoiceId: invoiceLineItems.invoiceId,
+            description: invoiceLineItems.description,
+        })
+        .from(invoiceLineItems)
+        .innerJoin(invoices, eq(invoiceLineItems.invoiceId, invoices.id))
+        .where(ownerScope)
+        .orderBy(asc(invoiceLineItems.lineNumber));
+};
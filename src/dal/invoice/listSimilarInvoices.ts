@@ -0,0 +1,84 @@
+import { and, between, eq, ne, or, sql } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import { AI_VALIDATION_CONSTANTS } from "@/schema/aiSchema";
+import { type AccessContext } from "@/schema/authSchema";
+import { type InvoiceCandidate } from "@/schema/invoiceQueries";
+import { DUPLICATE_CONSTANTS } from "@/schema/invoiceSchema";
+import { invoices, type Invoice } from "@/schema/invoiceTables";
+import { add, subtract } from "@/utils/core/date";
+import { normaliseTaxId } from "@/utils/core/taxId";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves an owner's invoices that duplicate and anomaly checks compare a
+ * candidate with: the same supplier name (case and spacing ignored) or tax
+ * ID, a date within DATE_WINDOW_DAYS, or a total within AMOUNT_PARTIAL_RATIO.
+ * A fuzzy duplicate needs a date or amount match to reach MATCH_THRESHOLD,
+ * so no possible duplicate is left out
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner whose invoices are searched
+ * @param candidate - Invoice (or extracted data) being checked; its own row is skipped
+ * @returns Matching invoices (empty when the candidate has nothing to match on)
+ * @throws AccessDeniedError if the caller cannot access the owner
+ */
+export const listSimilarInvoices = async (
+    ctx: AccessContext,
+    ownerId: string,
+    candidate: InvoiceCandidate,
+): Promise<Invoice[]> => {
+    const ownerScope = await getInvoiceOwnerScope(ctx, ownerId);
+    const supplierName = candidate.supplierName
+        ?.trim()
+        .toLowerCase()
+        .replace(/\s+/g, " ");
+    const taxId = candidate.supplierTaxId?.trim()
+        ? normaliseTaxId(candidate.supplierTaxId)
+        : null;
+    // Whole days are compared, and the partial amount ratio is of the other
+    // invoice's total, so both ranges are widened to cover every scored match
+    const dateWindowDays = DUPLICATE_CONSTANTS.DATE_WINDOW_DAYS + 1;
+    const ratio = DUPLICATE_CONSTANTS.AMOUNT_PARTIAL_RATIO;
+    const tolerance = AI_VALIDATION_CONSTANTS.CALCULATION_TOLERANCE;
+    const amount = candidate.totalAmount;
+    const amountRange = amount
+        ? [
+              Math.abs(amount) / (1 + ratio) - tolerance,
+              Math.abs(amount) / (1 - ratio) + tolerance,
+          ].map((bound) => bound * Math.sign(amount))
+        : null;
+
+    const matches = [
+        supplierName
+            ? sql`lower(regexp_replace(trim(${invoices.supplierName}), '\\s+', ' ', 'g')) = ${supplierName}`
+            : undefined,
+        taxId ? eq(invoices.supplierTaxId, taxId) : undefined,
+        candidate.invoiceDate
+            ? between(
+                  invoices.invoiceDate,
+                  new Date(
+                      subtract(candidate.invoiceDate, dateWindowDays, "day"),
+                  ),
+                  new Date(add(candidate.invoiceDate, dateWindowDays, "day")),
+              )
+            : undefined,
+        amountRange
+            ? between(
+                  invoices.totalAmount,
+                  Math.min(...amountRange),
+                  Math.max(...amountRange),
+              )
+            : undefined,
+    ].filter((condition) => condition !== undefined);
+    if (matches.length === 0) return [];
+
+    return db
+        .select()
+        .from(invoices)
+        .where(
+            and(
+                ownerScope,
+                candidate.id ? ne(invoices.id, candidate.id) : undefined,
+                or(...matches),
+            ),
+        );
+};
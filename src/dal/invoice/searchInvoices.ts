@@ -1,20 +1,32 @@
-import { eq, ilike, or } from "drizzle-orm";
-import { invoices, invoiceFiles } from "@/schema/invoiceTables";
+import { and, eq, ilike, or, sql } from "drizzle-orm";
+import { getInvoiceOwnerScope } from "@/dal/access/getInvoiceOwnerScope";
+import {
+    type AccessContext,
+    type AccessScopeTarget,
+} from "@/schema/authSchema";
+import { invoices, invoiceFiles, suppliers } from "@/schema/invoiceTables";
 import { type InvoiceWithFile } from "@/schema/invoiceQueries";
 import { INVOICE_CONSTANTS } from "@/schema/invoiceSchema";
 import { db } from "@/lib/database";
 
 /**
  * Searches invoices by supplier name, invoice number, or description
- * Performs case-insensitive partial matching across multiple fields
+ * Performs case-insensitive partial matching across multiple fields; supplier
+ * matches include the linked directory supplier's name and aliases
+ * @param ctx - Caller access context (session user ID and role)
  * @param query - Search term to match against supplier, number, or description
  * @param limit - Maximum number of results to return
+ * @param target - Owner to search; defaults to the current workspace, ALL_USERS_SCOPE for admins
  * @returns Array of matching invoices with file data
+ * @throws AccessDeniedError if the caller cannot read the requested scope
  */
 export const searchInvoices = async (
+    ctx: AccessContext,
     query: string,
     limit: number = INVOICE_CONSTANTS.DEFAULT_ITEMS_PER_PAGE,
+    target?: AccessScopeTarget,
 ): Promise<InvoiceWithFile[]> => {
+    const ownerScope = await getInvoiceOwnerScope(ctx, target);
     const result = await db
         .select({
             invoice: invoices,
@@ -22,11 +34,17 @@ export const searchInvoices = async (
         })
         .from(invoices)
         .leftJoin(invoiceFiles, eq(invoices.fileId, invoiceFiles.id))
+        .leftJoin(suppliers, eq(invoices.supplierId, suppliers.id))
         .where(
-            or(
-                ilike(invoices.supplierName, `%${query}%`),
-                ilike(invoices.invoiceNumber, `%${query}%`),
-                ilike(invoices.description, `%${query}%`),
+            and(
+                ownerScope,
+                or(
+                    ilike(invoices.supplierName, `%${query}%`),
+                    ilike(suppliers.name, `%${query}%`),
+                    ilike(sql`${suppliers.aliases}::text`, `%${query}%`),
+                    ilike(invoices.invoiceNumber, `%${query}%`),
+                    ilike(invoices.description, `%${query}%`),
+                ),
             ),
         )
         .limit(limit);
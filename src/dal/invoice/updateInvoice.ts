@@ -1,28 +1,66 @@
 import { eq } from "drizzle-orm";
-import { invoices, type Invoice } from "@/schema/invoiceTables";
-import { type UpdateInvoiceData } from "@/schema/invoiceQueries";
+import { assertInvoiceAccess } from "@/dal/access/assertInvoiceAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    invoiceLineItems,
+    invoices,
+    type Invoice,
+} from "@/schema/invoiceTables";
+import {
+    insertInvoiceLineItemSchema,
+    type UpdateInvoiceData,
+} from "@/schema/invoiceQueries";
 import { logInfo } from "@/utils/sys/log";
 import { db } from "@/lib/database";
 
 /**
  * Updates invoice information
  * Automatically updates the updatedAt timestamp
+ * When items are provided, existing line items are replaced in the same batch
+ * @param ctx - Caller access context (session user ID and role)
  * @param id - Invoice ID to update
- * @param updateData - Data to update (financial info, supplier details, etc.)
+ * @param updateData - Data to update (financial info, supplier details, items, etc.)
  * @returns Updated invoice data
+ * @throws NotFoundError if invoice not found
+ * @throws AccessDeniedError if the caller cannot access the invoice owner
  */
 export const updateInvoice = async (
+    ctx: AccessContext,
     id: string,
     updateData: UpdateInvoiceData,
 ): Promise<Invoice> => {
-    const [updatedInvoice] = await db
+    await assertInvoiceAccess(ctx, id, "EDIT");
+    const { items, ...data } = updateData;
+
+    // neon-http has no interactive transactions; a batch runs atomically
+    const updateRow = db
         .update(invoices)
         .set({
-            ...updateData,
+            ...data,
             updatedAt: new Date(),
         })
         .where(eq(invoices.id, id))
         .returning();
+    const replaceItems = db
+        .delete(invoiceLineItems)
+        .where(eq(invoiceLineItems.invoiceId, id));
+    const [[updatedInvoice]] = !items
+        ? [await updateRow]
+        : items.length > 0
+          ? await db.batch([
+                updateRow,
+                replaceItems,
+                db.insert(invoiceLineItems).values(
+                    items.map((item, index) =>
+                        insertInvoiceLineItemSchema.parse({
+                            ...item,
+                            invoiceId: id,
+                            lineNumber: index + 1,
+                        }),
+                    ),
+                ),
+            ])
+          : await db.batch([updateRow, replaceItems]);
 
     logInfo(`Invoice updated successfully`, {
         invoiceId: id,
@@ -0,0 +1,51 @@
+import { eq } from "drizzle-orm";
+import { assertInvoiceAccess } from "@/dal/access/assertInvoiceAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import { invoiceLineItems, type InvoiceLineItem } from "@/schema/invoiceTables";
+import { type UpdateInvoiceLineItemData } from "@/schema/invoiceQueries";
+import { NotFoundError } from "@/utils/core/error";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Updates a single invoice line item (e.g. per-line category or tax split)
+ * Automatically updates the updatedAt timestamp
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Line item ID to update
+ * @param updateData - Line item fields to update
+ * @returns Updated line item
+ * @throws NotFoundError if line item not found
+ * @throws AccessDeniedError if the caller cannot edit the invoice owner's data
+ */
+export const updateInvoiceLineItem = async (
+    ctx: AccessContext,
+    id: string,
+    updateData: UpdateInvoiceLineItemData,
+): Promise<InvoiceLineItem> => {
+    const [lineItem] = await db
+        .select({ invoiceId: invoiceLineItems.invoiceId })
+        .from(invoiceLineItems)
+        .where(eq(invoiceLineItems.id, id))
+        .limit(1);
+    if (!lineItem) {
+        throw new NotFoundError(`Invoice line item with ID ${id} not found`);
+    }
+    await assertInvoiceAccess(ctx, lineItem.invoiceId, "EDIT");
+
+    const [updatedItem] = await db
+        .update(invoiceLineItems)
+        .set({
+            ...updateData,
+            updatedAt: new Date(),
+        })
+        .where(eq(invoiceLineItems.id, id))
+        .returning();
+
+    logInfo(`Invoice line item updated successfully`, {
+        lineItemId: id,
+        invoiceId: lineItem.invoiceId,
+        updatedFields: Object.keys(updateData),
+    });
+
+    return updatedItem;
+};
@@ -0,0 +1,46 @@
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    insertCategorisationRuleSchema,
+    type CreateRuleData,
+} from "@/schema/ruleQueries";
+import {
+    categorisationRules,
+    type CategorisationRule,
+} from "@/schema/ruleTables";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Creates a categorisation rule for an owner
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the rule
+ * @param data - Name, priority, conditions and actions
+ * @returns Created rule
+ * @throws AccessDeniedError if the caller cannot edit the owner's data
+ * @throws Error if database insert fails
+ */
+export const createRule = async (
+    ctx: AccessContext,
+    ownerId: string,
+    data: CreateRuleData,
+): Promise<CategorisationRule> => {
+    await assertUserAccess(ctx, ownerId, "EDIT");
+    const validatedData = insertCategorisationRuleSchema.parse({
+        ...data,
+        userId: ownerId,
+    });
+
+    const [rule] = await db
+        .insert(categorisationRules)
+        .values(validatedData)
+        .returning();
+
+    logInfo("Categorisation rule created", {
+        ruleId: rule.id,
+        userId: ownerId,
+        priority: rule.priority,
+    });
+
+    return rule;
+};
@@ -0,0 +1,23 @@
+import { eq } from "drizzle-orm";
+import { getRuleById } from "@/dal/rule/getRuleById";
+import { type AccessContext } from "@/schema/authSchema";
+import { categorisationRules } from "@/schema/ruleTables";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Deletes a categorisation rule; invoices it already changed are kept as they are
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Rule ID
+ * @throws NotFoundError if rule not found
+ * @throws AccessDeniedError if the caller cannot edit the rule owner's data
+ */
+export const deleteRule = async (
+    ctx: AccessContext,
+    id: string,
+): Promise<void> => {
+    const rule = await getRuleById(ctx, id, "EDIT");
+    await db.delete(categorisationRules).where(eq(categorisationRules.id, id));
+
+    logInfo("Categorisation rule deleted", { ruleId: id, userId: rule.userId });
+};
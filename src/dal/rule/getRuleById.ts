@@ -0,0 +1,37 @@
+import { eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    categorisationRules,
+    type CategorisationRule,
+} from "@/schema/ruleTables";
+import { type DelegationPermission } from "@/schema/userSchema";
+import { NotFoundError } from "@/utils/core/error";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves a categorisation rule by its ID
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Rule ID
+ * @param permission - Permission required on the owner's data (VIEW, EDIT)
+ * @returns Rule
+ * @throws NotFoundError if rule not found
+ * @throws AccessDeniedError if the caller cannot access the rule owner
+ */
+export const getRuleById = async (
+    ctx: AccessContext,
+    id: string,
+    permission: DelegationPermission = "VIEW",
+): Promise<CategorisationRule> => {
+    const [rule] = await db
+        .select()
+        .from(categorisationRules)
+        .where(eq(categorisationRules.id, id))
+        .limit(1);
+    if (!rule) {
+        throw new NotFoundError(`Rule with ID ${id} not found`);
+    }
+
+    await assertUserAccess(ctx, rule.userId, permission);
+    return rule;
+};
@@ -0,0 +1,38 @@
+import { and, asc, eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    categorisationRules,
+    type CategorisationRule,
+} from "@/schema/ruleTables";
+import { db } from "@/lib/database";
+
+/**
+ * Lists an owner's categorisation rules in evaluation order
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the rules
+ * @param enabledOnly - Skip disabled rules
+ * @returns Rules, lowest priority number first
+ * @throws AccessDeniedError if the caller cannot view the owner's data
+ */
+export const listRules = async (
+    ctx: AccessContext,
+    ownerId: string,
+    enabledOnly: boolean = false,
+): Promise<CategorisationRule[]> => {
+    await assertUserAccess(ctx, ownerId);
+
+    return db
+        .select()
+        .from(categorisationRules)
+        .where(
+            and(
+                eq(categorisationRules.userId, ownerId),
+                enabledOnly ? eq(categorisationRules.enabled, true) : undefined,
+            ),
+        )
+        .orderBy(
+            asc(categorisationRules.priority),
+            asc(categorisationRules.createdAt),
+        );
+};
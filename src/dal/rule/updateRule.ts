@@ -0,0 +1,41 @@
+import { eq } from "drizzle-orm";
+import { getRuleById } from "@/dal/rule/getRuleById";
+import { type AccessContext } from "@/schema/authSchema";
+import { type UpdateRuleData } from "@/schema/ruleQueries";
+import {
+    categorisationRules,
+    type CategorisationRule,
+} from "@/schema/ruleTables";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Updates a categorisation rule
+ * Automatically updates the updatedAt timestamp
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Rule ID
+ * @param data - Fields to update
+ * @returns Updated rule
+ * @throws NotFoundError if rule not found
+ * @throws AccessDeniedError if the caller cannot edit the rule owner's data
+ */
+export const updateRule = async (
+    ctx: AccessContext,
+    id: string,
+    data: UpdateRuleData,
+): Promise<CategorisationRule> => {
+    await getRuleById(ctx, id, "EDIT");
+
+    const [rule] = await db
+        .update(categorisationRules)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(categorisationRules.id, id))
+        .returning();
+
+    logInfo("Categorisation rule updated", {
+        ruleId: id,
+        updatedFields: Object.keys(data),
+    });
+
+    return rule;
+};
@@ -0,0 +1,43 @@
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import { suppliers, type Supplier } from "@/schema/invoiceTables";
+import {
+    insertSupplierSchema,
+    type CreateSupplierData,
+} from "@/schema/supplierQueries";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Adds a supplier to an owner's supplier directory
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the supplier directory
+ * @param data - Normalised name and tax ID, aliases, defaults and contact details
+ * @returns Created supplier
+ * @throws AccessDeniedError if the caller cannot edit the owner's data
+ * @throws Error if database insert fails (including a duplicate normalised name)
+ */
+export const createSupplier = async (
+    ctx: AccessContext,
+    ownerId: string,
+    data: CreateSupplierData,
+): Promise<Supplier> => {
+    await assertUserAccess(ctx, ownerId, "EDIT");
+    const validatedData = insertSupplierSchema.parse({
+        ...data,
+        userId: ownerId,
+    });
+
+    const [supplier] = await db
+        .insert(suppliers)
+        .values(validatedData)
+        .returning();
+
+    logInfo("Supplier created", {
+        supplierId: supplier.id,
+        userId: ownerId,
+        hasTaxId: !!supplier.taxId,
+    });
+
+    return supplier;
+};
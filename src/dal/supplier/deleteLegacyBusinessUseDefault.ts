@@ -0,0 +1,26 @@
+import { eq } from "drizzle-orm";
+import { type AccessContext } from "@/schema/authSchema";
+import { supplierBusinessUseDefaults } from "@/schema/invoiceTables";
+import { hasPermission } from "@/utils/core/auth";
+import { AccessDeniedError } from "@/utils/core/error";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Deletes a legacy supplier business-use default once it has been migrated
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Legacy default ID
+ * @throws AccessDeniedError if the caller is not an admin
+ */
+export const deleteLegacyBusinessUseDefault = async (
+    ctx: AccessContext,
+    id: string,
+): Promise<void> => {
+    if (!hasPermission(ctx.role, "ADMIN")) throw new AccessDeniedError();
+
+    await db
+        .delete(supplierBusinessUseDefaults)
+        .where(eq(supplierBusinessUseDefaults.id, id));
+
+    logInfo("Legacy supplier business-use default deleted", { id });
+};
@@ -0,0 +1,24 @@
+import { eq } from "drizzle-orm";
+import { getSupplierById } from "@/dal/supplier/getSupplierById";
+import { type AccessContext } from "@/schema/authSchema";
+import { suppliers } from "@/schema/invoiceTables";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Removes a supplier from the directory; its invoices keep their printed
+ * supplier details and are unlinked (supplierId set to null)
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Supplier ID
+ * @throws NotFoundError if supplier not found
+ * @throws AccessDeniedError if the caller cannot edit the supplier owner's data
+ */
+export const deleteSupplier = async (
+    ctx: AccessContext,
+    id: string,
+): Promise<void> => {
+    const supplier = await getSupplierById(ctx, id, "EDIT");
+    await db.delete(suppliers).where(eq(suppliers.id, id));
+
+    logInfo("Supplier deleted", { supplierId: id, userId: supplier.userId });
+};
@@ -0,0 +1,34 @@
+import { eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import { suppliers, type Supplier } from "@/schema/invoiceTables";
+import { type DelegationPermission } from "@/schema/userSchema";
+import { NotFoundError } from "@/utils/core/error";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves a supplier directory entry by its ID
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Supplier ID
+ * @param permission - Permission required on the owner's data (VIEW, EDIT)
+ * @returns Supplier
+ * @throws NotFoundError if supplier not found
+ * @throws AccessDeniedError if the caller cannot access the supplier owner
+ */
+export const getSupplierById = async (
+    ctx: AccessContext,
+    id: string,
+    permission: DelegationPermission = "VIEW",
+): Promise<Supplier> => {
+    const [supplier] = await db
+        .select()
+        .from(suppliers)
+        .where(eq(suppliers.id, id))
+        .limit(1);
+    if (!supplier) {
+        throw new NotFoundError(`Supplier with ID ${id} not found`);
+    }
+
+    await assertUserAccess(ctx, supplier.userId, permission);
+    return supplier;
+};
@@ -0,0 +1,22 @@
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    supplierBusinessUseDefaults,
+    type SupplierBusinessUseDefault,
+} from "@/schema/invoiceTables";
+import { hasPermission } from "@/utils/core/auth";
+import { AccessDeniedError } from "@/utils/core/error";
+import { db } from "@/lib/database";
+
+/**
+ * Retrieves every row of the legacy supplier business-use defaults table
+ * @param ctx - Caller access context (session user ID and role)
+ * @returns Legacy defaults across all owners
+ * @throws AccessDeniedError if the caller is not an admin
+ */
+export const listLegacyBusinessUseDefaults = async (
+    ctx: AccessContext,
+): Promise<SupplierBusinessUseDefault[]> => {
+    if (!hasPermission(ctx.role, "ADMIN")) throw new AccessDeniedError();
+
+    return db.select().from(supplierBusinessUseDefaults);
+};
@@ -0,0 +1,25 @@
+import { asc, eq } from "drizzle-orm";
+import { assertUserAccess } from "@/dal/access/assertUserAccess";
+import { type AccessContext } from "@/schema/authSchema";
+import { suppliers, type Supplier } from "@/schema/invoiceTables";
+import { db } from "@/lib/database";
+
+/**
+ * Lists an owner's supplier directory
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the supplier directory
+ * @returns Suppliers ordered by name
+ * @throws AccessDeniedError if the caller cannot view the owner's data
+ */
+export const listSuppliers = async (
+    ctx: AccessContext,
+    ownerId: string,
+): Promise<Supplier[]> => {
+    await assertUserAccess(ctx, ownerId);
+
+    return db
+        .select()
+        .from(suppliers)
+        .where(eq(suppliers.userId, ownerId))
+        .orderBy(asc(suppliers.normalisedName));
+};
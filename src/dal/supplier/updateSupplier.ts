@@ -0,0 +1,38 @@
+import { eq } from "drizzle-orm";
+import { getSupplierById } from "@/dal/supplier/getSupplierById";
+import { type AccessContext } from "@/schema/authSchema";
+import { suppliers, type Supplier } from "@/schema/invoiceTables";
+import { type UpdateSupplierData } from "@/schema/supplierQueries";
+import { logInfo } from "@/utils/sys/log";
+import { db } from "@/lib/database";
+
+/**
+ * Updates a supplier directory entry
+ * Automatically updates the updatedAt timestamp
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Supplier ID
+ * @param data - Fields to update
+ * @returns Updated supplier
+ * @throws NotFoundError if supplier not found
+ * @throws AccessDeniedError if the caller cannot edit the supplier owner's data
+ */
+export const updateSupplier = async (
+    ctx: AccessContext,
+    id: string,
+    data: UpdateSupplierData,
+): Promise<Supplier> => {
+    await getSupplierById(ctx, id, "EDIT");
+
+    const [supplier] = await db
+        .update(suppliers)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(suppliers.id, id))
+        .returning();
+
+    logInfo("Supplier updated", {
+        supplierId: id,
+        updatedFields: Object.keys(data),
+    });
+
+    return supplier;
+};
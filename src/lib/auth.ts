@@ -1,9 +1,14 @@
 import { DrizzleAdapter } from "@auth/drizzle-adapter";
+import { cookies } from "next/headers";
 import NextAuth from "next-auth";
 import GitHub from "next-auth/providers/github";
 import Google from "next-auth/providers/google";
 import { db } from "@/lib/database";
-import { AUTH_CONSTANTS, SESSION_STRATEGY } from "@/schema/authSchema";
+import {
+    AUTH_CONSTANTS,
+    SESSION_STRATEGY,
+    type AccessContext,
+} from "@/schema/authSchema";
 import { env } from "@/schema/envSchema";
 import { ERROR_MESSAGES } from "@/schema/messageSchema";
 import { ROUTES } from "@/schema/routeSchema";
@@ -166,3 +171,26 @@ export const { auth, signIn, signOut, handlers } = NextAuth({
         },
     },
 });
+
+/**
+ * Resolve the signed-in user's access context for scoped DAL calls
+ * Includes the client workspace an accountant switched into; the DAL
+ * re-checks the delegation on every query, so the cookie is not trusted
+ * @returns Session user ID, role and workspace, or null when not signed in
+ */
+export const getAccessContext = async (): Promise<AccessContext | null> => {
+    const session = await auth();
+    if (!session?.user?.id) return null;
+
+    const role = session.user.role || "USER";
+    const workspaceUserId =
+        role === "ACCOUNTANT"
+            ? (await cookies()).get(AUTH_CONSTANTS.WORKSPACE_COOKIE_NAME)?.value
+            : undefined;
+
+    return {
+        id: session.user.id,
+        role,
+        ...(workspaceUserId && { workspaceUserId }),
+    };
+};
@@ -1,11 +1,22 @@
 import { neon } from "@neondatabase/serverless";
 import { drizzle } from "drizzle-orm/neon-http";
 import { env } from "../schema/envSchema";
+import * as aiTables from "../schema/aiTables";
+import * as assetTables from "../schema/assetTables";
+import * as exportTables from "../schema/exportTables";
 import * as invoiceTables from "../schema/invoiceTables";
+import * as ruleTables from "../schema/ruleTables";
 import * as userTables from "../schema/userTables";
 
 // Combine all table schemas
-const schema = { ...userTables, ...invoiceTables };
+const schema = {
+    ...userTables,
+    ...invoiceTables,
+    ...aiTables,
+    ...exportTables,
+    ...assetTables,
+    ...ruleTables,
+};
 
 // Create the connection
 const sql = neon(env.DATABASE_URL);
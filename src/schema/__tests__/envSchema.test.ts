@@ -0,0 +1,18 @@
+import { AI_USAGE_CONSTANTS } from "@/schema/aiSchema";
+import { envSchema } from "@/schema/envSchema";
+
+describe("envSchema AI quotas", () => {
+    const quota = envSchema.shape.AI_MONTHLY_REQUEST_QUOTA_USER;
+
+    it("treats an empty variable as unset", () => {
+        expect(quota.parse("")).toBe(
+            AI_USAGE_CONSTANTS.DEFAULT_MONTHLY_REQUEST_QUOTAS.USER,
+        );
+    });
+
+    it("reads a number, zero or unlimited", () => {
+        expect(quota.parse("25")).toBe(25);
+        expect(quota.parse("0")).toBe(0);
+        expect(quota.parse(AI_USAGE_CONSTANTS.UNLIMITED_QUOTA)).toBeNull();
+    });
+});
@@ -0,0 +1,39 @@
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+import { AIUsageStats } from "./aiSchema";
+import { aiUsageRecords, extractionCorrections } from "./aiTables";
+
+export const selectAIUsageRecordSchema = createSelectSchema(aiUsageRecords);
+export const insertAIUsageRecordSchema = createInsertSchema(aiUsageRecords);
+//export type AIUsageRecord from aiTables.ts
+
+// Create AI Usage Record Data
+export type CreateAIUsageRecordData = Omit<
+    typeof aiUsageRecords.$inferInsert,
+    "id" | "createdAt"
+>;
+
+// Update AI Usage Record Data (outcome of a reserved extraction)
+export type UpdateAIUsageRecordData = Partial<
+    Omit<CreateAIUsageRecordData, "userId">
+>;
+
+export const selectExtractionCorrectionSchema = createSelectSchema(
+    extractionCorrections,
+);
+export const insertExtractionCorrectionSchema = createInsertSchema(
+    extractionCorrections,
+);
+//export type ExtractionCorrection from aiTables.ts
+
+// Create Extraction Correction Data (userId is the invoice owner)
+export type CreateExtractionCorrectionData = Omit<
+    typeof extractionCorrections.$inferInsert,
+    "id" | "userId" | "createdAt"
+>;
+
+// AI usage per user (admin report)
+export type AIUsageStatsByUser = AIUsageStats & {
+    userId: string;
+    userName: string | null;
+    userEmail: string;
+};
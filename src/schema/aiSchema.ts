@@ -1,8 +1,10 @@
 import { z } from "zod";
+import { type CustomCategoryHint } from "./categorySchema";
 import { InvoiceCategory } from "./invoiceSchema";
-import { ERROR_MESSAGES } from "./messageSchema";
+import { ERROR_MESSAGES, type ErrorMessageKey } from "./messageSchema";
 import { VALIDATION_RULES } from "./commonSchemas";
 import { allowedMimeTypeSchema, validFileFormatSchema } from "./uploadSchema";
+import { type UserRole } from "./userSchema";
 
 /**
  * Map OpenAI errors to consistent error codes and messages
@@ -22,6 +24,7 @@ export const mapOpenAIError = (
     const e = error.message.toLowerCase();
     // prettier-ignore
     const code: keyof typeof ERROR_MESSAGES = 
+        e.includes("insufficient_quota")                          ? "OPENAI_QUOTA_EXHAUSTED" :
         e.includes("rate_limit")     || e.includes("429")         ? "OPENAI_RATE_LIMIT" :
         e.includes("invalid_file")   || e.includes("unsupported") ? "OPENAI_INVALID_FILE" :
         e.includes("file_not_found") || e.includes("404")         ? "OPENAI_FILE_NOT_FOUND" :
@@ -37,7 +40,7 @@ export const mapOpenAIError = (
  */
 
 // AI Provider enum
-export const AIProviderEnum = ["OPENAI"] as const;
+export const AIProviderEnum = ["OPENAI", "MOCK"] as const;
 export const aiProviderSchema = z.enum(AIProviderEnum);
 export type AIProvider = z.infer<typeof aiProviderSchema>;
 
@@ -47,8 +50,47 @@ export const OPENAI_CONSTANTS = {
     TEMPERATURE: 0.1, // Used in OpenAI API calls for response consistency (low creativity)
     MODEL: "gpt-4o", // Used in OpenAI text processing API calls
     VISION_MODEL: "gpt-4o", // Used in OpenAI image/invoice processing API calls
-    MAX_RETRY_ATTEMPTS: 3, // Used in aiUtils.ts for failed API call retries
-    RETRY_DELAY_MS: 1000, // Used in aiUtils.ts for retry delay timing
+    MAX_RETRY_ATTEMPTS: 3, // Used in retry.ts - total attempts per extraction, including the first
+    RETRY_DELAY_MS: 1000, // Used in retry.ts as the base delay, doubled on each retry
+    MAX_RETRY_DELAY_MS: 30000, // Used in retry.ts to cap backoff; a longer Retry-After is not waited for
+    INSUFFICIENT_QUOTA_CODE: "insufficient_quota", // Used in openai.ts - a 429 with this code means the account is out of credit, not rate limited
+    RETRY_JITTER_RATIO: 0.2, // Used in retry.ts - random ±20% spread so parallel uploads do not retry together
+    RETRYABLE_ERROR_CODES: [
+        "OPENAI_RATE_LIMIT",
+        "OPENAI_PROCESSING_TIMEOUT",
+    ] as ErrorMessageKey[], // Used in retry.ts - transient failures worth another attempt
+} as const;
+
+// Mock provider constants - deterministic local extraction for tests and offline dev
+export const MOCK_PROVIDER_CONSTANTS = {
+    MODEL: "mock-rules-v1", // Used in mock.ts as the reported model name
+    FIXTURE_EXTENSION: ".json", // Used in mock.ts to resolve <fixtures dir>/<file name or content hash>.json
+    DEFAULT_SUPPLIER_NAME: "Mock Supplier Pty Ltd", // Used in mock.ts when neither a fixture nor text is available
+    DEFAULT_TOTAL_AMOUNT: 110, // Used in mock.ts default extraction (GST-inclusive)
+    DEFAULT_TAX_RATE: 10, // Used in mock.ts default extraction and rule-based tax inference
+    DEFAULT_CONFIDENCE: 0.5, // Used in mock.ts as categoryConfidence for rule-based extraction
+    INVOICE_NUMBER_PREFIX: "MOCK-", // Used in mock.ts - default invoice numbers derive from the content hash
+    INVOICE_NUMBER_HASH_LENGTH: 8, // Used in mock.ts - hash characters kept in default invoice numbers
+} as const;
+
+// AI usage outcome enum; PENDING reserves quota while an extraction runs
+export const AIUsageOutcomeEnum = ["PENDING", "SUCCESS", "FAILED"] as const;
+export const aiUsageOutcomeSchema = z.enum(AIUsageOutcomeEnum);
+export type AIUsageOutcome = z.infer<typeof aiUsageOutcomeSchema>;
+
+// AI usage quota constants - default monthly limits per role, null means unlimited
+export const AI_USAGE_CONSTANTS = {
+    DEFAULT_MONTHLY_REQUEST_QUOTAS: {
+        USER: 100,
+        ACCOUNTANT: 1000,
+        ADMIN: null,
+    } as Record<UserRole, number | null>, // Used in envSchema.ts - default AI_MONTHLY_REQUEST_QUOTA_* (extractions per calendar month)
+    DEFAULT_MONTHLY_TOKEN_QUOTAS: {
+        USER: 500000,
+        ACCOUNTANT: 5000000,
+        ADMIN: null,
+    } as Record<UserRole, number | null>, // Used in envSchema.ts - default AI_MONTHLY_TOKEN_QUOTA_* (total tokens per calendar month)
+    UNLIMITED_QUOTA: "unlimited", // Used in envSchema.ts - quota value with no limit
 } as const;
 
 // AI Validation Constants
@@ -79,6 +121,17 @@ export const AnomalySeverityEnum = ["LOW", "MEDIUM", "HIGH"] as const;
 export const anomalySeveritySchema = z.enum(AnomalySeverityEnum);
 export type AnomalySeverity = z.infer<typeof anomalySeveritySchema>;
 
+// Anomaly detection constants
+export const ANOMALY_CONSTANTS = {
+    MIN_SUPPLIER_HISTORY: 3, // Used in anomaly.ts before flagging amount spikes against a supplier's average
+    AMOUNT_SPIKE_MULTIPLIER: 3, // Used in anomaly.ts - total above 3× supplier average is MEDIUM
+    AMOUNT_SPIKE_HIGH_MULTIPLIER: 5, // Used in anomaly.ts - total above 5× supplier average is HIGH
+    FUTURE_DATE_GRACE_DAYS: 1, // Used in anomaly.ts to allow timezone differences on invoice dates
+    OLD_DATE_DAYS: 365, // Used in anomaly.ts - invoices older than this are flagged
+    OLD_DATE_HIGH_YEARS: 5, // Used in anomaly.ts - older than the ATO record-keeping period is HIGH
+    REVIEW_SEVERITY: "HIGH" as AnomalySeverity, // Used in anomaly.ts to flip validationStatus to NEEDS_REVIEW
+} as const;
+
 // Validation severity enum
 export const ValidationSeverityEnum = ["OK", "ERROR", "WARNING"] as const;
 export const validationSeveritySchema = z.enum(ValidationSeverityEnum);
@@ -121,6 +174,7 @@ For category suggestion, choose from these Australian tax deductible categories:
 - OTHER: Miscellaneous business expenses\n
 Use null for missing values.\n
 Ensure all monetary values are numbers without currency symbols.\n
+Tax rate should be a percentage (e.g., 10 for 10% GST), not a fraction.\n
 Category confidence should be 0.0-1.0.\n
 Format dates on invoice to Australian date DD/MM/YYYY (e.g., 15/03/2024 for March 15, 2024).`,
     // User Prompt
@@ -135,6 +189,19 @@ Extract all relevant data from this invoice image and suggest the most appropria
 7. Category suggestion based on supplier, items, and purpose of expense\n
 8. Provide reasoning for category choice considering Australian tax deductibility rules\n
 Return only valid JSON without any additional text.`,
+    // Appended to the user prompt when the user has custom categories (prompt.ts)
+    CUSTOM_CATEGORIES_PROMPT: `\n
+The user also files invoices under these custom categories:\n
+{categories}\n
+If one of them fits this invoice, also return a customCategory field with its exact name and set suggestedCategory to its parent category. Otherwise return customCategory as null.`,
+    CUSTOM_CATEGORY_LINE:
+        "- {name} (parent: {parentCategory}; keywords: {keywords}): {description}",
+    // Appended to the user prompt when the user has corrected earlier extractions (prompt.ts)
+    CORRECTIONS_PROMPT: `\n
+The user corrected these values on earlier invoices. If this invoice is from one of these suppliers, read the field the way the correction shows (for example from the same label on the invoice):\n
+{corrections}`,
+    CORRECTION_LINE:
+        '- {supplierName}, {field}: read as "{aiValue}", corrected to "{userValue}"',
 } as const;
 
 // AI Category Suggestion Constants
@@ -147,14 +214,104 @@ export const AI_CATEGORY_CONSTANTS = {
     HISTORICAL_CONFIDENCE_BASE: 0.6,
     HISTORICAL_CONFIDENCE_FACTOR: 0.3,
     MAX_HISTORICAL_CONFIDENCE: 0.9,
+    MAX_ALTERNATIVES: 3, // Used in processing.ts to cap alternativeCategories
+    // Keyword classifier (classifier.ts)
+    KEYWORD_WEIGHT: 1, // INVOICE_CATEGORIES keyword in the description or a line item
+    SUPPLIER_KEYWORD_WEIGHT: 2, // INVOICE_CATEGORIES keyword in the supplier name
+    LEARNED_TOKEN_WEIGHT: 1, // Scaled by the token's share of the user's invoices in the category
+    MIN_TOKEN_LENGTH: 3, // Shorter words are ignored
+    MIN_LEARNED_OCCURRENCES: 2, // A token must appear on this many categorised invoices to be learned
+    FULL_EVIDENCE_SCORE: 3, // Total score at which keyword confidence is no longer damped
+    MAX_KEYWORD_CONFIDENCE: 0.8,
 } as const;
 
+// Learning from user corrections (corrections.ts)
+export const AI_CORRECTION_CONSTANTS = {
+    MAX_CORRECTIONS_LOADED: 500, // Used in listExtractionCorrections - most recent first
+    MAX_PROMPT_HINTS: 10, // Used in corrections.ts - supplier and field pairs offered to the AI
+    MIN_CORRECTIONS_FOR_OVERRIDE: 2, // Used in corrections.ts - latest corrections that must agree before an extracted value is replaced
+    CATEGORY_CORRECTION_WEIGHT: 2, // Used in processing.ts - a category correction counts as this many invoices of supplier history
+    CORRECTION_CONFIDENCE: 0.9, // Used in corrections.ts - category the user has repeatedly corrected to
+} as const;
+
+// Invoice fields whose AI value is compared with the user's when an invoice is saved
+export const CorrectionFieldEnum = [
+    "invoiceNumber",
+    "supplierName",
+    "supplierAddress",
+    "supplierTaxId",
+    "subtotal",
+    "taxAmount",
+    "taxRate",
+    "totalAmount",
+    "currency",
+    "invoiceDate",
+    "dueDate",
+    "description",
+    "category",
+] as const;
+export const correctionFieldSchema = z.enum(CorrectionFieldEnum);
+export type CorrectionField = z.infer<typeof correctionFieldSchema>;
+
+// extractedData key holding the AI value of each correctable field
+export const CORRECTION_EXTRACTED_KEYS: Record<
+    CorrectionField,
+    keyof ExtractedInvoiceData
+> = {
+    invoiceNumber: "invoiceNumber",
+    supplierName: "supplierName",
+    supplierAddress: "supplierAddress",
+    supplierTaxId: "supplierTaxId",
+    subtotal: "subtotal",
+    taxAmount: "taxAmount",
+    taxRate: "taxRate",
+    totalAmount: "totalAmount",
+    currency: "currency",
+    invoiceDate: "invoiceDate",
+    dueDate: "dueDate",
+    description: "description",
+    category: "suggestedCategory",
+};
+
+// Fields that stay the same on every invoice from a supplier, so agreeing
+// corrections replace the extracted value; the others are only prompt hints
+export const OVERRIDABLE_CORRECTION_FIELDS: readonly CorrectionField[] = [
+    "supplierName",
+    "supplierAddress",
+    "supplierTaxId",
+    "taxRate",
+    "currency",
+    "category",
+];
+
+// Extraction accuracy report (GET /api/ai/accuracy); counts invoices created since the date
+export const extractionAccuracyQuerySchema = z.object({
+    since: z.coerce.date().optional(),
+});
+
+// Accuracy of one extracted field (admin report)
+export type ExtractionFieldAccuracy = {
+    field: CorrectionField;
+    extractedCount: number; // Invoices with an AI value for the field
+    correctedCount: number; // Of those, invoices the user corrected
+    accuracy: number | null; // Share left uncorrected; null when nothing was extracted
+};
+
+// Keyword classifier score for one category
+export type KeywordClassification = {
+    category: InvoiceCategory;
+    score: number;
+    confidence: number;
+    matchedTokens: string[]; // Keywords and learned tokens found on the invoice
+};
+
 // Validation Error Schema
 export const validationErrorSchema = z.object({
     field: z.string(),
     code: z.string(),
     message: z.string(),
     severity: validationSeveritySchema,
+    suggestedValue: z.unknown().optional(),
 });
 export type ValidationError = z.infer<typeof validationErrorSchema>;
 
@@ -203,7 +360,7 @@ export const extractedInvoiceDataSchema = z.object({
     supplierTaxId: z.string().optional(),
     subtotal: z.number().optional(), // OpenAI should return number per prompt requirement
     taxAmount: z.number().optional(), // OpenAI should return number per prompt requirement
-    taxRate: z.number().optional(), // OpenAI should return number per prompt requirement
+    taxRate: z.number().optional(), // Percentage (10 = 10%) per prompt requirement
     totalAmount: z.number().optional(), // OpenAI should return number per prompt requirement
     currency: z.string().optional(),
     invoiceDate: z.string().optional(), // Date as ISO string
@@ -213,6 +370,7 @@ export const extractedInvoiceDataSchema = z.object({
     suggestedCategory: z.string().optional(), // AI-suggested category from single extraction call
     categoryConfidence: z.number().min(0).max(1).optional(), // OpenAI should return 0.0-1.0 per prompt requirement
     categoryReasoning: z.string().optional(), // AI reasoning for category choice
+    customCategory: z.string().nullable().optional(), // Name of the user's custom category the AI chose
     rawExtraction: z.record(z.unknown()).optional(), // For AI processing raw data
 });
 export type ExtractedInvoiceData = z.infer<typeof extractedInvoiceDataSchema>;
@@ -231,6 +389,58 @@ export const aiExtractionRequestSchema = z.object({
 });
 export type AIExtractionRequest = z.infer<typeof aiExtractionRequestSchema>;
 
+// AI Extraction Input - what an extraction provider receives for one uploaded file
+export type AIExtractionInput = {
+    fileName: string;
+    imageUrl?: string; // Pre-signed download URL (remote providers)
+    buffer?: Buffer; // File content (local providers)
+    contentHash?: string;
+    customCategories?: CustomCategoryHint[]; // The user's custom categories, offered in the prompt
+    corrections?: CorrectionHint[]; // The user's recent corrections, offered in the prompt
+};
+
+// Latest correction of one field for one supplier, offered in the prompt
+export type CorrectionHint = {
+    supplierName: string;
+    field: CorrectionField;
+    aiValue: string;
+    userValue: string;
+};
+
+// AI Extraction Attempt Schema - one provider call within a retried extraction
+export const aiExtractionAttemptSchema = z.object({
+    attempt: z.number().int().min(1),
+    success: z.boolean(),
+    durationMs: z.number().min(0),
+    errorCode: z.string().optional(),
+    retryAfterMs: z.number().min(0).optional(), // From the provider's Retry-After header
+    delayMs: z.number().min(0).optional(), // Wait before the next attempt
+});
+export type AIExtractionAttempt = z.infer<typeof aiExtractionAttemptSchema>;
+
+// AI Token Usage Schema - as reported by the provider
+export const aiTokenUsageSchema = z.object({
+    promptTokens: z.number().int().min(0),
+    completionTokens: z.number().int().min(0),
+    totalTokens: z.number().int().min(0),
+});
+export type AITokenUsage = z.infer<typeof aiTokenUsageSchema>;
+
+// AI Provider Result - one successful provider call
+export type AIProviderResult = {
+    data: ExtractedInvoiceData;
+    usage?: AITokenUsage;
+};
+
+// AI Extraction Metadata Schema - which provider produced a response and how
+export const aiExtractionMetadataSchema = z.object({
+    provider: aiProviderSchema,
+    model: z.string(),
+    attempts: z.array(aiExtractionAttemptSchema),
+    usage: aiTokenUsageSchema.optional(),
+});
+export type AIExtractionMetadata = z.infer<typeof aiExtractionMetadataSchema>;
+
 // AI Extraction Response Schema
 export const aiExtractionResponseSchema = z.object({
     success: z.boolean(),
@@ -238,6 +448,7 @@ export const aiExtractionResponseSchema = z.object({
     error: z.string().optional(),
     confidence: z.number().min(0).max(1).optional(),
     processingTime: z.number().min(0).optional(),
+    metadata: aiExtractionMetadataSchema.optional(),
 });
 export type AIExtractionResponse = z.infer<typeof aiExtractionResponseSchema>;
 
@@ -288,3 +499,15 @@ export const aiUsageStatsSchema = z.object({
     lastUpdated: z.date(),
 });
 export type AIUsageStats = z.infer<typeof aiUsageStatsSchema>;
+
+// AI Usage Quota Schema - current month's usage against the role's limits
+export const aiUsageQuotaSchema = z.object({
+    periodStart: z.date(),
+    periodEnd: z.date(),
+    requestsUsed: z.number().min(0),
+    requestLimit: z.number().min(0).nullable(),
+    tokensUsed: z.number().min(0),
+    tokenLimit: z.number().min(0).nullable(),
+    isExceeded: z.boolean(),
+});
+export type AIUsageQuota = z.infer<typeof aiUsageQuotaSchema>;
@@ -0,0 +1,92 @@
+import { createId } from "@paralleldrive/cuid2";
+import {
+    index,
+    integer,
+    pgEnum,
+    pgTable,
+    text,
+    timestamp,
+} from "drizzle-orm/pg-core";
+import {
+    AIProviderEnum,
+    AIUsageOutcomeEnum,
+    CorrectionFieldEnum,
+} from "./aiSchema";
+import { invoiceFiles, invoices, suppliers } from "./invoiceTables";
+import { users } from "./userTables";
+
+export const aiProviderEnum = pgEnum("ai_provider", AIProviderEnum);
+export const aiUsageOutcomeEnum = pgEnum(
+    "ai_usage_outcome",
+    AIUsageOutcomeEnum,
+);
+export const correctionFieldEnum = pgEnum(
+    "extraction_correction_field",
+    CorrectionFieldEnum,
+);
+
+// One row per extraction (all retry attempts included), for metering and quotas
+export const aiUsageRecords = pgTable(
+    "ai_usage_records",
+    {
+        id: text("id")
+            .primaryKey()
+            .$defaultFn(() => createId()),
+        userId: text("user_id")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        fileId: text("file_id").references(() => invoiceFiles.id, {
+            onDelete: "set null",
+        }),
+        provider: aiProviderEnum("provider").notNull(),
+        model: text("model").notNull(),
+        outcome: aiUsageOutcomeEnum("outcome").notNull(),
+        errorCode: text("error_code"),
+        attempts: integer("attempts").notNull().default(1),
+        promptTokens: integer("prompt_tokens").notNull().default(0),
+        completionTokens: integer("completion_tokens").notNull().default(0),
+        totalTokens: integer("total_tokens").notNull().default(0),
+        latencyMs: integer("latency_ms").notNull().default(0),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("ai_usage_records_user_created_idx").on(
+            table.userId,
+            table.createdAt,
+        ),
+    ],
+);
+export type AIUsageRecord = typeof aiUsageRecords.$inferSelect;
+
+// A user's change to an AI-extracted invoice field (canonical text values),
+// fed back into later extractions for the same supplier
+export const extractionCorrections = pgTable(
+    "extraction_corrections",
+    {
+        id: text("id")
+            .primaryKey()
+            .$defaultFn(() => createId()),
+        userId: text("user_id")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        invoiceId: text("invoice_id").references(() => invoices.id, {
+            onDelete: "set null",
+        }),
+        supplierId: text("supplier_id").references(() => suppliers.id, {
+            onDelete: "set null",
+        }),
+        supplierName: text("supplier_name"), // Supplier name as saved by the user
+        field: correctionFieldEnum("field").notNull(),
+        aiValue: text("ai_value").notNull(),
+        userValue: text("user_value").notNull(),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("extraction_corrections_user_created_idx").on(
+            table.userId,
+            table.createdAt,
+        ),
+        index("extraction_corrections_field_idx").on(table.field),
+    ],
+);
+export type ExtractionCorrection = typeof extractionCorrections.$inferSelect;
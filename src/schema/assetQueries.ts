@@ -0,0 +1,31 @@
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+import { DepreciationMethod, DepreciationScheduleEntry } from "./assetSchema";
+import { Asset, assets } from "./assetTables";
+
+export const selectAssetSchema = createSelectSchema(assets);
+export const insertAssetSchema = createInsertSchema(assets);
+//export type Asset from assetTables.ts
+
+// Create Asset Data
+export type CreateAssetData = {
+    invoiceId?: string | null;
+    lineItemId?: string | null;
+    name: string;
+    description?: string | null;
+    cost: number;
+    startDate: Date;
+    effectiveLifeYears: number;
+    method: DepreciationMethod;
+    businessUsePercentage?: number | null;
+};
+
+// Update Asset Data
+export type UpdateAssetData = Partial<
+    Omit<CreateAssetData, "invoiceId" | "lineItemId">
+>;
+
+// Asset with its year-by-year depreciation schedule
+export type AssetWithSchedule = {
+    asset: Asset;
+    schedule: DepreciationScheduleEntry[];
+};
@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { VALIDATION_RULES } from "./commonSchemas";
+import { validateDateFormatSchema } from "./dateSchema";
+import { percentageSchema } from "./invoiceSchema";
+import { ERROR_MESSAGES } from "./messageSchema";
+import { reportFormatSchema } from "./reportSchema";
+
+// ATO decline in value methods
+export const DepreciationMethodEnum = [
+    "PRIME_COST",
+    "DIMINISHING_VALUE",
+] as const;
+export const depreciationMethodSchema = z.enum(DepreciationMethodEnum);
+export type DepreciationMethod = z.infer<typeof depreciationMethodSchema>;
+
+export const ASSET_CONSTANTS = {
+    DEFAULT_CAPITAL_ASSET_THRESHOLD: 20000, // Used in envSchema.ts - default CAPITAL_ASSET_THRESHOLD (AUD instant asset write-off limit)
+    DIMINISHING_VALUE_RATE: 200, // Used in depreciation.ts - diminishing value rate is 200% / effective life
+    MAX_EFFECTIVE_LIFE_YEARS: 100, // Used in asset input validation
+    MAX_SCHEDULE_YEARS: 50, // Used in depreciation.ts - diminishing value never reaches zero, so schedules stop here
+    FILE_NAME: "Depreciation_FY{financialYear}.{extension}", // Used in depreciation report route for downloads
+} as const;
+
+// Asset register entry (POST /api/assets)
+// Cost, name and start date default from the linked line item or invoice
+export const assetInputSchema = z
+    .object({
+        name: z
+            .string()
+            .trim()
+            .min(
+                VALIDATION_RULES.MIN_LINE_ITEM_LENGTH,
+                ERROR_MESSAGES.INVALID_LINE_ITEM,
+            )
+            .max(
+                VALIDATION_RULES.MAX_LINE_ITEM_LENGTH,
+                ERROR_MESSAGES.INVALID_LINE_ITEM,
+            )
+            .optional(),
+        description: z
+            .string()
+            .max(
+                VALIDATION_RULES.MAX_DESCRIPTION_LENGTH,
+                ERROR_MESSAGES.INVALID_DESCRIPTION,
+            )
+            .optional(),
+        invoiceId: z.string().optional(),
+        lineItemId: z.string().optional(), // Requires invoiceId
+        cost: z
+            .number()
+            .positive(ERROR_MESSAGES.INVALID_AMOUNT)
+            .max(VALIDATION_RULES.MAX_AMOUNT, ERROR_MESSAGES.INVALID_AMOUNT)
+            .optional(),
+        startDate: validateDateFormatSchema.optional(), // Date first used or installed ready for use
+        effectiveLifeYears: z
+            .number()
+            .positive(ERROR_MESSAGES.INVALID_EFFECTIVE_LIFE)
+            .max(
+                ASSET_CONSTANTS.MAX_EFFECTIVE_LIFE_YEARS,
+                ERROR_MESSAGES.INVALID_EFFECTIVE_LIFE,
+            ),
+        method: depreciationMethodSchema,
+        businessUsePercentage: percentageSchema.nullable().optional(), // null = 100% business
+    })
+    .refine((input) => !input.lineItemId || !!input.invoiceId, {
+        message: ERROR_MESSAGES.ASSET_LINE_ITEM_REQUIRES_INVOICE,
+        path: ["invoiceId"],
+    });
+export type AssetInput = z.infer<typeof assetInputSchema>;
+
+// Partial asset update (PATCH /api/assets/[id]); the linked invoice can't change
+export const assetUpdateSchema = z.object({
+    name: z
+        .string()
+        .trim()
+        .min(
+            VALIDATION_RULES.MIN_LINE_ITEM_LENGTH,
+            ERROR_MESSAGES.INVALID_LINE_ITEM,
+        )
+        .max(
+            VALIDATION_RULES.MAX_LINE_ITEM_LENGTH,
+            ERROR_MESSAGES.INVALID_LINE_ITEM,
+        )
+        .optional(),
+    description: z
+        .string()
+        .max(
+            VALIDATION_RULES.MAX_DESCRIPTION_LENGTH,
+            ERROR_MESSAGES.INVALID_DESCRIPTION,
+        )
+        .nullable()
+        .optional(),
+    cost: z
+        .number()
+        .positive(ERROR_MESSAGES.INVALID_AMOUNT)
+        .max(VALIDATION_RULES.MAX_AMOUNT, ERROR_MESSAGES.INVALID_AMOUNT)
+        .optional(),
+    startDate: validateDateFormatSchema.optional(),
+    effectiveLifeYears: z
+        .number()
+        .positive(ERROR_MESSAGES.INVALID_EFFECTIVE_LIFE)
+        .max(
+            ASSET_CONSTANTS.MAX_EFFECTIVE_LIFE_YEARS,
+            ERROR_MESSAGES.INVALID_EFFECTIVE_LIFE,
+        )
+        .optional(),
+    method: depreciationMethodSchema.optional(),
+    businessUsePercentage: percentageSchema.nullable().optional(),
+});
+export type AssetUpdateInput = z.infer<typeof assetUpdateSchema>;
+
+// Depreciation report query (GET /api/reports/depreciation)
+export const depreciationReportQuerySchema = z.object({
+    financialYear: z.coerce.number().int().min(2000).max(2100), // Starting year, 2024 = FY 2024-2025
+    format: reportFormatSchema.optional(), // Download the schedule instead of JSON
+});
+export type DepreciationReportQuery = z.infer<
+    typeof depreciationReportQuerySchema
+>;
+
+// Decline in value of one asset for one financial year
+export type DepreciationScheduleEntry = {
+    financialYear: number;
+    daysHeld: number;
+    openingValue: number;
+    declineInValue: number;
+    closingValue: number;
+    deductibleAmount: number; // Business-use share of the decline in value
+};
+
+// Asset line in a financial year's depreciation schedule
+export type DepreciationYearAsset = DepreciationScheduleEntry & {
+    assetId: string;
+    name: string;
+    invoiceId: string | null;
+    method: DepreciationMethod;
+    cost: number;
+    startDate: Date;
+    effectiveLifeYears: number;
+    businessUsePercentage: number;
+};
+
+// Depreciation schedule for every asset held during a financial year
+export type DepreciationYearSchedule = {
+    financialYear: number;
+    periodStart: string;
+    periodEnd: string;
+    assets: DepreciationYearAsset[];
+    totals: {
+        openingValue: number;
+        declineInValue: number;
+        closingValue: number;
+        deductibleAmount: number;
+    };
+};
+
+// Extracted line item that looks like a capital asset
+export type CapitalAssetSuggestion = {
+    itemIndex: number; // Position in the extracted items
+    description: string | null;
+    amount: number; // Unit cost compared with the threshold
+    threshold: number;
+    message: string;
+};
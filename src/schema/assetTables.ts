@@ -0,0 +1,64 @@
+import { createId } from "@paralleldrive/cuid2";
+import {
+    decimal,
+    index,
+    pgEnum,
+    pgTable,
+    text,
+    timestamp,
+} from "drizzle-orm/pg-core";
+import { DepreciationMethodEnum } from "./assetSchema";
+import { PRECISION_CONSTANTS } from "./financialSchema";
+import { invoiceLineItems, invoices } from "./invoiceTables";
+import { users } from "./userTables";
+
+export const depreciationMethodEnum = pgEnum(
+    "depreciation_method",
+    DepreciationMethodEnum,
+);
+
+// Depreciating asset register, optionally linked to the purchase invoice or line item
+export const assets = pgTable(
+    "assets",
+    {
+        id: text("id")
+            .primaryKey()
+            .$defaultFn(() => createId()),
+        userId: text("user_id")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        invoiceId: text("invoice_id").references(() => invoices.id, {
+            onDelete: "set null",
+        }),
+        lineItemId: text("line_item_id").references(() => invoiceLineItems.id, {
+            onDelete: "set null",
+        }),
+        name: text("name").notNull(),
+        description: text("description"),
+        cost: decimal("cost", {
+            precision: PRECISION_CONSTANTS.DECIMAL_PRECISION,
+            scale: PRECISION_CONSTANTS.DECIMAL_SCALE,
+            mode: "number",
+        }).notNull(),
+        startDate: timestamp("start_date").notNull(),
+        effectiveLifeYears: decimal("effective_life_years", {
+            precision: PRECISION_CONSTANTS.PERCENTAGE_PRECISION,
+            scale: PRECISION_CONSTANTS.PERCENTAGE_SCALE,
+            mode: "number",
+        }).notNull(),
+        method: depreciationMethodEnum("method").notNull(),
+        // null = 100% business use
+        businessUsePercentage: decimal("business_use_percentage", {
+            precision: PRECISION_CONSTANTS.PERCENTAGE_PRECISION,
+            scale: PRECISION_CONSTANTS.PERCENTAGE_SCALE,
+            mode: "number",
+        }),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+        updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("assets_user_start_idx").on(table.userId, table.startDate),
+        index("assets_invoice_idx").on(table.invoiceId),
+    ],
+);
+export type Asset = typeof assets.$inferSelect;
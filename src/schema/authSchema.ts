@@ -53,6 +53,8 @@ export const AUTH_CONSTANTS = {
     ONE_HOUR_MS: 60 * 60 * 1000, // Used in authUtils.ts for time calculations (1 hour in milliseconds)
     ONE_DAY_MS: 24 * 60 * 60 * 1000, // Used in authUtils.ts for time calculations (24 hours in milliseconds)
     ONE_WEEK_MS: 7 * 24 * 60 * 60 * 1000, // Used in authUtils.ts for time calculations (7 days in milliseconds)
+    ALL_USERS_SCOPE: "*", // Used in scoped DAL queries to request every user's data (ADMIN only)
+    WORKSPACE_COOKIE_NAME: "active-workspace", // Used in lib/auth.ts and workspaces API for the accountant's selected client
 } as const;
 
 // Core authentication form schemas
@@ -209,3 +211,17 @@ export const permissionCheckSchema = z.object({
     resourceId: z.string().optional(),
 });
 export type PermissionCheckData = z.infer<typeof permissionCheckSchema>;
+
+// Data access context - the caller's identity, passed to every scoped DAL query
+// workspaceUserId is the client workspace an accountant has switched into
+export const accessContextSchema = z.object({
+    id: z.string().min(1),
+    role: userRoleSchema,
+    workspaceUserId: z.string().min(1).optional(),
+});
+export type AccessContext = z.infer<typeof accessContextSchema>;
+
+// Scope target for DAL reads: a specific user ID or AUTH_CONSTANTS.ALL_USERS_SCOPE
+export type AccessScopeTarget =
+    | string
+    | (typeof AUTH_CONSTANTS)["ALL_USERS_SCOPE"];
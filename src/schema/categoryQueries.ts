@@ -0,0 +1,19 @@
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+import { InvoiceCategory } from "./invoiceSchema";
+import { customCategories } from "./invoiceTables";
+
+export const selectCustomCategorySchema = createSelectSchema(customCategories);
+export const insertCustomCategorySchema = createInsertSchema(customCategories);
+//export type CustomCategory from invoiceTables.ts
+
+// Create Custom Category Data
+export type CreateCustomCategoryData = {
+    name: string;
+    color: string;
+    description?: string | null;
+    keywords?: string[];
+    parentCategory: InvoiceCategory;
+};
+
+// Update Custom Category Data
+export type UpdateCustomCategoryData = Partial<CreateCustomCategoryData>;
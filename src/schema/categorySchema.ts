@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { VALIDATION_RULES } from "./commonSchemas";
+import { InvoiceCategoryEnum, type InvoiceCategory } from "./invoiceSchema";
+import { ERROR_MESSAGES } from "./messageSchema";
+
+export const CATEGORY_CONSTANTS = {
+    NAME_MAX_LENGTH: 50, // Used in custom category input validation
+    MAX_KEYWORDS: 20, // Used in custom category input validation
+    DEFAULT_COLOR: "#6B7280", // Used in custom category input - same grey as OTHER
+    DEFAULT_PARENT_CATEGORY: "OTHER" as InvoiceCategory, // Used in custom category input - tax mapping when none is chosen
+} as const;
+
+// Custom category (POST /api/categories); the parent built-in category
+// decides tax treatment, BAS labels and accounting codes
+export const customCategoryInputSchema = z.object({
+    name: z.string().trim().min(1).max(CATEGORY_CONSTANTS.NAME_MAX_LENGTH),
+    color: z
+        .string()
+        .regex(
+            VALIDATION_RULES.HEX_COLOR_REGEX,
+            ERROR_MESSAGES.INVALID_HEX_COLOR,
+        )
+        .default(CATEGORY_CONSTANTS.DEFAULT_COLOR),
+    description: z
+        .string()
+        .trim()
+        .max(
+            VALIDATION_RULES.MAX_DESCRIPTION_LENGTH,
+            ERROR_MESSAGES.INVALID_DESCRIPTION,
+        )
+        .nullable()
+        .optional(),
+    keywords: z
+        .array(z.string().trim().min(1))
+        .max(CATEGORY_CONSTANTS.MAX_KEYWORDS)
+        .default([]), // Offered to the AI with the category
+    parentCategory: z
+        .enum(InvoiceCategoryEnum, {
+            message: ERROR_MESSAGES.INVALID_CATEGORY,
+        })
+        .default(CATEGORY_CONSTANTS.DEFAULT_PARENT_CATEGORY),
+});
+export type CustomCategoryInput = z.infer<typeof customCategoryInputSchema>;
+
+// Partial custom category update (PATCH /api/categories/[id])
+export const customCategoryUpdateSchema = customCategoryInputSchema.partial();
+export type CustomCategoryUpdateInput = z.infer<
+    typeof customCategoryUpdateSchema
+>;
+
+// What the AI prompt is told about a user's custom category
+export type CustomCategoryHint = {
+    name: string;
+    description: string | null;
+    keywords: string[];
+    parentCategory: InvoiceCategory;
+};
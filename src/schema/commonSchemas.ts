@@ -50,6 +50,6 @@ export const VALIDATION_RULES = {
     INVOICE_NUMBER_MIN_LENGTH: 2, // Used in invoice number validation (minimum length)
     INVOICE_NUMBER_MAX_LENGTH: 30, // Used in invoice number validation (maximum length)
     INVOICE_REGEX: /^[a-zA-Z0-9\-_]+$/, // Used in invoice number validation (regex)
-    TAX_ID_REGEX: /^[A-Z0-9]{1,10}$/, // Used in tax id validation like ABN, ACN etc.(regex)
+    TAX_ID_REGEX: /^[A-Za-z0-9][A-Za-z0-9 .\-]{1,23}$/, // Used in tax id validation like ABN, ACN, VAT and EIN, spaces and separators allowed (regex)
     OPENAI_FIELD_ID_REGEX: /^[a-zA-Z0-9\-_]+$/, // Used in openai field id validation (regex)
 } as const;
@@ -0,0 +1,44 @@
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+import { ExportJobStatus, ExportOptions } from "./exportSchema";
+import { exportJobs, exportTemplates } from "./exportTables";
+
+export const selectExportJobSchema = createSelectSchema(exportJobs);
+export const insertExportJobSchema = createInsertSchema(exportJobs);
+//export type ExportJobRecord from exportTables.ts
+
+export const selectExportTemplateSchema = createSelectSchema(exportTemplates);
+export const insertExportTemplateSchema = createInsertSchema(exportTemplates);
+//export type ExportTemplateRecord from exportTables.ts
+
+// Create Export Job Data
+export type CreateExportJobData = {
+    userId: string;
+    requestedBy: string;
+    fileName: string;
+    options: ExportOptions;
+    expiresAt: Date;
+};
+
+// Update Export Job Data (worker progress and results)
+export type UpdateExportJobData = Partial<{
+    status: ExportJobStatus;
+    progress: number;
+    s3ObjectKey: string | null;
+    fileSize: number;
+    recordCount: number;
+    downloadUrl: string | null;
+    error: string | null;
+    startedAt: Date;
+    completedAt: Date;
+}>;
+
+// Create Export Template Data
+export type CreateExportTemplateData = {
+    name: string;
+    description?: string;
+    options: ExportOptions;
+    isDefault: boolean;
+};
+
+// Update Export Template Data
+export type UpdateExportTemplateData = Partial<CreateExportTemplateData>;
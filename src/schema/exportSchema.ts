@@ -1,12 +1,31 @@
 import { z } from "zod";
 import { formatDisplay } from "@/utils/core/date";
 import { formatCurrency, formatPercentage } from "@/utils/core/format";
-import { dateFormatSchema } from "./dateSchema";
+import { dateFormatSchema, type DateFormat } from "./dateSchema";
+import { type SupportedCurrency } from "./financialSchema";
+import { invoiceCategorySchema, type InvoiceCategory } from "./invoiceSchema";
 
-export const ExportFormatEnum = ["EXCEL", "CSV"] as const;
+export const ExportFormatEnum = [
+    "EXCEL",
+    "CSV",
+    "XERO",
+    "MYOB",
+    "QUICKBOOKS",
+] as const;
 export const exportFormatSchema = z.enum(ExportFormatEnum);
 export type ExportFormat = z.infer<typeof exportFormatSchema>;
 
+// Bill import layouts for accounting software (see ACCOUNTING_EXPORT_LAYOUTS)
+export const AccountingExportFormatEnum = [
+    "XERO",
+    "MYOB",
+    "QUICKBOOKS",
+] as const;
+export const accountingExportFormatSchema = z.enum(AccountingExportFormatEnum);
+export type AccountingExportFormat = z.infer<
+    typeof accountingExportFormatSchema
+>;
+
 export const ExportFieldTypeEnum = [
     "TEXT",
     "NUMBER",
@@ -17,6 +36,20 @@ export const ExportFieldTypeEnum = [
 export const exportFieldTypeSchema = z.enum(ExportFieldTypeEnum);
 export type ExportFieldType = z.infer<typeof exportFieldTypeSchema>;
 
+// Hand-off pack folder layout for original invoice files
+export const HandOffPackGroupByEnum = ["CATEGORY", "FINANCIAL_YEAR"] as const;
+export const handOffPackGroupBySchema = z.enum(HandOffPackGroupByEnum);
+export type HandOffPackGroupBy = z.infer<typeof handOffPackGroupBySchema>;
+
+// Manifest status of an invoice's original file in a hand-off pack
+export const HandOffFileStatusEnum = [
+    "INCLUDED",
+    "NO_FILE",
+    "MISSING",
+] as const;
+export const handOffFileStatusSchema = z.enum(HandOffFileStatusEnum);
+export type HandOffFileStatus = z.infer<typeof handOffFileStatusSchema>;
+
 export const ExportJobStatusEnum = [
     "PENDING",
     "PROCESSING",
@@ -41,12 +74,14 @@ export type ExportField = z.infer<typeof exportFieldSchema>;
 export const exportFiltersSchema = z.object({
     dateRange: z
         .object({
-            from: z.date(),
-            to: z.date(),
+            from: z.coerce.date(),
+            to: z.coerce.date(),
         })
         .optional(),
     categories: z.array(z.string()).optional(),
-    suppliers: z.array(z.string()).optional(),
+    customCategoryIds: z.array(z.string()).optional(), // Custom category IDs
+    supplierIds: z.array(z.string()).optional(), // Supplier directory IDs
+    suppliers: z.array(z.string()).optional(), // Supplier names as printed
     amountRange: z
         .object({
             min: z.number(),
@@ -61,6 +96,40 @@ export type ExportFilters = z.infer<typeof exportFiltersSchema>;
 // Export processing constants for exportUtils.ts
 export const EXPORT_CONSTANTS = {
     EXPORT_FILE_NAME: "export_{dateString}.{format}",
+    // Async export jobs
+    JOB_EXPIRY_HOURS: 24, // Used in exportJobs.ts - download link and stored file lifetime
+    JOB_TIMEOUT_MINUTES: 15, // Used in exportJobs.ts - PENDING / PROCESSING jobs older than this were stopped and count as FAILED
+    BATCH_SIZE: 500, // Used in exportJobs.ts - invoices read from the DB per batch
+    WORKER_POLL_INTERVAL_MS: 5000, // Used in exportWorker.ts - wait before checking again for PENDING jobs
+    UPLOAD_PART_SIZE: 8 * 1024 * 1024, // Used in aws.ts uploadStreamToS3 - multipart upload part size (S3 minimum 5MB)
+    RECENT_JOBS_LIMIT: 20, // Used in export API route for the job list
+    // Accountant hand-off pack: ZIP of the export, original files and a manifest
+    HAND_OFF_PACK: {
+        EXTENSION: "zip", // Used in exportJobs.ts for the pack file name
+        MIME_TYPE: "application/zip", // Used in exportJobs.ts for the S3 upload
+        SPREADSHEET_NAME: "invoices", // Used in handOffPack.ts - export file inside the pack (plus format extension)
+        MANIFEST_NAME: "manifest.csv", // Used in handOffPack.ts
+        TEMP_DIR_PREFIX: "hand-off-pack-", // Used in handOffPack.ts - temporary directory for the export file while the pack streams
+        FILES_FOLDER: "files", // Used in handOffPack.ts - root folder for original files
+        FINANCIAL_YEAR_FOLDER: "FY{financialYear}", // Used in handOffPack.ts when grouping by financial year
+        MAX_NAME_PART_LENGTH: 40, // Used in handOffPack.ts - supplier / invoice number length in file names
+        MANIFEST_COLUMNS: [
+            "Row",
+            "Invoice ID",
+            "Invoice Number",
+            "Supplier",
+            "Invoice Date",
+            "Total Amount",
+            "Currency",
+            "Category",
+            "File",
+            "Original File Name",
+            "File Status",
+        ], // Used in handOffPack.ts - Row is the invoice's data row in the export file
+    },
+    // Saved export templates
+    SYSTEM_TEMPLATE_ID_PREFIX: "system:", // Used in exportTemplates.ts to tell built-in templates from saved ones
+    TEMPLATE_NAME_MAX_LENGTH: 100, // Used in exportTemplateInputSchema
     PROCESSING_ESTIMATES: {
         MS_PER_RECORD: 100, // Used in exportUtils.ts for processing time estimation (milliseconds per record)
         BYTES_PER_RECORD: 100, // Used in exportUtils.ts for file size estimation (bytes per record)
@@ -70,10 +139,34 @@ export const EXPORT_CONSTANTS = {
         CSV: "text/csv", // Used in exportUtils.ts for CSV MIME type
         //DEFAULT: 'application/octet-stream', // Used in exportUtils.ts for unknown format fallback
     },
+    // XLSX workbook layout and Excel number formats
+    EXCEL: {
+        SHEET_NAME: "Invoices", // Used in export.ts for the data sheet
+        SUMMARY_SHEET_NAME: "Summary", // Used in export.ts for per-category totals
+        DATE_FORMAT: "dd/mm/yyyy", // Used in export.ts for DATE cells (Australian display)
+        NUMBER_FORMAT: "#,##0.##", // Used in export.ts for NUMBER cells without a field format
+        DEFAULT_CURRENCY_FORMAT: "#,##0.00", // Used in export.ts when a currency has no symbol format
+        CURRENCY_FORMATS: {
+            AUD: '"$"#,##0.00;-"$"#,##0.00',
+            USD: '"US$"#,##0.00;-"US$"#,##0.00',
+            EUR: '"€"#,##0.00;-"€"#,##0.00',
+            GBP: '"£"#,##0.00;-"£"#,##0.00',
+            CAD: '"C$"#,##0.00;-"C$"#,##0.00',
+            JPY: '"¥"#,##0;-"¥"#,##0',
+            CNY: '"CN¥"#,##0.00;-"CN¥"#,##0.00',
+        } as Record<SupportedCurrency, string>, // Used in export.ts for CURRENCY cells by row currency
+        MIN_COLUMN_WIDTH: 8, // Used in export.ts column auto-sizing (characters)
+        MAX_COLUMN_WIDTH: 60, // Used in export.ts column auto-sizing (characters)
+        COLUMN_PADDING: 2, // Used in export.ts column auto-sizing (characters)
+        STREAMED_COLUMN_WIDTH: 14, // Used in export.ts for streamed workbooks, sized from the headers before any row is written
+    },
     // Export formats
     EXPORT_FORMATS: {
         EXCEL: "xlsx", // Used in exportUtils.ts and export API for Excel file generation
         CSV: "csv", // Used in exportUtils.ts and export API for CSV file generation
+        XERO: "csv", // Used in accountingExport.ts - Xero bills import file
+        MYOB: "csv", // Used in accountingExport.ts - MYOB AccountRight purchases import file
+        QUICKBOOKS: "csv", // Used in accountingExport.ts - QuickBooks Online bills import file
     },
 } as const;
 
@@ -112,10 +205,217 @@ export const DEFAULT_INVOICE_FIELDS: readonly ExportField[] = [
         included: false,
     },
     { key: "taxRate", label: "Tax Rate", type: "NUMBER", included: false },
+    {
+        key: "businessUsePercentage",
+        label: "Business Use",
+        type: "NUMBER",
+        included: false,
+    },
+    {
+        key: "businessUseAmount",
+        label: "Business Use Amount",
+        type: "CURRENCY",
+        included: false,
+    },
     { key: "createdAt", label: "Created Date", type: "DATE", included: false },
     { key: "updatedAt", label: "Updated Date", type: "DATE", included: false },
 ] as const;
 
+// Built-in export templates, available to every user (see exportTemplates.ts)
+export const SYSTEM_EXPORT_TEMPLATES = [
+    {
+        id: "system:ato-deduction-summary",
+        name: "ATO deduction summary",
+        description:
+            "Deductible expenses by category with GST, for the tax return",
+        format: "EXCEL",
+        fieldKeys: [
+            "invoiceDate",
+            "supplierName",
+            "supplierTaxId",
+            "invoiceNumber",
+            "categoryName",
+            "subtotal",
+            "taxAmount",
+            "totalAmount",
+            "businessUsePercentage",
+            "businessUseAmount",
+        ],
+    },
+    {
+        id: "system:full-ledger",
+        name: "Full ledger",
+        description: "Every invoice field, one row per invoice",
+        format: "EXCEL",
+        fieldKeys: DEFAULT_INVOICE_FIELDS.map((field) => field.key),
+    },
+    {
+        id: "system:gst-only",
+        name: "GST only",
+        description: "Supplier ABN, GST and totals for BAS preparation",
+        format: "CSV",
+        fieldKeys: [
+            "invoiceDate",
+            "invoiceNumber",
+            "supplierName",
+            "supplierTaxId",
+            "subtotal",
+            "taxRate",
+            "taxAmount",
+            "totalAmount",
+            "currency",
+        ],
+    },
+] as const satisfies readonly {
+    id: `system:${string}`;
+    name: string;
+    description: string;
+    format: ExportFormat;
+    fieldKeys: readonly string[];
+}[];
+
+// One bill line in an accounting software import (one per invoice)
+export type AccountingExportLine = {
+    contactName: string;
+    invoiceNumber: string;
+    invoiceDate: string;
+    dueDate: string;
+    description: string;
+    quantity: number;
+    netAmount: number;
+    taxAmount: number;
+    totalAmount: number;
+    accountCode: string;
+    taxCode: string;
+    currency: string;
+};
+
+type AccountingExportLayout = {
+    NAME: string;
+    DATE_FORMAT: DateFormat;
+    // GST: Australian GST included; GST_FREE: foreign currency or no GST charged
+    TAX_CODES: { GST: string; GST_FREE: string };
+    COLUMNS: readonly {
+        header: string;
+        source: keyof AccountingExportLine;
+    }[];
+    DEFAULT_ACCOUNT_CODES: Record<InvoiceCategory, string>;
+};
+
+// Bill import layouts, used in accountingExport.ts
+// Column headers and tax codes match each product's import template
+export const ACCOUNTING_EXPORT_LAYOUTS: Record<
+    AccountingExportFormat,
+    AccountingExportLayout
+> = {
+    XERO: {
+        NAME: "Xero",
+        DATE_FORMAT: "DD/MM/YYYY",
+        TAX_CODES: { GST: "GST on Expenses", GST_FREE: "GST Free" },
+        COLUMNS: [
+            { header: "*ContactName", source: "contactName" },
+            { header: "*InvoiceNumber", source: "invoiceNumber" },
+            { header: "*InvoiceDate", source: "invoiceDate" },
+            { header: "*DueDate", source: "dueDate" },
+            { header: "Description", source: "description" },
+            { header: "*Quantity", source: "quantity" },
+            { header: "*UnitAmount", source: "netAmount" },
+            { header: "*AccountCode", source: "accountCode" },
+            { header: "*TaxType", source: "taxCode" },
+            { header: "TaxAmount", source: "taxAmount" },
+            { header: "Currency", source: "currency" },
+        ],
+        // Xero standard Australian chart of accounts
+        DEFAULT_ACCOUNT_CODES: {
+            OFFICE_SUPPLIES: "453",
+            TRAVEL_TRANSPORT: "493",
+            MEALS_ENTERTAINMENT: "420",
+            SOFTWARE_TECH: "485",
+            RENT_UTILITIES: "469",
+            UTILITIES: "445",
+            COMMUNICATIONS: "489",
+            REPAIRS_MAINTENANCE: "473",
+            TRAINING_EDUCATION: "429",
+            FINANCIAL_SERVICES: "404",
+            MARKETING_ADVERTISING: "400",
+            LEGAL_CONSULTING: "412",
+            OTHER: "429",
+        },
+    },
+    MYOB: {
+        NAME: "MYOB AccountRight",
+        DATE_FORMAT: "DD/MM/YYYY",
+        TAX_CODES: { GST: "GST", GST_FREE: "FRE" },
+        COLUMNS: [
+            { header: "Co./Last Name", source: "contactName" },
+            { header: "Supplier Invoice No.", source: "invoiceNumber" },
+            { header: "Date", source: "invoiceDate" },
+            { header: "Description", source: "description" },
+            { header: "Account No.", source: "accountCode" },
+            { header: "Amount", source: "netAmount" },
+            { header: "Inc-Tax Amount", source: "totalAmount" },
+            { header: "Tax Code", source: "taxCode" },
+            { header: "GST Amount", source: "taxAmount" },
+            { header: "Currency Code", source: "currency" },
+        ],
+        DEFAULT_ACCOUNT_CODES: {
+            OFFICE_SUPPLIES: "6-1500",
+            TRAVEL_TRANSPORT: "6-2100",
+            MEALS_ENTERTAINMENT: "6-1400",
+            SOFTWARE_TECH: "6-1800",
+            RENT_UTILITIES: "6-1700",
+            UTILITIES: "6-2200",
+            COMMUNICATIONS: "6-1900",
+            REPAIRS_MAINTENANCE: "6-1600",
+            TRAINING_EDUCATION: "6-2000",
+            FINANCIAL_SERVICES: "6-1200",
+            MARKETING_ADVERTISING: "6-1100",
+            LEGAL_CONSULTING: "6-1300",
+            OTHER: "6-9000",
+        },
+    },
+    QUICKBOOKS: {
+        NAME: "QuickBooks Online",
+        DATE_FORMAT: "YYYY-MM-DD",
+        TAX_CODES: { GST: "GST", GST_FREE: "GST free" },
+        COLUMNS: [
+            { header: "Bill No", source: "invoiceNumber" },
+            { header: "Supplier", source: "contactName" },
+            { header: "Bill Date", source: "invoiceDate" },
+            { header: "Due Date", source: "dueDate" },
+            { header: "Account", source: "accountCode" },
+            { header: "Line Description", source: "description" },
+            { header: "Line Amount", source: "netAmount" },
+            { header: "Line Tax Code", source: "taxCode" },
+            { header: "Line Tax Amount", source: "taxAmount" },
+            { header: "Currency", source: "currency" },
+        ],
+        // QuickBooks matches accounts by name
+        DEFAULT_ACCOUNT_CODES: {
+            OFFICE_SUPPLIES: "Office expenses",
+            TRAVEL_TRANSPORT: "Travel",
+            MEALS_ENTERTAINMENT: "Meals and entertainment",
+            SOFTWARE_TECH: "Subscriptions",
+            RENT_UTILITIES: "Rent or lease payments",
+            UTILITIES: "Utilities",
+            COMMUNICATIONS: "Telephone and internet",
+            REPAIRS_MAINTENANCE: "Repairs and maintenance",
+            TRAINING_EDUCATION: "Training",
+            FINANCIAL_SERVICES: "Bank charges",
+            MARKETING_ADVERTISING: "Advertising",
+            LEGAL_CONSULTING: "Legal and professional fees",
+            OTHER: "Other general and administrative expenses",
+        },
+    },
+};
+
+// One section of a multi-sheet report (see createReportContent)
+export type ReportSheet = {
+    name: string;
+    fields: ExportField[];
+    data: Record<string, unknown>[];
+};
+
 // Field mapping for data transformation
 export const FIELD_MAPPING: ExportFieldMapping = {
     invoiceNumber: { label: "Invoice Number", type: "TEXT" },
@@ -155,6 +455,17 @@ export const FIELD_MAPPING: ExportFieldMapping = {
         format: "0.00%",
         transform: (value) => formatPercentage(value as number),
     },
+    businessUsePercentage: {
+        label: "Business Use",
+        type: "NUMBER",
+        format: "0.00%",
+        transform: (value) => formatPercentage((value as number) / 100),
+    },
+    businessUseAmount: {
+        label: "Business Use Amount",
+        type: "CURRENCY",
+        transform: (value) => formatCurrency(value as number),
+    },
     currency: { label: "Currency", type: "TEXT" },
     categoryName: { label: "Category", type: "TEXT" },
     status: { label: "Status", type: "TEXT" },
@@ -179,6 +490,10 @@ export const exportOptionsSchema = z.object({
     filename: z.string().optional(),
     fields: z.array(exportFieldSchema),
     filters: exportFiltersSchema.optional(),
+    // When set, the export is bundled with the original invoice files in a ZIP
+    handOffPack: z.object({ groupBy: handOffPackGroupBySchema }).optional(),
+    // Account code per category for accounting formats; overrides the layout default
+    accountCodes: z.record(invoiceCategorySchema, z.string()).optional(),
 });
 export type ExportOptions = z.infer<typeof exportOptionsSchema>;
 
@@ -211,21 +526,39 @@ export const exportProgressSchema = z.object({
 export type ExportProgress = z.infer<typeof exportProgressSchema>;
 
 // Export Template Schema
+// System templates are built in (userId null, isSystem true) and read-only
 export const exportTemplateSchema = z.object({
     id: z.string(),
     name: z.string(),
     description: z.string().optional(),
     options: exportOptionsSchema,
     isDefault: z.boolean(),
-    userId: z.string(),
+    isSystem: z.boolean(),
+    userId: z.string().nullable(),
     createdAt: z.date(),
     updatedAt: z.date(),
 });
 export type ExportTemplate = z.infer<typeof exportTemplateSchema>;
 
+// Export Template Input Schema (create; all fields optional on update)
+export const exportTemplateInputSchema = z.object({
+    name: z
+        .string()
+        .trim()
+        .min(1)
+        .max(EXPORT_CONSTANTS.TEMPLATE_NAME_MAX_LENGTH),
+    description: z.string().trim().optional(),
+    options: exportOptionsSchema,
+    isDefault: z.boolean().default(false),
+});
+export type ExportTemplateInput = z.infer<typeof exportTemplateInputSchema>;
+export const exportTemplateUpdateSchema = exportTemplateInputSchema.partial();
+export type ExportTemplateUpdate = z.infer<typeof exportTemplateUpdateSchema>;
+
 // Create Export Job Request Schema
+// options override the template (templateId, else the user's default template)
 export const createExportJobRequestSchema = z.object({
-    options: exportOptionsSchema,
+    options: exportOptionsSchema.partial().optional(),
     templateId: z.string().optional(),
 });
 export type CreateExportJobRequest = z.infer<
@@ -0,0 +1,86 @@
+import { createId } from "@paralleldrive/cuid2";
+import { sql } from "drizzle-orm";
+import {
+    boolean,
+    index,
+    integer,
+    json,
+    pgEnum,
+    pgTable,
+    text,
+    timestamp,
+    uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { ExportFormatEnum, ExportJobStatusEnum } from "./exportSchema";
+import { users } from "./userTables";
+
+export const exportFormatEnum = pgEnum("export_format", ExportFormatEnum);
+export const exportJobStatusEnum = pgEnum(
+    "export_job_status",
+    ExportJobStatusEnum,
+);
+
+// Asynchronous export jobs; the generated file lives in S3 until expiresAt
+export const exportJobs = pgTable(
+    "export_jobs",
+    {
+        id: text("id")
+            .primaryKey()
+            .$defaultFn(() => createId()),
+        // Owner of the exported invoices (an accountant's client in their workspace)
+        userId: text("user_id")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        requestedBy: text("requested_by")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        format: exportFormatEnum("format").notNull(),
+        status: exportJobStatusEnum("status").notNull().default("PENDING"),
+        progress: integer("progress").notNull().default(0),
+        fileName: text("file_name").notNull(),
+        s3ObjectKey: text("s3_object_key"),
+        fileSize: integer("file_size"),
+        recordCount: integer("record_count"),
+        downloadUrl: text("download_url"),
+        options: json("options").notNull(),
+        error: text("error"),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+        startedAt: timestamp("started_at"),
+        completedAt: timestamp("completed_at"),
+        expiresAt: timestamp("expires_at").notNull(),
+    },
+    (table) => [
+        index("export_jobs_user_created_idx").on(table.userId, table.createdAt),
+        index("export_jobs_status_expires_idx").on(
+            table.status,
+            table.expiresAt,
+        ),
+    ],
+);
+export type ExportJobRecord = typeof exportJobs.$inferSelect;
+
+// Saved export options per user; at most one default template per user
+export const exportTemplates = pgTable(
+    "export_templates",
+    {
+        id: text("id")
+            .primaryKey()
+            .$defaultFn(() => createId()),
+        userId: text("user_id")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        name: text("name").notNull(),
+        description: text("description"),
+        options: json("options").notNull(),
+        isDefault: boolean("is_default").notNull().default(false),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+        updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("export_templates_user_idx").on(table.userId),
+        uniqueIndex("export_templates_user_default_idx")
+            .on(table.userId)
+            .where(sql`${table.isDefault}`),
+    ],
+);
+export type ExportTemplateRecord = typeof exportTemplates.$inferSelect;
@@ -20,18 +20,38 @@ export type SupportedCurrency = z.infer<typeof supportedCurrencySchema>;
 // Australian Tax Constants - Only Australian GST is deductible for Australian tax reporting
 export const AUSTRALIAN_TAX_CONSTANTS = {
     GST_RATE_PERCENTAGE: 10, // Used in tax calculations and GST validation
-    ABN_REGEX: /^\d{11}$/, // Used in supplier ABN validation and form validation
+    ABN_REGEX: /^\d{11}$/, // Used in taxId.ts - 11 digits before the checksum is checked
+    ABN_WEIGHTS: [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19], // Used in taxId.ts - ATO ABN checksum digit weights
+    ABN_MODULUS: 89, // Used in taxId.ts - valid ABNs have a weighted sum divisible by 89
+    ACN_REGEX: /^\d{9}$/, // Used in taxId.ts - 9 digits, the last one a check digit
+    ACN_WEIGHTS: [8, 7, 6, 5, 4, 3, 2, 1], // Used in taxId.ts - ASIC ACN check digit weights
+    ACN_MODULUS: 10, // Used in taxId.ts - ACN check digit is the complement of the weighted sum mod 10
+    TAX_ID_LABEL_REGEX: /^\s*A\.?\s*[BC]\.?\s*N\.?\s*[:#-]?\s*/i, // Used in taxId.ts to strip a printed "ABN:" / "ACN" label before the number
     // Australian Financial Year constants (July 1 - June 30) - used in dateUtils.ts and reporting
     FINANCIAL_YEAR: {
         START_MONTH: 7, // Used in dateUtils.ts getAustralianFinancialYear functions
         START_DAY: 1, // Used in financial year range calculations
         END_MONTH: 6, // Used in dateUtils.ts getAustralianFinancialYear functions
         END_DAY: 30, // Used in financial year range calculations
+        QUARTERS: 4, // Used in BAS reports - quarterly BAS periods per financial year
+        MONTHS_PER_QUARTER: 3, // Used in dateUtils.ts getAustralianFinancialQuarterRange
     },
     // Note: International invoices may show foreign taxes (VAT, Sales Tax, etc.)
     // but these cannot be claimed as tax deductions in Australian tax returns
 } as const;
 
+// Tax ID types: Australian ABN/ACN and overseas VAT (EU/UK) and EIN (US)
+export const TaxIdTypeEnum = ["ABN", "ACN", "VAT", "EIN"] as const;
+export const taxIdTypeSchema = z.enum(TaxIdTypeEnum);
+export type TaxIdType = z.infer<typeof taxIdTypeSchema>;
+
+// Overseas tax ID formats recognised on foreign supplier invoices
+export const OVERSEAS_TAX_ID_CONSTANTS = {
+    VAT_REGEX:
+        /^(AT|BE|BG|CY|CZ|DE|DK|EE|EL|ES|FI|FR|GB|HR|HU|IE|IT|LT|LU|LV|MT|NL|PL|PT|RO|SE|SI|SK|XI)[0-9A-Z]{2,13}$/, // Used in taxId.ts - country prefix followed by the national number
+    EIN_REGEX: /^\d{2}-\d{7}$/, // Used in taxId.ts - US EIN is only told apart from an ACN by its hyphen
+} as const;
+
 // Financial Precision Constants
 export const PRECISION_CONSTANTS = {
     DECIMAL_PRECISION: 12, // Used in Drizzle ORM decimal columns for invoice amounts
@@ -40,4 +60,7 @@ export const PRECISION_CONSTANTS = {
     TAX_RATE_SCALE: 4, // Used in Drizzle ORM for tax rate decimal precision
     CONFIDENCE_PRECISION: 5, // Used in Drizzle ORM for AI confidence scores (0.9999)
     CONFIDENCE_SCALE: 4, // Used in Drizzle ORM for AI confidence decimal places
+    QUANTITY_SCALE: 4, // Used in Drizzle ORM for line item quantities (e.g., 1.5 hours)
+    PERCENTAGE_PRECISION: 5, // Used in Drizzle ORM for percentages (e.g., 100.00)
+    PERCENTAGE_SCALE: 2, // Used in Drizzle ORM for percentage decimal places
 } as const;
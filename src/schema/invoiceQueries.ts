@@ -1,7 +1,23 @@
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+import { AnomalyDetectionResult } from "./aiSchema";
+import { AccessScopeTarget } from "./authSchema";
 import { SortOrder } from "./commonSchemas";
-import { InvoiceCategory, InvoiceStatus } from "./invoiceSchema";
-import { Invoice, InvoiceFile, invoiceFiles, invoices } from "./invoiceTables";
+import {
+    InvoiceCategory,
+    InvoiceLineItemInput,
+    InvoiceSortField,
+    InvoiceStatus,
+    ValidationStatus,
+} from "./invoiceSchema";
+import {
+    CustomCategory,
+    Invoice,
+    InvoiceFile,
+    invoiceFiles,
+    InvoiceLineItem,
+    invoiceLineItems,
+    invoices,
+} from "./invoiceTables";
 
 export const selectInvoiceFileSchema = createSelectSchema(invoiceFiles);
 export const insertInvoiceFileSchema = createInsertSchema(invoiceFiles);
@@ -9,16 +25,24 @@ export const insertInvoiceFileSchema = createInsertSchema(invoiceFiles);
 export const selectInvoiceSchema = createSelectSchema(invoices);
 export const insertInvoiceSchema = createInsertSchema(invoices);
 //export type Invoice from invoiceTables.ts
+export const selectInvoiceLineItemSchema = createSelectSchema(invoiceLineItems);
+export const insertInvoiceLineItemSchema = createInsertSchema(invoiceLineItems);
+//export type InvoiceLineItem from invoiceTables.ts
 
-// Create Invoice Data
+// Line item data (lineNumber is assigned from array order on write)
+export type InvoiceLineItemData = InvoiceLineItemInput;
+export type UpdateInvoiceLineItemData = InvoiceLineItemInput;
+
+// Create Invoice Data (fileId is null for manually created invoices)
 export type CreateInvoiceData = {
     userId: string;
-    fileId: string;
-    status?: InvoiceStatus;
-};
+    fileId: string | null;
+} & Omit<UpdateInvoiceData, "fileId">;
 
 export type UpdateInvoiceData = {
+    fileId?: string;
     invoiceNumber?: string;
+    supplierId?: string | null;
     supplierName?: string;
     supplierAddress?: string;
     supplierTaxId?: string;
@@ -30,14 +54,29 @@ export type UpdateInvoiceData = {
     invoiceDate?: Date;
     dueDate?: Date;
     category?: InvoiceCategory;
-    customCategory?: string;
+    customCategoryId?: string | null;
+    customCategory?: string | null;
+    description?: string;
     notes?: string;
+    businessUsePercentage?: number | null;
+    deductiblePercentage?: number | null;
+    deductionNote?: string | null;
     tags?: string[];
+    status?: InvoiceStatus;
+    extractedData?: Record<string, unknown>;
+    aiConfidenceScore?: number;
+    validationStatus?: ValidationStatus;
+    validationErrors?: Record<string, unknown>;
+    anomalyResult?: AnomalyDetectionResult;
+    processedAt?: Date;
+    items?: InvoiceLineItemData[]; // Replaces all existing line items when provided
 };
 
 export type InvoiceListFilters = {
+    userId?: AccessScopeTarget;
     category?: InvoiceCategory;
     status?: InvoiceStatus;
+    supplierId?: string;
     supplierName?: string;
     dateFrom?: Date;
     dateTo?: Date;
@@ -48,35 +87,44 @@ export type InvoiceListFilters = {
 };
 
 export type InvoiceListSort = {
-    field:
-        | "invoiceDate"
-        | "totalAmount"
-        | "supplierName"
-        | "createdAt"
-        | "updatedAt";
+    field: InvoiceSortField;
     direction: SortOrder;
 };
 
 export type InvoiceStats = {
     totalAmount: number;
+    businessAmount: number; // Total after applying business-use percentages
     totalCount: number;
     categoryBreakdown: Record<
         InvoiceCategory,
-        { count: number; amount: number }
+        { count: number; amount: number; businessAmount: number }
     >;
     monthlyTrend: { month: string; amount: number; count: number }[];
-    topSuppliers: { name: string; amount: number; count: number }[];
+    topSuppliers: {
+        supplierId: string | null; // null for invoices not linked to a directory supplier
+        name: string;
+        amount: number;
+        count: number;
+    }[];
 };
 
 // Category statistics schemas for analytics (DAL layer)
 export type RawCategoryStats = {
     category: InvoiceCategory | null;
+    customCategoryId: string | null;
+    custom: Pick<
+        CustomCategory,
+        "name" | "description" | "color" | "keywords"
+    > | null; // Custom category metadata when customCategoryId is set
     count: number;
     totalAmount: string | null; // Drizzle returns sum/avg as strings
     averageAmount: string | null;
+    businessAmount: string | null;
 };
 
 export type EnrichedCategoryStats = {
+    category: InvoiceCategory; // Built-in category (the parent of a custom category)
+    customCategoryId: string | null;
     name: string;
     description: string;
     color: string;
@@ -84,6 +132,7 @@ export type EnrichedCategoryStats = {
     count: number;
     totalAmount: number;
     averageAmount: number;
+    businessAmount: number; // Total after applying business-use percentages
     percentage: number;
 };
 
@@ -92,6 +141,7 @@ export type CategoryStatsData = {
     totalCategories: number;
     totalInvoices: number;
     totalAmount: number;
+    totalBusinessAmount: number;
 };
 
 // DAL layer return types (pure data, no API response wrapper)
@@ -100,6 +150,20 @@ export type InvoiceWithFile = {
     file: InvoiceFile | null;
 };
 
+// Invoice fields compared by anomaly and duplicate detection (id excludes the invoice itself from history)
+export type InvoiceCandidate = Pick<
+    Invoice,
+    | "supplierName"
+    | "supplierTaxId"
+    | "invoiceNumber"
+    | "invoiceDate"
+    | "totalAmount"
+> & { id?: string };
+
+export type InvoiceWithItems = InvoiceWithFile & {
+    items: InvoiceLineItem[];
+};
+
 export type InvoiceListResult = {
     invoices: InvoiceWithFile[];
     totalCount: number;
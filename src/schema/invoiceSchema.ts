@@ -1,8 +1,10 @@
 import { z } from "zod";
-import { VALIDATION_RULES } from "./commonSchemas";
+import { hasValidTaxIdChecksum } from "@/utils/core/taxId";
+import { sortOrderSchema, VALIDATION_RULES } from "./commonSchemas";
 import { validateDateFormatSchema } from "./dateSchema";
 import { ERROR_MESSAGES } from "./messageSchema";
 import { SupportedCurrencyEnum } from "./financialSchema";
+import { PaginationSizeOptionsEnum } from "./routeSchema";
 
 /*
 Invoice Status - Tracks the overall processing lifecycle of invoices
@@ -62,6 +64,7 @@ export const INVOICE_CONSTANTS = {
     CREDIT_CARD_GROUP_SIZE: 4, // Used in formatUtils.ts for credit card number grouping
     DEFAULT_ITEMS_PER_PAGE: 20, // Used in formatUtils.ts for default items per page
     DEFAULT_TRUNCATE_LENGTH: 50, // Used in formatUtils.ts for default text truncation length
+    FULL_BUSINESS_USE_PERCENTAGE: 100, // Used in businessUse.ts when an invoice has no business-use percentage
 } as const;
 
 // Default Categories for Seeding (optimized with JSON keywords)
@@ -203,6 +206,52 @@ export const InvoiceCategoryEnum = Object.keys(INVOICE_CATEGORIES) as [
 export const invoiceCategorySchema = z.enum(InvoiceCategoryEnum);
 export type InvoiceCategory = z.infer<typeof invoiceCategorySchema>;
 
+// Percentage between 0 and 100 (business use, deductibility)
+export const percentageSchema = z
+    .number()
+    .min(0, ERROR_MESSAGES.INVALID_PERCENTAGE)
+    .max(100, ERROR_MESSAGES.INVALID_PERCENTAGE);
+
+// Invoice line item schema (manual entry and persisted AI-extracted items)
+export const invoiceLineItemSchema = z.object({
+    description: z
+        .string()
+        .min(
+            VALIDATION_RULES.MIN_LINE_ITEM_LENGTH,
+            ERROR_MESSAGES.INVALID_LINE_ITEM,
+        )
+        .max(
+            VALIDATION_RULES.MAX_LINE_ITEM_LENGTH,
+            ERROR_MESSAGES.INVALID_LINE_ITEM,
+        )
+        .optional(),
+    quantity: z.number().min(0, ERROR_MESSAGES.INVALID_AMOUNT).optional(),
+    unitPrice: z
+        .number()
+        .max(VALIDATION_RULES.MAX_AMOUNT, ERROR_MESSAGES.INVALID_AMOUNT)
+        .optional(), // Negative for discount lines
+    totalPrice: z
+        .number()
+        .max(VALIDATION_RULES.MAX_AMOUNT, ERROR_MESSAGES.INVALID_AMOUNT)
+        .optional(),
+    taxRate: z
+        .number()
+        .min(0, ERROR_MESSAGES.INVALID_TAX_RATE)
+        .max(100, ERROR_MESSAGES.INVALID_TAX_RATE)
+        .optional(),
+    taxAmount: z
+        .number()
+        .max(VALIDATION_RULES.MAX_AMOUNT, ERROR_MESSAGES.INVALID_AMOUNT)
+        .optional(),
+    category: z
+        .enum(InvoiceCategoryEnum, {
+            message: ERROR_MESSAGES.INVALID_CATEGORY,
+        })
+        .optional(),
+    // Overrides the invoice's business-use percentage for this line
+    businessUsePercentage: percentageSchema.nullable().optional(),
+});
+
 // Manual invoice creation schema (without file requirement)
 export const manualInvoiceSchema = z.object({
     invoiceNumber: z
@@ -220,6 +269,8 @@ export const manualInvoiceSchema = z.object({
             ERROR_MESSAGES.INVALID_INVOICE_NUMBER,
         )
         .optional(),
+    // Supplier directory entry; resolved from supplierName/supplierTaxId when omitted
+    supplierId: z.string().nullable().optional(),
     supplierName: z
         .string()
         .min(
@@ -234,6 +285,7 @@ export const manualInvoiceSchema = z.object({
     supplierTaxId: z
         .string()
         .regex(VALIDATION_RULES.TAX_ID_REGEX, ERROR_MESSAGES.INVALID_TAX_ID)
+        .refine(hasValidTaxIdChecksum, ERROR_MESSAGES.INVALID_TAX_ID_CHECKSUM)
         .optional(),
     supplierAddress: z
         .string()
@@ -279,6 +331,8 @@ export const manualInvoiceSchema = z.object({
         })
         .optional(),
     customCategory: z.string().optional(),
+    // One of the owner's custom categories; sets category to its parent. null unlinks it
+    customCategoryId: z.string().nullable().optional(),
     description: z
         .string()
         .max(
@@ -287,19 +341,109 @@ export const manualInvoiceSchema = z.object({
         )
         .optional(),
     notes: z.string().optional(),
+    // Business-use share of a mixed-use expense; null means 100% business.
+    // When omitted on creation, the supplier's default is applied
+    businessUsePercentage: percentageSchema.nullable().optional(),
+    // Per-invoice deductibility override, e.g. 100 for a meal while travelling for work; null restores the category default
+    deductiblePercentage: percentageSchema.nullable().optional(),
+    deductionNote: z.string().nullable().optional(),
+    items: z.array(invoiceLineItemSchema).optional(),
 });
 
 // Schema for updating existing invoice with AI extracted data
 export const invoiceUpdateSchema = manualInvoiceSchema.extend({
     fileId: z.string().optional(),
     extractedData: z.record(z.unknown()).optional(),
-    aiConfidenceScore: z.number().min(0).max(1).optional(),
     validationStatus: z.enum(ValidationStatusEnum).optional(),
-    validationErrors: z.record(z.unknown()).optional(),
-    processedAt: z.date().optional(),
     tags: z.array(z.string()).optional(),
 });
 
+// Duplicate detection constants
+export const DUPLICATE_CONSTANTS = {
+    MATCH_THRESHOLD: 0.7, // Used in duplicate.ts - weighted score at or above this is a possible duplicate
+    SUPPLIER_WEIGHT: 0.3, // Used in duplicate.ts for supplier name similarity
+    INVOICE_NUMBER_WEIGHT: 0.3, // Used in duplicate.ts for normalised invoice number match
+    DATE_WEIGHT: 0.2, // Used in duplicate.ts for invoice date proximity
+    AMOUNT_WEIGHT: 0.2, // Used in duplicate.ts for total amount proximity
+    DATE_WINDOW_DAYS: 3, // Used in duplicate.ts - dates within this window score partially
+    AMOUNT_PARTIAL_RATIO: 0.01, // Used in duplicate.ts - totals within 1% score partially
+    MAX_MATCHES: 3, // Used in duplicate.ts to cap matches returned to the upload UI
+    SUPPLIER_SUFFIXES: ["pty", "ltd", "limited", "inc", "co", "llc", "plc"], // Used in duplicate.ts when normalising supplier names
+} as const;
+
+// How a possible duplicate was found
+export const DuplicateMatchTypeEnum = ["CONTENT_HASH", "FUZZY"] as const;
+export const duplicateMatchTypeSchema = z.enum(DuplicateMatchTypeEnum);
+export type DuplicateMatchType = z.infer<typeof duplicateMatchTypeSchema>;
+
+// Fields compared by fuzzy duplicate matching
+export const DuplicateMatchFieldEnum = [
+    "supplierName",
+    "invoiceNumber",
+    "invoiceDate",
+    "totalAmount",
+] as const;
+export const duplicateMatchFieldSchema = z.enum(DuplicateMatchFieldEnum);
+export type DuplicateMatchField = z.infer<typeof duplicateMatchFieldSchema>;
+
+// Possible duplicate of an existing invoice
+export const duplicateMatchSchema = z.object({
+    invoiceId: z.string(),
+    invoiceNumber: z.string().nullable(),
+    supplierName: z.string().nullable(),
+    matchType: duplicateMatchTypeSchema,
+    score: z.number().min(0).max(1),
+    matchedFields: z.array(duplicateMatchFieldSchema),
+});
+export type DuplicateMatch = z.infer<typeof duplicateMatchSchema>;
+
+// Duplicate check returned with upload results
+export const duplicateCheckResultSchema = z.object({
+    isPossibleDuplicate: z.boolean(),
+    matches: z.array(duplicateMatchSchema),
+    message: z.string().optional(),
+});
+export type DuplicateCheckResult = z.infer<typeof duplicateCheckResultSchema>;
+
+// Sortable invoice list fields (mirrors InvoiceListSort in invoiceQueries.ts)
+export const InvoiceSortFieldEnum = [
+    "invoiceDate",
+    "totalAmount",
+    "supplierName",
+    "createdAt",
+    "updatedAt",
+] as const;
+export const invoiceSortFieldSchema = z.enum(InvoiceSortFieldEnum);
+export type InvoiceSortField = z.infer<typeof invoiceSortFieldSchema>;
+
+// Query string schema for GET /api/invoices (values arrive as strings)
+export const invoiceListQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(
+            Number(
+                PaginationSizeOptionsEnum[PaginationSizeOptionsEnum.length - 1],
+            ),
+        )
+        .default(INVOICE_CONSTANTS.DEFAULT_ITEMS_PER_PAGE),
+    sortBy: invoiceSortFieldSchema.default("createdAt"),
+    sortOrder: sortOrderSchema.default("desc"),
+    category: invoiceCategorySchema.optional(),
+    status: invoiceStatusSchema.optional(),
+    supplierId: z.string().optional(),
+    supplierName: z.string().optional(),
+    description: z.string().optional(),
+    dateFrom: z.coerce.date().optional(),
+    dateTo: z.coerce.date().optional(),
+    amountMin: z.coerce.number().min(0).optional(),
+    amountMax: z.coerce.number().min(0).optional(),
+});
+
 // Type definitions
+export type InvoiceListQuery = z.infer<typeof invoiceListQuerySchema>;
 export type ManualInvoiceInput = z.infer<typeof manualInvoiceSchema>;
 export type InvoiceUpdateInput = z.infer<typeof invoiceUpdateSchema>;
+export type InvoiceLineItemInput = z.infer<typeof invoiceLineItemSchema>;
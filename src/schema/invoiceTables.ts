@@ -8,6 +8,7 @@ import {
     pgTable,
     text,
     timestamp,
+    uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { FINANCIAL_CONSTANTS, PRECISION_CONSTANTS } from "./financialSchema";
 import {
@@ -30,19 +31,98 @@ export const validationStatusEnum = pgEnum(
 );
 export const uploadStatusEnum = pgEnum("upload_status", UploadStatusEnum);
 
-export const invoiceFiles = pgTable("invoice_files", {
-    id: text("id")
-        .primaryKey()
-        .$defaultFn(() => createId()),
-    originalName: text("original_name").notNull(),
-    fileName: text("file_name").notNull(),
-    fileSize: integer("file_size").notNull(),
-    mimeType: text("mime_type").notNull(),
-    s3ObjectKey: text("s3_object_key").notNull(),
-    createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+export const invoiceFiles = pgTable(
+    "invoice_files",
+    {
+        id: text("id")
+            .primaryKey()
+            .$defaultFn(() => createId()),
+        // Uploader; null on files recorded before ownership was stored (owner read from the S3 key)
+        userId: text("user_id").references(() => users.id, {
+            onDelete: "cascade",
+        }),
+        originalName: text("original_name").notNull(),
+        fileName: text("file_name").notNull(),
+        fileSize: integer("file_size").notNull(),
+        mimeType: text("mime_type").notNull(),
+        s3ObjectKey: text("s3_object_key").notNull(),
+        contentHash: text("content_hash"), // SHA-256 of the uploaded object, used for duplicate detection
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("invoice_files_content_hash_idx").on(table.contentHash),
+        index("invoice_files_user_idx").on(table.userId),
+    ],
+);
 export type InvoiceFile = typeof invoiceFiles.$inferSelect;
 
+// Supplier directory; invoices from the same supplier share a supplierId
+export const suppliers = pgTable(
+    "suppliers",
+    {
+        id: text("id")
+            .primaryKey()
+            .$defaultFn(() => createId()),
+        userId: text("user_id")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        name: text("name").notNull(),
+        normalisedName: text("normalised_name").notNull(), // Lower case, legal suffixes dropped; used for matching
+        taxId: text("tax_id"), // Compact ABN/ACN/VAT/EIN (normaliseTaxId)
+        aliases: json("aliases").$type<string[]>().notNull().default([]), // Other names seen on this supplier's invoices
+        defaultCategory: invoiceCategoryEnum("default_category"),
+        defaultBusinessUsePercentage: decimal(
+            "default_business_use_percentage",
+            {
+                precision: PRECISION_CONSTANTS.PERCENTAGE_PRECISION,
+                scale: PRECISION_CONSTANTS.PERCENTAGE_SCALE,
+                mode: "number",
+            },
+        ),
+        email: text("email"),
+        phone: text("phone"),
+        address: text("address"),
+        website: text("website"),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+        updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [
+        uniqueIndex("suppliers_user_name_idx").on(
+            table.userId,
+            table.normalisedName,
+        ),
+        index("suppliers_user_tax_id_idx").on(table.userId, table.taxId),
+    ],
+);
+export type Supplier = typeof suppliers.$inferSelect;
+
+// User-defined categories; each maps to a built-in parent category for tax
+export const customCategories = pgTable(
+    "custom_categories",
+    {
+        id: text("id")
+            .primaryKey()
+            .$defaultFn(() => createId()),
+        userId: text("user_id")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        name: text("name").notNull(),
+        color: text("color").notNull(),
+        description: text("description"),
+        keywords: json("keywords").$type<string[]>().notNull().default([]),
+        parentCategory: invoiceCategoryEnum("parent_category").notNull(),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+        updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [
+        uniqueIndex("custom_categories_user_name_idx").on(
+            table.userId,
+            table.name,
+        ),
+    ],
+);
+export type CustomCategory = typeof customCategories.$inferSelect;
+
 export const invoices = pgTable(
     "invoices",
     {
@@ -58,7 +138,10 @@ export const invoices = pgTable(
 
         // Basic invoice information
         invoiceNumber: text("invoice_number"),
-        supplierName: text("supplier_name"),
+        supplierId: text("supplier_id").references(() => suppliers.id, {
+            onDelete: "set null",
+        }),
+        supplierName: text("supplier_name"), // As printed on the invoice
         supplierAddress: text("supplier_address"),
         supplierTaxId: text("supplier_tax_id"),
 
@@ -92,12 +175,31 @@ export const invoices = pgTable(
         dueDate: timestamp("due_date"),
 
         // Categorization
-        category: invoiceCategoryEnum("category"),
-        customCategory: text("custom_category"),
+        category: invoiceCategoryEnum("category"), // Built-in category; the custom category's parent when one is set
+        customCategoryId: text("custom_category_id").references(
+            () => customCategories.id,
+            { onDelete: "set null" },
+        ),
+        customCategory: text("custom_category"), // Custom category name, kept in step on rename
 
         // Description
         description: text("description"),
 
+        // Business-use share of a mixed-use expense (phone, internet); null = 100% business
+        businessUsePercentage: decimal("business_use_percentage", {
+            precision: PRECISION_CONSTANTS.PERCENTAGE_PRECISION,
+            scale: PRECISION_CONSTANTS.PERCENTAGE_SCALE,
+            mode: "number",
+        }),
+
+        // Tax deductibility override; null uses the category default (CATEGORY_DEDUCTIBILITY)
+        deductiblePercentage: decimal("deductible_percentage", {
+            precision: PRECISION_CONSTANTS.PERCENTAGE_PRECISION,
+            scale: PRECISION_CONSTANTS.PERCENTAGE_SCALE,
+            mode: "number",
+        }),
+        deductionNote: text("deduction_note"),
+
         // AI Processing
         extractedData: json("extracted_data"),
         aiConfidenceScore: decimal("ai_confidence_score", {
@@ -109,6 +211,7 @@ export const invoices = pgTable(
             .notNull()
             .default(INVOICE_CONSTANTS.DEFAULT_VALIDATION_STATUS),
         validationErrors: json("validation_errors"),
+        anomalyResult: json("anomaly_result"),
 
         // Status and metadata
         status: invoiceStatusEnum("status")
@@ -126,6 +229,94 @@ export const invoices = pgTable(
         // Composite indexes for better query performance
         index("invoices_user_date_idx").on(table.userId, table.invoiceDate),
         index("invoices_user_status_idx").on(table.userId, table.status),
+        index("invoices_user_supplier_idx").on(table.userId, table.supplierId),
     ],
 );
 export type Invoice = typeof invoices.$inferSelect;
+
+// Line items extracted from (or entered for) an invoice, ordered by lineNumber
+export const invoiceLineItems = pgTable(
+    "invoice_line_items",
+    {
+        id: text("id")
+            .primaryKey()
+            .$defaultFn(() => createId()),
+        invoiceId: text("invoice_id")
+            .notNull()
+            .references(() => invoices.id, { onDelete: "cascade" }),
+        lineNumber: integer("line_number").notNull(),
+        description: text("description"),
+        quantity: decimal("quantity", {
+            precision: PRECISION_CONSTANTS.DECIMAL_PRECISION,
+            scale: PRECISION_CONSTANTS.QUANTITY_SCALE,
+            mode: "number",
+        }),
+        unitPrice: decimal("unit_price", {
+            precision: PRECISION_CONSTANTS.DECIMAL_PRECISION,
+            scale: PRECISION_CONSTANTS.DECIMAL_SCALE,
+            mode: "number",
+        }),
+        totalPrice: decimal("total_price", {
+            precision: PRECISION_CONSTANTS.DECIMAL_PRECISION,
+            scale: PRECISION_CONSTANTS.DECIMAL_SCALE,
+            mode: "number",
+        }),
+        taxRate: decimal("tax_rate", {
+            precision: PRECISION_CONSTANTS.TAX_RATE_PRECISION,
+            scale: PRECISION_CONSTANTS.TAX_RATE_SCALE,
+            mode: "number",
+        }),
+        taxAmount: decimal("tax_amount", {
+            precision: PRECISION_CONSTANTS.DECIMAL_PRECISION,
+            scale: PRECISION_CONSTANTS.DECIMAL_SCALE,
+            mode: "number",
+        }),
+        category: invoiceCategoryEnum("category"),
+        businessUsePercentage: decimal("business_use_percentage", {
+            precision: PRECISION_CONSTANTS.PERCENTAGE_PRECISION,
+            scale: PRECISION_CONSTANTS.PERCENTAGE_SCALE,
+            mode: "number",
+        }), // null = the invoice's business-use percentage
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+        updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("invoice_line_items_invoice_idx").on(
+            table.invoiceId,
+            table.lineNumber,
+        ),
+    ],
+);
+export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
+
+// Legacy per-supplier business-use defaults, replaced by
+// suppliers.defaultBusinessUsePercentage. Kept so db:push doesn't drop the rows
+// before db:backfill-suppliers has moved them into the supplier directory
+export const supplierBusinessUseDefaults = pgTable(
+    "supplier_business_use_defaults",
+    {
+        id: text("id")
+            .primaryKey()
+            .$defaultFn(() => createId()),
+        userId: text("user_id")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        supplierKey: text("supplier_key").notNull(), // Normalised supplier name used for matching
+        supplierName: text("supplier_name").notNull(),
+        businessUsePercentage: decimal("business_use_percentage", {
+            precision: PRECISION_CONSTANTS.PERCENTAGE_PRECISION,
+            scale: PRECISION_CONSTANTS.PERCENTAGE_SCALE,
+            mode: "number",
+        }).notNull(),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+        updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [
+        uniqueIndex("supplier_business_use_defaults_user_supplier_idx").on(
+            table.userId,
+            table.supplierKey,
+        ),
+    ],
+);
+export type SupplierBusinessUseDefault =
+    typeof supplierBusinessUseDefaults.$inferSelect;
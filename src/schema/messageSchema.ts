@@ -4,6 +4,72 @@ import { z } from "zod";
 export const DISPLAY_MESSAGES = {
     YES: "Yes", // Used in exportUtils.ts for boolean true display
     NO: "No", // Used in exportUtils.ts for boolean false display
+    // XLSX summary sheet headings - used in export.ts
+    SUMMARY_CATEGORY: "Category",
+    SUMMARY_CURRENCY: "Currency",
+    SUMMARY_INVOICE_COUNT: "Invoices",
+    SUMMARY_SUBTOTAL: "Subtotal",
+    SUMMARY_TAX: "Tax Amount",
+    SUMMARY_TOTAL: "Total Amount",
+    SUMMARY_GRAND_TOTAL: "Total",
+    UNCATEGORISED: "Uncategorised",
+    // Report sheet and column headings - used in report services
+    REPORT_PERIOD: "Period",
+    REPORT_LABEL: "Label",
+    REPORT_DESCRIPTION: "Description",
+    REPORT_AMOUNT: "Amount",
+    REPORT_REPORTED_AMOUNT: "Reported (whole dollars)",
+    REPORT_REASON: "Reason",
+    REPORT_BUSINESS_USE: "Business Use %",
+    // BAS report - used in bas.ts
+    BAS_SUMMARY_SHEET: "BAS Summary",
+    BAS_INCLUDED_SHEET: "Included Invoices",
+    BAS_EXCLUDED_SHEET: "Excluded Invoices",
+    BAS_PERIOD: "Q{quarter} FY{financialYear}",
+    BAS_G10: "Capital purchases (GST inclusive)",
+    BAS_G11: "Non-capital purchases (GST inclusive)",
+    BAS_1B: "GST on purchases",
+    BAS_EXCLUDED_FOREIGN_CURRENCY:
+        "Foreign currency invoice; overseas tax is not Australian GST",
+    BAS_EXCLUDED_NO_GST: "No GST charged on this invoice",
+    BAS_EXCLUDED_MISSING_AMOUNT: "Invoice has no total amount",
+    BAS_EXCLUDED_GST_EXCEEDS_MAXIMUM:
+        "GST is more than one eleventh of the total; check the amounts",
+    // Deduction summary - used in deductions.ts
+    DEDUCTION_SUMMARY_SHEET: "Deduction Summary",
+    DEDUCTION_INVOICES_SHEET: "Supporting Invoices",
+    DEDUCTION_EXCLUDED_SHEET: "Excluded Invoices",
+    DEDUCTION_CATEGORY: "Category",
+    DEDUCTION_INVOICE_COUNT: "Invoices",
+    DEDUCTION_TOTAL: "Total Spent",
+    DEDUCTION_PERCENTAGE: "Deductible %",
+    DEDUCTION_CLAIMABLE: "Claimable",
+    DEDUCTION_GST_CREDITS: "GST Credits",
+    DEDUCTION_NON_DEDUCTIBLE: "Non-deductible",
+    DEDUCTION_NOTES: "Notes",
+    DEDUCTION_OVERRIDE: "Invoice Override",
+    DEDUCTION_DEPRECIATION: "Depreciation",
+    DEDUCTION_DEPRECIATION_NOTES:
+        "Decline in value of {count} assets in the register; see the depreciation schedule",
+    DEDUCTION_EXCLUDED_CAPITAL_ASSET:
+        "Capital asset in the register; claimed through depreciation",
+    DEDUCTION_EXCLUDED_FOREIGN_CURRENCY:
+        "Foreign currency invoice; convert to AUD before claiming",
+    DEDUCTION_EXCLUDED_MISSING_AMOUNT: "Invoice has no total amount",
+    // Depreciation schedule - used in depreciation.ts
+    DEPRECIATION_SHEET: "Depreciation Schedule",
+    DEPRECIATION_ASSET: "Asset",
+    DEPRECIATION_METHOD: "Method",
+    DEPRECIATION_COST: "Cost",
+    DEPRECIATION_START_DATE: "Start Date",
+    DEPRECIATION_EFFECTIVE_LIFE: "Effective Life (years)",
+    DEPRECIATION_DAYS_HELD: "Days Held",
+    DEPRECIATION_OPENING_VALUE: "Opening Value",
+    DEPRECIATION_DECLINE: "Decline in Value",
+    DEPRECIATION_CLOSING_VALUE: "Closing Value",
+    DEPRECIATION_DEDUCTIBLE: "Deductible",
+    DEPRECIATION_METHOD_PRIME_COST: "Prime cost",
+    DEPRECIATION_METHOD_DIMINISHING_VALUE: "Diminishing value",
 } as const;
 
 export const AI_MESSAGES = {
@@ -11,6 +77,40 @@ export const AI_MESSAGES = {
     SUPPLIER_BASED_REASONING:
         'Suggested "{baseName}" based on supplier name "{supplierName}".',
     DEFAULT_REASONING: 'Suggested "{baseName}" as default category.',
+    RULE_BASED_REASONING:
+        'Categorised as "{baseName}" by your rule "{ruleName}".',
+    KEYWORD_BASED_REASONING:
+        'Suggested "{baseName}" from matching keywords: {keywords}.',
+    CORRECTION_BASED_REASONING:
+        'Categorised as "{baseName}" because you corrected earlier invoices from "{supplierName}" to it.',
+
+    // Anomaly detection messages
+    ANOMALY_DUPLICATE_INVOICE:
+        "Possible duplicate of invoice {invoiceNumber} from {supplierName}.",
+    ANOMALY_DUPLICATE_ACTION:
+        "Compare with the existing invoice and delete this one if it was uploaded twice.",
+    ANOMALY_AMOUNT_SPIKE:
+        "Total of {totalAmount} is {multiple}× the usual amount for {supplierName}.",
+    ANOMALY_AMOUNT_SPIKE_ACTION:
+        "Check the total for a misread digit or confirm this is a one-off purchase.",
+    ANOMALY_FUTURE_DATE: "Invoice date {invoiceDate} is in the future.",
+    ANOMALY_FUTURE_DATE_ACTION:
+        "Check the invoice date; day and month may have been swapped.",
+    ANOMALY_OLD_DATE:
+        "Invoice date {invoiceDate} is more than {days} days ago.",
+    ANOMALY_OLD_DATE_ACTION:
+        "Confirm the date and which financial year this expense belongs to.",
+    ANOMALY_NEW_SUPPLIER: "First invoice from {supplierName}.",
+    ANOMALY_NEW_SUPPLIER_ACTION:
+        "Confirm the supplier details and category are correct.",
+    ANOMALY_SUPPLIER_MISMATCH:
+        "Tax ID {supplierTaxId} was previously used by {otherSupplierName}.",
+    ANOMALY_SUPPLIER_MISMATCH_ACTION:
+        "Check the supplier name and tax ID against the original invoice.",
+
+    // Capital asset suggestion
+    CAPITAL_ASSET_SUGGESTION:
+        'This looks like a capital asset: "{description}" costs {amount}, above the {threshold} write-off threshold. Consider adding it to the asset register.',
 } as const;
 
 export const AiMessageKeysEnum = Object.keys(AI_MESSAGES) as [
@@ -24,6 +124,11 @@ export const AIValidationErrorCodeEnum = [
     "MISSING_TOTAL",
     "MISSING_SUPPLIER",
     "CALCULATION_ERROR",
+    "LINE_ITEM_CALCULATION_ERROR",
+    "ITEMS_SUBTOTAL_MISMATCH",
+    "TAX_CALCULATION_ERROR",
+    "INVALID_TAX_ID_CHECKSUM",
+    "UNVERIFIED_ACN",
 ] as const;
 export const AIValidationErrorCodeSchema = z.enum(AIValidationErrorCodeEnum);
 export type AIValidationErrorCode = z.infer<typeof AIValidationErrorCodeSchema>;
@@ -32,6 +137,7 @@ export type AIValidationErrorCode = z.infer<typeof AIValidationErrorCodeSchema>;
 export const SUCCESS_MESSAGES = {
     SUCCESS: "Success",
     EMAIL_SENT: "Email sent successfully!",
+    INVOICE_CREATED: "Invoice created successfully!",
     INVOICE_UPLOADED: "Invoice uploaded and processed successfully!",
     INVOICE_UPDATED: "Invoice updated successfully!",
     INVOICE_DELETED: "Invoice deleted successfully!",
@@ -39,10 +145,29 @@ export const SUCCESS_MESSAGES = {
     CATEGORY_UPDATED: "Category updated successfully!",
     CATEGORY_DELETED: "Category deleted successfully!",
     EXPORT_COMPLETED: "Export completed successfully!",
+    EXPORT_STARTED: "Export started. It will be ready to download shortly.",
+    EXPORT_TEMPLATE_CREATED: "Export template saved successfully!",
+    EXPORT_TEMPLATE_UPDATED: "Export template updated successfully!",
+    EXPORT_TEMPLATE_DELETED: "Export template deleted successfully!",
+    RULE_CREATED: "Rule created!",
+    RULE_UPDATED: "Rule updated!",
+    RULE_DELETED: "Rule deleted!",
+    RULE_APPLIED: "Rule applied to {count} invoices!",
+    SUPPLIER_CREATED: "Supplier added!",
+    SUPPLIER_UPDATED: "Supplier updated!",
+    SUPPLIER_DELETED: "Supplier removed!",
+    ASSET_CREATED: "Asset added to the register!",
+    ASSET_UPDATED: "Asset updated successfully!",
+    ASSET_DELETED: "Asset removed from the register!",
     USER_CREATED_SUCCESSFULLY: "User created successfully!",
     USER_UPDATED_SUCCESSFULLY: "User updated successfully!",
     USER_DELETED_SUCCESSFULLY: "User deleted successfully!",
     USER_PROFILE_UPDATED_SUCCESSFULLY: "User profile updated successfully!",
+    DELEGATION_INVITE_SENT: "Client invitation created successfully!",
+    DELEGATION_ACCEPTED: "Accountant access granted successfully!",
+    DELEGATION_UPDATED: "Accountant permissions updated successfully!",
+    DELEGATION_REVOKED: "Accountant access revoked successfully!",
+    WORKSPACE_SWITCHED: "Workspace switched successfully!",
     PDF_PROCESSING_STARTED: "Converting PDF to image format...",
     PDF_PROCESSING_COMPLETED: "PDF converted to image successfully!",
     IMAGE_COMPRESSION_STARTED: "Optimizing image quality...",
@@ -89,6 +214,8 @@ export const ERROR_MESSAGES = {
     // OpenAI API specific errors
     OPENAI_RATE_LIMIT:
         "AI service is temporarily busy. Please try again in a moment.",
+    OPENAI_QUOTA_EXHAUSTED:
+        "AI service is unavailable because its usage quota is exhausted. Please contact support.",
     OPENAI_INVALID_FILE:
         "The uploaded file format is not supported for AI analysis.",
     OPENAI_FILE_NOT_FOUND:
@@ -96,12 +223,17 @@ export const ERROR_MESSAGES = {
     OPENAI_PROCESSING_TIMEOUT:
         "AI processing is taking longer than expected. Please try again.",
     OPENAI_API_ERROR: "AI processing failed. Please try again later.",
+    AI_QUOTA_EXCEEDED:
+        "You have used your monthly AI extraction quota ({used} of {limit} {unit}). It resets on {resetDate}.",
 
     // Database errors
     DATABASE_ERROR:
         "Something went wrong while saving your data. Please try again",
     RECORD_NOT_FOUND: "The item you're looking for could not be found",
     DUPLICATE_RECORD: "This item already exists in your records",
+    SUPPLIER_ALREADY_EXISTS:
+        "A supplier with this name is already in your supplier list",
+    CATEGORY_ALREADY_EXISTS: "You already have a category with this name",
 
     // User errors
     USER_CREATION_FAILED: "User creation failed",
@@ -124,6 +256,8 @@ export const ERROR_MESSAGES = {
     TOKEN_EXPIRED: "Token has expired",
     INVALID_TOKEN: "Invalid or malformed token",
     PERMISSION_DENIED: "Sorry, you don't have access to this feature",
+    CROSS_TENANT_ACCESS_DENIED:
+        "Sorry, you don't have access to this user's data",
     AUTHENTICATION_FAILED:
         "Sign-in failed. Please check your details and try again",
     PASSWORD_DO_NOT_MATCH: "Passwords do not match",
@@ -131,6 +265,14 @@ export const ERROR_MESSAGES = {
     FAILED_TO_HASH_PASSWORD: "Failed to hash password",
     FAILED_TO_CREATE_USER_PROFILE: "Failed to create user profile",
 
+    // Delegation errors
+    DELEGATION_INVITE_INVALID:
+        "This invitation is invalid or has already been used",
+    DELEGATION_INVITE_EXPIRED:
+        "This invitation has expired. Please ask your accountant to send a new one",
+    DELEGATION_SELF_INVITE: "You can't invite yourself as a client",
+    DELEGATION_ACCOUNTANT_ONLY: "Only accountants can invite clients",
+
     // Validation errors
     VALIDATION_FAILED: "Please check the information you entered and try again",
     REQUIRED_FIELD: "This field is required",
@@ -138,6 +280,12 @@ export const ERROR_MESSAGES = {
     MISSING_SUPPLIER: "Please enter the supplier name",
     CALCULATION_ERROR:
         "The total amount doesn't match the subtotal plus tax. Please double-check your numbers",
+    LINE_ITEM_CALCULATION_ERROR:
+        "Line {line}: quantity × unit price doesn't match the line total. Please double-check this line",
+    ITEMS_SUBTOTAL_MISMATCH:
+        "The line items don't add up to the subtotal. Please double-check the items and subtotal",
+    TAX_CALCULATION_ERROR:
+        "The tax amount doesn't match the tax rate applied to the subtotal. Please double-check the tax",
     INVALID_NAME: "Name must be between 1 and 100 characters",
     INVALID_EMAIL: "Please enter a valid email address",
     INVALID_AMOUNT: "Please enter a valid amount",
@@ -152,7 +300,14 @@ export const ERROR_MESSAGES = {
     INVALID_INVOICE_NUMBER:
         "Invoice number must be 2-30 characters and can only contain letters, numbers, dashes, and underscores",
     INVALID_TAX_RATE: "Tax rate must be between 0% and 100%",
-    INVALID_TAX_ID: "Please enter a valid Australian tax ID (ABN or ACN)",
+    INVALID_PERCENTAGE: "Percentage must be between 0% and 100%",
+    INVALID_TAX_ID: "Please enter a valid tax ID (ABN, ACN, VAT or EIN)",
+    RULE_CONDITION_REQUIRED: "Add at least one condition to the rule",
+    RULE_ACTION_REQUIRED: "Add at least one action to the rule",
+    INVALID_TAX_ID_CHECKSUM:
+        "This ABN or ACN fails its checksum, so it may have been misread. Please check it against the invoice",
+    UNVERIFIED_ACN:
+        "This 9-digit ID fails the ACN checksum. If it is an ACN it may have been misread; a US EIN can be ignored",
     INVALID_LINE_ITEM:
         "Line item description must be between 1 and 250 characters",
     INVALID_DESCRIPTION: "Description must be less than 500 characters",
@@ -223,6 +378,22 @@ export const ERROR_MESSAGES = {
     ERROR_READING_FILES: "Error reading files",
     NO_FIELDS_SELECTED: "No fields selected",
     INVALID_EXPORT_FORMAT: "Invalid export format",
+    EXPORT_JOB_EXPIRED: "This export has expired. Please run the export again",
+    EXPORT_NOT_READY: "This export is not ready to download yet",
+    EXPORT_JOB_TIMED_OUT:
+        "Export did not finish in time. Please try again or export fewer invoices",
+    EXPORT_TEMPLATE_READ_ONLY: "Built-in export templates cannot be changed",
+
+    // Asset register errors
+    INVALID_EFFECTIVE_LIFE: "Effective life must be between 0 and 100 years",
+    ASSET_LINE_ITEM_REQUIRES_INVOICE:
+        "Select the invoice the line item belongs to",
+    ASSET_COST_REQUIRED:
+        "Enter the asset cost, or link an invoice or line item with an amount",
+    ASSET_NAME_REQUIRED:
+        "Enter the asset name, or link a line item with a description",
+    ASSET_START_DATE_REQUIRED:
+        "Enter the date the asset was first used, or link a dated invoice",
 
     // Email errors
     EMAIL_SEND_FAILED: "Failed to send email. Please try again",
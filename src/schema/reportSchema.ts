@@ -0,0 +1,249 @@
+import { z } from "zod";
+import { type InvoiceCategory } from "./invoiceSchema";
+
+// Report file formats (a subset of ExportFormatEnum)
+export const ReportFormatEnum = ["EXCEL", "CSV"] as const;
+export const reportFormatSchema = z.enum(ReportFormatEnum);
+export type ReportFormat = z.infer<typeof reportFormatSchema>;
+
+// BAS purchase labels: G10 capital, G11 non-capital
+export const BASPurchaseLabelEnum = ["G10", "G11"] as const;
+export const basPurchaseLabelSchema = z.enum(BASPurchaseLabelEnum);
+export type BASPurchaseLabel = z.infer<typeof basPurchaseLabelSchema>;
+
+// Why an invoice is left out of the BAS (see DISPLAY_MESSAGES.BAS_EXCLUDED_*)
+export const BASExclusionReasonEnum = [
+    "FOREIGN_CURRENCY",
+    "NO_GST",
+    "MISSING_AMOUNT",
+    "GST_EXCEEDS_MAXIMUM",
+] as const;
+export const basExclusionReasonSchema = z.enum(BASExclusionReasonEnum);
+export type BASExclusionReason = z.infer<typeof basExclusionReasonSchema>;
+
+export const BAS_CONSTANTS = {
+    FILE_NAME: "BAS_FY{financialYear}{quarter}.{extension}", // Used in BAS report route for downloads
+    CAPITAL_PURCHASE_TAG: "capital", // Used in bas.ts - invoices tagged as capital purchases (or linked to an asset) are reported at G10
+    GST_TOLERANCE: 0.01, // Used in bas.ts - rounding allowance when checking GST against one eleventh of the total
+} as const;
+
+// BAS report query (GET /api/reports/bas)
+export const basReportQuerySchema = z.object({
+    financialYear: z.coerce.number().int().min(2000).max(2100), // Starting year, 2024 = FY 2024-2025
+    quarter: z.coerce.number().int().min(1).max(4).optional(), // All quarters when omitted
+    format: reportFormatSchema.optional(), // Download the report instead of JSON
+});
+export type BASReportQuery = z.infer<typeof basReportQuerySchema>;
+
+// Invoice reported at G10 or G11
+export type BASIncludedInvoice = {
+    invoiceId: string;
+    invoiceNumber: string | null;
+    supplierName: string | null;
+    supplierTaxId: string | null;
+    invoiceDate: Date | null;
+    label: BASPurchaseLabel;
+    totalAmount: number;
+    gstAmount: number;
+    businessUsePercentage: number;
+    gstCreditEligible: boolean; // Category allows a GST credit (CATEGORY_DEDUCTIBILITY)
+    gstCredit: number; // Business-use share of the GST, claimed at 1B; 0 when not eligible
+};
+
+// Invoice in the period left out of the BAS
+export type BASExcludedInvoice = {
+    invoiceId: string;
+    invoiceNumber: string | null;
+    supplierName: string | null;
+    invoiceDate: Date | null;
+    currency: string | null;
+    totalAmount: number | null;
+    taxAmount: number | null;
+    reason: BASExclusionReason;
+};
+
+// BAS purchase amounts; reported values are whole dollars (cents dropped)
+export type BASAmounts = {
+    g10: number;
+    g11: number;
+    gstCredits: number; // Label 1B
+};
+
+// BAS purchases for one quarter
+export type BASQuarterReport = {
+    financialYear: number;
+    quarter: number;
+    periodStart: string;
+    periodEnd: string;
+    amounts: BASAmounts;
+    reported: BASAmounts;
+    includedInvoices: BASIncludedInvoice[];
+    excludedInvoices: BASExcludedInvoice[];
+};
+
+// ===== Tax Deduction Summary =====
+
+// Why an invoice is left out of the deduction summary (see DISPLAY_MESSAGES.DEDUCTION_EXCLUDED_*)
+export const DeductionExclusionReasonEnum = [
+    "CAPITAL_ASSET",
+    "FOREIGN_CURRENCY",
+    "MISSING_AMOUNT",
+] as const;
+export const deductionExclusionReasonSchema = z.enum(
+    DeductionExclusionReasonEnum,
+);
+export type DeductionExclusionReason = z.infer<
+    typeof deductionExclusionReasonSchema
+>;
+
+// Deductibility rule for a category; invoices may override the percentage
+export type CategoryDeductibility = {
+    deductiblePercentage: number; // Share of the expense claimable as a deduction, 0-100
+    gstCreditEligible: boolean; // GST is claimed as a credit on the BAS, so it is not also deducted
+    notes: string;
+};
+
+// Used in deductions.ts - default deductibility per category
+export const CATEGORY_DEDUCTIBILITY: Record<
+    InvoiceCategory,
+    CategoryDeductibility
+> = {
+    OFFICE_SUPPLIES: {
+        deductiblePercentage: 100,
+        gstCreditEligible: true,
+        notes: "Items over $300 may need to be depreciated instead",
+    },
+    TRAVEL_TRANSPORT: {
+        deductiblePercentage: 100,
+        gstCreditEligible: true,
+        notes: "Business travel only; private travel is not deductible",
+    },
+    MEALS_ENTERTAINMENT: {
+        deductiblePercentage: 50,
+        gstCreditEligible: false,
+        notes: "Entertainment is generally non-deductible; meals while travelling for work are claimable in full",
+    },
+    SOFTWARE_TECH: {
+        deductiblePercentage: 100,
+        gstCreditEligible: true,
+        notes: "Hardware over $300 may need to be depreciated instead",
+    },
+    RENT_UTILITIES: {
+        deductiblePercentage: 100,
+        gstCreditEligible: true,
+        notes: "Apportion home office costs to the business-use area",
+    },
+    UTILITIES: {
+        deductiblePercentage: 100,
+        gstCreditEligible: true,
+        notes: "Apportion household bills to business use",
+    },
+    COMMUNICATIONS: {
+        deductiblePercentage: 100,
+        gstCreditEligible: true,
+        notes: "Apportion phone and internet plans to business use",
+    },
+    REPAIRS_MAINTENANCE: {
+        deductiblePercentage: 100,
+        gstCreditEligible: true,
+        notes: "Improvements are capital works, not repairs",
+    },
+    TRAINING_EDUCATION: {
+        deductiblePercentage: 100,
+        gstCreditEligible: true,
+        notes: "Must relate to your current income-earning activities",
+    },
+    FINANCIAL_SERVICES: {
+        deductiblePercentage: 100,
+        gstCreditEligible: false,
+        notes: "Most financial supplies are input taxed, so no GST credit applies",
+    },
+    MARKETING_ADVERTISING: {
+        deductiblePercentage: 100,
+        gstCreditEligible: true,
+        notes: "",
+    },
+    LEGAL_CONSULTING: {
+        deductiblePercentage: 100,
+        gstCreditEligible: true,
+        notes: "Fees relating to capital assets or structure are not immediately deductible",
+    },
+    OTHER: {
+        deductiblePercentage: 100,
+        gstCreditEligible: true,
+        notes: "Review before claiming",
+    },
+};
+
+export const DEDUCTION_CONSTANTS = {
+    FILE_NAME: "Deductions_FY{financialYear}.{extension}", // Used in deduction summary route for downloads
+} as const;
+
+// Deduction summary query (GET /api/reports/deductions)
+export const deductionSummaryQuerySchema = z.object({
+    financialYear: z.coerce.number().int().min(2000).max(2100), // Starting year, 2024 = FY 2024-2025
+    format: reportFormatSchema.optional(), // Download the summary instead of JSON
+});
+export type DeductionSummaryQuery = z.infer<typeof deductionSummaryQuerySchema>;
+
+// Deduction split of a single invoice (AUD)
+export type DeductionInvoice = {
+    invoiceId: string;
+    invoiceNumber: string | null;
+    supplierName: string | null;
+    invoiceDate: Date | null;
+    totalAmount: number;
+    gstAmount: number;
+    businessUsePercentage: number;
+    deductiblePercentage: number;
+    isOverride: boolean; // Percentage set on the invoice rather than the category default
+    deductionNote: string | null;
+    claimableAmount: number; // Deduction, excluding any GST claimed as a credit
+    gstCredit: number;
+    nonDeductibleAmount: number;
+};
+
+export type DeductionTotals = {
+    invoiceCount: number;
+    totalAmount: number;
+    claimableAmount: number;
+    gstCredits: number;
+    nonDeductibleAmount: number;
+};
+
+// Deductions for one category with its supporting invoices
+export type DeductionCategorySummary = DeductionTotals & {
+    category: InvoiceCategory;
+    categoryName: string;
+    rule: CategoryDeductibility;
+    invoices: DeductionInvoice[];
+};
+
+// Invoice in the financial year left out of the deduction summary
+export type DeductionExcludedInvoice = {
+    invoiceId: string;
+    invoiceNumber: string | null;
+    supplierName: string | null;
+    invoiceDate: Date | null;
+    currency: string | null;
+    totalAmount: number | null;
+    reason: DeductionExclusionReason;
+};
+
+// Asset register depreciation for the year, claimed instead of the asset invoices
+export type DeductionDepreciation = {
+    assetCount: number;
+    declineInValue: number;
+    deductibleAmount: number; // Business-use share of the decline in value
+};
+
+// End-of-year deduction summary
+export type DeductionSummary = {
+    financialYear: number;
+    periodStart: string;
+    periodEnd: string;
+    totals: DeductionTotals; // Expense invoices only; depreciation is separate
+    depreciation: DeductionDepreciation;
+    categories: DeductionCategorySummary[];
+    excludedInvoices: DeductionExcludedInvoice[];
+};
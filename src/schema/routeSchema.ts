@@ -56,7 +56,19 @@ export const ROUTES = {
         UPLOAD: "/api/upload", // Used in file upload form actions and API calls
         INVOICES: "/api/invoices", // Used in invoice CRUD operations and data fetching
         AI_EXTRACT: "/api/ai/extract", // Used in AI processing API calls
+        AI_USAGE: "/api/ai/usage", // Used in AI usage and quota display
+        AI_ACCURACY: "/api/ai/accuracy", // Used in the admin extraction accuracy report
         EXPORT: "/api/export", // Used in data export functionality
+        EXPORT_TEMPLATES: "/api/export/templates", // Used in saved export template management
+        REPORTS_BAS: "/api/reports/bas", // Used in BAS / GST quarterly report
+        REPORTS_DEDUCTIONS: "/api/reports/deductions", // Used in financial-year tax deduction summary
+        SUPPLIERS: "/api/suppliers", // Used in the supplier directory and supplier defaults
+        CATEGORIES: "/api/categories", // Used in custom category management
+        RULES: "/api/rules", // Used in categorisation rule management and apply-to-existing previews
+        ASSETS: "/api/assets", // Used in depreciating asset register
+        REPORTS_DEPRECIATION: "/api/reports/depreciation", // Used in financial-year depreciation schedule
+        DELEGATIONS: "/api/delegations", // Used in accountant–client invite, accept and revoke flows
+        WORKSPACES: "/api/workspaces", // Used in accountant client workspace switcher
     },
 } as const;
 
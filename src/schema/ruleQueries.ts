@@ -0,0 +1,21 @@
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+import { RuleActions, RuleConditions } from "./ruleSchema";
+import { categorisationRules } from "./ruleTables";
+
+export const selectCategorisationRuleSchema =
+    createSelectSchema(categorisationRules);
+export const insertCategorisationRuleSchema =
+    createInsertSchema(categorisationRules);
+//export type CategorisationRule from ruleTables.ts
+
+// Create Rule Data
+export type CreateRuleData = {
+    name: string;
+    priority: number;
+    enabled: boolean;
+    conditions: RuleConditions;
+    actions: RuleActions;
+};
+
+// Update Rule Data
+export type UpdateRuleData = Partial<CreateRuleData>;
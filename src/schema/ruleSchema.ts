@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { VALIDATION_RULES } from "./commonSchemas";
+import { supportedCurrencySchema } from "./financialSchema";
+import {
+    InvoiceCategoryEnum,
+    InvoiceStatusEnum,
+    percentageSchema,
+} from "./invoiceSchema";
+import { ERROR_MESSAGES } from "./messageSchema";
+
+export const RULE_CONSTANTS = {
+    DEFAULT_PRIORITY: 100, // Used in rule input - rules run in ascending priority, so lower numbers win
+    MAX_PRIORITY: 10000, // Used in rule input validation
+    MAX_KEYWORDS: 20, // Used in rule input validation
+    MAX_TAGS: 20, // Used in rule input validation
+    NAME_MAX_LENGTH: 100, // Used in rule input validation
+    RULE_CONFIDENCE: 1, // Used in processing.ts - a category set by the user's own rule is certain
+} as const;
+
+// Invoice fields a rule action can change
+export const RuleActionFieldEnum = [
+    "category",
+    "tags",
+    "businessUsePercentage",
+    "notes",
+    "status",
+] as const;
+export const ruleActionFieldSchema = z.enum(RuleActionFieldEnum);
+export type RuleActionField = z.infer<typeof ruleActionFieldSchema>;
+
+// Conditions and actions need at least one non-empty entry
+const hasValue = (value: unknown): boolean =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined;
+
+// Every condition that is set must match (supplier and keywords are case insensitive)
+export const ruleConditionsSchema = z
+    .object({
+        supplierName: z.string().trim().min(1).optional(), // Contained in the normalised supplier name
+        supplierTaxId: z
+            .string()
+            .regex(VALIDATION_RULES.TAX_ID_REGEX, ERROR_MESSAGES.INVALID_TAX_ID)
+            .optional(),
+        keywords: z
+            .array(z.string().trim().min(1))
+            .max(RULE_CONSTANTS.MAX_KEYWORDS)
+            .optional(), // Any keyword in the description or a line item
+        amountMin: z.number().min(0).optional(),
+        amountMax: z.number().min(0).optional(),
+        currency: supportedCurrencySchema.optional(),
+    })
+    .refine((conditions) => Object.values(conditions).some(hasValue), {
+        message: ERROR_MESSAGES.RULE_CONDITION_REQUIRED,
+    })
+    .refine(
+        ({ amountMin, amountMax }) =>
+            amountMin === undefined ||
+            amountMax === undefined ||
+            amountMin <= amountMax,
+        { message: ERROR_MESSAGES.INVALID_AMOUNT, path: ["amountMax"] },
+    );
+export type RuleConditions = z.infer<typeof ruleConditionsSchema>;
+
+export const ruleActionsSchema = z
+    .object({
+        category: z
+            .enum(InvoiceCategoryEnum, {
+                message: ERROR_MESSAGES.INVALID_CATEGORY,
+            })
+            .optional(),
+        tags: z
+            .array(z.string().trim().min(1))
+            .max(RULE_CONSTANTS.MAX_TAGS)
+            .optional(), // Added to the invoice's tags
+        businessUsePercentage: percentageSchema.optional(),
+        notes: z
+            .string()
+            .trim()
+            .min(1)
+            .max(
+                VALIDATION_RULES.MAX_DESCRIPTION_LENGTH,
+                ERROR_MESSAGES.INVALID_DESCRIPTION,
+            )
+            .optional(), // Appended to the invoice's notes
+        status: z.enum(InvoiceStatusEnum).optional(),
+    })
+    .refine((actions) => Object.values(actions).some(hasValue), {
+        message: ERROR_MESSAGES.RULE_ACTION_REQUIRED,
+    });
+export type RuleActions = z.infer<typeof ruleActionsSchema>;
+
+// Categorisation rule (POST /api/rules)
+export const ruleInputSchema = z.object({
+    name: z.string().trim().min(1).max(RULE_CONSTANTS.NAME_MAX_LENGTH),
+    priority: z
+        .number()
+        .int()
+        .min(0)
+        .max(RULE_CONSTANTS.MAX_PRIORITY)
+        .default(RULE_CONSTANTS.DEFAULT_PRIORITY),
+    enabled: z.boolean().default(true),
+    conditions: ruleConditionsSchema,
+    actions: ruleActionsSchema,
+});
+export type RuleInput = z.infer<typeof ruleInputSchema>;
+
+// Partial rule update (PATCH /api/rules/[id]); conditions and actions replace the stored ones
+export const ruleUpdateSchema = ruleInputSchema.partial();
+export type RuleUpdateInput = z.infer<typeof ruleUpdateSchema>;
+
+// Apply a rule to existing invoices (POST /api/rules/[id]/apply); a dry run only previews
+export const ruleApplyQuerySchema = z.object({
+    dryRun: z
+        .enum(["true", "false"])
+        .default("true")
+        .transform((value) => value === "true"),
+});
+
+// Invoice details rules are evaluated against
+export type RuleSubject = {
+    supplierName?: string | null;
+    supplierTaxId?: string | null;
+    description?: string | null;
+    itemDescriptions?: (string | null | undefined)[];
+    totalAmount?: number | null;
+    currency?: string | null;
+};
+
+export type RuleHit = {
+    ruleId: string;
+    name: string;
+    fields: RuleActionField[]; // Fields this rule decided (earlier rules win)
+};
+
+// Combined actions of the matching rules, in priority order
+export type RuleEvaluation = {
+    hits: RuleHit[];
+    actions: RuleActions;
+};
+
+export type RuleFieldChange = {
+    field: RuleActionField;
+    from: unknown;
+    to: unknown;
+};
+
+export type RuleInvoicePreview = {
+    invoiceId: string;
+    invoiceNumber: string | null;
+    supplierName: string | null;
+    invoiceDate: Date | null;
+    changes: RuleFieldChange[];
+};
+
+export type RuleApplyResult = {
+    ruleId: string;
+    dryRun: boolean;
+    matchedCount: number; // Invoices the rule matches
+    changedCount: number; // Matched invoices the rule would change (or changed)
+    invoices: RuleInvoicePreview[]; // Invoices with changes
+};
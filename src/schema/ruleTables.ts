@@ -0,0 +1,41 @@
+import { createId } from "@paralleldrive/cuid2";
+import {
+    boolean,
+    index,
+    integer,
+    json,
+    pgTable,
+    text,
+    timestamp,
+} from "drizzle-orm/pg-core";
+import { RULE_CONSTANTS, RuleActions, RuleConditions } from "./ruleSchema";
+import { users } from "./userTables";
+
+// User-owned categorisation rules, evaluated in ascending priority after extraction
+export const categorisationRules = pgTable(
+    "categorisation_rules",
+    {
+        id: text("id")
+            .primaryKey()
+            .$defaultFn(() => createId()),
+        userId: text("user_id")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        name: text("name").notNull(),
+        priority: integer("priority")
+            .notNull()
+            .default(RULE_CONSTANTS.DEFAULT_PRIORITY),
+        enabled: boolean("enabled").notNull().default(true),
+        conditions: json("conditions").$type<RuleConditions>().notNull(),
+        actions: json("actions").$type<RuleActions>().notNull(),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+        updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("categorisation_rules_user_priority_idx").on(
+            table.userId,
+            table.priority,
+        ),
+    ],
+);
+export type CategorisationRule = typeof categorisationRules.$inferSelect;
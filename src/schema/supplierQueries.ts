@@ -0,0 +1,32 @@
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+import { InvoiceCategory } from "./invoiceSchema";
+import { Supplier, suppliers } from "./invoiceTables";
+import { ProposedSupplier, SupplierMatchType } from "./supplierSchema";
+
+export const selectSupplierSchema = createSelectSchema(suppliers);
+export const insertSupplierSchema = createInsertSchema(suppliers);
+//export type Supplier from invoiceTables.ts
+
+// Create Supplier Data (name and tax ID already normalised by the service)
+export type CreateSupplierData = {
+    name: string;
+    normalisedName: string;
+    taxId?: string | null;
+    aliases?: string[];
+    defaultCategory?: InvoiceCategory | null;
+    defaultBusinessUsePercentage?: number | null;
+    email?: string | null;
+    phone?: string | null;
+    address?: string | null;
+    website?: string | null;
+};
+
+// Update Supplier Data
+export type UpdateSupplierData = Partial<CreateSupplierData>;
+
+// Directory entry an invoice's supplier details resolved to, or the entry to create
+export type SupplierResolution = {
+    supplier: Supplier | null;
+    matchedBy: SupplierMatchType | null;
+    proposedSupplier: ProposedSupplier | null;
+};
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { hasValidTaxIdChecksum } from "@/utils/core/taxId";
+import { VALIDATION_RULES } from "./commonSchemas";
+import { InvoiceCategoryEnum, percentageSchema } from "./invoiceSchema";
+import { ERROR_MESSAGES } from "./messageSchema";
+
+export const SUPPLIER_CONSTANTS = {
+    // Used in suppliers.ts - trailing words dropped when normalising names ("Officeworks Pty Ltd" = "Officeworks")
+    LEGAL_SUFFIXES: [
+        "pty",
+        "ltd",
+        "limited",
+        "proprietary",
+        "inc",
+        "incorporated",
+        "llc",
+        "plc",
+        "corp",
+        "corporation",
+        "co",
+        "company",
+        "gmbh",
+    ],
+    MAX_ALIASES: 50, // Used in supplier input validation
+    BACKFILL_BATCH_SIZE: 200, // Used in supplier backfill.ts - unlinked invoices read per batch
+} as const;
+
+// How an invoice's supplier details matched a directory entry
+export const SupplierMatchTypeEnum = ["TAX_ID", "NAME", "ALIAS"] as const;
+export const supplierMatchTypeSchema = z.enum(SupplierMatchTypeEnum);
+export type SupplierMatchType = z.infer<typeof supplierMatchTypeSchema>;
+
+const supplierTextSchema = z
+    .string()
+    .trim()
+    .min(
+        VALIDATION_RULES.MIN_LINE_ITEM_LENGTH,
+        ERROR_MESSAGES.INVALID_LINE_ITEM,
+    )
+    .max(
+        VALIDATION_RULES.MAX_LINE_ITEM_LENGTH,
+        ERROR_MESSAGES.INVALID_LINE_ITEM,
+    );
+
+// Supplier directory entry (POST /api/suppliers)
+export const supplierInputSchema = z.object({
+    name: supplierTextSchema,
+    taxId: z
+        .string()
+        .regex(VALIDATION_RULES.TAX_ID_REGEX, ERROR_MESSAGES.INVALID_TAX_ID)
+        .refine(hasValidTaxIdChecksum, ERROR_MESSAGES.INVALID_TAX_ID_CHECKSUM)
+        .nullable()
+        .optional(),
+    aliases: z
+        .array(supplierTextSchema)
+        .max(SUPPLIER_CONSTANTS.MAX_ALIASES)
+        .optional(),
+    defaultCategory: z
+        .enum(InvoiceCategoryEnum, {
+            message: ERROR_MESSAGES.INVALID_CATEGORY,
+        })
+        .nullable()
+        .optional(),
+    // Applied to new invoices from this supplier that don't set a percentage
+    defaultBusinessUsePercentage: percentageSchema.nullable().optional(),
+    email: z
+        .string()
+        .regex(VALIDATION_RULES.EMAIL_REGEX, ERROR_MESSAGES.INVALID_EMAIL)
+        .nullable()
+        .optional(),
+    phone: z
+        .string()
+        .regex(
+            VALIDATION_RULES.PHONE_NUMBER_REGEX,
+            ERROR_MESSAGES.INVALID_PHONE_NUMBER,
+        )
+        .nullable()
+        .optional(),
+    address: supplierTextSchema.nullable().optional(),
+    website: z.string().url(ERROR_MESSAGES.INVALID_URL).nullable().optional(),
+});
+export type SupplierInput = z.infer<typeof supplierInputSchema>;
+
+// Partial supplier update (PATCH /api/suppliers/[id]); aliases replace the stored list
+export const supplierUpdateSchema = supplierInputSchema.partial();
+export type SupplierUpdateInput = z.infer<typeof supplierUpdateSchema>;
+
+// Supplier details as printed on an invoice
+export type SupplierCandidate = {
+    supplierName?: string | null;
+    supplierTaxId?: string | null;
+    supplierAddress?: string | null;
+};
+
+// New directory entry proposed for an unmatched supplier
+export type ProposedSupplier = {
+    name: string;
+    taxId: string | null;
+    address: string | null;
+};
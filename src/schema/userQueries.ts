@@ -1,7 +1,9 @@
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { SortOrder } from "./commonSchemas";
-import { UserRole } from "./userSchema";
+import { DelegationPermission, UserRole } from "./userSchema";
 import {
+    AccountantClient,
+    accountantClients,
     accounts,
     sessions,
     UserProfile,
@@ -33,6 +35,12 @@ export const selectUserProfileSchema = createSelectSchema(userProfiles);
 export const insertUserProfileSchema = createInsertSchema(userProfiles);
 //export type UserProfile from userTables.ts
 
+export const selectAccountantClientSchema =
+    createSelectSchema(accountantClients);
+export const insertAccountantClientSchema =
+    createInsertSchema(accountantClients);
+//export type AccountantClient from userTables.ts
+
 // Create User Data
 export type CreateUserData = {
     email: string;
@@ -99,3 +107,24 @@ export type UserListResult = {
     totalCount: number;
     hasMore: boolean;
 };
+
+// Public user fields shown on delegation screens
+export type DelegationParty = Pick<User, "id" | "name" | "email" | "image">;
+
+export type DelegationWithParties = {
+    delegation: AccountantClient;
+    accountant: DelegationParty;
+    client: DelegationParty;
+};
+
+export type DelegationListResult = {
+    asAccountant: DelegationWithParties[];
+    asClient: DelegationWithParties[];
+};
+
+// Client workspace an accountant can switch into
+export type ClientWorkspace = {
+    delegationId: string;
+    client: DelegationParty;
+    permissions: DelegationPermission[];
+};
@@ -1,11 +1,58 @@
 import { z } from "zod";
+import { ERROR_MESSAGES } from "./messageSchema";
 
 export const USER_CONSTANTS = {
     DEFAULT_ADMIN_EMAIL: "admin@example.com", // Used in seed.ts for creating admin user
     DEFAULT_ADMIN_NAME: "System Administrator", // Used in seed.ts for admin display name
     DEFAULT_USER_ROLE: "USER" as UserRole, // Used in user registration and role assignment
+    DEFAULT_DELEGATION_PERMISSIONS: ["VIEW"] as DelegationPermission[], // Used in accountant_clients table default and invite form
+    DELEGATION_INVITE_EXPIRY_DAYS: 14, // Used in createDelegationInvite.ts for invite token expiry
 };
 // User Role Enum (moved from AUTH_CONSTANTS.VALID_USER_ROLES)
 export const UserRoleEnum = ["USER", "ACCOUNTANT", "ADMIN"] as const;
 export const userRoleSchema = z.enum(UserRoleEnum);
 export type UserRole = z.infer<typeof userRoleSchema>;
+
+// Accountant–client delegation status enum
+export const DelegationStatusEnum = ["PENDING", "ACTIVE", "REVOKED"] as const;
+export const delegationStatusSchema = z.enum(DelegationStatusEnum);
+export type DelegationStatus = z.infer<typeof delegationStatusSchema>;
+
+// Per-client permission levels a client grants to their accountant
+export const DelegationPermissionEnum = ["VIEW", "EDIT", "EXPORT"] as const;
+export const delegationPermissionSchema = z.enum(DelegationPermissionEnum);
+export type DelegationPermission = z.infer<typeof delegationPermissionSchema>;
+
+const delegationPermissionsSchema = z
+    .array(delegationPermissionSchema)
+    .min(1, ERROR_MESSAGES.REQUIRED_FIELD);
+
+// Accountant invites a client by email
+export const delegationInviteSchema = z.object({
+    clientEmail: z.string().email(ERROR_MESSAGES.INVALID_EMAIL),
+    permissions: delegationPermissionsSchema.default(
+        USER_CONSTANTS.DEFAULT_DELEGATION_PERMISSIONS,
+    ),
+});
+export type DelegationInviteInput = z.infer<typeof delegationInviteSchema>;
+
+// Client accepts an invite, optionally narrowing the requested permissions
+export const delegationAcceptSchema = z.object({
+    token: z.string().min(1, ERROR_MESSAGES.INVALID_TOKEN),
+    permissions: delegationPermissionsSchema.optional(),
+});
+export type DelegationAcceptInput = z.infer<typeof delegationAcceptSchema>;
+
+// Client changes the permissions granted to an accountant
+export const delegationPermissionsUpdateSchema = z.object({
+    permissions: delegationPermissionsSchema,
+});
+export type DelegationPermissionsUpdateInput = z.infer<
+    typeof delegationPermissionsUpdateSchema
+>;
+
+// Accountant switches workspace (null returns to their own workspace)
+export const workspaceSwitchSchema = z.object({
+    clientId: z.string().min(1).nullable(),
+});
+export type WorkspaceSwitchInput = z.infer<typeof workspaceSwitchSchema>;
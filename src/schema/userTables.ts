@@ -7,11 +7,25 @@ import {
     primaryKey,
     text,
     timestamp,
+    unique,
 } from "drizzle-orm/pg-core";
 import { UI_CONSTANTS } from "./uiSchema";
-import { USER_CONSTANTS, UserRoleEnum } from "./userSchema";
+import {
+    DelegationPermissionEnum,
+    DelegationStatusEnum,
+    USER_CONSTANTS,
+    UserRoleEnum,
+} from "./userSchema";
 
 export const userRoleEnum = pgEnum("user_role", UserRoleEnum);
+export const delegationStatusEnum = pgEnum(
+    "delegation_status",
+    DelegationStatusEnum,
+);
+export const delegationPermissionEnum = pgEnum(
+    "delegation_permission",
+    DelegationPermissionEnum,
+);
 
 // NextAuth compliant users table
 export const users = pgTable("users", {
@@ -94,8 +108,37 @@ export const userProfiles = pgTable("user_profiles", {
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Business extension: accountant–client delegations (one row per pair)
+export const accountantClients = pgTable(
+    "accountant_clients",
+    {
+        id: text("id")
+            .primaryKey()
+            .$defaultFn(() => createId()),
+        accountantId: text("accountant_id")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        clientId: text("client_id")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        status: delegationStatusEnum("status").notNull().default("PENDING"),
+        permissions: delegationPermissionEnum("permissions")
+            .array()
+            .notNull()
+            .default(USER_CONSTANTS.DEFAULT_DELEGATION_PERMISSIONS),
+        inviteToken: text("invite_token").unique(),
+        inviteExpiresAt: timestamp("invite_expires_at"),
+        acceptedAt: timestamp("accepted_at"),
+        revokedAt: timestamp("revoked_at"),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+        updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [unique().on(table.accountantId, table.clientId)],
+);
+
 export type User = typeof users.$inferSelect;
 export type Account = typeof accounts.$inferSelect;
 export type Session = typeof sessions.$inferSelect;
 export type VerificationToken = typeof verificationTokens.$inferSelect;
 export type UserProfile = typeof userProfiles.$inferSelect;
+export type AccountantClient = typeof accountantClients.$inferSelect;
@@ -0,0 +1,67 @@
+import { classifyByKeywords, tokenize } from "@/services/ai/classifier";
+import { createInvoice } from "@/test/fixtures";
+
+describe("tokenize", () => {
+    it("drops short words and plural endings", () => {
+        expect(tokenize("Car repairs & IT services")).toEqual([
+            "car",
+            "repair",
+            "service",
+        ]);
+        expect(tokenize("Business class")).toEqual(["business", "class"]);
+    });
+});
+
+describe("classifyByKeywords", () => {
+    it("scores keywords in the description and line items", () => {
+        const [best] = classifyByKeywords({
+            description: "Flight to Sydney",
+            items: [{ description: "Hotel, 2 nights" }],
+        });
+
+        expect(best.category).toBe("TRAVEL_TRANSPORT");
+        expect(best.score).toBe(2);
+        expect(best.matchedTokens).toEqual(["flight", "hotel"]);
+        expect(best.confidence).toBeCloseTo((0.8 * 2) / 3);
+    });
+
+    it("counts supplier name keywords double", () => {
+        const [best] = classifyByKeywords({
+            supplierName: "Sydney Taxi Co",
+            description: "Fare",
+        });
+
+        expect(best).toMatchObject({
+            category: "TRAVEL_TRANSPORT",
+            score: 2,
+        });
+    });
+
+    it("caps confidence once there is enough evidence", () => {
+        const [best] = classifyByKeywords({
+            supplierName: "Uber",
+            description: "Taxi fare",
+        });
+
+        expect(best.score).toBe(3);
+        expect(best.confidence).toBeCloseTo(0.8);
+    });
+
+    it("learns tokens that recur on the user's categorised invoices", () => {
+        const history = [
+            createInvoice({ supplierName: "Acme", category: "SOFTWARE_TECH" }),
+            createInvoice({ supplierName: "Acme", category: "SOFTWARE_TECH" }),
+        ];
+
+        expect(classifyByKeywords({ supplierName: "Acme" }, history)).toEqual([
+            expect.objectContaining({
+                category: "SOFTWARE_TECH",
+                score: 1,
+                matchedTokens: ["acme"],
+            }),
+        ]);
+        expect(
+            classifyByKeywords({ supplierName: "Acme" }, history.slice(1)),
+        ).toEqual([]);
+    });
+});
@@ -0,0 +1,104 @@
+import { type ExtractedInvoiceData } from "@/schema/aiSchema";
+import { type ExtractionCorrection } from "@/schema/aiTables";
+import { applyCorrectionOverrides } from "@/services/ai/corrections";
+
+const createCorrection = (
+    overrides: Partial<ExtractionCorrection> = {},
+): ExtractionCorrection => ({
+    id: "correction-1",
+    userId: "user-1",
+    invoiceId: "invoice-1",
+    supplierId: null,
+    supplierName: "Acme Pty Ltd",
+    field: "category",
+    aiValue: "OFFICE_SUPPLIES",
+    userValue: "SOFTWARE_TECH",
+    createdAt: new Date("2024-08-01T00:00:00"),
+    ...overrides,
+});
+
+const data: ExtractedInvoiceData = {
+    supplierName: "Acme Pty Ltd",
+    supplierTaxId: "51824753556",
+    taxRate: 10,
+    totalAmount: 110,
+    suggestedCategory: "OFFICE_SUPPLIES",
+    categoryConfidence: 0.6,
+};
+
+describe("applyCorrectionOverrides", () => {
+    it("replaces a category the latest corrections agree on", () => {
+        const result = applyCorrectionOverrides(data, [
+            createCorrection(),
+            createCorrection({ id: "correction-2" }),
+        ]);
+
+        expect(result.fields).toEqual(["category"]);
+        expect(result.data).toMatchObject({
+            suggestedCategory: "SOFTWARE_TECH",
+            categoryConfidence: 0.9,
+            categoryReasoning:
+                'Categorised as "Software & Technology" because you corrected earlier invoices from "Acme Pty Ltd" to it.',
+        });
+    });
+
+    it("replaces numeric fields with numbers", () => {
+        const corrections = [1, 2].map((id) =>
+            createCorrection({
+                id: `correction-${id}`,
+                field: "taxRate",
+                aiValue: "10",
+                userValue: "0",
+            }),
+        );
+
+        const result = applyCorrectionOverrides(data, corrections);
+
+        expect(result.fields).toEqual(["taxRate"]);
+        expect(result.data.taxRate).toBe(0);
+    });
+
+    it("keeps the extracted value until enough corrections agree", () => {
+        expect(
+            applyCorrectionOverrides(data, [createCorrection()]).fields,
+        ).toEqual([]);
+        expect(
+            applyCorrectionOverrides(data, [
+                createCorrection(),
+                createCorrection({ id: "correction-2", userValue: "OTHER" }),
+            ]).fields,
+        ).toEqual([]);
+    });
+
+    it("only looks at the latest corrections of a field", () => {
+        const result = applyCorrectionOverrides(data, [
+            createCorrection({ userValue: "OTHER" }),
+            createCorrection({ id: "correction-2", userValue: "OTHER" }),
+            createCorrection({ id: "correction-3" }),
+        ]);
+
+        expect(result.data.suggestedCategory).toBe("OTHER");
+    });
+
+    it("leaves fields that vary between invoices and matching values alone", () => {
+        const corrections = [1, 2].flatMap((id) => [
+            createCorrection({
+                id: `total-${id}`,
+                field: "totalAmount",
+                aiValue: "110",
+                userValue: "120",
+            }),
+            createCorrection({
+                id: `tax-id-${id}`,
+                field: "supplierTaxId",
+                aiValue: "51824753557",
+                userValue: "51824753556",
+            }),
+        ]);
+
+        const result = applyCorrectionOverrides(data, corrections);
+
+        expect(result.fields).toEqual([]);
+        expect(result.data).toEqual(data);
+    });
+});
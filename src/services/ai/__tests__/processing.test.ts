@@ -0,0 +1,122 @@
+import { type AIExtractionProvider } from "@/services/ai/provider";
+import {
+    extractInvoiceData,
+    validateExtractionData,
+} from "@/services/ai/processing";
+import { AIProviderError } from "@/utils/core/error";
+
+const receipt = [
+    "Officeworks Pty Ltd",
+    "ABN: 51 824 753 556",
+    "Invoice No: INV-1001",
+    "Date: 15/08/2024",
+    "Printer paper and stationery",
+    "GST: $10.00",
+    "Total: $110.00 AUD",
+].join("\n");
+
+describe("extractInvoiceData with the mock provider", () => {
+    it("extracts and validates a plain text receipt", async () => {
+        const onProgressUpdate = jest.fn();
+
+        const response = await extractInvoiceData(
+            { fileName: "receipt.txt", buffer: Buffer.from(receipt) },
+            onProgressUpdate,
+        );
+
+        expect(response).toMatchObject({
+            success: true,
+            confidence: 0.5,
+            metadata: {
+                provider: "MOCK",
+                model: "mock-rules-v1",
+                attempts: [expect.objectContaining({ success: true })],
+            },
+        });
+        expect(response.data).toMatchObject({
+            supplierName: "Officeworks Pty Ltd",
+            supplierTaxId: "51 824 753 556",
+            invoiceNumber: "INV-1001",
+            invoiceDate: "15/08/2024",
+            currency: "AUD",
+            subtotal: 100,
+            taxAmount: 10,
+            taxRate: 10,
+            totalAmount: 110,
+            suggestedCategory: "OFFICE_SUPPLIES",
+        });
+        expect(onProgressUpdate).toHaveBeenCalledWith("AI_PROCESSING", 100);
+        expect(validateExtractionData(response.data!)).toMatchObject({
+            isValid: true,
+            errors: [],
+            warnings: [],
+        });
+    });
+
+    it("derives a stable extraction for binary files", async () => {
+        const response = await extractInvoiceData({
+            fileName: "receipt.jpg",
+            buffer: Buffer.from([0xff, 0xd8, 0x00, 0xff]),
+            contentHash: "abcdef1234567890",
+        });
+
+        expect(response.data).toMatchObject({
+            supplierName: "Mock Supplier Pty Ltd",
+            invoiceNumber: "MOCK-ABCDEF12",
+            subtotal: 100,
+            taxAmount: 10,
+            totalAmount: 110,
+        });
+        expect(validateExtractionData(response.data!).isValid).toBe(true);
+    });
+
+    it("reports a provider failure with its attempts", async () => {
+        const provider: AIExtractionProvider = {
+            name: "MOCK",
+            model: "failing",
+            extract: jest
+                .fn()
+                .mockRejectedValue(
+                    new AIProviderError("OPENAI_FILE_NOT_FOUND"),
+                ),
+        };
+
+        const response = await extractInvoiceData(
+            { fileName: "receipt.txt" },
+            undefined,
+            provider,
+        );
+
+        expect(response.success).toBe(false);
+        expect(response.data).toBeUndefined();
+        expect(response.metadata?.attempts).toEqual([
+            expect.objectContaining({
+                success: false,
+                errorCode: "OPENAI_FILE_NOT_FOUND",
+            }),
+        ]);
+    });
+
+    it("keeps the tokens of a failed call the provider billed", async () => {
+        const error = new AIProviderError("INVALID_AI_RESPONSE_FORMAT");
+        error.usage = {
+            promptTokens: 900,
+            completionTokens: 20,
+            totalTokens: 920,
+        };
+        const provider: AIExtractionProvider = {
+            name: "MOCK",
+            model: "unparsable",
+            extract: jest.fn().mockRejectedValue(error),
+        };
+
+        const response = await extractInvoiceData(
+            { fileName: "receipt.txt" },
+            undefined,
+            provider,
+        );
+
+        expect(response.success).toBe(false);
+        expect(response.metadata?.usage).toEqual(error.usage);
+    });
+});
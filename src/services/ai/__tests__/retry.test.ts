@@ -0,0 +1,131 @@
+import { getRetryDelay, parseRetryAfter, withRetry } from "@/services/ai/retry";
+import { AIProviderError } from "@/utils/core/error";
+
+describe("parseRetryAfter", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+
+    it("prefers the retry-after-ms header", () => {
+        expect(parseRetryAfter("1500", "30", now)).toBe(1500);
+    });
+
+    it("reads Retry-After seconds", () => {
+        expect(parseRetryAfter(null, "2", now)).toBe(2000);
+    });
+
+    it("reads a Retry-After HTTP date", () => {
+        expect(
+            parseRetryAfter(null, "Wed, 01 Jan 2025 00:00:05 GMT", now),
+        ).toBe(5000);
+        expect(
+            parseRetryAfter(null, "Tue, 31 Dec 2024 23:59:00 GMT", now),
+        ).toBe(0);
+    });
+
+    it("ignores missing or unreadable headers", () => {
+        expect(parseRetryAfter(undefined, undefined, now)).toBeUndefined();
+        expect(parseRetryAfter("soon", "later", now)).toBeUndefined();
+    });
+});
+
+describe("getRetryDelay", () => {
+    it("doubles the base delay on each attempt", () => {
+        expect(getRetryDelay(1, undefined, () => 0.5)).toBe(1000);
+        expect(getRetryDelay(3, undefined, () => 0.5)).toBe(4000);
+    });
+
+    it("spreads the delay by the jitter ratio", () => {
+        expect(getRetryDelay(1, undefined, () => 0)).toBe(800);
+        expect(getRetryDelay(1, undefined, () => 1)).toBe(1200);
+    });
+
+    it("waits for Retry-After up to the maximum delay", () => {
+        expect(getRetryDelay(1, 2500)).toBe(2500);
+        expect(getRetryDelay(1, 30000)).toBe(30000);
+    });
+
+    it("gives up when Retry-After is beyond the maximum delay", () => {
+        expect(getRetryDelay(1, 120000)).toBeUndefined();
+    });
+});
+
+describe("withRetry", () => {
+    it("retries rate limits and records every attempt", async () => {
+        const operation = jest
+            .fn()
+            .mockRejectedValueOnce(new AIProviderError("OPENAI_RATE_LIMIT", 0))
+            .mockResolvedValueOnce("extracted");
+
+        const { result, error, attempts } = await withRetry(operation);
+
+        expect(result).toBe("extracted");
+        expect(error).toBeUndefined();
+        expect(operation).toHaveBeenCalledTimes(2);
+        expect(attempts).toEqual([
+            expect.objectContaining({
+                attempt: 1,
+                success: false,
+                errorCode: "OPENAI_RATE_LIMIT",
+                retryAfterMs: 0,
+                delayMs: 0,
+            }),
+            expect.objectContaining({ attempt: 2, success: true }),
+        ]);
+    });
+
+    it("gives up on errors that are not retryable", async () => {
+        const failure = new AIProviderError("OPENAI_FILE_NOT_FOUND");
+        const operation = jest.fn().mockRejectedValue(failure);
+
+        const { result, error, attempts } = await withRetry(operation);
+
+        expect(result).toBeUndefined();
+        expect(error).toBe(failure);
+        expect(operation).toHaveBeenCalledTimes(1);
+        expect(attempts).toEqual([
+            expect.objectContaining({
+                attempt: 1,
+                success: false,
+                errorCode: "OPENAI_FILE_NOT_FOUND",
+                delayMs: undefined,
+            }),
+        ]);
+    });
+
+    it("surfaces a rate limit that asks for a longer wait than the cap", async () => {
+        const failure = new AIProviderError("OPENAI_RATE_LIMIT", 120000);
+        const operation = jest.fn().mockRejectedValue(failure);
+
+        const { error, attempts } = await withRetry(operation);
+
+        expect(error).toBe(failure);
+        expect(operation).toHaveBeenCalledTimes(1);
+        expect(attempts[0]).toMatchObject({
+            retryAfterMs: 120000,
+            delayMs: undefined,
+        });
+    });
+
+    it("does not retry an exhausted provider quota", async () => {
+        const operation = jest
+            .fn()
+            .mockRejectedValue(new AIProviderError("OPENAI_QUOTA_EXHAUSTED"));
+
+        await withRetry(operation);
+
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns the last error once attempts run out", async () => {
+        const failure = new AIProviderError("OPENAI_PROCESSING_TIMEOUT", 0);
+        const operation = jest.fn().mockRejectedValue(failure);
+
+        const { error, attempts } = await withRetry(operation, 2);
+
+        expect(error).toBe(failure);
+        expect(operation).toHaveBeenCalledTimes(2);
+        expect(attempts.map((attempt) => attempt.delayMs)).toEqual([
+            0,
+            undefined,
+        ]);
+    });
+});
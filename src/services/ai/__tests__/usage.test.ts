@@ -0,0 +1,45 @@
+import { updateAIUsageRecord } from "@/dal/ai/updateAIUsageRecord";
+import { recordAIUsage } from "@/services/ai/usage";
+
+jest.mock("@/dal/ai/updateAIUsageRecord", () => ({
+    updateAIUsageRecord: jest.fn(),
+}));
+
+describe("recordAIUsage", () => {
+    it("records the final call's latency without retry waits", async () => {
+        await recordAIUsage("usage-1", {
+            success: true,
+            processingTime: 9500,
+            metadata: {
+                provider: "OPENAI",
+                model: "gpt-4o",
+                attempts: [
+                    {
+                        attempt: 1,
+                        success: false,
+                        durationMs: 300,
+                        errorCode: "OPENAI_RATE_LIMIT",
+                        delayMs: 8000,
+                    },
+                    { attempt: 2, success: true, durationMs: 1200 },
+                ],
+                usage: {
+                    promptTokens: 900,
+                    completionTokens: 100,
+                    totalTokens: 1000,
+                },
+            },
+        });
+
+        expect(updateAIUsageRecord).toHaveBeenCalledWith(
+            "usage-1",
+            expect.objectContaining({
+                outcome: "SUCCESS",
+                attempts: 2,
+                errorCode: null,
+                totalTokens: 1000,
+                latencyMs: 1200,
+            }),
+        );
+    });
+});
@@ -0,0 +1,349 @@
+import { getInvoiceById } from "@/dal/invoice/getInvoiceById";
+import { listInvoices } from "@/dal/invoice/listInvoices";
+import { listSimilarInvoices } from "@/dal/invoice/listSimilarInvoices";
+import { updateInvoice } from "@/dal/invoice/updateInvoice";
+import {
+    ANOMALY_CONSTANTS,
+    type AnomalyDetail,
+    type AnomalyDetectionResult,
+    type ExtractedInvoiceData,
+} from "@/schema/aiSchema";
+import { type AccessContext } from "@/schema/authSchema";
+import { type InvoiceCandidate } from "@/schema/invoiceQueries";
+import { type Invoice } from "@/schema/invoiceTables";
+import { AI_MESSAGES } from "@/schema/messageSchema";
+import { findPossibleDuplicates } from "@/services/invoice/duplicate";
+import { diff, formatDisplay, parseInvoiceDate } from "@/utils/core/date";
+import { formatCurrencyDefault } from "@/utils/core/format";
+import { normaliseTaxId } from "@/utils/core/taxId";
+import { logInfo } from "@/utils/sys/log";
+
+/**
+ * Invoice anomaly detection
+ * Compares an invoice against the owner's invoice history and reports
+ * duplicates, amount spikes, date and supplier anomalies with a severity
+ * and suggested action for each
+ */
+
+// ===== Helpers =====
+
+/**
+ * Fill {placeholder} values in an AI_MESSAGES template
+ */
+const fillMessage = (
+    template: string,
+    values: Record<string, string | number>,
+): string =>
+    Object.entries(values).reduce(
+        (message, [key, value]) => message.replace(`{${key}}`, String(value)),
+        template,
+    );
+
+const normaliseName = (name?: string | null): string =>
+    name?.trim().toLowerCase().replace(/\s+/g, " ") ?? "";
+
+const taxIdKey = (taxId?: string | null): string =>
+    taxId ? normaliseTaxId(taxId) : "";
+
+/**
+ * Convert AI-extracted data into the fields compared by anomaly detection
+ */
+export const toInvoiceCandidate = (
+    data: ExtractedInvoiceData,
+): InvoiceCandidate => {
+    const invoiceDate = data.invoiceDate
+        ? parseInvoiceDate(data.invoiceDate)
+        : null;
+    return {
+        supplierName: data.supplierName ?? null,
+        supplierTaxId: data.supplierTaxId ?? null,
+        invoiceNumber: data.invoiceNumber ?? null,
+        invoiceDate: invoiceDate ? new Date(invoiceDate) : null,
+        totalAmount: data.totalAmount ?? null,
+    };
+};
+
+// ===== Individual Checks =====
+
+/**
+ * Fuzzy match on supplier, invoice number, date and total (see findPossibleDuplicates)
+ */
+const detectDuplicate = (
+    candidate: InvoiceCandidate,
+    history: Invoice[],
+): AnomalyDetail | null => {
+    const [match] = findPossibleDuplicates(candidate, history);
+    if (!match) return null;
+
+    return {
+        type: "DUPLICATE_INVOICE",
+        severity: "HIGH",
+        message: fillMessage(AI_MESSAGES.ANOMALY_DUPLICATE_INVOICE, {
+            invoiceNumber: match.invoiceNumber ?? match.invoiceId,
+            supplierName: match.supplierName ?? "",
+        }),
+        data: {
+            invoiceId: match.invoiceId,
+            invoiceNumber: match.invoiceNumber,
+            score: match.score,
+            matchedFields: match.matchedFields,
+        },
+        suggestedAction: AI_MESSAGES.ANOMALY_DUPLICATE_ACTION,
+    };
+};
+
+/**
+ * Total far above the supplier's historical average
+ */
+const detectAmountSpike = (
+    candidate: InvoiceCandidate,
+    supplierHistory: Invoice[],
+): AnomalyDetail | null => {
+    const amounts = supplierHistory
+        .map((invoice) => invoice.totalAmount)
+        .filter((amount): amount is number => amount !== null && amount > 0);
+    if (
+        !candidate.totalAmount ||
+        amounts.length < ANOMALY_CONSTANTS.MIN_SUPPLIER_HISTORY
+    ) {
+        return null;
+    }
+
+    const averageAmount =
+        amounts.reduce((sum, amount) => sum + amount, 0) / amounts.length;
+    const multiple = candidate.totalAmount / averageAmount;
+    if (multiple < ANOMALY_CONSTANTS.AMOUNT_SPIKE_MULTIPLIER) return null;
+
+    return {
+        type: "AMOUNT_SPIKE",
+        severity:
+            multiple >= ANOMALY_CONSTANTS.AMOUNT_SPIKE_HIGH_MULTIPLIER
+                ? "HIGH"
+                : "MEDIUM",
+        message: fillMessage(AI_MESSAGES.ANOMALY_AMOUNT_SPIKE, {
+            totalAmount: formatCurrencyDefault(candidate.totalAmount),
+            multiple: multiple.toFixed(1),
+            supplierName: candidate.supplierName ?? "",
+        }),
+        data: { averageAmount, multiple },
+        suggestedAction: AI_MESSAGES.ANOMALY_AMOUNT_SPIKE_ACTION,
+    };
+};
+
+/**
+ * Invoice dated in the future, or older than OLD_DATE_DAYS
+ */
+const detectDateAnomaly = (
+    candidate: InvoiceCandidate,
+    now: Date,
+): AnomalyDetail | null => {
+    if (!candidate.invoiceDate) return null;
+    const invoiceDate = formatDisplay(candidate.invoiceDate);
+
+    if (
+        diff(candidate.invoiceDate, now, "day") >
+        ANOMALY_CONSTANTS.FUTURE_DATE_GRACE_DAYS
+    ) {
+        return {
+            type: "FUTURE_DATE",
+            severity: "HIGH",
+            message: fillMessage(AI_MESSAGES.ANOMALY_FUTURE_DATE, {
+                invoiceDate,
+            }),
+            suggestedAction: AI_MESSAGES.ANOMALY_FUTURE_DATE_ACTION,
+        };
+    }
+
+    const ageInDays = diff(now, candidate.invoiceDate, "day");
+    if (ageInDays <= ANOMALY_CONSTANTS.OLD_DATE_DAYS) return null;
+
+    return {
+        type: "OLD_DATE",
+        severity:
+            diff(now, candidate.invoiceDate, "year") >=
+            ANOMALY_CONSTANTS.OLD_DATE_HIGH_YEARS
+                ? "HIGH"
+                : "MEDIUM",
+        message: fillMessage(AI_MESSAGES.ANOMALY_OLD_DATE, {
+            invoiceDate,
+            days: ANOMALY_CONSTANTS.OLD_DATE_DAYS,
+        }),
+        data: { ageInDays },
+        suggestedAction: AI_MESSAGES.ANOMALY_OLD_DATE_ACTION,
+    };
+};
+
+/**
+ * First invoice from a supplier, or a tax ID previously used by another supplier
+ */
+const detectSupplierAnomalies = (
+    candidate: InvoiceCandidate,
+    history: Invoice[],
+    supplierHistory: Invoice[],
+    hasOtherInvoices: boolean,
+): AnomalyDetail[] => {
+    const details: AnomalyDetail[] = [];
+    const supplierName = normaliseName(candidate.supplierName);
+    const taxId = taxIdKey(candidate.supplierTaxId);
+
+    if (taxId) {
+        const otherSupplier = history.find(
+            (invoice) =>
+                taxIdKey(invoice.supplierTaxId) === taxId &&
+                !!invoice.supplierName &&
+                normaliseName(invoice.supplierName) !== supplierName,
+        );
+        if (otherSupplier) {
+            details.push({
+                type: "SUPPLIER_MISMATCH",
+                severity: "MEDIUM",
+                message: fillMessage(AI_MESSAGES.ANOMALY_SUPPLIER_MISMATCH, {
+                    supplierTaxId: candidate.supplierTaxId ?? taxId,
+                    otherSupplierName: otherSupplier.supplierName ?? "",
+                }),
+                data: { invoiceId: otherSupplier.id },
+                suggestedAction: AI_MESSAGES.ANOMALY_SUPPLIER_MISMATCH_ACTION,
+            });
+        }
+    }
+
+    if (supplierName && hasOtherInvoices && supplierHistory.length === 0) {
+        details.push({
+            type: "NEW_SUPPLIER",
+            severity: "LOW",
+            message: fillMessage(AI_MESSAGES.ANOMALY_NEW_SUPPLIER, {
+                supplierName: candidate.supplierName ?? "",
+            }),
+            suggestedAction: AI_MESSAGES.ANOMALY_NEW_SUPPLIER_ACTION,
+        });
+    }
+
+    return details;
+};
+
+// ===== Detection =====
+
+/**
+ * Run every anomaly check for an invoice against the owner's history
+ * @param candidate - Invoice (or extracted data) being checked
+ * @param history - Owner's other invoices, or those similar to the candidate
+ * (listSimilarInvoices); the candidate itself is ignored by id
+ * @param now - Reference time for date checks
+ * @param hasOtherInvoices - Whether the owner has any other invoice, for
+ * NEW_SUPPLIER when history holds only similar invoices
+ */
+export const detectAnomalies = (
+    candidate: InvoiceCandidate,
+    history: Invoice[],
+    now: Date = new Date(),
+    hasOtherInvoices?: boolean,
+): AnomalyDetectionResult => {
+    const otherInvoices = history.filter(
+        (invoice) => invoice.id !== candidate.id,
+    );
+    const supplierName = normaliseName(candidate.supplierName);
+    const supplierHistory = supplierName
+        ? otherInvoices.filter(
+              (invoice) => normaliseName(invoice.supplierName) === supplierName,
+          )
+        : [];
+
+    const duplicate = detectDuplicate(candidate, otherInvoices);
+    const amountSpike = detectAmountSpike(candidate, supplierHistory);
+    const dateAnomaly = detectDateAnomaly(candidate, now);
+    const supplierAnomalies = detectSupplierAnomalies(
+        candidate,
+        otherInvoices,
+        supplierHistory,
+        hasOtherInvoices ?? otherInvoices.length > 0,
+    );
+
+    return {
+        isDuplicate: !!duplicate,
+        isAmountAnomaly: !!amountSpike,
+        isDateAnomaly: !!dateAnomaly,
+        isSupplierAnomaly: supplierAnomalies.length > 0,
+        details: [
+            duplicate,
+            amountSpike,
+            dateAnomaly,
+            ...supplierAnomalies,
+        ].filter((detail): detail is AnomalyDetail => detail !== null),
+    };
+};
+
+/**
+ * Whether an anomaly is severe enough to require manual review
+ */
+const isReviewAnomaly = (detail: AnomalyDetail): boolean =>
+    detail.severity === ANOMALY_CONSTANTS.REVIEW_SEVERITY;
+
+const toAnomalyKey = (detail: AnomalyDetail): string =>
+    `${detail.type}:${(detail.data?.invoiceId as string | undefined) ?? ""}`;
+
+/**
+ * Whether a result has a review-severity anomaly the previous result lacked
+ * A reviewer's status then stands until something new turns up
+ * @param result - Fresh anomaly result
+ * @param previous - Result stored on the invoice before this check
+ */
+export const hasNewReviewAnomaly = (
+    result: AnomalyDetectionResult,
+    previous?: AnomalyDetectionResult | null,
+): boolean => {
+    const known = new Set(
+        (previous?.details ?? []).filter(isReviewAnomaly).map(toAnomalyKey),
+    );
+    return result.details.some(
+        (detail) => isReviewAnomaly(detail) && !known.has(toAnomalyKey(detail)),
+    );
+};
+
+/**
+ * Detect anomalies for a saved invoice and persist the result on it
+ * Sets validationStatus to NEEDS_REVIEW when a HIGH severity anomaly appears
+ * that the stored result didn't have, so a status a reviewer set for known
+ * anomalies is kept. Only invoices similar to this one are loaded
+ * @param ctx - Caller access context (session user ID and role)
+ * @param invoiceId - Invoice to check
+ * @returns Updated invoice carrying the anomaly result
+ */
+export const checkInvoiceAnomalies = async (
+    ctx: AccessContext,
+    invoiceId: string,
+): Promise<Invoice> => {
+    const { invoice } = await getInvoiceById(ctx, invoiceId);
+    const similarInvoices = await listSimilarInvoices(
+        ctx,
+        invoice.userId,
+        invoice,
+    );
+    const { totalCount } = await listInvoices(
+        ctx,
+        { userId: invoice.userId },
+        undefined,
+        1,
+        1,
+    );
+    const result = detectAnomalies(
+        invoice,
+        similarInvoices,
+        new Date(),
+        totalCount > 1,
+    );
+
+    const updatedInvoice = await updateInvoice(ctx, invoiceId, {
+        anomalyResult: result,
+        ...(hasNewReviewAnomaly(
+            result,
+            invoice.anomalyResult as AnomalyDetectionResult | null,
+        ) && { validationStatus: "NEEDS_REVIEW" }),
+    });
+
+    logInfo("Invoice anomaly detection completed", {
+        invoiceId,
+        anomalies: result.details.map((detail) => detail.type),
+    });
+
+    return updatedInvoice;
+};
@@ -0,0 +1,168 @@
+import {
+    AI_CATEGORY_CONSTANTS,
+    type ExtractedInvoiceData,
+    type KeywordClassification,
+} from "@/schema/aiSchema";
+import {
+    INVOICE_CATEGORIES,
+    InvoiceCategoryEnum,
+    type InvoiceCategory,
+} from "@/schema/invoiceSchema";
+import { type Invoice } from "@/schema/invoiceTables";
+
+/**
+ * Offline keyword category classifier
+ * Scores every built-in category from the words on an invoice: keywords from
+ * INVOICE_CATEGORIES (counted double in the supplier name), plus tokens
+ * learned from the user's own categorised invoices, weighted by how often a
+ * token appears in that category. Used when the AI gives no category or a
+ * low-confidence one, and to rank alternative categories
+ */
+
+type LearnedTokens = Map<string, Map<InvoiceCategory, number>>;
+
+// ===== Tokens =====
+
+/**
+ * Lower-case words of at least MIN_TOKEN_LENGTH characters, with a plural
+ * "s" dropped so "repairs" matches "repair"
+ */
+export const tokenize = (text?: string | null): string[] =>
+    (text ?? "")
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((word) => word.length >= AI_CATEGORY_CONSTANTS.MIN_TOKEN_LENGTH)
+        .map((word) =>
+            word.length > AI_CATEGORY_CONSTANTS.MIN_TOKEN_LENGTH &&
+            word.endsWith("s") &&
+            !word.endsWith("ss")
+                ? word.slice(0, -1)
+                : word,
+        );
+
+const KEYWORD_CATEGORIES: Map<string, InvoiceCategory[]> = (() => {
+    const index = new Map<string, InvoiceCategory[]>();
+    for (const category of InvoiceCategoryEnum) {
+        for (const keyword of INVOICE_CATEGORIES[category].keywords) {
+            for (const token of tokenize(keyword)) {
+                index.set(token, [...(index.get(token) ?? []), category]);
+            }
+        }
+    }
+    return index;
+})();
+
+/**
+ * Tokens from an owner's categorised invoices (supplier name and description),
+ * with how many invoices in each category carry them
+ * @param historicalInvoices - Owner's invoices
+ */
+export const learnCategoryTokens = (
+    historicalInvoices: Invoice[],
+): LearnedTokens => {
+    const learned: LearnedTokens = new Map();
+    for (const invoice of historicalInvoices) {
+        if (!invoice.category) continue;
+        const tokens = new Set([
+            ...tokenize(invoice.supplierName),
+            ...tokenize(invoice.description),
+        ]);
+        for (const token of tokens) {
+            const counts = learned.get(token) ?? new Map();
+            counts.set(
+                invoice.category,
+                (counts.get(invoice.category) ?? 0) + 1,
+            );
+            learned.set(token, counts);
+        }
+    }
+    return learned;
+};
+
+// ===== Scoring =====
+
+/**
+ * Categories ranked by keyword and learned-token score, best first
+ * Confidence is the category's share of the total score, damped until the
+ * total reaches FULL_EVIDENCE_SCORE and capped at MAX_KEYWORD_CONFIDENCE
+ * @param data - Extracted invoice data (supplier name, description, line items)
+ * @param historicalInvoices - Owner's invoices to learn tokens from
+ * @returns Categories with a positive score
+ */
+export const classifyByKeywords = (
+    data: Pick<ExtractedInvoiceData, "supplierName" | "description" | "items">,
+    historicalInvoices: Invoice[] = [],
+): KeywordClassification[] => {
+    const learned = learnCategoryTokens(historicalInvoices);
+    const scores = new Map<
+        InvoiceCategory,
+        { score: number; matchedTokens: Set<string> }
+    >();
+    const addScore = (
+        category: InvoiceCategory,
+        token: string,
+        score: number,
+    ) => {
+        const entry = scores.get(category) ?? {
+            score: 0,
+            matchedTokens: new Set<string>(),
+        };
+        entry.score += score;
+        entry.matchedTokens.add(token);
+        scores.set(category, entry);
+    };
+
+    const supplierTokens = new Set(tokenize(data.supplierName));
+    const tokens = new Set([
+        ...supplierTokens,
+        ...tokenize(data.description),
+        ...(data.items ?? []).flatMap((item) => tokenize(item.description)),
+    ]);
+    for (const token of tokens) {
+        for (const category of KEYWORD_CATEGORIES.get(token) ?? []) {
+            addScore(
+                category,
+                token,
+                supplierTokens.has(token)
+                    ? AI_CATEGORY_CONSTANTS.SUPPLIER_KEYWORD_WEIGHT
+                    : AI_CATEGORY_CONSTANTS.KEYWORD_WEIGHT,
+            );
+        }
+
+        const counts = learned.get(token);
+        if (!counts) continue;
+        const occurrences = [...counts.values()].reduce((a, b) => a + b, 0);
+        if (occurrences < AI_CATEGORY_CONSTANTS.MIN_LEARNED_OCCURRENCES) {
+            continue;
+        }
+        for (const [category, count] of counts) {
+            addScore(
+                category,
+                token,
+                (AI_CATEGORY_CONSTANTS.LEARNED_TOKEN_WEIGHT * count) /
+                    occurrences,
+            );
+        }
+    }
+
+    const totalScore = [...scores.values()].reduce(
+        (sum, entry) => sum + entry.score,
+        0,
+    );
+    const evidence = Math.min(
+        1,
+        totalScore / AI_CATEGORY_CONSTANTS.FULL_EVIDENCE_SCORE,
+    );
+    return [...scores.entries()]
+        .map(([category, entry]) => ({
+            category,
+            score: entry.score,
+            confidence:
+                (AI_CATEGORY_CONSTANTS.MAX_KEYWORD_CONFIDENCE *
+                    entry.score *
+                    evidence) /
+                totalScore,
+            matchedTokens: [...entry.matchedTokens],
+        }))
+        .sort((a, b) => b.score - a.score);
+};
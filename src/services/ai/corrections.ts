@@ -0,0 +1,278 @@
+import { createExtractionCorrections } from "@/dal/ai/createExtractionCorrections";
+import { getInvoiceById } from "@/dal/invoice/getInvoiceById";
+import {
+    AI_CORRECTION_CONSTANTS,
+    CORRECTION_EXTRACTED_KEYS,
+    CorrectionFieldEnum,
+    OVERRIDABLE_CORRECTION_FIELDS,
+    type CorrectionField,
+    type CorrectionHint,
+    type ExtractedInvoiceData,
+} from "@/schema/aiSchema";
+import { type CreateExtractionCorrectionData } from "@/schema/aiQueries";
+import { type ExtractionCorrection } from "@/schema/aiTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { type UpdateInvoiceData } from "@/schema/invoiceQueries";
+import { type Invoice } from "@/schema/invoiceTables";
+import { AI_MESSAGES } from "@/schema/messageSchema";
+import { getCategoryDisplayName } from "@/services/ai/processing";
+import { normaliseSupplierName } from "@/services/supplier/suppliers";
+import { parseInvoiceDate } from "@/utils/core/date";
+import { roundCurrency } from "@/utils/core/format";
+import { normaliseTaxId } from "@/utils/core/taxId";
+
+/**
+ * Learning from user corrections to AI extraction
+ * Saving an invoice compares each correctable field with the AI's value in
+ * extractedData, and a change away from it is recorded against the
+ * supplier. A supplier's corrections feed later extractions three ways: the
+ * latest per field are offered to the AI as prompt hints, fields that don't
+ * vary between a supplier's invoices are replaced once the latest
+ * corrections agree, and category corrections weigh in supplier history
+ * (see suggestCategoryFromHistory)
+ */
+
+type CorrectionDiff = Pick<
+    CreateExtractionCorrectionData,
+    "field" | "aiValue" | "userValue"
+>;
+
+// ===== Values =====
+
+const NUMBER_FIELDS: readonly CorrectionField[] = [
+    "subtotal",
+    "taxAmount",
+    "taxRate",
+    "totalAmount",
+];
+const DATE_FIELDS: readonly CorrectionField[] = ["invoiceDate", "dueDate"];
+
+/**
+ * Comparable text form of a field value, or null when empty
+ * Amounts are rounded to cents, dates reduced to YYYY-MM-DD, tax IDs
+ * normalised and currencies upper-cased so formatting alone isn't a correction
+ */
+export const toCorrectionValue = (
+    field: CorrectionField,
+    value: unknown,
+): string | null => {
+    if (value === null || value === undefined || value === "") return null;
+    if (NUMBER_FIELDS.includes(field)) {
+        const amount = Number(value);
+        return Number.isFinite(amount) ? String(roundCurrency(amount)) : null;
+    }
+    if (DATE_FIELDS.includes(field)) {
+        const iso =
+            value instanceof Date
+                ? value.toISOString()
+                : parseInvoiceDate(String(value));
+        return iso?.slice(0, 10) ?? null;
+    }
+    const text = String(value).trim();
+    if (!text) return null;
+    if (field === "supplierTaxId") return normaliseTaxId(text);
+    return field === "currency" ? text.toUpperCase() : text;
+};
+
+// ===== Recording =====
+
+/**
+ * Fields an update changes away from the AI's extracted value
+ * When the update carries fresh extractedData every differing field counts;
+ * otherwise only fields whose stored value the update changes
+ * @param extractedData - AI extraction the invoice was filled from
+ * @param invoice - Stored invoice values before the update
+ * @param data - Mapped invoice update
+ */
+export const diffExtractionCorrections = (
+    extractedData: Record<string, unknown>,
+    invoice: Partial<Invoice>,
+    data: UpdateInvoiceData,
+): CorrectionDiff[] =>
+    CorrectionFieldEnum.flatMap((field) => {
+        const userValue = toCorrectionValue(field, data[field]);
+        const aiValue = toCorrectionValue(
+            field,
+            extractedData[CORRECTION_EXTRACTED_KEYS[field]],
+        );
+        if (!userValue || !aiValue || userValue === aiValue) return [];
+        if (
+            data.extractedData === undefined &&
+            userValue === toCorrectionValue(field, invoice[field])
+        ) {
+            return [];
+        }
+        return [{ field, aiValue, userValue }];
+    });
+
+/**
+ * Corrections an invoice update makes to AI-extracted fields
+ * Call before the update is written, so unchanged fields can be told apart,
+ * and record them with recordInvoiceCorrections once the update succeeds
+ * @param ctx - Caller access context (session user ID and role)
+ * @param invoiceId - Invoice being updated
+ * @param data - Mapped invoice update
+ * @returns Corrections to record
+ * @throws NotFoundError if invoice not found
+ * @throws AccessDeniedError if the caller cannot view the invoice owner's data
+ */
+export const getInvoiceCorrections = async (
+    ctx: AccessContext,
+    invoiceId: string,
+    data: UpdateInvoiceData,
+): Promise<CreateExtractionCorrectionData[]> => {
+    const { invoice } = await getInvoiceById(ctx, invoiceId);
+    const extractedData = (data.extractedData ?? invoice.extractedData) as
+        | Record<string, unknown>
+        | null
+        | undefined;
+    if (!extractedData || typeof extractedData !== "object") return [];
+
+    return diffExtractionCorrections(extractedData, invoice, data).map(
+        (diff) => ({
+            ...diff,
+            invoiceId,
+            supplierId:
+                data.supplierId !== undefined
+                    ? data.supplierId
+                    : invoice.supplierId,
+            supplierName: data.supplierName ?? invoice.supplierName,
+        }),
+    );
+};
+
+/**
+ * Record the corrections of a saved invoice update
+ * @param ctx - Caller access context (session user ID and role)
+ * @param invoice - Invoice as saved
+ * @param corrections - From getInvoiceCorrections, taken before the update
+ * @returns Recorded corrections
+ * @throws AccessDeniedError if the caller cannot edit the invoice owner's data
+ */
+export const recordInvoiceCorrections = async (
+    ctx: AccessContext,
+    invoice: Pick<Invoice, "userId">,
+    corrections: CreateExtractionCorrectionData[],
+): Promise<ExtractionCorrection[]> =>
+    corrections.length > 0
+        ? createExtractionCorrections(ctx, invoice.userId, corrections)
+        : [];
+
+// ===== Supplier Matching =====
+
+/**
+ * Corrections recorded for a supplier, newest first
+ * A correction matches on the linked directory entry, or on the normalised
+ * supplier name, including the name the AI misread for the supplier
+ * @param corrections - Owner's corrections, newest first
+ * @param supplier - Directory entry ID and extracted supplier name
+ */
+export const getSupplierCorrections = (
+    corrections: ExtractionCorrection[],
+    supplier: { supplierId?: string | null; supplierName?: string | null },
+): ExtractionCorrection[] => {
+    const name = supplier.supplierName?.trim()
+        ? normaliseSupplierName(supplier.supplierName)
+        : null;
+    return corrections.filter(
+        (correction) =>
+            (!!supplier.supplierId &&
+                correction.supplierId === supplier.supplierId) ||
+            (!!name &&
+                [
+                    correction.supplierName,
+                    correction.field === "supplierName"
+                        ? correction.aiValue
+                        : null,
+                ].some(
+                    (value) => !!value && normaliseSupplierName(value) === name,
+                )),
+    );
+};
+
+// ===== Prompt Hints =====
+
+/**
+ * Latest correction per supplier and field, most recent first, for the prompt
+ * @param corrections - Owner's corrections, newest first
+ */
+export const toCorrectionHints = (
+    corrections: ExtractionCorrection[],
+): CorrectionHint[] => {
+    const hints = new Map<string, CorrectionHint>();
+    for (const correction of corrections) {
+        if (hints.size >= AI_CORRECTION_CONSTANTS.MAX_PROMPT_HINTS) break;
+        if (!correction.supplierName?.trim()) continue;
+        const key = `${normaliseSupplierName(correction.supplierName)}:${correction.field}`;
+        if (hints.has(key)) continue;
+        hints.set(key, {
+            supplierName: correction.supplierName,
+            field: correction.field,
+            aiValue: correction.aiValue,
+            userValue: correction.userValue,
+        });
+    }
+    return [...hints.values()];
+};
+
+// ===== Overrides =====
+
+/**
+ * Value the latest MIN_CORRECTIONS_FOR_OVERRIDE corrections of a field agree
+ * on, or null
+ */
+const getAgreedCorrection = (
+    supplierCorrections: ExtractionCorrection[],
+    field: CorrectionField,
+): string | null => {
+    const latest = supplierCorrections
+        .filter((correction) => correction.field === field)
+        .slice(0, AI_CORRECTION_CONSTANTS.MIN_CORRECTIONS_FOR_OVERRIDE);
+    if (latest.length < AI_CORRECTION_CONSTANTS.MIN_CORRECTIONS_FOR_OVERRIDE) {
+        return null;
+    }
+    const [{ userValue }] = latest;
+    return latest.every((correction) => correction.userValue === userValue)
+        ? userValue
+        : null;
+};
+
+/**
+ * Replace extracted values the user keeps correcting for this supplier
+ * Only OVERRIDABLE_CORRECTION_FIELDS are replaced; a replaced category
+ * carries CORRECTION_CONFIDENCE and says why
+ * @param data - Extracted invoice data
+ * @param supplierCorrections - Corrections for the invoice's supplier, newest first
+ * @returns Data with overrides applied and the fields that were replaced
+ */
+export const applyCorrectionOverrides = (
+    data: ExtractedInvoiceData,
+    supplierCorrections: ExtractionCorrection[],
+): { data: ExtractedInvoiceData; fields: CorrectionField[] } => {
+    const corrected: ExtractedInvoiceData = { ...data };
+    const fields: CorrectionField[] = [];
+
+    for (const field of OVERRIDABLE_CORRECTION_FIELDS) {
+        const value = getAgreedCorrection(supplierCorrections, field);
+        const key = CORRECTION_EXTRACTED_KEYS[field];
+        if (!value || toCorrectionValue(field, data[key]) === value) continue;
+
+        if (field === "category") {
+            corrected.suggestedCategory = value;
+            corrected.categoryConfidence =
+                AI_CORRECTION_CONSTANTS.CORRECTION_CONFIDENCE;
+            corrected.categoryReasoning =
+                AI_MESSAGES.CORRECTION_BASED_REASONING.replace(
+                    "{baseName}",
+                    getCategoryDisplayName(value),
+                ).replace("{supplierName}", data.supplierName ?? "");
+        } else if (NUMBER_FIELDS.includes(field)) {
+            Object.assign(corrected, { [key]: Number(value) });
+        } else {
+            Object.assign(corrected, { [key]: value });
+        }
+        fields.push(field);
+    }
+
+    return { data: corrected, fields };
+};
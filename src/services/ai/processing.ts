@@ -1,17 +1,19 @@
-import { OpenAI } from "openai";
 import {
     AI_CATEGORY_CONSTANTS,
+    AI_CORRECTION_CONSTANTS,
     AI_VALIDATION_CONSTANTS,
     extractedInvoiceDataSchema,
-    OPENAI_CONSTANTS,
-    AI_PROMPTS,
-    mapOpenAIError,
+    type AIExtractionInput,
     type AIExtractionResponse,
+    type AlternativeCategory,
     type ExtractedInvoiceData,
+    type KeywordClassification,
     type SmartCategoryResult,
     type ValidationError,
     type ValidationResult,
 } from "@/schema/aiSchema";
+import { type ExtractionCorrection } from "@/schema/aiTables";
+import { FINANCIAL_CONSTANTS } from "@/schema/financialSchema";
 import { INVOICE_CATEGORIES } from "@/schema/invoiceSchema";
 import { Invoice } from "@/schema/invoiceTables";
 import {
@@ -19,114 +21,76 @@ import {
     ERROR_MESSAGES,
     AIValidationErrorCode,
 } from "@/schema/messageSchema";
-import { env } from "@/schema/envSchema";
+import { RULE_CONSTANTS, type RuleEvaluation } from "@/schema/ruleSchema";
 import { UploadStatus } from "@/schema/uploadSchema";
-import { logInfo, logError } from "@/utils/sys/log";
+import { classifyByKeywords } from "@/services/ai/classifier";
+import {
+    getExtractionProvider,
+    type AIExtractionProvider,
+} from "@/services/ai/provider";
+import { withRetry } from "@/services/ai/retry";
+import { isAIProviderError } from "@/utils/core/error";
+import { roundCurrency } from "@/utils/core/format";
+import { hasValidTaxIdChecksum } from "@/utils/core/taxId";
+import { logError } from "@/utils/sys/log";
 
 /**
  * AI data processing utilities
- * Handles OpenAI API requests, responses, data validation, and category suggestions
+ * Handles provider extraction requests, responses, data validation, and category suggestions
  */
 
 // ===== Processing and Cleanup =====
 
 /**
- * Process image with OpenAI Vision for invoice data extraction
- * Uses OpenAI Vision API to analyze invoice images directly from S3 URL
+ * Extract invoice data with the configured provider (env.AI_PROVIDER)
+ * Transient failures are retried (see retry.ts); every attempt is recorded
+ * in the response metadata, with the tokens of the successful call or of a
+ * failed call the provider still billed
  */
-export const processWithOpenAIVision = async (
-    s3ImageUrl: string,
+export const extractInvoiceData = async (
+    input: AIExtractionInput,
     onProgressUpdate?: (status: UploadStatus, progress: number) => void,
-): Promise<ExtractedInvoiceData> => {
-    try {
-        onProgressUpdate?.("AI_PROCESSING", 10);
-
-        // Initialize OpenAI client
-        const openai = new OpenAI({
-            apiKey: env.OPENAI_API_KEY,
-            organization: env.OPENAI_ORGANIZATION_ID,
-        });
-
-        onProgressUpdate?.("AI_PROCESSING", 30);
-
-        // Create chat completion with vision for invoice analysis
-        const response = await openai.chat.completions.create({
-            model: OPENAI_CONSTANTS.VISION_MODEL,
-            max_tokens: OPENAI_CONSTANTS.MAX_TOKENS,
-            temperature: OPENAI_CONSTANTS.TEMPERATURE,
-            messages: [
-                {
-                    role: "system",
-                    content: AI_PROMPTS.SYSTEM_PROMPT,
-                },
-                {
-                    role: "user",
-                    content: [
-                        {
-                            type: "text",
-                            text: AI_PROMPTS.USER_PROMPT,
-                        },
-                        {
-                            type: "image_url",
-                            image_url: {
-                                url: s3ImageUrl, // Direct S3 pre-signed download URL
-                            },
-                        },
-                    ],
-                },
-            ],
-        });
-
-        onProgressUpdate?.("AI_PROCESSING", 70);
-
-        // Parse OpenAI response
-        const responseText = response.choices[0]?.message?.content;
-        if (!responseText) {
-            throw new Error("No response from OpenAI");
-        }
-
-        onProgressUpdate?.("AI_PROCESSING", 85);
-
-        // Extract JSON from response (handle potential markdown formatting)
-        let jsonData;
-        try {
-            // Remove any markdown formatting or extra text
-            const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-            const jsonString = jsonMatch ? jsonMatch[0] : responseText;
-            jsonData = JSON.parse(jsonString);
-        } catch (parseError) {
-            logError("Failed to parse OpenAI JSON response", {
-                responseText,
-                parseError,
-            });
-            throw new Error(ERROR_MESSAGES.INVALID_AI_RESPONSE_FORMAT);
-        }
-
-        onProgressUpdate?.("AI_PROCESSING", 95);
-
-        // Validate and transform the response using our schema
-        const validatedData = extractedInvoiceDataSchema.parse(jsonData);
-
-        logInfo("OpenAI Vision processing completed successfully", {
-            s3ImageUrl: s3ImageUrl.split("?")[0], // Log URL without query params for privacy
-            invoiceNumber: validatedData.invoiceNumber,
-            supplierName: validatedData.supplierName,
-            totalAmount: validatedData.totalAmount,
-            suggestedCategory: validatedData.suggestedCategory,
-            categoryConfidence: validatedData.categoryConfidence,
-        });
-
-        onProgressUpdate?.("AI_PROCESSING", 100);
+    provider: AIExtractionProvider = getExtractionProvider(),
+): Promise<AIExtractionResponse> => {
+    const startedAt = Date.now();
+    const { result, error, attempts } = await withRetry(() =>
+        provider.extract(input, onProgressUpdate),
+    );
+    const metadata = {
+        provider: provider.name,
+        model: provider.model,
+        attempts,
+        usage:
+            result?.usage ??
+            (isAIProviderError(error) ? error.usage : undefined),
+    };
 
-        return validatedData;
-    } catch (error) {
-        logError("OpenAI Vision processing failed", {
+    if (!result) {
+        logError("AI extraction failed", {
             error,
-            s3ImageUrl: s3ImageUrl.split("?")[0], // Log URL without query params for privacy
+            fileName: input.fileName,
+            ...metadata,
         });
-        const { message } = mapOpenAIError(error);
-        throw new Error(message, { cause: error });
+        return {
+            success: false,
+            error:
+                error instanceof Error
+                    ? error.message
+                    : ERROR_MESSAGES.AI_PROCESSING_FAILED,
+            processingTime: Date.now() - startedAt,
+            metadata,
+        };
     }
+
+    return {
+        success: true,
+        data: result.data,
+        confidence:
+            result.data.categoryConfidence ??
+            AI_VALIDATION_CONSTANTS.DEFAULT_CONFIDENCE,
+        processingTime: Date.now() - startedAt,
+        metadata,
+    };
 };
 
 // ===== Response Processing =====
@@ -178,8 +142,81 @@ export const processExtractionResponse = (
 
 // ===== Data Validation =====
 
+/**
+ * Check two amounts agree within CALCULATION_TOLERANCE
+ */
+const amountsMatch = (actual: number, expected: number): boolean =>
+    Math.abs(actual - expected) <=
+    AI_VALIDATION_CONSTANTS.CALCULATION_TOLERANCE;
+
+/**
+ * Tax rate percentage as a fraction (10 → 0.1); rates are percentages throughout
+ */
+const toTaxFraction = (taxRate: number): number => taxRate / 100;
+
+/**
+ * Reconcile line items: quantity × unitPrice = totalPrice per line,
+ * and line totals sum to the subtotal (or to the total for GST-inclusive lines)
+ */
+const validateLineItems = (data: ExtractedInvoiceData): ValidationError[] => {
+    const warnings: ValidationError[] = [];
+    const items = data.items ?? [];
+
+    items.forEach((item, index) => {
+        if (
+            item.quantity === undefined ||
+            item.unitPrice === undefined ||
+            item.totalPrice === undefined
+        ) {
+            return;
+        }
+        const expectedTotal = roundCurrency(item.quantity * item.unitPrice);
+        if (!amountsMatch(item.totalPrice, expectedTotal)) {
+            warnings.push({
+                field: `items.${index}.totalPrice`,
+                code: "LINE_ITEM_CALCULATION_ERROR" as AIValidationErrorCode,
+                message: ERROR_MESSAGES.LINE_ITEM_CALCULATION_ERROR.replace(
+                    "{line}",
+                    String(index + 1),
+                ),
+                severity: AI_VALIDATION_CONSTANTS.WARNING_SEVERITY,
+                suggestedValue: expectedTotal,
+            });
+        }
+    });
+
+    const lineTotals = items.map((item) => item.totalPrice);
+    if (
+        data.subtotal &&
+        lineTotals.length > 0 &&
+        lineTotals.every((total) => total !== undefined)
+    ) {
+        const itemsSum = roundCurrency(
+            lineTotals.reduce((sum, total) => sum + total, 0),
+        );
+        const isTaxInclusive =
+            data.totalAmount !== undefined &&
+            amountsMatch(itemsSum, data.totalAmount);
+        if (!amountsMatch(itemsSum, data.subtotal) && !isTaxInclusive) {
+            warnings.push({
+                field: "subtotal",
+                code: "ITEMS_SUBTOTAL_MISMATCH" as AIValidationErrorCode,
+                message: ERROR_MESSAGES.ITEMS_SUBTOTAL_MISMATCH,
+                severity: AI_VALIDATION_CONSTANTS.WARNING_SEVERITY,
+                suggestedValue: itemsSum,
+            });
+        }
+    }
+
+    return warnings;
+};
+
 /**
  * Validate extracted invoice data
+ * A missing total and an ABN checksum are errors; an ACN checksum on an AUD
+ * invoice is a warning, since 9 plain digits may be a US EIN; a header total mismatch
+ * (subtotal + tax != total) is listed with the errors at warning severity;
+ * line item and tax rate reconciliation are warnings. Mismatches carry a suggestedValue
  */
 export const validateExtractionData = (
     data: ExtractedInvoiceData,
@@ -207,6 +244,29 @@ export const validateExtractionData = (
         });
     }
 
+    // Misread ABN error, or possibly misread ACN warning
+    if (data.supplierTaxId && !hasValidTaxIdChecksum(data.supplierTaxId)) {
+        errors.push({
+            field: "supplierTaxId",
+            code: "INVALID_TAX_ID_CHECKSUM" as AIValidationErrorCode,
+            message: ERROR_MESSAGES.INVALID_TAX_ID_CHECKSUM,
+            severity: AI_VALIDATION_CONSTANTS.ERROR_SEVERITY,
+        });
+    } else if (
+        data.supplierTaxId &&
+        !hasValidTaxIdChecksum(
+            data.supplierTaxId,
+            data.currency ?? FINANCIAL_CONSTANTS.DEFAULT_CURRENCY,
+        )
+    ) {
+        warnings.push({
+            field: "supplierTaxId",
+            code: "UNVERIFIED_ACN" as AIValidationErrorCode,
+            message: ERROR_MESSAGES.UNVERIFIED_ACN,
+            severity: AI_VALIDATION_CONSTANTS.WARNING_SEVERITY,
+        });
+    }
+
     // Subtotal + tax amount != total amount warning
     if (data.subtotal && data.taxAmount && data.totalAmount) {
         const calculatedTotal = data.subtotal + data.taxAmount;
@@ -217,10 +277,34 @@ export const validateExtractionData = (
                 code: "CALCULATION_ERROR" as AIValidationErrorCode,
                 message: ERROR_MESSAGES.CALCULATION_ERROR,
                 severity: AI_VALIDATION_CONSTANTS.WARNING_SEVERITY,
+                suggestedValue: roundCurrency(calculatedTotal),
             });
         }
     }
 
+    // Tax amount != tax rate × subtotal warning
+    if (
+        data.subtotal &&
+        data.taxRate !== undefined &&
+        data.taxAmount !== undefined
+    ) {
+        const expectedTax = roundCurrency(
+            data.subtotal * toTaxFraction(data.taxRate),
+        );
+        if (!amountsMatch(data.taxAmount, expectedTax)) {
+            warnings.push({
+                field: "taxAmount",
+                code: "TAX_CALCULATION_ERROR" as AIValidationErrorCode,
+                message: ERROR_MESSAGES.TAX_CALCULATION_ERROR,
+                severity: AI_VALIDATION_CONSTANTS.WARNING_SEVERITY,
+                suggestedValue: expectedTax,
+            });
+        }
+    }
+
+    // Line item reconciliation warnings
+    warnings.push(...validateLineItems(data));
+
     return {
         isValid: errors.length === 0,
         errors,
@@ -232,51 +316,100 @@ export const validateExtractionData = (
 // ===== Category Suggestions =====
 
 /**
- * Main category suggestion function with AI-first approach and historical fallback
+ * Alternatives to a chosen category: the other candidates, then the keyword
+ * ranking, each category once at its best confidence, most confident first
+ */
+const rankAlternatives = (
+    suggestedCategory: string,
+    candidates: (SmartCategoryResult | null | undefined)[],
+    keywordRanking: KeywordClassification[],
+): AlternativeCategory[] => {
+    const best = new Map<string, number>();
+    const alternatives = [
+        ...candidates.flatMap((candidate) =>
+            candidate
+                ? [
+                      {
+                          category: candidate.suggestedCategory,
+                          confidence: candidate.confidence,
+                      },
+                  ]
+                : [],
+        ),
+        ...keywordRanking.map(({ category, confidence }) => ({
+            category,
+            confidence,
+        })),
+    ];
+    for (const { category, confidence } of alternatives) {
+        if (category === suggestedCategory) continue;
+        best.set(category, Math.max(confidence, best.get(category) ?? 0));
+    }
+    return [...best.entries()]
+        .map(([category, confidence]) => ({ category, confidence }))
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, AI_CATEGORY_CONSTANTS.MAX_ALTERNATIVES);
+};
+
+/**
+ * Main category suggestion function with AI-first approach
+ * A category set by one of the user's rules overrides everything. A confident
+ * AI suggestion is used as is; when the AI is unsure or gave no category, the
+ * most confident of the AI, supplier history (including the user's category
+ * corrections for the supplier) and keyword classifier wins. Other
+ * candidates and the keyword ranking become alternativeCategories
  */
 export const suggestCategory = (
     data: ExtractedInvoiceData,
     historicalInvoices: Invoice[] = [],
+    ruleEvaluation?: RuleEvaluation,
+    supplierCorrections: ExtractionCorrection[] = [],
 ): SmartCategoryResult => {
-    // First, try AI suggestion
     const aiSuggestion = suggestCategoryFromAI(data);
-    if (aiSuggestion) {
-        // If AI confidence is high, use AI suggestion directly
-        if (
-            aiSuggestion.confidence >=
+    const keywordRanking = classifyByKeywords(data, historicalInvoices);
+    const withAlternatives = (
+        result: SmartCategoryResult,
+        candidates: (SmartCategoryResult | null | undefined)[] = [],
+    ): SmartCategoryResult => ({
+        ...result,
+        alternativeCategories: rankAlternatives(
+            result.suggestedCategory,
+            candidates,
+            keywordRanking,
+        ),
+    });
+
+    const ruleSuggestion =
+        ruleEvaluation && suggestCategoryFromRules(ruleEvaluation);
+    if (ruleSuggestion) return withAlternatives(ruleSuggestion, [aiSuggestion]);
+    // If AI confidence is high, use AI suggestion directly
+    if (
+        aiSuggestion &&
+        aiSuggestion.confidence >=
             AI_CATEGORY_CONSTANTS.GOOD_SUGGESTION_THRESHOLD
-        ) {
-            return aiSuggestion;
-        }
-        // If AI confidence is low, check historical data
-        const historicalSuggestion = suggestCategoryFromHistory(
-            data,
-            historicalInvoices,
-        );
-        if (
-            historicalSuggestion &&
-            historicalSuggestion.confidence > aiSuggestion.confidence
-        ) {
-            // Use historical suggestion and add AI as alternative
-            return {
-                ...historicalSuggestion,
-                alternativeCategories: [
-                    {
-                        category: aiSuggestion.suggestedCategory,
-                        confidence: aiSuggestion.confidence,
-                    },
-                ],
-            };
-        }
-        // Use AI suggestion even with low confidence if no better historical data
-        return aiSuggestion;
+    ) {
+        return withAlternatives(aiSuggestion);
     }
-    // If no AI suggestion, try historical data
+    // AI unsure or unavailable: most confident of AI, history and keywords
+    // (earlier candidates win ties)
     const historicalSuggestion = suggestCategoryFromHistory(
         data,
         historicalInvoices,
+        supplierCorrections,
+    );
+    const candidates = [
+        aiSuggestion,
+        historicalSuggestion,
+        toKeywordSuggestion(keywordRanking),
+    ];
+    const bestSuggestion = candidates.reduce<SmartCategoryResult | null>(
+        (best, candidate) =>
+            candidate && (!best || candidate.confidence > best.confidence)
+                ? candidate
+                : best,
+        null,
     );
-    if (historicalSuggestion) return historicalSuggestion;
+    if (bestSuggestion) return withAlternatives(bestSuggestion, candidates);
     // Fallback to default category
     return {
         suggestedCategory: AI_CATEGORY_CONSTANTS.DEFAULT_CATEGORY,
@@ -315,19 +448,74 @@ export const suggestCategoryFromAI = (
     return null;
 };
 
+/**
+ * Get category suggestion from the first matching rule that sets a category
+ */
+export const suggestCategoryFromRules = (
+    evaluation: RuleEvaluation,
+): SmartCategoryResult | null => {
+    const category = evaluation.actions.category;
+    const hit = evaluation.hits.find((item) =>
+        item.fields.includes("category"),
+    );
+    if (!category || !hit) return null;
+    return {
+        suggestedCategory: category,
+        confidence: RULE_CONSTANTS.RULE_CONFIDENCE,
+        reasoning: generateCategoryReasoning(category, "", hit.name),
+        alternativeCategories: [],
+    };
+};
+
+const toKeywordSuggestion = (
+    keywordRanking: KeywordClassification[],
+): SmartCategoryResult | null => {
+    const [top, ...rest] = keywordRanking;
+    if (!top) return null;
+    return {
+        suggestedCategory: top.category,
+        confidence: top.confidence,
+        reasoning: AI_MESSAGES.KEYWORD_BASED_REASONING.replace(
+            "{baseName}",
+            getCategoryDisplayName(top.category),
+        ).replace("{keywords}", top.matchedTokens.join(", ")),
+        alternativeCategories: rest
+            .slice(0, AI_CATEGORY_CONSTANTS.MAX_ALTERNATIVES)
+            .map(({ category, confidence }) => ({ category, confidence })),
+    };
+};
+
+/**
+ * Get category suggestion from INVOICE_CATEGORIES keywords and tokens learned
+ * from the user's invoices (works without the AI)
+ */
+export const suggestCategoryFromKeywords = (
+    data: ExtractedInvoiceData,
+    historicalInvoices: Invoice[] = [],
+): SmartCategoryResult | null =>
+    toKeywordSuggestion(classifyByKeywords(data, historicalInvoices));
+
 /**
  * Get category suggestion from historical invoices for the same supplier
+ * Each category correction the user made for the supplier counts as
+ * CATEGORY_CORRECTION_WEIGHT invoices in that category
  */
 export const suggestCategoryFromHistory = (
     data: ExtractedInvoiceData,
     historicalInvoices: Invoice[],
+    supplierCorrections: ExtractionCorrection[] = [],
 ): SmartCategoryResult | null => {
     const supplierName = data.supplierName?.toLowerCase() || "";
-    if (!supplierName || historicalInvoices.length === 0) return null;
+    if (!supplierName) return null;
     const supplierInvoices = historicalInvoices.filter((inv) =>
         inv.supplierName?.toLowerCase().includes(supplierName),
     );
-    if (supplierInvoices.length === 0) return null;
+    const categoryCorrections = supplierCorrections.filter(
+        (correction) => correction.field === "category",
+    );
+    if (supplierInvoices.length === 0 && categoryCorrections.length === 0) {
+        return null;
+    }
     // Calculate most common category for this supplier
     const categoryCount: Record<string, number> = {};
     supplierInvoices.forEach((inv) => {
@@ -335,6 +523,15 @@ export const suggestCategoryFromHistory = (
             categoryCount[inv.category] =
                 (categoryCount[inv.category] || 0) + 1;
     });
+    categoryCorrections.forEach((correction) => {
+        categoryCount[correction.userValue] =
+            (categoryCount[correction.userValue] || 0) +
+            AI_CORRECTION_CONSTANTS.CATEGORY_CORRECTION_WEIGHT;
+    });
+    const weightedCount =
+        supplierInvoices.length +
+        categoryCorrections.length *
+            AI_CORRECTION_CONSTANTS.CATEGORY_CORRECTION_WEIGHT;
     const mostCommon = Object.entries(categoryCount).sort(
         ([, a], [, b]) => b - a,
     )[0];
@@ -343,7 +540,7 @@ export const suggestCategoryFromHistory = (
     const historicalConfidence = Math.min(
         AI_CATEGORY_CONSTANTS.MAX_HISTORICAL_CONFIDENCE,
         AI_CATEGORY_CONSTANTS.HISTORICAL_CONFIDENCE_BASE +
-            (mostCommon[1] / supplierInvoices.length) *
+            (mostCommon[1] / weightedCount) *
                 AI_CATEGORY_CONSTANTS.HISTORICAL_CONFIDENCE_FACTOR,
     );
     return {
@@ -356,14 +553,22 @@ export const suggestCategoryFromHistory = (
 
 /**
  * Generate reasoning for category suggestion
+ * Naming the rule that set the category takes precedence over the supplier
  */
 export const generateCategoryReasoning = (
     category: string,
     supplierName: string,
+    ruleName?: string,
 ): string => {
     const categoryData =
         INVOICE_CATEGORIES[category as keyof typeof INVOICE_CATEGORIES];
     const baseName = categoryData?.name || category;
+    if (ruleName) {
+        return AI_MESSAGES.RULE_BASED_REASONING.replace(
+            "{baseName}",
+            baseName,
+        ).replace("{ruleName}", ruleName);
+    }
     return supplierName
         ? AI_MESSAGES.SUPPLIER_BASED_REASONING.replace(
               "{baseName}",
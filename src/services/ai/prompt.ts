@@ -0,0 +1,55 @@
+import { AI_PROMPTS, type AIExtractionInput } from "@/schema/aiSchema";
+
+/**
+ * Extraction prompt building
+ * The user prompt is extended with what is known about the uploading user,
+ * such as their custom categories and corrections to earlier extractions
+ */
+
+const buildCustomCategoriesPrompt = ({
+    customCategories = [],
+}: AIExtractionInput): string => {
+    if (customCategories.length === 0) return "";
+
+    const categories = customCategories
+        .map((category) =>
+            AI_PROMPTS.CUSTOM_CATEGORY_LINE.replace("{name}", category.name)
+                .replace("{parentCategory}", category.parentCategory)
+                .replace("{description}", category.description ?? "")
+                .replace("{keywords}", category.keywords.join(", ")),
+        )
+        .join("\n");
+    return AI_PROMPTS.CUSTOM_CATEGORIES_PROMPT.replace(
+        "{categories}",
+        categories,
+    );
+};
+
+const buildCorrectionsPrompt = ({
+    corrections = [],
+}: AIExtractionInput): string => {
+    if (corrections.length === 0) return "";
+
+    const lines = corrections
+        .map((correction) =>
+            AI_PROMPTS.CORRECTION_LINE.replace(
+                "{supplierName}",
+                correction.supplierName,
+            )
+                .replace("{field}", correction.field)
+                .replace("{aiValue}", correction.aiValue)
+                .replace("{userValue}", correction.userValue),
+        )
+        .join("\n");
+    return AI_PROMPTS.CORRECTIONS_PROMPT.replace("{corrections}", lines);
+};
+
+/**
+ * User prompt for one extraction
+ * @param input - Extraction input carrying the user's custom categories and
+ * correction hints
+ */
+export const buildUserPrompt = (input: AIExtractionInput): string =>
+    AI_PROMPTS.USER_PROMPT +
+    buildCustomCategoriesPrompt(input) +
+    buildCorrectionsPrompt(input);
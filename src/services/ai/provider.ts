@@ -0,0 +1,37 @@
+import {
+    type AIExtractionInput,
+    type AIProvider,
+    type AIProviderResult,
+} from "@/schema/aiSchema";
+import { env } from "@/schema/envSchema";
+import { type UploadStatus } from "@/schema/uploadSchema";
+import { mockProvider } from "@/services/ai/providers/mock";
+import { openAIProvider } from "@/services/ai/providers/openai";
+
+/**
+ * AI extraction provider abstraction
+ * Every provider turns one uploaded invoice into ExtractedInvoiceData
+ * (plus token usage when the provider reports it);
+ * the active provider is selected by env.AI_PROVIDER
+ */
+
+export interface AIExtractionProvider {
+    name: AIProvider;
+    model: string;
+    extract: (
+        input: AIExtractionInput,
+        onProgressUpdate?: (status: UploadStatus, progress: number) => void,
+    ) => Promise<AIProviderResult>;
+}
+
+const PROVIDERS: Record<AIProvider, AIExtractionProvider> = {
+    OPENAI: openAIProvider,
+    MOCK: mockProvider,
+};
+
+/**
+ * Get an extraction provider by name (defaults to env.AI_PROVIDER)
+ */
+export const getExtractionProvider = (
+    name: AIProvider = env.AI_PROVIDER,
+): AIExtractionProvider => PROVIDERS[name];
@@ -0,0 +1,81 @@
+import { APIError, OpenAI } from "openai";
+import { openAIProvider } from "@/services/ai/providers/openai";
+import { AIProviderError } from "@/utils/core/error";
+
+jest.mock("openai", () => ({
+    ...jest.requireActual("openai"),
+    OpenAI: jest.fn(),
+}));
+
+const create = jest.fn();
+jest.mocked(OpenAI).mockImplementation(
+    () => ({ chat: { completions: { create } } }) as unknown as OpenAI,
+);
+
+const input = {
+    fileName: "receipt.jpg",
+    imageUrl: "https://bucket.s3.amazonaws.com/receipt.jpg?signature=x",
+};
+
+const rejectWith = (
+    status: number,
+    code: string,
+    headers: Record<string, string> = {},
+) =>
+    create.mockRejectedValueOnce(
+        APIError.generate(
+            status,
+            { error: { code, message: code } },
+            code,
+            new Headers(headers),
+        ),
+    );
+
+describe("openAIProvider errors", () => {
+    beforeEach(() => create.mockReset());
+
+    it("reads a 429 rate limit with its Retry-After", async () => {
+        rejectWith(429, "rate_limit_exceeded", { "retry-after": "2" });
+
+        const error = await openAIProvider.extract(input).catch((e) => e);
+
+        expect(error).toBeInstanceOf(AIProviderError);
+        expect(error).toMatchObject({
+            code: "OPENAI_RATE_LIMIT",
+            retryAfterMs: 2000,
+        });
+    });
+
+    it("reads a 429 insufficient_quota as an exhausted quota", async () => {
+        rejectWith(429, "insufficient_quota", { "retry-after": "2" });
+
+        const error = await openAIProvider.extract(input).catch((e) => e);
+
+        expect(error).toMatchObject({
+            code: "OPENAI_QUOTA_EXHAUSTED",
+            retryAfterMs: undefined,
+        });
+    });
+
+    it("keeps the billed usage of an unparsable response", async () => {
+        create.mockResolvedValueOnce({
+            choices: [{ message: { content: "Sorry, I can't read this" } }],
+            usage: {
+                prompt_tokens: 900,
+                completion_tokens: 20,
+                total_tokens: 920,
+            },
+        });
+
+        const error = await openAIProvider.extract(input).catch((e) => e);
+
+        expect(error).toMatchObject({
+            code: "INVALID_AI_RESPONSE_FORMAT",
+            usage: {
+                promptTokens: 900,
+                completionTokens: 20,
+                totalTokens: 920,
+            },
+        });
+    });
+});
@@ -0,0 +1,220 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import {
+    AI_CATEGORY_CONSTANTS,
+    extractedInvoiceDataSchema,
+    MOCK_PROVIDER_CONSTANTS,
+    type AIExtractionInput,
+    type ExtractedInvoiceData,
+} from "@/schema/aiSchema";
+import { env } from "@/schema/envSchema";
+import { INVOICE_CATEGORIES } from "@/schema/invoiceSchema";
+import { AI_MESSAGES } from "@/schema/messageSchema";
+import { type AIExtractionProvider } from "@/services/ai/provider";
+import { logInfo } from "@/utils/sys/log";
+
+/**
+ * Deterministic local extraction provider (AI_PROVIDER=MOCK)
+ * Lets the upload → extract → validate pipeline run in tests and offline
+ * development without an API key. Resolution order:
+ * 1. Fixture JSON in AI_MOCK_FIXTURES_DIR named after the file or its content hash
+ * 2. Rule-based extraction when the uploaded file is plain text
+ * 3. A default extraction derived from the content hash
+ */
+
+// ===== Fixtures =====
+
+const readFixture = async (
+    fixtureName: string,
+): Promise<ExtractedInvoiceData | null> => {
+    const fixturePath = path.join(
+        process.cwd(),
+        env.AI_MOCK_FIXTURES_DIR,
+        `${fixtureName}${MOCK_PROVIDER_CONSTANTS.FIXTURE_EXTENSION}`,
+    );
+    try {
+        const content = await readFile(fixturePath, "utf8");
+        return extractedInvoiceDataSchema.parse(JSON.parse(content));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+    }
+};
+
+const findFixture = async ({
+    fileName,
+    contentHash,
+}: AIExtractionInput): Promise<ExtractedInvoiceData | null> => {
+    if (!env.AI_MOCK_FIXTURES_DIR) return null;
+    const names = [path.parse(fileName).name, contentHash].filter(
+        (name): name is string => !!name,
+    );
+    for (const name of names) {
+        const fixture = await readFixture(name);
+        if (fixture) return fixture;
+    }
+    return null;
+};
+
+// ===== Rule-based Text Extraction =====
+
+const decodeText = (buffer?: Buffer): string | null => {
+    if (!buffer || buffer.length === 0) return null;
+    const text = buffer.toString("utf8");
+    // Binary content (images, PDFs) decodes with NUL or replacement characters
+    return /[\u0000\uFFFD]/.test(text) ? null : text;
+};
+
+const matchValue = (text: string, pattern: RegExp): string | undefined =>
+    text.match(pattern)?.[1]?.trim();
+
+const matchAmount = (text: string, pattern: RegExp): number | undefined => {
+    const value = matchValue(text, pattern)?.replace(/,/g, "");
+    return value ? Number(value) : undefined;
+};
+
+const AMOUNT = String.raw`\$?\s*([\d,]+(?:\.\d{1,2})?)`;
+
+/**
+ * First category whose keywords appear in the text
+ */
+const matchCategory = (
+    text: string,
+): Pick<
+    ExtractedInvoiceData,
+    "suggestedCategory" | "categoryConfidence" | "categoryReasoning"
+> => {
+    const lowerText = text.toLowerCase();
+    const [category, categoryData] = Object.entries(INVOICE_CATEGORIES).find(
+        ([, data]) =>
+            data.keywords.some((keyword) => lowerText.includes(keyword)),
+    ) ?? [AI_CATEGORY_CONSTANTS.DEFAULT_CATEGORY, null];
+    return {
+        suggestedCategory: category,
+        categoryConfidence: categoryData
+            ? MOCK_PROVIDER_CONSTANTS.DEFAULT_CONFIDENCE
+            : AI_CATEGORY_CONSTANTS.DEFAULT_CONFIDENCE,
+        categoryReasoning: AI_MESSAGES.DEFAULT_REASONING.replace(
+            "{baseName}",
+            categoryData?.name ?? category,
+        ),
+    };
+};
+
+/**
+ * Extract labelled fields ("Invoice No:", "ABN:", "Total:", "GST:", "Date:")
+ * from plain text; the first non-empty line is taken as the supplier
+ */
+const extractFromText = (text: string): ExtractedInvoiceData => {
+    const totalAmount = matchAmount(
+        text,
+        new RegExp(String.raw`(?:total|amount due)[^\d$\n]*${AMOUNT}`, "i"),
+    );
+    const taxAmount = matchAmount(
+        text,
+        new RegExp(
+            String.raw`(?:gst|tax)(?!\s*(?:rate|id))[^\d$\n]*${AMOUNT}`,
+            "i",
+        ),
+    );
+    const subtotal =
+        matchAmount(
+            text,
+            new RegExp(String.raw`subtotal[^\d$\n]*${AMOUNT}`, "i"),
+        ) ??
+        (totalAmount !== undefined && taxAmount !== undefined
+            ? Math.round((totalAmount - taxAmount) * 100) / 100
+            : undefined);
+
+    return extractedInvoiceDataSchema.parse({
+        supplierName: text
+            .split("\n")
+            .find((line) => line.trim())
+            ?.trim(),
+        invoiceNumber: matchValue(
+            text,
+            /invoice\s*(?:no\.?|number|#)\s*:?\s*([A-Z0-9-]+)/i,
+        ),
+        supplierTaxId: matchValue(
+            text,
+            /(?:ABN|tax id)\s*:?\s*([\d ]{9,14}\d)/i,
+        ),
+        invoiceDate: matchValue(
+            text,
+            /(?:invoice\s*)?date\s*:?\s*(\d{1,2}\/\d{1,2}\/\d{4})/i,
+        ),
+        dueDate: matchValue(
+            text,
+            /due\s*(?:date)?\s*:?\s*(\d{1,2}\/\d{1,2}\/\d{4})/i,
+        ),
+        currency: matchValue(text, /\b(AUD|USD|EUR|GBP|NZD)\b/),
+        subtotal,
+        taxAmount,
+        taxRate:
+            taxAmount !== undefined
+                ? MOCK_PROVIDER_CONSTANTS.DEFAULT_TAX_RATE
+                : undefined,
+        totalAmount,
+        ...matchCategory(text),
+    });
+};
+
+// ===== Default Extraction =====
+
+/**
+ * Stable extraction for binary files without a fixture, unique per content
+ */
+const buildDefaultExtraction = (contentHash?: string): ExtractedInvoiceData => {
+    const { DEFAULT_TOTAL_AMOUNT, DEFAULT_TAX_RATE } = MOCK_PROVIDER_CONSTANTS;
+    const subtotal =
+        Math.round(
+            (DEFAULT_TOTAL_AMOUNT / (1 + DEFAULT_TAX_RATE / 100)) * 100,
+        ) / 100;
+    return {
+        supplierName: MOCK_PROVIDER_CONSTANTS.DEFAULT_SUPPLIER_NAME,
+        invoiceNumber: `${MOCK_PROVIDER_CONSTANTS.INVOICE_NUMBER_PREFIX}${(
+            contentHash ?? "0"
+        )
+            .slice(0, MOCK_PROVIDER_CONSTANTS.INVOICE_NUMBER_HASH_LENGTH)
+            .toUpperCase()}`,
+        currency: "AUD",
+        subtotal,
+        taxAmount: Math.round((DEFAULT_TOTAL_AMOUNT - subtotal) * 100) / 100,
+        taxRate: DEFAULT_TAX_RATE,
+        totalAmount: DEFAULT_TOTAL_AMOUNT,
+        suggestedCategory: AI_CATEGORY_CONSTANTS.DEFAULT_CATEGORY,
+        categoryConfidence: AI_CATEGORY_CONSTANTS.DEFAULT_CONFIDENCE,
+        categoryReasoning: AI_MESSAGES.DEFAULT_REASONING.replace(
+            "{baseName}",
+            INVOICE_CATEGORIES[AI_CATEGORY_CONSTANTS.DEFAULT_CATEGORY].name,
+        ),
+    };
+};
+
+// ===== Provider =====
+
+export const mockProvider: AIExtractionProvider = {
+    name: "MOCK",
+    model: MOCK_PROVIDER_CONSTANTS.MODEL,
+    extract: async (input, onProgressUpdate) => {
+        onProgressUpdate?.("AI_PROCESSING", 10);
+
+        const fixture = await findFixture(input);
+        const text = fixture ? null : decodeText(input.buffer);
+        const data =
+            fixture ??
+            (text
+                ? extractFromText(text)
+                : buildDefaultExtraction(input.contentHash));
+
+        logInfo("Mock AI extraction completed", {
+            fileName: input.fileName,
+            source: fixture ? "fixture" : text ? "text" : "default",
+            invoiceNumber: data.invoiceNumber,
+            totalAmount: data.totalAmount,
+        });
+
+        onProgressUpdate?.("AI_PROCESSING", 100);
+        return { data };
+    },
+};
@@ -0,0 +1,160 @@
+import { APIConnectionTimeoutError, APIError, OpenAI } from "openai";
+import {
+    AI_PROMPTS,
+    extractedInvoiceDataSchema,
+    mapOpenAIError,
+    OPENAI_CONSTANTS,
+    type AITokenUsage,
+} from "@/schema/aiSchema";
+import { env } from "@/schema/envSchema";
+import { buildUserPrompt } from "@/services/ai/prompt";
+import { type AIExtractionProvider } from "@/services/ai/provider";
+import { parseRetryAfter } from "@/services/ai/retry";
+import { AIProviderError, isAIProviderError } from "@/utils/core/error";
+import { logError, logInfo } from "@/utils/sys/log";
+
+/**
+ * Classify an OpenAI SDK failure so the retry policy can act on it
+ * HTTP status wins over message matching; Retry-After is carried along.
+ * An exhausted account quota also arrives as a 429 but is not transient
+ */
+const toProviderError = (error: unknown): AIProviderError => {
+    if (isAIProviderError(error)) return error;
+    if (error instanceof APIConnectionTimeoutError) {
+        return new AIProviderError("OPENAI_PROCESSING_TIMEOUT");
+    }
+    if (error instanceof APIError) {
+        const retryAfterMs = parseRetryAfter(
+            error.headers?.get("retry-after-ms"),
+            error.headers?.get("retry-after"),
+        );
+        if (error.code === OPENAI_CONSTANTS.INSUFFICIENT_QUOTA_CODE) {
+            return new AIProviderError("OPENAI_QUOTA_EXHAUSTED");
+        }
+        return new AIProviderError(
+            error.status === 429
+                ? "OPENAI_RATE_LIMIT"
+                : mapOpenAIError(error).code,
+            retryAfterMs,
+        );
+    }
+    return new AIProviderError(mapOpenAIError(error).code);
+};
+
+/**
+ * OpenAI Vision extraction provider
+ * Analyzes invoice images directly from their S3 pre-signed download URL.
+ * SDK retries are disabled; retries follow the policy in retry.ts. A
+ * response that fails to parse is still billed, so its token usage is
+ * carried on the thrown error
+ */
+export const openAIProvider: AIExtractionProvider = {
+    name: "OPENAI",
+    model: OPENAI_CONSTANTS.VISION_MODEL,
+    extract: async (input, onProgressUpdate) => {
+        const { imageUrl } = input;
+        const s3ImageUrl = imageUrl ?? "";
+        let usage: AITokenUsage | undefined;
+        try {
+            if (!imageUrl) {
+                throw new AIProviderError("OPENAI_FILE_NOT_FOUND");
+            }
+
+            onProgressUpdate?.("AI_PROCESSING", 10);
+
+            // Initialize OpenAI client
+            const openai = new OpenAI({
+                apiKey: env.OPENAI_API_KEY,
+                organization: env.OPENAI_ORGANIZATION_ID,
+                maxRetries: 0,
+            });
+
+            onProgressUpdate?.("AI_PROCESSING", 30);
+
+            // Create chat completion with vision for invoice analysis
+            const response = await openai.chat.completions.create({
+                model: OPENAI_CONSTANTS.VISION_MODEL,
+                max_tokens: OPENAI_CONSTANTS.MAX_TOKENS,
+                temperature: OPENAI_CONSTANTS.TEMPERATURE,
+                messages: [
+                    {
+                        role: "system",
+                        content: AI_PROMPTS.SYSTEM_PROMPT,
+                    },
+                    {
+                        role: "user",
+                        content: [
+                            {
+                                type: "text",
+                                text: buildUserPrompt(input),
+                            },
+                            {
+                                type: "image_url",
+                                image_url: {
+                                    url: s3ImageUrl, // Direct S3 pre-signed download URL
+                                },
+                            },
+                        ],
+                    },
+                ],
+            });
+
+            usage = response.usage && {
+                promptTokens: response.usage.prompt_tokens,
+                completionTokens: response.usage.completion_tokens,
+                totalTokens: response.usage.total_tokens,
+            };
+
+            onProgressUpdate?.("AI_PROCESSING", 70);
+
+            // Parse OpenAI response
+            const responseText = response.choices[0]?.message?.content;
+            if (!responseText) {
+                throw new Error("No response from OpenAI");
+            }
+
+            onProgressUpdate?.("AI_PROCESSING", 85);
+
+            // Extract JSON from response (handle potential markdown formatting)
+            let jsonData;
+            try {
+                // Remove any markdown formatting or extra text
+                const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+                const jsonString = jsonMatch ? jsonMatch[0] : responseText;
+                jsonData = JSON.parse(jsonString);
+            } catch (parseError) {
+                logError("Failed to parse OpenAI JSON response", {
+                    responseText,
+                    parseError,
+                });
+                throw new AIProviderError("INVALID_AI_RESPONSE_FORMAT");
+            }
+
+            onProgressUpdate?.("AI_PROCESSING", 95);
+
+            // Validate and transform the response using our schema
+            const validatedData = extractedInvoiceDataSchema.parse(jsonData);
+
+            logInfo("OpenAI Vision processing completed successfully", {
+                s3ImageUrl: s3ImageUrl.split("?")[0], // Log URL without query params for privacy
+                invoiceNumber: validatedData.invoiceNumber,
+                supplierName: validatedData.supplierName,
+                totalAmount: validatedData.totalAmount,
+                suggestedCategory: validatedData.suggestedCategory,
+                categoryConfidence: validatedData.categoryConfidence,
+            });
+
+            onProgressUpdate?.("AI_PROCESSING", 100);
+
+            return { data: validatedData, usage };
+        } catch (error) {
+            logError("OpenAI Vision processing failed", {
+                error,
+                s3ImageUrl: s3ImageUrl.split("?")[0], // Log URL without query params for privacy
+            });
+            const providerError = toProviderError(error);
+            providerError.usage ??= usage;
+            throw providerError;
+        }
+    },
+};
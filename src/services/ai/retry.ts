@@ -0,0 +1,124 @@
+import { OPENAI_CONSTANTS, type AIExtractionAttempt } from "@/schema/aiSchema";
+import { isAIProviderError } from "@/utils/core/error";
+import { logInfo } from "@/utils/sys/log";
+
+/**
+ * AI provider retry policy
+ * Retries only OPENAI_CONSTANTS.RETRYABLE_ERROR_CODES, waiting for the
+ * provider's Retry-After when given and exponential backoff with jitter
+ * otherwise, and records every attempt for the extraction metadata. A
+ * Retry-After beyond MAX_RETRY_DELAY_MS ends the retries: an earlier attempt
+ * would only be rate limited again
+ */
+
+/**
+ * Whether a provider error is worth another attempt
+ */
+export const isRetryableError = (error: unknown): boolean =>
+    isAIProviderError(error) &&
+    OPENAI_CONSTANTS.RETRYABLE_ERROR_CODES.includes(error.code);
+
+/**
+ * Parse Retry-After headers into milliseconds
+ * @param retryAfterMs - Non-standard retry-after-ms header (OpenAI)
+ * @param retryAfter - Standard Retry-After header: seconds or an HTTP date
+ */
+export const parseRetryAfter = (
+    retryAfterMs?: string | null,
+    retryAfter?: string | null,
+    now: number = Date.now(),
+): number | undefined => {
+    const milliseconds = Number(retryAfterMs);
+    if (retryAfterMs && Number.isFinite(milliseconds) && milliseconds >= 0) {
+        return milliseconds;
+    }
+    if (!retryAfter) return undefined;
+
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+
+    const retryAt = Date.parse(retryAfter);
+    return Number.isNaN(retryAt) ? undefined : Math.max(0, retryAt - now);
+};
+
+/**
+ * Delay before the next attempt, capped at MAX_RETRY_DELAY_MS
+ * @param attempt - Attempt that just failed (1-based)
+ * @param retryAfterMs - Provider-requested wait, used instead of backoff
+ * @returns Delay in milliseconds, or undefined when the provider asks for a
+ * longer wait than MAX_RETRY_DELAY_MS
+ */
+export const getRetryDelay = (
+    attempt: number,
+    retryAfterMs?: number,
+    random: () => number = Math.random,
+): number | undefined => {
+    if (retryAfterMs !== undefined) {
+        return retryAfterMs <= OPENAI_CONSTANTS.MAX_RETRY_DELAY_MS
+            ? retryAfterMs
+            : undefined;
+    }
+    const backoff = OPENAI_CONSTANTS.RETRY_DELAY_MS * 2 ** (attempt - 1);
+    const jitter =
+        backoff * OPENAI_CONSTANTS.RETRY_JITTER_RATIO * (random() * 2 - 1);
+    return Math.round(
+        Math.min(backoff + jitter, OPENAI_CONSTANTS.MAX_RETRY_DELAY_MS),
+    );
+};
+
+/**
+ * Run an operation under the retry policy
+ * @returns The result (or last error) and one record per attempt
+ */
+export const withRetry = async <T>(
+    operation: () => Promise<T>,
+    maxAttempts: number = OPENAI_CONSTANTS.MAX_RETRY_ATTEMPTS,
+): Promise<{
+    result?: T;
+    error?: unknown;
+    attempts: AIExtractionAttempt[];
+}> => {
+    const attempts: AIExtractionAttempt[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const startedAt = Date.now();
+        try {
+            const result = await operation();
+            attempts.push({
+                attempt,
+                success: true,
+                durationMs: Date.now() - startedAt,
+            });
+            return { result, attempts };
+        } catch (error) {
+            const retryAfterMs = isAIProviderError(error)
+                ? error.retryAfterMs
+                : undefined;
+            const willRetry = attempt < maxAttempts && isRetryableError(error);
+            const delayMs = willRetry
+                ? getRetryDelay(attempt, retryAfterMs)
+                : undefined;
+
+            attempts.push({
+                attempt,
+                success: false,
+                durationMs: Date.now() - startedAt,
+                errorCode: isAIProviderError(error) ? error.code : undefined,
+                retryAfterMs,
+                delayMs,
+            });
+
+            if (delayMs === undefined) return { error, attempts };
+
+            logInfo("Retrying AI extraction", {
+                attempt,
+                maxAttempts,
+                errorCode: isAIProviderError(error) ? error.code : undefined,
+                delayMs,
+            });
+            await new Promise((resolve) => setTimeout(resolve, delayMs));
+        }
+    }
+
+    return { attempts };
+};
@@ -0,0 +1,181 @@
+import { deleteAIUsageRecord } from "@/dal/ai/deleteAIUsageRecord";
+import { getAIUsageStats } from "@/dal/ai/getAIUsageStats";
+import { reserveAIUsageRecord } from "@/dal/ai/reserveAIUsageRecord";
+import { updateAIUsageRecord } from "@/dal/ai/updateAIUsageRecord";
+import {
+    type AIExtractionResponse,
+    type AIUsageQuota,
+    type AIUsageStats,
+} from "@/schema/aiSchema";
+import { type AccessContext } from "@/schema/authSchema";
+import { env } from "@/schema/envSchema";
+import { ERROR_MESSAGES } from "@/schema/messageSchema";
+import { type UserRole } from "@/schema/userSchema";
+import { getExtractionProvider } from "@/services/ai/provider";
+import {
+    add,
+    endOfMonth,
+    formatDisplay,
+    startOfMonth,
+} from "@/utils/core/date";
+import { AppError } from "@/utils/core/error";
+import { logError } from "@/utils/sys/log";
+
+/**
+ * AI usage metering and monthly quotas
+ * Every extraction is recorded against the user who triggered it; quotas are
+ * per calendar month and configured per role (env.AI_MONTHLY_*_QUOTA_*).
+ * An extraction reserves a PENDING usage record before it runs, so
+ * concurrent uploads can't all pass the request quota; the token quota is
+ * checked against tokens already used, so the last extraction may overshoot it
+ */
+
+/**
+ * Monthly request and token limits for a role; null is unlimited
+ */
+const getQuotaLimits = (
+    role: UserRole,
+): { requestLimit: number | null; tokenLimit: number | null } =>
+    ({
+        USER: {
+            requestLimit: env.AI_MONTHLY_REQUEST_QUOTA_USER,
+            tokenLimit: env.AI_MONTHLY_TOKEN_QUOTA_USER,
+        },
+        ACCOUNTANT: {
+            requestLimit: env.AI_MONTHLY_REQUEST_QUOTA_ACCOUNTANT,
+            tokenLimit: env.AI_MONTHLY_TOKEN_QUOTA_ACCOUNTANT,
+        },
+        ADMIN: {
+            requestLimit: env.AI_MONTHLY_REQUEST_QUOTA_ADMIN,
+            tokenLimit: env.AI_MONTHLY_TOKEN_QUOTA_ADMIN,
+        },
+    })[role];
+
+/**
+ * Quota for a role from the period's usage
+ */
+const toAIUsageQuota = (
+    role: UserRole,
+    now: Date,
+    { requestCount, tokensUsed }: AIUsageStats,
+): AIUsageQuota => {
+    const { requestLimit, tokenLimit } = getQuotaLimits(role);
+    return {
+        periodStart: new Date(startOfMonth(now)),
+        periodEnd: new Date(endOfMonth(now)),
+        requestsUsed: requestCount,
+        requestLimit,
+        tokensUsed,
+        tokenLimit,
+        isExceeded:
+            (requestLimit !== null && requestCount >= requestLimit) ||
+            (tokenLimit !== null && tokensUsed >= tokenLimit),
+    };
+};
+
+/**
+ * Current month's usage for the caller against their role's limits
+ * @param ctx - Caller access context (session user ID and role)
+ * @param now - Reference time for the quota period
+ */
+export const getAIUsageQuota = async (
+    ctx: AccessContext,
+    now: Date = new Date(),
+): Promise<AIUsageQuota> =>
+    toAIUsageQuota(
+        ctx.role,
+        now,
+        await getAIUsageStats(ctx, ctx.id, new Date(startOfMonth(now))),
+    );
+
+/**
+ * AI_QUOTA_EXCEEDED error naming the limit that was reached
+ */
+const toQuotaExceededError = (quota: AIUsageQuota): AppError => {
+    const isRequestLimit =
+        quota.requestLimit !== null && quota.requestsUsed >= quota.requestLimit;
+    return new AppError(
+        "AI_QUOTA_EXCEEDED",
+        429,
+        ERROR_MESSAGES.AI_QUOTA_EXCEEDED.replace(
+            "{used}",
+            String(isRequestLimit ? quota.requestsUsed : quota.tokensUsed),
+        )
+            .replace(
+                "{limit}",
+                String(isRequestLimit ? quota.requestLimit : quota.tokenLimit),
+            )
+            .replace("{unit}", isRequestLimit ? "extractions" : "tokens")
+            .replace(
+                "{resetDate}",
+                formatDisplay(add(quota.periodEnd, 1, "millisecond")),
+            ),
+    );
+};
+
+/**
+ * Reserve one extraction against the caller's monthly quota
+ * The reservation is a PENDING usage record that recordAIUsage completes
+ * @param ctx - Caller access context (session user ID and role)
+ * @param now - Reference time for the quota period
+ * @returns Usage record ID to pass to recordAIUsage
+ * @throws AppError AI_QUOTA_EXCEEDED (429) when a limit is reached
+ */
+export const reserveAIUsage = async (
+    ctx: AccessContext,
+    now: Date = new Date(),
+): Promise<string> => {
+    const provider = getExtractionProvider();
+    const { record, usage } = await reserveAIUsageRecord(
+        {
+            userId: ctx.id,
+            provider: provider.name,
+            model: provider.model,
+            outcome: "PENDING",
+        },
+        new Date(startOfMonth(now)),
+    );
+    // Check the usage before this reservation
+    const quota = toAIUsageQuota(ctx.role, now, {
+        ...usage,
+        requestCount: usage.requestCount - 1,
+    });
+    if (!quota.isExceeded) return record.id;
+
+    await deleteAIUsageRecord(record.id);
+    throw toQuotaExceededError(quota);
+};
+
+/**
+ * Persist token counts, latency and outcome of a reserved extraction
+ * Latency is the final provider call's, without earlier attempts or retry
+ * waits. Metering failures are logged and never fail the upload
+ * @param usageId - Usage record ID from reserveAIUsage
+ * @param response - Extraction response carrying provider metadata
+ * @param fileId - Invoice file the extraction was for, when created
+ */
+export const recordAIUsage = async (
+    usageId: string,
+    response: AIExtractionResponse,
+    fileId?: string,
+): Promise<void> => {
+    const { provider, model, attempts, usage } = response.metadata ?? {};
+    try {
+        await updateAIUsageRecord(usageId, {
+            fileId,
+            provider,
+            model,
+            outcome: response.success ? "SUCCESS" : "FAILED",
+            errorCode: attempts?.at(-1)?.errorCode ?? null,
+            attempts: attempts?.length,
+            promptTokens: usage?.promptTokens ?? 0,
+            completionTokens: usage?.completionTokens ?? 0,
+            totalTokens: usage?.totalTokens ?? 0,
+            latencyMs: Math.round(
+                attempts?.at(-1)?.durationMs ?? response.processingTime ?? 0,
+            ),
+        });
+    } catch (error) {
+        logError("Failed to record AI usage", { error, usageId, provider });
+    }
+};
@@ -0,0 +1,78 @@
+import { calculateDepreciationSchedule } from "@/services/asset/depreciation";
+
+describe("calculateDepreciationSchedule", () => {
+    it("writes off prime cost evenly over the effective life", () => {
+        const schedule = calculateDepreciationSchedule({
+            cost: 1000,
+            startDate: new Date("2024-07-01T00:00:00"),
+            effectiveLifeYears: 5,
+            method: "PRIME_COST",
+            businessUsePercentage: 100,
+        });
+
+        expect(schedule.map((entry) => entry.financialYear)).toEqual([
+            2024, 2025, 2026, 2027, 2028,
+        ]);
+        expect(schedule.map((entry) => entry.declineInValue)).toEqual([
+            200, 200, 200, 200, 200,
+        ]);
+        expect(schedule[0].daysHeld).toBe(365);
+        expect(schedule.at(-1)?.closingValue).toBe(0);
+    });
+
+    it("applies the diminishing value rate to the opening value", () => {
+        const schedule = calculateDepreciationSchedule({
+            cost: 1000,
+            startDate: new Date("2024-07-01T00:00:00"),
+            effectiveLifeYears: 5,
+            method: "DIMINISHING_VALUE",
+            businessUsePercentage: 100,
+        });
+
+        expect(schedule[0]).toMatchObject({
+            openingValue: 1000,
+            declineInValue: 400,
+            closingValue: 600,
+        });
+        expect(schedule[1]).toMatchObject({
+            openingValue: 600,
+            declineInValue: 240,
+            closingValue: 360,
+        });
+    });
+
+    it("apportions the first year from the start date", () => {
+        const schedule = calculateDepreciationSchedule({
+            cost: 1000,
+            startDate: new Date("2025-01-01T00:00:00"),
+            effectiveLifeYears: 5,
+            method: "PRIME_COST",
+            businessUsePercentage: 100,
+        });
+
+        expect(schedule[0]).toMatchObject({
+            financialYear: 2024,
+            daysHeld: 181,
+            declineInValue: 99.18,
+        });
+        expect(schedule[1].declineInValue).toBe(200);
+        expect(schedule).toHaveLength(6);
+        expect(schedule.at(-1)).toMatchObject({
+            declineInValue: 100.82,
+            closingValue: 0,
+        });
+    });
+
+    it("deducts only the business-use share of the decline", () => {
+        const [firstYear] = calculateDepreciationSchedule({
+            cost: 1000,
+            startDate: new Date("2024-07-01T00:00:00"),
+            effectiveLifeYears: 5,
+            method: "PRIME_COST",
+            businessUsePercentage: 50,
+        });
+
+        expect(firstYear.declineInValue).toBe(200);
+        expect(firstYear.deductibleAmount).toBe(100);
+    });
+});
@@ -0,0 +1,178 @@
+import { createAsset } from "@/dal/asset/createAsset";
+import { getAssetById } from "@/dal/asset/getAssetById";
+import { getInvoiceById } from "@/dal/invoice/getInvoiceById";
+import { listInvoiceLineItems } from "@/dal/invoice/listInvoiceLineItems";
+import {
+    type ExtractedInvoiceData,
+    type ExtractedInvoiceItem,
+} from "@/schema/aiSchema";
+import {
+    type AssetWithSchedule,
+    type UpdateAssetData,
+} from "@/schema/assetQueries";
+import {
+    type AssetInput,
+    type AssetUpdateInput,
+    type CapitalAssetSuggestion,
+} from "@/schema/assetSchema";
+import { type Asset } from "@/schema/assetTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { env } from "@/schema/envSchema";
+import { FINANCIAL_CONSTANTS } from "@/schema/financialSchema";
+import { AI_MESSAGES } from "@/schema/messageSchema";
+import { calculateDepreciationSchedule } from "@/services/asset/depreciation";
+import { parseInvoiceDate } from "@/utils/core/date";
+import { AppError, NotFoundError } from "@/utils/core/error";
+import { formatCurrencyDefault, roundCurrency } from "@/utils/core/format";
+
+/**
+ * Depreciating asset register
+ * Assets are usually created from the purchase invoice or one of its line
+ * items, which supply the name, cost and start date when not given. Extracted
+ * line items costing more than env.CAPITAL_ASSET_THRESHOLD per unit are
+ * suggested as capital assets
+ */
+
+const toDate = (value?: string): Date | undefined => {
+    if (!value) return undefined;
+    const iso = parseInvoiceDate(value);
+    return iso ? new Date(iso) : undefined;
+};
+
+// ===== Capital Asset Suggestions =====
+
+/**
+ * Cost of one unit of a line item: the unit price, or the line total split
+ * over the quantity
+ */
+const getUnitCost = (item: ExtractedInvoiceItem): number => {
+    if (item.unitPrice !== undefined) return item.unitPrice;
+    const total = item.totalPrice ?? 0;
+    return item.quantity && item.quantity > 0 ? total / item.quantity : total;
+};
+
+/**
+ * Extracted line items that exceed the capital asset threshold
+ * The threshold applies per asset, so each unit's cost is compared; ten
+ * $500 monitors are not one $5,000 asset. Only AUD invoices are checked
+ * since the threshold is in AUD
+ * @param data - AI-extracted invoice data
+ * @param threshold - Unit cost above which an item is suggested (AUD)
+ */
+export const suggestCapitalAssets = (
+    data: ExtractedInvoiceData,
+    threshold: number = env.CAPITAL_ASSET_THRESHOLD,
+): CapitalAssetSuggestion[] => {
+    if (
+        (data.currency ?? FINANCIAL_CONSTANTS.DEFAULT_CURRENCY) !==
+        FINANCIAL_CONSTANTS.DEFAULT_CURRENCY
+    ) {
+        return [];
+    }
+
+    return (data.items ?? []).flatMap((item, itemIndex) => {
+        const amount = roundCurrency(getUnitCost(item));
+        if (amount <= threshold) return [];
+        return [
+            {
+                itemIndex,
+                description: item.description ?? null,
+                amount,
+                threshold,
+                message: AI_MESSAGES.CAPITAL_ASSET_SUGGESTION.replace(
+                    "{description}",
+                    item.description ?? data.supplierName ?? "",
+                )
+                    .replace("{amount}", formatCurrencyDefault(amount))
+                    .replace("{threshold}", formatCurrencyDefault(threshold)),
+            },
+        ];
+    });
+};
+
+// ===== Register =====
+
+/**
+ * Add an asset to the register, filling name, cost and start date from the
+ * linked line item or invoice when they are not given
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the asset register
+ * @param input - Validated asset input
+ * @throws NotFoundError if the invoice or line item isn't the owner's
+ * @throws AppError ASSET_*_REQUIRED (422) when a value can't be defaulted
+ */
+export const createAssetFromInput = async (
+    ctx: AccessContext,
+    ownerId: string,
+    input: AssetInput,
+): Promise<Asset> => {
+    const invoice = input.invoiceId
+        ? (await getInvoiceById(ctx, input.invoiceId)).invoice
+        : null;
+    if (invoice && invoice.userId !== ownerId) {
+        throw new NotFoundError(`Invoice with ID ${input.invoiceId} not found`);
+    }
+
+    const lineItem =
+        invoice && input.lineItemId
+            ? (await listInvoiceLineItems(ctx, invoice.id)).find(
+                  (item) => item.id === input.lineItemId,
+              )
+            : undefined;
+    if (input.lineItemId && !lineItem) {
+        throw new NotFoundError(
+            `Line item with ID ${input.lineItemId} not found`,
+        );
+    }
+
+    const name =
+        input.name ??
+        lineItem?.description ??
+        invoice?.description ??
+        invoice?.supplierName;
+    const cost =
+        input.cost ?? lineItem?.totalPrice ?? invoice?.totalAmount ?? null;
+    const startDate = toDate(input.startDate) ?? invoice?.invoiceDate ?? null;
+
+    if (!name) throw new AppError("ASSET_NAME_REQUIRED", 422);
+    if (!cost || cost <= 0) throw new AppError("ASSET_COST_REQUIRED", 422);
+    if (!startDate) throw new AppError("ASSET_START_DATE_REQUIRED", 422);
+
+    return createAsset(ctx, ownerId, {
+        invoiceId: invoice?.id ?? null,
+        lineItemId: lineItem?.id ?? null,
+        name,
+        description: input.description,
+        cost,
+        startDate,
+        effectiveLifeYears: input.effectiveLifeYears,
+        method: input.method,
+        businessUsePercentage: input.businessUsePercentage,
+    });
+};
+
+/**
+ * Map a validated asset update into DAL data (string dates → Date objects)
+ */
+export const mapAssetUpdate = (input: AssetUpdateInput): UpdateAssetData => {
+    const { startDate, ...rest } = input;
+    return {
+        ...rest,
+        ...(startDate !== undefined && { startDate: toDate(startDate) }),
+    };
+};
+
+/**
+ * Asset with its full depreciation schedule
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Asset ID
+ * @throws NotFoundError if asset not found
+ * @throws AccessDeniedError if the caller cannot view the asset owner's data
+ */
+export const getAssetWithSchedule = async (
+    ctx: AccessContext,
+    id: string,
+): Promise<AssetWithSchedule> => {
+    const asset = await getAssetById(ctx, id);
+    return { asset, schedule: calculateDepreciationSchedule(asset) };
+};
@@ -0,0 +1,273 @@
+import { listAssets } from "@/dal/asset/listAssets";
+import {
+    ASSET_CONSTANTS,
+    type DepreciationScheduleEntry,
+    type DepreciationYearAsset,
+    type DepreciationYearSchedule,
+} from "@/schema/assetSchema";
+import { type Asset } from "@/schema/assetTables";
+import { type AccessContext } from "@/schema/authSchema";
+import { type ExportField } from "@/schema/exportSchema";
+import { DISPLAY_MESSAGES } from "@/schema/messageSchema";
+import { type ReportFormat } from "@/schema/reportSchema";
+import {
+    createExportOptions,
+    createReportContent,
+} from "@/services/file/export";
+import {
+    getBusinessUseAmount,
+    resolveBusinessUsePercentage,
+} from "@/services/invoice/businessUse";
+import { getWorkspaceUserId } from "@/utils/core/auth";
+import {
+    diff,
+    getAustralianFinancialYear,
+    getAustralianFinancialYearRangeByYear,
+} from "@/utils/core/date";
+import { roundCurrency } from "@/utils/core/format";
+
+/**
+ * Depreciating asset schedules (ATO decline in value)
+ * - Prime cost: cost × (days held / days in year) × (100% / effective life)
+ * - Diminishing value: opening value × (days held / days in year) × (200% / effective life)
+ * The first year is apportioned from the start date; the deductible amount is
+ * the business-use share of the decline
+ */
+
+type DepreciableAsset = Pick<
+    Asset,
+    | "cost"
+    | "startDate"
+    | "effectiveLifeYears"
+    | "method"
+    | "businessUsePercentage"
+>;
+
+// ===== Calculation =====
+
+/**
+ * Year-by-year decline in value from the start date until the asset is
+ * written off (prime cost) or MAX_SCHEDULE_YEARS (diminishing value)
+ * @param asset - Cost, start date, effective life, method and business use
+ */
+export const calculateDepreciationSchedule = (
+    asset: DepreciableAsset,
+): DepreciationScheduleEntry[] => {
+    const firstYear = getAustralianFinancialYear(asset.startDate);
+    const annualRate =
+        asset.method === "PRIME_COST"
+            ? 1 / asset.effectiveLifeYears
+            : ASSET_CONSTANTS.DIMINISHING_VALUE_RATE /
+              100 /
+              asset.effectiveLifeYears;
+    const entries: DepreciationScheduleEntry[] = [];
+
+    let openingValue = asset.cost;
+    for (
+        let financialYear = firstYear;
+        openingValue > 0 &&
+        financialYear < firstYear + ASSET_CONSTANTS.MAX_SCHEDULE_YEARS;
+        financialYear++
+    ) {
+        const { start, end } =
+            getAustralianFinancialYearRangeByYear(financialYear);
+        const heldFrom = financialYear === firstYear ? asset.startDate : start;
+        const daysHeld = diff(end, heldFrom, "day") + 1;
+        const daysInYear = diff(end, start, "day") + 1;
+        const baseValue =
+            asset.method === "PRIME_COST" ? asset.cost : openingValue;
+
+        const declineInValue = Math.min(
+            openingValue,
+            roundCurrency((baseValue * annualRate * daysHeld) / daysInYear),
+        );
+        if (declineInValue <= 0) break;
+
+        const closingValue = roundCurrency(openingValue - declineInValue);
+        entries.push({
+            financialYear,
+            daysHeld,
+            openingValue,
+            declineInValue,
+            closingValue,
+            deductibleAmount: getBusinessUseAmount(
+                declineInValue,
+                asset.businessUsePercentage,
+            ),
+        });
+        openingValue = closingValue;
+    }
+
+    return entries;
+};
+
+// ===== Financial Year Schedule =====
+
+/**
+ * Depreciation of every asset held during a financial year
+ * @param assets - Owner's asset register
+ * @param financialYear - Starting year of the financial year
+ */
+export const buildDepreciationYearSchedule = (
+    assets: Asset[],
+    financialYear: number,
+): DepreciationYearSchedule => {
+    const { start, end } = getAustralianFinancialYearRangeByYear(financialYear);
+    const yearAssets = assets.flatMap((asset): DepreciationYearAsset[] => {
+        const entry = calculateDepreciationSchedule(asset).find(
+            (item) => item.financialYear === financialYear,
+        );
+        if (!entry) return [];
+        return [
+            {
+                ...entry,
+                assetId: asset.id,
+                name: asset.name,
+                invoiceId: asset.invoiceId,
+                method: asset.method,
+                cost: asset.cost,
+                startDate: asset.startDate,
+                effectiveLifeYears: asset.effectiveLifeYears,
+                businessUsePercentage: resolveBusinessUsePercentage(
+                    asset.businessUsePercentage,
+                ),
+            },
+        ];
+    });
+
+    const sumOf = (key: keyof DepreciationYearSchedule["totals"]): number =>
+        roundCurrency(yearAssets.reduce((sum, asset) => sum + asset[key], 0));
+
+    return {
+        financialYear,
+        periodStart: start,
+        periodEnd: end,
+        assets: yearAssets,
+        totals: {
+            openingValue: sumOf("openingValue"),
+            declineInValue: sumOf("declineInValue"),
+            closingValue: sumOf("closingValue"),
+            deductibleAmount: sumOf("deductibleAmount"),
+        },
+    };
+};
+
+/**
+ * Depreciation schedule of an owner's asset register for a financial year
+ * @param ctx - Caller access context (session user ID and role)
+ * @param financialYear - Starting year of the financial year (2024 = FY 2024-2025)
+ * @param ownerId - Owner of the asset register; defaults to the current workspace
+ * @throws AccessDeniedError if the caller cannot view the owner's data
+ */
+export const getDepreciationYearSchedule = async (
+    ctx: AccessContext,
+    financialYear: number,
+    ownerId: string = getWorkspaceUserId(ctx),
+): Promise<DepreciationYearSchedule> =>
+    buildDepreciationYearSchedule(
+        await listAssets(ctx, ownerId),
+        financialYear,
+    );
+
+// ===== Report File =====
+
+const DEPRECIATION_FIELDS: ExportField[] = [
+    {
+        key: "name",
+        label: DISPLAY_MESSAGES.DEPRECIATION_ASSET,
+        type: "TEXT",
+        included: true,
+    },
+    {
+        key: "methodName",
+        label: DISPLAY_MESSAGES.DEPRECIATION_METHOD,
+        type: "TEXT",
+        included: true,
+    },
+    {
+        key: "cost",
+        label: DISPLAY_MESSAGES.DEPRECIATION_COST,
+        type: "CURRENCY",
+        included: true,
+    },
+    {
+        key: "startDate",
+        label: DISPLAY_MESSAGES.DEPRECIATION_START_DATE,
+        type: "DATE",
+        included: true,
+    },
+    {
+        key: "effectiveLifeYears",
+        label: DISPLAY_MESSAGES.DEPRECIATION_EFFECTIVE_LIFE,
+        type: "NUMBER",
+        included: true,
+    },
+    {
+        key: "daysHeld",
+        label: DISPLAY_MESSAGES.DEPRECIATION_DAYS_HELD,
+        type: "NUMBER",
+        included: true,
+    },
+    {
+        key: "openingValue",
+        label: DISPLAY_MESSAGES.DEPRECIATION_OPENING_VALUE,
+        type: "CURRENCY",
+        included: true,
+    },
+    {
+        key: "declineInValue",
+        label: DISPLAY_MESSAGES.DEPRECIATION_DECLINE,
+        type: "CURRENCY",
+        included: true,
+    },
+    {
+        key: "closingValue",
+        label: DISPLAY_MESSAGES.DEPRECIATION_CLOSING_VALUE,
+        type: "CURRENCY",
+        included: true,
+    },
+    {
+        key: "businessUsePercentage",
+        label: DISPLAY_MESSAGES.REPORT_BUSINESS_USE,
+        type: "NUMBER",
+        included: true,
+    },
+    {
+        key: "deductibleAmount",
+        label: DISPLAY_MESSAGES.DEPRECIATION_DEDUCTIBLE,
+        type: "CURRENCY",
+        included: true,
+    },
+];
+
+/**
+ * Write a financial year's depreciation schedule, with a total row, in Excel or CSV
+ * @param schedule - Schedule from getDepreciationYearSchedule
+ * @param format - Report file format
+ */
+export const createDepreciationReportFile = async (
+    schedule: DepreciationYearSchedule,
+    format: ReportFormat,
+): Promise<Buffer> =>
+    createReportContent(
+        [
+            {
+                name: DISPLAY_MESSAGES.DEPRECIATION_SHEET,
+                fields: DEPRECIATION_FIELDS,
+                data: [
+                    ...schedule.assets.map((asset) => ({
+                        ...asset,
+                        methodName:
+                            DISPLAY_MESSAGES[
+                                `DEPRECIATION_METHOD_${asset.method}`
+                            ],
+                    })),
+                    {
+                        name: DISPLAY_MESSAGES.SUMMARY_GRAND_TOTAL,
+                        ...schedule.totals,
+                    },
+                ],
+            },
+        ],
+        createExportOptions(format),
+    );
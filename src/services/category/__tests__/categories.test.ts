@@ -0,0 +1,169 @@
+import { getCustomCategoryById } from "@/dal/category/getCustomCategoryById";
+import { listCustomCategories } from "@/dal/category/listCustomCategories";
+import { getInvoiceById } from "@/dal/invoice/getInvoiceById";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    applyInvoiceCustomCategory,
+    applyInvoiceUpdateCustomCategory,
+    getInvoiceCategoryName,
+    unlinkChangedCustomCategory,
+} from "@/services/category/categories";
+import { createCustomCategory, createInvoice } from "@/test/fixtures";
+import { NotFoundError } from "@/utils/core/error";
+
+jest.mock("@/dal/category/getCustomCategoryById", () => ({
+    getCustomCategoryById: jest.fn(),
+}));
+jest.mock("@/dal/category/listCustomCategories", () => ({
+    listCustomCategories: jest.fn(),
+}));
+jest.mock("@/dal/invoice/getInvoiceById", () => ({
+    getInvoiceById: jest.fn(),
+}));
+
+const ctx: AccessContext = { id: "user-1", role: "USER" };
+const tools = createCustomCategory();
+
+describe("getInvoiceCategoryName", () => {
+    it("shows the custom category over the built-in one", () => {
+        expect(
+            getInvoiceCategoryName(createInvoice({ customCategory: "Tools" })),
+        ).toBe("Tools");
+        expect(getInvoiceCategoryName(createInvoice())).toBe("Office Supplies");
+        expect(getInvoiceCategoryName(createInvoice({ category: null }))).toBe(
+            null,
+        );
+    });
+});
+
+describe("applyInvoiceCustomCategory", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.mocked(getCustomCategoryById).mockResolvedValue(tools);
+        jest.mocked(listCustomCategories).mockResolvedValue([tools]);
+    });
+
+    it("links by ID and files the invoice under the parent category", async () => {
+        const data = await applyInvoiceCustomCategory(ctx, "user-1", {
+            customCategoryId: tools.id,
+            category: "OFFICE_SUPPLIES",
+        });
+
+        expect(data).toEqual({
+            customCategoryId: tools.id,
+            customCategory: "Tools",
+            category: "REPAIRS_MAINTENANCE",
+        });
+    });
+
+    it("rejects another owner's category", async () => {
+        await expect(
+            applyInvoiceCustomCategory(ctx, "user-2", {
+                customCategoryId: tools.id,
+            }),
+        ).rejects.toThrow(NotFoundError);
+    });
+
+    it("links a name matching a custom category, ignoring case", async () => {
+        const data = await applyInvoiceCustomCategory(ctx, "user-1", {
+            customCategory: " tools ",
+        });
+
+        expect(data).toMatchObject({
+            customCategoryId: tools.id,
+            customCategory: "Tools",
+        });
+    });
+
+    it("keeps a free-text name that matches no custom category", async () => {
+        const input = { customCategory: "Materials" };
+
+        expect(await applyInvoiceCustomCategory(ctx, "user-1", input)).toBe(
+            input,
+        );
+    });
+
+    it("unlinks and clears the name for a null ID", async () => {
+        const data = await applyInvoiceCustomCategory(ctx, "user-1", {
+            customCategoryId: null,
+        });
+
+        expect(data).toEqual({ customCategoryId: null, customCategory: null });
+        expect(getCustomCategoryById).not.toHaveBeenCalled();
+    });
+});
+
+describe("unlinkChangedCustomCategory", () => {
+    const invoice = createInvoice({
+        category: "REPAIRS_MAINTENANCE",
+        customCategoryId: tools.id,
+        customCategory: "Tools",
+    });
+
+    it("unlinks when the built-in category moves away from the parent", () => {
+        expect(
+            unlinkChangedCustomCategory(invoice, {
+                category: "TRAVEL_TRANSPORT",
+            }),
+        ).toEqual({
+            category: "TRAVEL_TRANSPORT",
+            customCategoryId: null,
+            customCategory: null,
+        });
+    });
+
+    it("keeps the link when the category is unchanged", () => {
+        const data = { category: "REPAIRS_MAINTENANCE" as const };
+
+        expect(unlinkChangedCustomCategory(invoice, data)).toBe(data);
+        expect(
+            unlinkChangedCustomCategory(createInvoice(), {
+                category: "TRAVEL_TRANSPORT",
+            }),
+        ).toEqual({ category: "TRAVEL_TRANSPORT" });
+    });
+});
+
+describe("applyInvoiceUpdateCustomCategory", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.mocked(getCustomCategoryById).mockResolvedValue(tools);
+        jest.mocked(getInvoiceById).mockResolvedValue({
+            invoice: createInvoice({
+                category: "REPAIRS_MAINTENANCE",
+                customCategoryId: tools.id,
+                customCategory: "Tools",
+            }),
+            file: null,
+        });
+    });
+
+    it("leaves updates that don't touch categories alone", async () => {
+        const input = { invoiceNumber: "INV-002" };
+
+        expect(
+            await applyInvoiceUpdateCustomCategory(ctx, "invoice-1", input),
+        ).toBe(input);
+        expect(getInvoiceById).not.toHaveBeenCalled();
+    });
+
+    it("re-links against the invoice owner's categories", async () => {
+        await expect(
+            applyInvoiceUpdateCustomCategory(ctx, "invoice-1", {
+                customCategoryId: tools.id,
+            }),
+        ).resolves.toMatchObject({ category: "REPAIRS_MAINTENANCE" });
+    });
+
+    it("unlinks when only the built-in category changes", async () => {
+        await expect(
+            applyInvoiceUpdateCustomCategory(ctx, "invoice-1", {
+                category: "OFFICE_SUPPLIES",
+            }),
+        ).resolves.toEqual({
+            category: "OFFICE_SUPPLIES",
+            customCategoryId: null,
+            customCategory: null,
+        });
+    });
+});
@@ -0,0 +1,210 @@
+import { createCustomCategory } from "@/dal/category/createCustomCategory";
+import { getCustomCategoryById } from "@/dal/category/getCustomCategoryById";
+import { listCustomCategories } from "@/dal/category/listCustomCategories";
+import { updateCustomCategory } from "@/dal/category/updateCustomCategory";
+import { getInvoiceById } from "@/dal/invoice/getInvoiceById";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    type CustomCategoryHint,
+    type CustomCategoryInput,
+    type CustomCategoryUpdateInput,
+} from "@/schema/categorySchema";
+import { INVOICE_CATEGORIES } from "@/schema/invoiceSchema";
+import { type UpdateInvoiceData } from "@/schema/invoiceQueries";
+import { type CustomCategory, type Invoice } from "@/schema/invoiceTables";
+import { AppError, NotFoundError } from "@/utils/core/error";
+
+/**
+ * Custom categories
+ * A user's own categories ("Tools", "Materials", "Subcontractors") each sit
+ * under a built-in parent category. Invoices in a custom category store the
+ * parent in category, so tax deductibility, BAS labels and accounting codes
+ * keep working, and the custom name in customCategory for display, stats and
+ * exports
+ */
+
+// ===== Lookup =====
+
+const toNameKey = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Custom category with the given name (case insensitive), if any
+ */
+export const findCustomCategoryByName = (
+    categories: CustomCategory[],
+    name?: string | null,
+): CustomCategory | undefined =>
+    name?.trim()
+        ? categories.find(
+              (category) => toNameKey(category.name) === toNameKey(name),
+          )
+        : undefined;
+
+/**
+ * Display name of an invoice's category: the custom category when set,
+ * otherwise the built-in category name
+ */
+export const getInvoiceCategoryName = (
+    invoice: Pick<Invoice, "category" | "customCategory">,
+): string | null =>
+    invoice.customCategory ||
+    (invoice.category ? INVOICE_CATEGORIES[invoice.category].name : null);
+
+/**
+ * What the AI extraction prompt is told about a user's custom categories
+ */
+export const toCustomCategoryHints = (
+    categories: CustomCategory[],
+): CustomCategoryHint[] =>
+    categories.map(({ name, description, keywords, parentCategory }) => ({
+        name,
+        description,
+        keywords,
+        parentCategory,
+    }));
+
+// ===== Invoice Linking =====
+
+const linkCustomCategory = (
+    data: UpdateInvoiceData,
+    category: CustomCategory,
+): UpdateInvoiceData => ({
+    ...data,
+    customCategoryId: category.id,
+    customCategory: category.name,
+    category: category.parentCategory,
+});
+
+/**
+ * Link an invoice to one of the owner's custom categories
+ * An explicit customCategoryId wins; a customCategory name that matches a
+ * custom category links it too; null unlinks and clears the name
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the invoice
+ * @param data - Mapped invoice input
+ * @throws NotFoundError if customCategoryId isn't one of the owner's categories
+ */
+export const applyInvoiceCustomCategory = async (
+    ctx: AccessContext,
+    ownerId: string,
+    data: UpdateInvoiceData,
+): Promise<UpdateInvoiceData> => {
+    if (data.customCategoryId === null) {
+        return { ...data, customCategory: null };
+    }
+    if (data.customCategoryId) {
+        const category = await getCustomCategoryById(
+            ctx,
+            data.customCategoryId,
+        );
+        if (category.userId !== ownerId) {
+            throw new NotFoundError(
+                `Category with ID ${data.customCategoryId} not found`,
+            );
+        }
+        return linkCustomCategory(data, category);
+    }
+    if (!data.customCategory?.trim()) return data;
+
+    const category = findCustomCategoryByName(
+        await listCustomCategories(ctx, ownerId),
+        data.customCategory,
+    );
+    return category ? linkCustomCategory(data, category) : data;
+};
+
+/**
+ * Unlink an invoice's custom category when a new built-in category moves it
+ * away from the custom category's parent (the invoice's stored category)
+ * @param invoice - Stored invoice
+ * @param data - Update that leaves the custom category link untouched
+ */
+export const unlinkChangedCustomCategory = (
+    invoice: Pick<Invoice, "category" | "customCategoryId">,
+    data: UpdateInvoiceData,
+): UpdateInvoiceData =>
+    invoice.customCategoryId &&
+    data.category !== undefined &&
+    data.category !== invoice.category
+        ? { ...data, customCategoryId: null, customCategory: null }
+        : data;
+
+/**
+ * Re-link an invoice when an update changes its custom category, and unlink
+ * it when only the built-in category changes to another parent
+ * @param ctx - Caller access context (session user ID and role)
+ * @param invoiceId - Invoice being updated
+ * @param data - Mapped invoice input
+ * @throws NotFoundError if the invoice, or a given customCategoryId, isn't found
+ */
+export const applyInvoiceUpdateCustomCategory = async (
+    ctx: AccessContext,
+    invoiceId: string,
+    data: UpdateInvoiceData,
+): Promise<UpdateInvoiceData> => {
+    const changesCustomCategory =
+        data.customCategoryId !== undefined ||
+        data.customCategory !== undefined;
+    if (!changesCustomCategory && data.category === undefined) return data;
+
+    const { invoice } = await getInvoiceById(ctx, invoiceId);
+    return changesCustomCategory
+        ? applyInvoiceCustomCategory(ctx, invoice.userId, data)
+        : unlinkChangedCustomCategory(invoice, data);
+};
+
+// ===== Management =====
+
+/**
+ * Throw when another of the owner's custom categories already has the name
+ */
+const assertNameAvailable = async (
+    ctx: AccessContext,
+    ownerId: string,
+    name: string,
+    exceptId?: string,
+): Promise<void> => {
+    const existing = findCustomCategoryByName(
+        await listCustomCategories(ctx, ownerId),
+        name,
+    );
+    if (existing && existing.id !== exceptId) {
+        throw new AppError("CATEGORY_ALREADY_EXISTS", 409);
+    }
+};
+
+/**
+ * Add a custom category
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the category
+ * @param input - Validated custom category input
+ * @throws AppError CATEGORY_ALREADY_EXISTS (409) when the name is taken
+ */
+export const createCustomCategoryFromInput = async (
+    ctx: AccessContext,
+    ownerId: string,
+    input: CustomCategoryInput,
+): Promise<CustomCategory> => {
+    await assertNameAvailable(ctx, ownerId, input.name);
+    return createCustomCategory(ctx, ownerId, input);
+};
+
+/**
+ * Update a custom category, checking a new name isn't taken
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Custom category ID
+ * @param input - Validated partial custom category input
+ * @throws NotFoundError if category not found
+ * @throws AppError CATEGORY_ALREADY_EXISTS (409) when renamed onto another category
+ */
+export const updateCustomCategoryFromInput = async (
+    ctx: AccessContext,
+    id: string,
+    input: CustomCategoryUpdateInput,
+): Promise<CustomCategory> => {
+    if (input.name !== undefined) {
+        const category = await getCustomCategoryById(ctx, id, "EDIT");
+        await assertNameAvailable(ctx, category.userId, input.name, id);
+    }
+    return updateCustomCategory(ctx, id, input);
+};
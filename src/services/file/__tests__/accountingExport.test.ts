@@ -0,0 +1,140 @@
+import { Readable } from "stream";
+import { buffer } from "stream/consumers";
+import {
+    createAccountingExportContent,
+    createAccountingExportStream,
+    getAccountCode,
+    getAccountingTaxCode,
+    toAccountingExportLine,
+} from "@/services/file/accountingExport";
+import { createInvoice } from "@/test/fixtures";
+
+describe("getAccountingTaxCode", () => {
+    it("uses the GST code when Australian GST was charged", () => {
+        expect(getAccountingTaxCode("XERO", createInvoice())).toBe(
+            "GST on Expenses",
+        );
+        expect(getAccountingTaxCode("MYOB", createInvoice())).toBe("GST");
+    });
+
+    it("treats GST-free and foreign currency invoices as GST free", () => {
+        expect(
+            getAccountingTaxCode("XERO", createInvoice({ taxAmount: 0 })),
+        ).toBe("GST Free");
+        expect(
+            getAccountingTaxCode("MYOB", createInvoice({ currency: "USD" })),
+        ).toBe("FRE");
+    });
+});
+
+describe("getAccountCode", () => {
+    it("maps categories to the layout's chart of accounts", () => {
+        expect(getAccountCode("XERO", createInvoice())).toBe("453");
+        expect(getAccountCode("QUICKBOOKS", createInvoice())).toBe(
+            "Office expenses",
+        );
+    });
+
+    it("prefers configured account codes", () => {
+        expect(
+            getAccountCode("XERO", createInvoice(), {
+                OFFICE_SUPPLIES: "461",
+            }),
+        ).toBe("461");
+    });
+
+    it("uses OTHER for uncategorised invoices", () => {
+        expect(getAccountCode("MYOB", createInvoice({ category: null }))).toBe(
+            "6-9000",
+        );
+    });
+});
+
+describe("toAccountingExportLine", () => {
+    it("splits the total into net and GST amounts", () => {
+        expect(toAccountingExportLine("XERO", createInvoice(), {})).toEqual({
+            contactName: "Officeworks",
+            invoiceNumber: "INV-001",
+            invoiceDate: "01/08/2024",
+            dueDate: "01/08/2024",
+            description: "Office Supplies",
+            quantity: 1,
+            netAmount: 100,
+            taxAmount: 10,
+            totalAmount: 110,
+            accountCode: "453",
+            taxCode: "GST on Expenses",
+            currency: "AUD",
+        });
+    });
+
+    it("claims no GST on foreign currency invoices", () => {
+        const line = toAccountingExportLine(
+            "XERO",
+            createInvoice({ currency: "USD" }),
+            {},
+        );
+
+        expect(line).toMatchObject({
+            netAmount: 110,
+            taxAmount: 0,
+            taxCode: "GST Free",
+        });
+    });
+
+    it("writes dates in the layout's format", () => {
+        const line = toAccountingExportLine(
+            "QUICKBOOKS",
+            createInvoice({ dueDate: new Date("2024-08-31T00:00:00") }),
+            {},
+        );
+
+        expect(line.invoiceDate).toBe("2024-08-01");
+        expect(line.dueDate).toBe("2024-08-31");
+    });
+});
+
+describe("createAccountingExportContent", () => {
+    it("writes the layout's columns in order", () => {
+        expect(
+            createAccountingExportContent([createInvoice()], "MYOB", {
+                includeHeaders: true,
+            }).split("\n"),
+        ).toEqual([
+            "Co./Last Name,Supplier Invoice No.,Date,Description,Account No.,Amount,Inc-Tax Amount,Tax Code,GST Amount,Currency Code",
+            "Officeworks,INV-001,01/08/2024,Office Supplies,6-1500,100.00,110.00,GST,10.00,AUD",
+        ]);
+    });
+
+    it("leaves out the header row when headers are turned off", () => {
+        expect(
+            createAccountingExportContent([createInvoice()], "QUICKBOOKS", {
+                includeHeaders: false,
+            }),
+        ).toBe(
+            "INV-001,Officeworks,2024-08-01,2024-08-01,Office expenses,Office Supplies,100.00,GST,10.00,AUD",
+        );
+    });
+});
+
+describe("createAccountingExportStream", () => {
+    it("streams the same file as createAccountingExportContent", async () => {
+        const invoices = [
+            createInvoice(),
+            createInvoice({ id: "invoice-2", invoiceNumber: "INV-002" }),
+        ];
+        const options = { includeHeaders: true };
+
+        const content = await buffer(
+            createAccountingExportStream(
+                Readable.from([[invoices[0]], [], [invoices[1]]]),
+                "XERO",
+                options,
+            ),
+        );
+
+        expect(content.toString()).toBe(
+            createAccountingExportContent(invoices, "XERO", options),
+        );
+    });
+});
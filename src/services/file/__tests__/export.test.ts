@@ -0,0 +1,209 @@
+import { Readable } from "stream";
+import { buffer } from "stream/consumers";
+import { Workbook } from "exceljs";
+import { type ExportField } from "@/schema/exportSchema";
+import {
+    createExcelWorkbook,
+    createExportContent,
+    createExportContentStream,
+    createExportOptions,
+    formatValueByType,
+    toExcelCellValue,
+    toExportRecord,
+} from "@/services/file/export";
+import { createInvoice } from "@/test/fixtures";
+
+const field = (
+    type: ExportField["type"],
+    format?: string,
+): Pick<ExportField, "type" | "format"> => ({ type, format });
+
+describe("toExcelCellValue", () => {
+    it("types dates, amounts and text", () => {
+        expect(toExcelCellValue("2024-08-01", field("DATE"))).toEqual(
+            new Date("2024-08-01"),
+        );
+        expect(toExcelCellValue("110.5", field("CURRENCY"))).toBe(110.5);
+        expect(toExcelCellValue(42, field("TEXT"))).toBe("42");
+    });
+
+    it("writes percentages as fractions for percent formats", () => {
+        expect(toExcelCellValue(10, field("NUMBER", "0%"))).toBe(0.1);
+        expect(toExcelCellValue(10, field("NUMBER"))).toBe(10);
+    });
+
+    it("keeps values that don't parse as their text", () => {
+        expect(toExcelCellValue("not a date", field("DATE"))).toBe(
+            "not a date",
+        );
+        expect(toExcelCellValue("n/a", field("CURRENCY"))).toBe("n/a");
+    });
+
+    it("parses booleans instead of testing truthiness", () => {
+        expect(toExcelCellValue(true, field("BOOLEAN"))).toBe(true);
+        expect(toExcelCellValue("true", field("BOOLEAN"))).toBe(true);
+        expect(toExcelCellValue(1, field("BOOLEAN"))).toBe(true);
+        expect(toExcelCellValue("false", field("BOOLEAN"))).toBe(false);
+        expect(toExcelCellValue("0", field("BOOLEAN"))).toBe(false);
+        expect(toExcelCellValue(0, field("BOOLEAN"))).toBe(false);
+        expect(toExcelCellValue("maybe", field("BOOLEAN"))).toBe("maybe");
+    });
+
+    it("leaves empty values blank", () => {
+        expect(toExcelCellValue(null, field("CURRENCY"))).toBeNull();
+        expect(toExcelCellValue("", field("TEXT"))).toBeNull();
+    });
+});
+
+describe("formatValueByType", () => {
+    it("shows parsed booleans as Yes or No", () => {
+        const options = createExportOptions("CSV");
+
+        expect(formatValueByType("false", "BOOLEAN", options)).toBe("No");
+        expect(formatValueByType(1, "BOOLEAN", options)).toBe("Yes");
+    });
+});
+
+describe("toExportRecord", () => {
+    it("exports the business-use percentage and amount", () => {
+        expect(
+            toExportRecord(createInvoice({ businessUsePercentage: 40 })),
+        ).toMatchObject({ businessUsePercentage: 40, businessUseAmount: 44 });
+    });
+
+    it("counts invoices without a percentage as fully business use", () => {
+        expect(toExportRecord(createInvoice())).toMatchObject({
+            businessUsePercentage: 100,
+            businessUseAmount: 110,
+        });
+    });
+});
+
+describe("createExcelWorkbook", () => {
+    it("writes typed cells with number formats", async () => {
+        const buffer = await createExcelWorkbook(
+            [
+                {
+                    invoiceNumber: "INV-001",
+                    invoiceDate: new Date("2024-08-01T00:00:00Z"),
+                    totalAmount: 110,
+                    taxRate: 10,
+                    reconciled: "false",
+                    currency: "AUD",
+                },
+            ],
+            createExportOptions("EXCEL", [
+                {
+                    key: "invoiceNumber",
+                    label: "Invoice",
+                    type: "TEXT",
+                    included: true,
+                },
+                {
+                    key: "invoiceDate",
+                    label: "Date",
+                    type: "DATE",
+                    included: true,
+                },
+                {
+                    key: "totalAmount",
+                    label: "Total",
+                    type: "CURRENCY",
+                    included: true,
+                },
+                {
+                    key: "taxRate",
+                    label: "Tax Rate",
+                    type: "NUMBER",
+                    format: "0%",
+                    included: true,
+                },
+                {
+                    key: "reconciled",
+                    label: "Reconciled",
+                    type: "BOOLEAN",
+                    included: true,
+                },
+            ]),
+        );
+
+        const workbook = new Workbook();
+        await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+        const row = workbook.getWorksheet("Invoices")!.getRow(2);
+
+        expect(row.getCell(1).value).toBe("INV-001");
+        expect(row.getCell(2).value).toEqual(new Date("2024-08-01T00:00:00Z"));
+        expect(row.getCell(2).numFmt).toBe("dd/mm/yyyy");
+        expect(row.getCell(3).value).toBe(110);
+        expect(row.getCell(3).numFmt).toBe('"$"#,##0.00;-"$"#,##0.00');
+        expect(row.getCell(4).value).toBe(0.1);
+        expect(row.getCell(5).value).toBe(false);
+    });
+});
+
+describe("createExportContentStream", () => {
+    const fields: ExportField[] = [
+        {
+            key: "invoiceNumber",
+            label: "Invoice",
+            type: "TEXT",
+            included: true,
+        },
+        {
+            key: "totalAmount",
+            label: "Total",
+            type: "CURRENCY",
+            included: true,
+        },
+        {
+            key: "categoryName",
+            label: "Category",
+            type: "TEXT",
+            included: true,
+        },
+    ];
+    const batches = [
+        [
+            {
+                invoiceNumber: "INV-001",
+                totalAmount: 110,
+                categoryName: "Travel",
+            },
+        ],
+        [{ invoiceNumber: "INV-002", totalAmount: 55, categoryName: "Travel" }],
+    ];
+
+    it("writes every batch to the data sheet and totals them", async () => {
+        const content = await buffer(
+            createExportContentStream(
+                Readable.from(batches),
+                createExportOptions("EXCEL", fields),
+            ),
+        );
+
+        const workbook = new Workbook();
+        await workbook.xlsx.load(new Uint8Array(content).buffer);
+        const sheet = workbook.getWorksheet("Invoices")!;
+        const summary = workbook.getWorksheet("Summary")!;
+
+        expect(sheet.getRow(1).getCell(1).value).toBe("Invoice");
+        expect(sheet.getRow(2).getCell(2).value).toBe(110);
+        expect(sheet.getRow(3).getCell(1).value).toBe("INV-002");
+        expect(sheet.views[0]).toMatchObject({ state: "frozen", ySplit: 1 });
+        expect(summary.getRow(2).getCell(1).value).toBe("Travel");
+        expect(summary.getRow(2).getCell(3).value).toBe(2);
+        expect(summary.getRow(2).getCell(6).value).toBe(165);
+    });
+
+    it("streams the same CSV as createExportContent", async () => {
+        const options = createExportOptions("CSV", fields);
+
+        const content = await buffer(
+            createExportContentStream(Readable.from(batches), options),
+        );
+
+        expect(content.toString()).toBe(
+            (await createExportContent(batches.flat(), options)).toString(),
+        );
+    });
+});
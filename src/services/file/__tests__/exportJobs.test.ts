@@ -0,0 +1,197 @@
+import { buffer } from "stream/consumers";
+import { claimNextExportJob } from "@/dal/export/claimNextExportJob";
+import { updateExportJob } from "@/dal/export/updateExportJob";
+import { listInvoicesForExport } from "@/dal/invoice/listInvoicesForExport";
+import { getUserById } from "@/dal/user/getUserById";
+import { type AccessContext } from "@/schema/authSchema";
+import { type ExportJobRecord } from "@/schema/exportTables";
+import { type UserWithProfile } from "@/schema/userQueries";
+import { createExportOptions } from "@/services/file/export";
+import { runExportJob, runNextExportJob } from "@/services/file/exportJobs";
+import {
+    generatePresignedDownloadUrl,
+    uploadStreamToS3,
+} from "@/services/storage/aws";
+import { createInvoice } from "@/test/fixtures";
+import { logError } from "@/utils/sys/log";
+
+jest.mock("@/dal/export/claimNextExportJob", () => ({
+    claimNextExportJob: jest.fn(),
+}));
+jest.mock("@/dal/export/updateExportJob", () => ({
+    updateExportJob: jest.fn(),
+}));
+jest.mock("@/dal/invoice/listInvoicesForExport", () => ({
+    listInvoicesForExport: jest.fn(),
+}));
+jest.mock("@/dal/user/getUserById", () => ({
+    getUserById: jest.fn(),
+}));
+jest.mock("@/services/storage/aws", () => ({
+    ...jest.requireActual("@/services/storage/aws"),
+    generatePresignedDownloadUrl: jest.fn(),
+    uploadStreamToS3: jest.fn(),
+}));
+jest.mock("@/utils/sys/log", () => ({
+    ...jest.requireActual("@/utils/sys/log"),
+    logError: jest.fn(),
+}));
+
+const ctx: AccessContext = { id: "user-1", role: "USER" };
+const job: ExportJobRecord = {
+    id: "job-1",
+    userId: "user-1",
+    requestedBy: "user-1",
+    format: "CSV",
+    status: "PROCESSING",
+    progress: 10,
+    fileName: "invoices.csv",
+    s3ObjectKey: null,
+    fileSize: null,
+    recordCount: null,
+    downloadUrl: null,
+    options: createExportOptions("CSV", [
+        {
+            key: "invoiceNumber",
+            label: "Invoice",
+            type: "TEXT",
+            included: true,
+        },
+    ]),
+    error: null,
+    createdAt: new Date("2024-08-01T00:00:00"),
+    startedAt: new Date("2024-08-01T00:00:00"),
+    completedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+};
+
+describe("runExportJob", () => {
+    let uploaded: string;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.mocked(listInvoicesForExport).mockResolvedValue([
+            createInvoice(),
+            createInvoice({ id: "invoice-2", invoiceNumber: "INV-002" }),
+        ]);
+        jest.mocked(uploadStreamToS3).mockImplementation(async (_key, body) => {
+            const content = await buffer(body);
+            uploaded = content.toString();
+            return { success: true, fileSize: content.length };
+        });
+        jest.mocked(generatePresignedDownloadUrl).mockResolvedValue({
+            success: true,
+            signedUrl: "https://example.com/invoices.csv",
+        });
+        jest.mocked(updateExportJob).mockImplementation(async (_id, data) => ({
+            ...job,
+            ...data,
+        }));
+    });
+
+    it("streams the export to S3 and records the download link", async () => {
+        const completedJob = await runExportJob(ctx, job);
+
+        expect(uploaded).toBe("Invoice\nINV-001\nINV-002");
+        expect(completedJob).toMatchObject({
+            status: "COMPLETED",
+            recordCount: 2,
+            fileSize: uploaded.length,
+            downloadUrl: "https://example.com/invoices.csv",
+        });
+    });
+
+    it("stores upload failures on the job", async () => {
+        jest.mocked(uploadStreamToS3).mockResolvedValue({
+            success: false,
+            error: "S3 unavailable",
+        });
+
+        const failedJob = await runExportJob(ctx, job);
+
+        expect(failedJob).toMatchObject({
+            status: "FAILED",
+            error: "S3 unavailable",
+        });
+    });
+
+    it("logs instead of throwing when the failure can't be stored", async () => {
+        jest.mocked(listInvoicesForExport).mockRejectedValue(
+            new Error("query failed"),
+        );
+        jest.mocked(updateExportJob).mockRejectedValue(
+            new Error("database unavailable"),
+        );
+
+        await expect(runExportJob(ctx, job)).resolves.toBeNull();
+        expect(logError).toHaveBeenCalledWith(
+            "Failed to record export job failure",
+            expect.objectContaining({ jobId: job.id }),
+        );
+    });
+});
+
+describe("runNextExportJob", () => {
+    const accountant = {
+        user: { id: "accountant-1", role: "ACCOUNTANT" },
+        profile: null,
+    } as UserWithProfile;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.mocked(listInvoicesForExport).mockResolvedValue([]);
+        jest.mocked(uploadStreamToS3).mockImplementation(
+            async (_key, body) => ({
+                success: true,
+                fileSize: (await buffer(body)).length,
+            }),
+        );
+        jest.mocked(generatePresignedDownloadUrl).mockResolvedValue({
+            success: true,
+            signedUrl: "https://example.com/invoices.csv",
+        });
+        jest.mocked(updateExportJob).mockImplementation(async (_id, data) => ({
+            ...job,
+            ...data,
+        }));
+    });
+
+    it("returns null when no job is waiting", async () => {
+        jest.mocked(claimNextExportJob).mockResolvedValue(null);
+
+        await expect(runNextExportJob()).resolves.toBeNull();
+        expect(updateExportJob).not.toHaveBeenCalled();
+    });
+
+    it("runs the job as its requester in the owner's workspace", async () => {
+        jest.mocked(claimNextExportJob).mockResolvedValue({
+            ...job,
+            requestedBy: "accountant-1",
+        });
+        jest.mocked(getUserById).mockResolvedValue(accountant);
+
+        await runNextExportJob();
+
+        expect(listInvoicesForExport).toHaveBeenCalledWith(
+            {
+                id: "accountant-1",
+                role: "ACCOUNTANT",
+                workspaceUserId: "user-1",
+            },
+            "user-1",
+            undefined,
+            0,
+            expect.any(Number),
+        );
+    });
+
+    it("fails the job when its requester no longer exists", async () => {
+        jest.mocked(claimNextExportJob).mockResolvedValue(job);
+        jest.mocked(getUserById).mockResolvedValue(null);
+
+        const failedJob = await runNextExportJob();
+
+        expect(failedJob).toMatchObject({ status: "FAILED" });
+        expect(listInvoicesForExport).not.toHaveBeenCalled();
+    });
+});
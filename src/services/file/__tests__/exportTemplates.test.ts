@@ -0,0 +1,169 @@
+import { getDefaultExportTemplate } from "@/dal/export/getDefaultExportTemplate";
+import { getExportTemplateById } from "@/dal/export/getExportTemplateById";
+import { type ExportTemplateRecord } from "@/schema/exportTables";
+import { createExportOptions } from "@/services/file/export";
+import {
+    assertEditableExportTemplate,
+    getExportTemplate,
+    getSystemExportTemplates,
+    resolveExportOptions,
+} from "@/services/file/exportTemplates";
+import { AppError, NotFoundError } from "@/utils/core/error";
+
+jest.mock("@/dal/export/getDefaultExportTemplate", () => ({
+    getDefaultExportTemplate: jest.fn(),
+}));
+jest.mock("@/dal/export/getExportTemplateById", () => ({
+    getExportTemplateById: jest.fn(),
+}));
+jest.mock("@/dal/export/listExportTemplates", () => ({
+    listExportTemplates: jest.fn(),
+}));
+
+const createTemplate = (
+    overrides: Partial<ExportTemplateRecord> = {},
+): ExportTemplateRecord => ({
+    id: "template-1",
+    userId: "user-1",
+    name: "Quarterly CSV",
+    description: null,
+    options: createExportOptions("CSV", undefined, {
+        status: ["PROCESSED"],
+    }),
+    isDefault: true,
+    createdAt: new Date("2024-08-01T00:00:00"),
+    updatedAt: new Date("2024-08-01T00:00:00"),
+    ...overrides,
+});
+
+describe("getSystemExportTemplates", () => {
+    it("includes only the listed fields, in listed order", () => {
+        const [deductionSummary] = getSystemExportTemplates();
+
+        expect(deductionSummary.isSystem).toBe(true);
+        expect(
+            deductionSummary.options.fields.map((field) => field.key),
+        ).toEqual([
+            "invoiceDate",
+            "supplierName",
+            "supplierTaxId",
+            "invoiceNumber",
+            "categoryName",
+            "subtotal",
+            "taxAmount",
+            "totalAmount",
+            "businessUsePercentage",
+            "businessUseAmount",
+        ]);
+        expect(
+            deductionSummary.options.fields.every((field) => field.included),
+        ).toBe(true);
+    });
+});
+
+describe("getExportTemplate", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("resolves system templates without reading the DB", async () => {
+        const template = await getExportTemplate(
+            "user-1",
+            "system:full-ledger",
+        );
+
+        expect(template.name).toBe("Full ledger");
+        expect(getExportTemplateById).not.toHaveBeenCalled();
+    });
+
+    it("reads the user's saved templates", async () => {
+        jest.mocked(getExportTemplateById).mockResolvedValue(createTemplate());
+
+        const template = await getExportTemplate("user-1", "template-1");
+
+        expect(getExportTemplateById).toHaveBeenCalledWith(
+            "user-1",
+            "template-1",
+        );
+        expect(template).toMatchObject({
+            isSystem: false,
+            description: undefined,
+        });
+        expect(template.options.format).toBe("CSV");
+    });
+
+    it("passes on NotFoundError for another user's template", async () => {
+        jest.mocked(getExportTemplateById).mockRejectedValue(
+            new NotFoundError("Export template with ID template-1 not found"),
+        );
+
+        await expect(getExportTemplate("user-2", "template-1")).rejects.toThrow(
+            NotFoundError,
+        );
+    });
+});
+
+describe("assertEditableExportTemplate", () => {
+    it("rejects system templates", () => {
+        expect(() =>
+            assertEditableExportTemplate("system:full-ledger"),
+        ).toThrow(AppError);
+        expect(() => assertEditableExportTemplate("template-1")).not.toThrow();
+    });
+});
+
+describe("resolveExportOptions", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.mocked(getDefaultExportTemplate).mockResolvedValue(null);
+    });
+
+    it("defaults to an Excel export without a default template", async () => {
+        const options = await resolveExportOptions("user-1", {});
+
+        expect(options.format).toBe("EXCEL");
+    });
+
+    it("starts from the user's default template", async () => {
+        jest.mocked(getDefaultExportTemplate).mockResolvedValue(
+            createTemplate(),
+        );
+
+        const options = await resolveExportOptions("user-1", {});
+
+        expect(options.format).toBe("CSV");
+        expect(options.filters).toEqual({ status: ["PROCESSED"] });
+    });
+
+    it("prefers templateId over the default template", async () => {
+        jest.mocked(getDefaultExportTemplate).mockResolvedValue(
+            createTemplate(),
+        );
+
+        const options = await resolveExportOptions("user-1", {
+            templateId: "system:full-ledger",
+        });
+
+        expect(options.format).toBe("EXCEL");
+        expect(getDefaultExportTemplate).not.toHaveBeenCalled();
+    });
+
+    it("applies request options over the template and merges filters", async () => {
+        jest.mocked(getDefaultExportTemplate).mockResolvedValue(
+            createTemplate(),
+        );
+
+        const options = await resolveExportOptions("user-1", {
+            options: {
+                format: "EXCEL",
+                filters: { categories: ["TRAVEL"] },
+            },
+        });
+
+        expect(options.format).toBe("EXCEL");
+        expect(options.filters).toEqual({
+            status: ["PROCESSED"],
+            categories: ["TRAVEL"],
+        });
+    });
+});
@@ -0,0 +1,155 @@
+import { readdir } from "fs/promises";
+import { tmpdir } from "os";
+import { Readable } from "stream";
+import { buffer } from "stream/consumers";
+import JSZip from "jszip";
+import { listInvoiceFilesForExport } from "@/dal/invoice/listInvoiceFilesForExport";
+import { type AccessContext } from "@/schema/authSchema";
+import { EXPORT_CONSTANTS } from "@/schema/exportSchema";
+import { type Invoice, type InvoiceFile } from "@/schema/invoiceTables";
+import { createExportOptions } from "@/services/file/export";
+import { createHandOffPackStream } from "@/services/file/handOffPack";
+import { checkS3FileExists, downloadFromS3 } from "@/services/storage/aws";
+import { createInvoice } from "@/test/fixtures";
+
+jest.mock("@/dal/invoice/listInvoiceFilesForExport", () => ({
+    listInvoiceFilesForExport: jest.fn(),
+}));
+jest.mock("@/services/storage/aws", () => ({
+    checkS3FileExists: jest.fn(),
+    downloadFromS3: jest.fn(),
+}));
+
+const ctx: AccessContext = { id: "user-1", role: "USER" };
+const { HAND_OFF_PACK } = EXPORT_CONSTANTS;
+
+const createInvoiceFile = (id: string): InvoiceFile => ({
+    id,
+    userId: "user-1",
+    originalName: `${id}.pdf`,
+    fileName: `${id}.pdf`,
+    fileSize: 5,
+    mimeType: "application/pdf",
+    s3ObjectKey: `invoices/user-1/${id}.pdf`,
+    contentHash: null,
+    createdAt: new Date("2024-08-01T00:00:00"),
+});
+
+// Export file stub: one line per invoice number
+const createExportFile = (batches: AsyncIterable<Invoice[]>) =>
+    Readable.from(
+        (async function* () {
+            for await (const invoices of batches) {
+                yield invoices
+                    .map((invoice) => `${invoice.invoiceNumber}\n`)
+                    .join("");
+            }
+        })(),
+        { objectMode: false },
+    );
+
+const readManifest = async (zip: JSZip) =>
+    (await zip.file(HAND_OFF_PACK.MANIFEST_NAME)!.async("string"))
+        .split("\n")
+        .map((line) => line.split(","));
+
+describe("createHandOffPackStream", () => {
+    const invoices = [
+        createInvoice({ id: "invoice-1", fileId: "file-1" }),
+        createInvoice({
+            id: "invoice-2",
+            invoiceNumber: "INV-002",
+            fileId: "file-2",
+        }),
+        createInvoice({ id: "invoice-3", invoiceNumber: "INV-003" }),
+    ];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.mocked(listInvoiceFilesForExport).mockImplementation(
+            async (_ctx, _ownerId, invoiceIds) =>
+                invoiceIds
+                    .filter((id) => id !== "invoice-3")
+                    .map((invoiceId) => ({
+                        invoiceId,
+                        file: createInvoiceFile(
+                            invoiceId.replace("invoice", "file"),
+                        ),
+                    })),
+        );
+        jest.mocked(checkS3FileExists).mockResolvedValue(true);
+        jest.mocked(downloadFromS3).mockImplementation(async (s3ObjectKey) => ({
+            success: true,
+            buffer: Buffer.from(`data of ${s3ObjectKey}`),
+        }));
+    });
+
+    it("streams the export file, original files and manifest", async () => {
+        const pack = await createHandOffPackStream(
+            ctx,
+            "user-1",
+            Readable.from([invoices.slice(0, 2), invoices.slice(2)]),
+            createExportFile,
+            createExportOptions("CSV"),
+        );
+        const zip = await JSZip.loadAsync(await buffer(pack));
+
+        expect(await zip.file("invoices.csv")!.async("string")).toBe(
+            "INV-001\nINV-002\nINV-003\n",
+        );
+        expect(
+            await zip
+                .file(
+                    "files/Office-Supplies/2024-08-01_Officeworks_INV-002.pdf",
+                )!
+                .async("string"),
+        ).toBe("data of invoices/user-1/file-2.pdf");
+        const manifest = await readManifest(zip);
+        expect(manifest).toHaveLength(4);
+        expect(manifest[1].at(-1)).toBe("INCLUDED");
+        expect(manifest[3].at(-1)).toBe("NO_FILE");
+        expect(downloadFromS3).toHaveBeenCalledTimes(2);
+    });
+
+    it("lists files missing from S3 or failing to download as MISSING", async () => {
+        jest.mocked(checkS3FileExists).mockImplementation(
+            async (s3ObjectKey) => !s3ObjectKey.endsWith("file-1.pdf"),
+        );
+        jest.mocked(downloadFromS3).mockResolvedValue({
+            success: false,
+            error: "Access denied",
+        });
+
+        const pack = await createHandOffPackStream(
+            ctx,
+            "user-1",
+            Readable.from([invoices]),
+            createExportFile,
+            createExportOptions("CSV"),
+        );
+        const zip = await JSZip.loadAsync(await buffer(pack));
+        const manifest = await readManifest(zip);
+
+        expect(manifest[1].slice(-3)).toEqual(["", "file-1.pdf", "MISSING"]);
+        expect(manifest[2].slice(-3)).toEqual(["", "file-2.pdf", "MISSING"]);
+        expect(downloadFromS3).toHaveBeenCalledTimes(1);
+    });
+
+    it("removes its temporary files once the pack has been read", async () => {
+        const pack = await createHandOffPackStream(
+            ctx,
+            "user-1",
+            Readable.from([invoices]),
+            createExportFile,
+            createExportOptions("CSV"),
+        );
+        await buffer(pack);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        expect(
+            (await readdir(tmpdir())).filter((name) =>
+                name.startsWith(HAND_OFF_PACK.TEMP_DIR_PREFIX),
+            ),
+        ).toEqual([]);
+    });
+});
@@ -0,0 +1,158 @@
+import { type Readable } from "stream";
+import {
+    ACCOUNTING_EXPORT_LAYOUTS,
+    type AccountingExportFormat,
+    type AccountingExportLine,
+    type ExportOptions,
+} from "@/schema/exportSchema";
+import { FINANCIAL_CONSTANTS } from "@/schema/financialSchema";
+import { type Invoice } from "@/schema/invoiceTables";
+import { getInvoiceCategoryName } from "@/services/category/categories";
+import { createCSVStream, escapeCSVRow } from "@/services/file/export";
+import { formatCustom } from "@/utils/core/date";
+
+/**
+ * Accounting software exports
+ * Writes invoices as bill import files for Xero, MYOB AccountRight and
+ * QuickBooks Online: one bill line per invoice, with the layout's columns,
+ * date format, GST tax code and an account code per category
+ */
+
+/**
+ * Tax code for an invoice: GST when Australian GST was charged, otherwise
+ * GST free (foreign currency invoices carry no claimable GST)
+ */
+export const getAccountingTaxCode = (
+    format: AccountingExportFormat,
+    invoice: Pick<Invoice, "currency" | "taxAmount">,
+): string => {
+    const { TAX_CODES } = ACCOUNTING_EXPORT_LAYOUTS[format];
+    const isDomestic =
+        (invoice.currency ?? FINANCIAL_CONSTANTS.DEFAULT_CURRENCY) ===
+        FINANCIAL_CONSTANTS.DEFAULT_CURRENCY;
+    return isDomestic && (invoice.taxAmount ?? 0) > 0
+        ? TAX_CODES.GST
+        : TAX_CODES.GST_FREE;
+};
+
+/**
+ * Account code for an invoice category; options.accountCodes overrides the
+ * layout default, and custom or missing categories use OTHER
+ */
+export const getAccountCode = (
+    format: AccountingExportFormat,
+    invoice: Pick<Invoice, "category">,
+    accountCodes: ExportOptions["accountCodes"] = {},
+): string => {
+    const category = invoice.category ?? "OTHER";
+    return (
+        accountCodes[category] ??
+        ACCOUNTING_EXPORT_LAYOUTS[format].DEFAULT_ACCOUNT_CODES[category]
+    );
+};
+
+/**
+ * Map a stored invoice to one bill line
+ */
+export const toAccountingExportLine = (
+    format: AccountingExportFormat,
+    invoice: Invoice,
+    options: Pick<ExportOptions, "accountCodes">,
+): AccountingExportLine => {
+    const { DATE_FORMAT } = ACCOUNTING_EXPORT_LAYOUTS[format];
+    const invoiceDate = invoice.invoiceDate ?? invoice.createdAt;
+    const taxCode = getAccountingTaxCode(format, invoice);
+    const isGstFree =
+        taxCode === ACCOUNTING_EXPORT_LAYOUTS[format].TAX_CODES.GST_FREE;
+    const totalAmount = invoice.totalAmount ?? 0;
+    const taxAmount = isGstFree ? 0 : (invoice.taxAmount ?? 0);
+
+    return {
+        contactName: invoice.supplierName ?? "",
+        invoiceNumber: invoice.invoiceNumber ?? invoice.id,
+        invoiceDate: formatCustom(invoiceDate, DATE_FORMAT),
+        // Imports require a due date; bills without one are due on issue
+        dueDate: formatCustom(invoice.dueDate ?? invoiceDate, DATE_FORMAT),
+        description:
+            invoice.description ?? getInvoiceCategoryName(invoice) ?? "",
+        quantity: 1,
+        netAmount: totalAmount - taxAmount,
+        taxAmount,
+        totalAmount,
+        accountCode: getAccountCode(format, invoice, options.accountCodes),
+        taxCode,
+        currency: invoice.currency ?? FINANCIAL_CONSTANTS.DEFAULT_CURRENCY,
+    };
+};
+
+/**
+ * Cell values of one bill line in the layout's column order
+ */
+const toAccountingExportRow = (
+    format: AccountingExportFormat,
+    invoice: Invoice,
+    options: Pick<ExportOptions, "accountCodes">,
+): string[] => {
+    const line = toAccountingExportLine(format, invoice, options);
+    return ACCOUNTING_EXPORT_LAYOUTS[format].COLUMNS.map(({ source }) => {
+        const value = line[source];
+        if (typeof value === "string") return value;
+        return source === "quantity" ? String(value) : value.toFixed(2);
+    });
+};
+
+/**
+ * Header row of the layout, or null when headers are turned off
+ */
+const getAccountingExportHeaders = (
+    format: AccountingExportFormat,
+    options: Pick<ExportOptions, "includeHeaders">,
+): string[] | null =>
+    options.includeHeaders
+        ? ACCOUNTING_EXPORT_LAYOUTS[format].COLUMNS.map(({ header }) => header)
+        : null;
+
+/**
+ * Create a bill import CSV in the layout for options.format
+ * @param invoices - Invoices to export, one bill line each
+ * @param format - Accounting software layout
+ * @param options - Export options (includeHeaders, accountCodes)
+ */
+export const createAccountingExportContent = (
+    invoices: Invoice[],
+    format: AccountingExportFormat,
+    options: Pick<ExportOptions, "includeHeaders" | "accountCodes">,
+): string => {
+    const headers = getAccountingExportHeaders(format, options);
+    return [
+        ...(headers ? [headers] : []),
+        ...invoices.map((invoice) =>
+            toAccountingExportRow(format, invoice, options),
+        ),
+    ]
+        .map(escapeCSVRow)
+        .join("\n");
+};
+
+/**
+ * Stream a bill import CSV one batch of invoices at a time
+ * Same content as createAccountingExportContent
+ * @param batches - Invoices to export, in batches
+ * @param format - Accounting software layout
+ * @param options - Export options (includeHeaders, accountCodes)
+ */
+export const createAccountingExportStream = (
+    batches: AsyncIterable<Invoice[]>,
+    format: AccountingExportFormat,
+    options: Pick<ExportOptions, "includeHeaders" | "accountCodes">,
+): Readable =>
+    createCSVStream(
+        getAccountingExportHeaders(format, options),
+        (async function* () {
+            for await (const invoices of batches) {
+                yield invoices.map((invoice) =>
+                    toAccountingExportRow(format, invoice, options),
+                );
+            }
+        })(),
+    );
@@ -1,8 +1,19 @@
+import { PassThrough, Readable } from "stream";
+import {
+    stream,
+    Workbook,
+    type AddWorksheetOptions,
+    type Row,
+    type Worksheet,
+} from "exceljs";
 import { DATE_FORMATS, DateFormatEnum } from "@/schema/dateSchema";
 import {
+    AccountingExportFormatEnum,
     DEFAULT_INVOICE_FIELDS,
     EXPORT_CONSTANTS,
+    ExportFormatEnum,
     FIELD_MAPPING,
+    type AccountingExportFormat,
     type ExportField,
     type ExportFilters,
     type ExportFormat,
@@ -10,12 +21,20 @@ import {
     type ExportJobStatus,
     type ExportOptions,
     type ExportTemplate,
+    type ReportSheet,
 } from "@/schema/exportSchema";
 import {
     FINANCIAL_CONSTANTS,
     SupportedCurrencyEnum,
+    type SupportedCurrency,
 } from "@/schema/financialSchema";
+import { type Invoice } from "@/schema/invoiceTables";
 import { DISPLAY_MESSAGES, ERROR_MESSAGES } from "@/schema/messageSchema";
+import { getInvoiceCategoryName } from "@/services/category/categories";
+import {
+    getBusinessUseAmount,
+    resolveBusinessUsePercentage,
+} from "@/services/invoice/businessUse";
 import { formatDisplay, formatFileISOString } from "@/utils/core/date";
 import {
     camelCaseToReadable,
@@ -67,6 +86,22 @@ export const filterData = <T extends Record<string, unknown>>(
                 return false;
             }
         }
+        // Custom category filter
+        if (filters.customCategoryIds && filters.customCategoryIds.length > 0) {
+            if (
+                !filters.customCategoryIds.includes(
+                    item.customCategoryId as string,
+                )
+            ) {
+                return false;
+            }
+        }
+        // Supplier directory filter
+        if (filters.supplierIds && filters.supplierIds.length > 0) {
+            if (!filters.supplierIds.includes(item.supplierId as string)) {
+                return false;
+            }
+        }
         // Suppliers filter
         if (filters.suppliers && filters.suppliers.length > 0) {
             if (!filters.suppliers.includes(item.supplierName as string)) {
@@ -100,6 +135,22 @@ export const filterData = <T extends Record<string, unknown>>(
     });
 };
 
+// Flatten a stored invoice into the keys used by DEFAULT_INVOICE_FIELDS
+export const toExportRecord = (invoice: Invoice): Record<string, unknown> => ({
+    ...invoice,
+    categoryName: getInvoiceCategoryName(invoice),
+    businessUsePercentage: resolveBusinessUsePercentage(
+        invoice.businessUsePercentage,
+    ),
+    businessUseAmount:
+        invoice.totalAmount === null
+            ? null
+            : getBusinessUseAmount(
+                  invoice.totalAmount,
+                  invoice.businessUsePercentage,
+              ),
+});
+
 // Transform data for export
 export const transformDataForExport = <T extends Record<string, unknown>>(
     data: T[],
@@ -130,6 +181,15 @@ export const transformDataForExport = <T extends Record<string, unknown>>(
     });
 };
 
+// Read a boolean from a boolean, "true"/"false" or 1/0; null when it is neither
+export const parseBooleanValue = (value: unknown): boolean | null => {
+    if (typeof value === "boolean") return value;
+    const text = String(value).trim().toLowerCase();
+    if (text === "true" || text === "1") return true;
+    if (text === "false" || text === "0") return false;
+    return null;
+};
+
 // Format value based on type
 export const formatValueByType = (
     value: unknown,
@@ -148,8 +208,11 @@ export const formatValueByType = (
                 : value;
         case "NUMBER":
             return typeof value === "number" ? formatNumber(value) : value;
-        case "BOOLEAN":
-            return value ? DISPLAY_MESSAGES.YES : DISPLAY_MESSAGES.NO;
+        case "BOOLEAN": {
+            const flag = parseBooleanValue(value);
+            if (flag === null) return String(value);
+            return flag ? DISPLAY_MESSAGES.YES : DISPLAY_MESSAGES.NO;
+        }
         case "TEXT":
         default:
             return String(value);
@@ -160,11 +223,11 @@ export const formatValueByType = (
 export const generateFilename = (
     format: ExportFormat,
     timestamp?: Date,
+    extension: string = EXPORT_CONSTANTS.EXPORT_FORMATS[format] ||
+        format.toLowerCase(),
 ): string => {
     const date = timestamp || new Date();
     const dateStr = formatFileISOString(date);
-    const extension =
-        EXPORT_CONSTANTS.EXPORT_FORMATS[format] || format.toLowerCase();
     return EXPORT_CONSTANTS.EXPORT_FILE_NAME.replace(
         "{dateString}",
         dateStr,
@@ -211,6 +274,426 @@ export const escapeCSVRow = (values: string[]): string =>
         })
         .join(",");
 
+// ===== XLSX Workbook =====
+
+// Excel number format for a currency (falls back to a plain 2dp format)
+const getCurrencyNumberFormat = (currency: string): string =>
+    EXPORT_CONSTANTS.EXCEL.CURRENCY_FORMATS[currency as SupportedCurrency] ??
+    EXPORT_CONSTANTS.EXCEL.DEFAULT_CURRENCY_FORMAT;
+
+// Convert a raw value into a typed Excel cell value
+// Percent formats expect a fraction; tax rates are stored as percentages (10 = 10%)
+export const toExcelCellValue = (
+    value: unknown,
+    field: Pick<ExportField, "type" | "format">,
+): string | number | boolean | Date | null => {
+    if (value === null || value === undefined || value === "") return null;
+    switch (field.type) {
+        case "DATE": {
+            const date =
+                value instanceof Date ? value : new Date(value as string);
+            return isNaN(date.getTime()) ? String(value) : date;
+        }
+        case "CURRENCY":
+        case "NUMBER": {
+            const number = typeof value === "number" ? value : Number(value);
+            if (isNaN(number)) return String(value);
+            return field.format?.includes("%") ? number / 100 : number;
+        }
+        case "BOOLEAN":
+            return parseBooleanValue(value) ?? String(value);
+        case "TEXT":
+        default:
+            return String(value);
+    }
+};
+
+// Excel number format for a typed cell
+const getCellNumberFormat = (
+    field: ExportField,
+    currency: string,
+): string | undefined => {
+    switch (field.type) {
+        case "DATE":
+            return EXPORT_CONSTANTS.EXCEL.DATE_FORMAT;
+        case "CURRENCY":
+            return getCurrencyNumberFormat(currency);
+        case "NUMBER":
+            return field.format || EXPORT_CONSTANTS.EXCEL.NUMBER_FORMAT;
+        default:
+            return undefined;
+    }
+};
+
+// Sheet options freezing the header row; set when the sheet is added, since
+// streamed sheets can't change their views afterwards
+const getWorksheetOptions = (
+    hasHeader: boolean,
+): Partial<AddWorksheetOptions> =>
+    hasHeader ? { views: [{ state: "frozen", ySplit: 1 }] } : {};
+
+// Bold the header row and size columns to their longest displayed value
+const formatWorksheet = (
+    worksheet: Worksheet,
+    displayWidths: number[],
+    hasHeader: boolean,
+) => {
+    const { MIN_COLUMN_WIDTH, MAX_COLUMN_WIDTH, COLUMN_PADDING } =
+        EXPORT_CONSTANTS.EXCEL;
+    if (hasHeader) {
+        worksheet.getRow(1).font = { bold: true };
+    }
+    displayWidths.forEach((width, index) => {
+        worksheet.getColumn(index + 1).width = Math.min(
+            MAX_COLUMN_WIDTH,
+            Math.max(MIN_COLUMN_WIDTH, width + COLUMN_PADDING),
+        );
+    });
+};
+
+// Add one data row with typed cells; returns the row and each cell's displayed width
+const addDataRow = (
+    worksheet: Worksheet,
+    fields: ExportField[],
+    item: Record<string, unknown>,
+    options: ExportOptions,
+): { row: Row; displayWidths: number[] } => {
+    const currency = (item.currency as string) || options.currency;
+    const row = worksheet.addRow(
+        fields.map((field) => toExcelCellValue(item[field.key], field)),
+    );
+    const displayWidths = fields.map((field, index) => {
+        const numberFormat = getCellNumberFormat(field, currency);
+        if (numberFormat) row.getCell(index + 1).numFmt = numberFormat;
+        return String(
+            formatValueByType(item[field.key], field.type, {
+                ...options,
+                currency,
+            }),
+        ).length;
+    });
+    return { row, displayWidths };
+};
+
+// Add the invoice data sheet with typed cells
+const addDataSheet = <T extends Record<string, unknown>>(
+    workbook: Workbook,
+    data: T[],
+    options: ExportOptions,
+    sheetName: string = EXPORT_CONSTANTS.EXCEL.SHEET_NAME,
+) => {
+    const worksheet = workbook.addWorksheet(
+        sheetName,
+        getWorksheetOptions(options.includeHeaders),
+    );
+    const fields = options.fields.filter((field) => field.included);
+    const displayWidths = fields.map((field) =>
+        options.includeHeaders ? field.label.length : 0,
+    );
+
+    if (options.includeHeaders) {
+        worksheet.addRow(fields.map((field) => field.label));
+    }
+
+    data.forEach((item) => {
+        addDataRow(worksheet, fields, item, options).displayWidths.forEach(
+            (width, index) => {
+                displayWidths[index] = Math.max(displayWidths[index], width);
+            },
+        );
+    });
+
+    formatWorksheet(worksheet, displayWidths, options.includeHeaders);
+};
+
+// Invoice count and totals for one category and currency
+type SummaryGroup = {
+    category: string;
+    currency: string;
+    count: number;
+    subtotal: number;
+    taxAmount: number;
+    totalAmount: number;
+};
+
+// Add invoices to their summary groups, keyed by category and currency
+const addToSummaryGroups = <T extends Record<string, unknown>>(
+    groups: Map<string, SummaryGroup>,
+    data: T[],
+    options: ExportOptions,
+) => {
+    data.forEach((item) => {
+        const category =
+            (item.categoryName as string) || DISPLAY_MESSAGES.UNCATEGORISED;
+        const currency = (item.currency as string) || options.currency;
+        const key = `${category}|${currency}`;
+        const group = groups.get(key) ?? {
+            category,
+            currency,
+            count: 0,
+            subtotal: 0,
+            taxAmount: 0,
+            totalAmount: 0,
+        };
+        group.count += 1;
+        group.subtotal += Number(item.subtotal) || 0;
+        group.taxAmount += Number(item.taxAmount) || 0;
+        group.totalAmount += Number(item.totalAmount) || 0;
+        groups.set(key, group);
+    });
+};
+
+// Add the summary sheet: invoice count and totals per category and currency
+const addSummarySheet = (
+    workbook: Workbook,
+    groups: Map<string, SummaryGroup>,
+): Worksheet => {
+    const worksheet = workbook.addWorksheet(
+        EXPORT_CONSTANTS.EXCEL.SUMMARY_SHEET_NAME,
+        getWorksheetOptions(true),
+    );
+    const headers = [
+        DISPLAY_MESSAGES.SUMMARY_CATEGORY,
+        DISPLAY_MESSAGES.SUMMARY_CURRENCY,
+        DISPLAY_MESSAGES.SUMMARY_INVOICE_COUNT,
+        DISPLAY_MESSAGES.SUMMARY_SUBTOTAL,
+        DISPLAY_MESSAGES.SUMMARY_TAX,
+        DISPLAY_MESSAGES.SUMMARY_TOTAL,
+    ];
+    worksheet.addRow(headers);
+
+    const sortedGroups = [...groups.values()].sort(
+        (a, b) =>
+            a.category.localeCompare(b.category) ||
+            a.currency.localeCompare(b.currency),
+    );
+    const displayWidths = headers.map((header) => header.length);
+    const addTotalsRow = (group: (typeof sortedGroups)[0]) => {
+        const values = [
+            group.category,
+            group.currency,
+            group.count,
+            group.subtotal,
+            group.taxAmount,
+            group.totalAmount,
+        ];
+        const row = worksheet.addRow(values);
+        values.forEach((value, index) => {
+            const isAmount = index >= 3;
+            if (isAmount) {
+                row.getCell(index + 1).numFmt = getCurrencyNumberFormat(
+                    group.currency,
+                );
+            }
+            displayWidths[index] = Math.max(
+                displayWidths[index],
+                (isAmount
+                    ? formatCurrency(value as number, group.currency)
+                    : String(value)
+                ).length,
+            );
+        });
+        return row;
+    };
+
+    sortedGroups.forEach((group) => addTotalsRow(group));
+
+    // Grand total per currency (amounts in different currencies are never added together)
+    const currencies = [
+        ...new Set(sortedGroups.map((group) => group.currency)),
+    ];
+    currencies.forEach((currency) => {
+        const currencyGroups = sortedGroups.filter(
+            (group) => group.currency === currency,
+        );
+        const sumOf = (
+            key: "count" | "subtotal" | "taxAmount" | "totalAmount",
+        ) => currencyGroups.reduce((sum, group) => sum + group[key], 0);
+        addTotalsRow({
+            category: DISPLAY_MESSAGES.SUMMARY_GRAND_TOTAL,
+            currency,
+            count: sumOf("count"),
+            subtotal: sumOf("subtotal"),
+            taxAmount: sumOf("taxAmount"),
+            totalAmount: sumOf("totalAmount"),
+        }).font = { bold: true };
+    });
+
+    formatWorksheet(worksheet, displayWidths, true);
+    return worksheet;
+};
+
+// Create an XLSX workbook: typed data sheet plus per-category summary sheet
+export const createExcelWorkbook = async <T extends Record<string, unknown>>(
+    data: T[],
+    options: ExportOptions,
+): Promise<Buffer> => {
+    const workbook = new Workbook();
+    workbook.created = new Date();
+    addDataSheet(workbook, data, options);
+    const groups = new Map<string, SummaryGroup>();
+    addToSummaryGroups(groups, data, options);
+    addSummarySheet(workbook, groups);
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+// Create export file content in the requested format
+export const createExportContent = async <T extends Record<string, unknown>>(
+    data: T[],
+    options: ExportOptions,
+): Promise<Buffer> =>
+    isExcelFormat(options.format)
+        ? createExcelWorkbook(data, options)
+        : Buffer.from(
+              createCSVContent(
+                  transformDataForExport(data, options.fields, options),
+                  options,
+              ),
+          );
+
+// Create a multi-section report: one typed sheet per section in Excel,
+// sections separated by a blank line in CSV
+export const createReportContent = async (
+    sheets: ReportSheet[],
+    options: ExportOptions,
+): Promise<Buffer> => {
+    if (isExcelFormat(options.format)) {
+        const workbook = new Workbook();
+        workbook.created = new Date();
+        sheets.forEach((sheet) =>
+            addDataSheet(
+                workbook,
+                sheet.data,
+                { ...options, fields: sheet.fields },
+                sheet.name,
+            ),
+        );
+        return Buffer.from(await workbook.xlsx.writeBuffer());
+    }
+    return Buffer.from(
+        sheets
+            .map((sheet) =>
+                [
+                    escapeCSVRow([sheet.name]),
+                    createCSVContent(
+                        transformDataForExport(
+                            sheet.data,
+                            sheet.fields,
+                            options,
+                        ),
+                        options,
+                    ),
+                ].join("\n"),
+            )
+            .join("\n\n"),
+    );
+};
+
+// ===== Streamed Export =====
+
+// Stream CSV lines as they come: the header, then each batch of rows
+export const createCSVStream = (
+    headers: string[] | null,
+    rowBatches: AsyncIterable<string[][]>,
+): Readable =>
+    Readable.from(
+        (async function* () {
+            let separator = "";
+            if (headers) {
+                yield escapeCSVRow(headers);
+                separator = "\n";
+            }
+            for await (const rows of rowBatches) {
+                if (rows.length === 0) continue;
+                yield separator + rows.map(escapeCSVRow).join("\n");
+                separator = "\n";
+            }
+        })(),
+        { objectMode: false },
+    );
+
+// Stream a CSV of the selected fields (the createCSVContent layout)
+const createCSVExportStream = (
+    batches: AsyncIterable<Record<string, unknown>[]>,
+    options: ExportOptions,
+): Readable => {
+    const labels = options.fields
+        .filter((field) => field.included)
+        .map((field) => field.label);
+    return createCSVStream(
+        options.includeHeaders ? labels : null,
+        (async function* () {
+            for await (const batch of batches) {
+                yield transformDataForExport(
+                    batch,
+                    options.fields,
+                    options,
+                ).map((row) => labels.map((label) => String(row[label] || "")));
+            }
+        })(),
+    );
+};
+
+// Stream an XLSX workbook: each row is written out as it is added, so columns
+// are sized from the headers, and the summary sheet follows the data
+const createExcelWorkbookStream = (
+    batches: AsyncIterable<Record<string, unknown>[]>,
+    options: ExportOptions,
+): Readable => {
+    const { MAX_COLUMN_WIDTH, COLUMN_PADDING, STREAMED_COLUMN_WIDTH } =
+        EXPORT_CONSTANTS.EXCEL;
+    const output = new PassThrough();
+    const writeWorkbook = async () => {
+        const workbook = new stream.xlsx.WorkbookWriter({
+            stream: output,
+            useStyles: true,
+        });
+        workbook.created = new Date();
+        const worksheet = workbook.addWorksheet(
+            EXPORT_CONSTANTS.EXCEL.SHEET_NAME,
+            getWorksheetOptions(options.includeHeaders),
+        );
+        const fields = options.fields.filter((field) => field.included);
+        fields.forEach((field, index) => {
+            worksheet.getColumn(index + 1).width = Math.min(
+                MAX_COLUMN_WIDTH,
+                Math.max(
+                    STREAMED_COLUMN_WIDTH,
+                    field.label.length + COLUMN_PADDING,
+                ),
+            );
+        });
+        if (options.includeHeaders) {
+            const header = worksheet.addRow(fields.map((field) => field.label));
+            header.font = { bold: true };
+            header.commit();
+        }
+
+        const groups = new Map<string, SummaryGroup>();
+        for await (const batch of batches) {
+            batch.forEach((item) =>
+                addDataRow(worksheet, fields, item, options).row.commit(),
+            );
+            addToSummaryGroups(groups, batch, options);
+        }
+        worksheet.commit();
+        addSummarySheet(workbook, groups).commit();
+        await workbook.commit();
+    };
+    writeWorkbook().catch((error) => output.destroy(error));
+    return output;
+};
+
+// Stream export file content in the requested format, one batch of records
+// at a time (the createExportContent layouts)
+export const createExportContentStream = (
+    batches: AsyncIterable<Record<string, unknown>[]>,
+    options: ExportOptions,
+): Readable =>
+    isExcelFormat(options.format)
+        ? createExcelWorkbookStream(batches, options)
+        : createCSVExportStream(batches, options);
+
 // Validate export options
 export const validateExportOptions = (
     options: ExportOptions,
@@ -220,11 +703,7 @@ export const validateExportOptions = (
 } => {
     const errors: string[] = [];
     // Check format
-    if (
-        !Object.values(EXPORT_CONSTANTS.EXPORT_FORMATS).includes(
-            options.format.toLowerCase() as never,
-        )
-    ) {
+    if (!ExportFormatEnum.includes(options.format)) {
         errors.push(ERROR_MESSAGES.INVALID_EXPORT_FORMAT);
     }
     // Check fields
@@ -341,6 +820,7 @@ export const createExportTemplate = (
     description,
     options,
     isDefault,
+    isSystem: false,
     userId,
 });
 
@@ -364,6 +844,10 @@ export const mergeExportOptions = (
 // Quick format checks
 export const isExcelFormat = (format: ExportFormat) => format === "EXCEL";
 export const isCSVFormat = (format: ExportFormat) => format === "CSV";
+export const isAccountingFormat = (
+    format: ExportFormat,
+): format is AccountingExportFormat =>
+    (AccountingExportFormatEnum as readonly string[]).includes(format);
 
 // Status helpers
 export const isExportPending = (status: ExportJobStatus) =>
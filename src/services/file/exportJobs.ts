@@ -0,0 +1,322 @@
+import { type Readable } from "stream";
+import { claimNextExportJob } from "@/dal/export/claimNextExportJob";
+import { createExportJobRecord } from "@/dal/export/createExportJobRecord";
+import { expireExportJobs } from "@/dal/export/expireExportJobs";
+import { failStaleExportJobs } from "@/dal/export/failStaleExportJobs";
+import { updateExportJob } from "@/dal/export/updateExportJob";
+import { listInvoicesForExport } from "@/dal/invoice/listInvoicesForExport";
+import { getUserById } from "@/dal/user/getUserById";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    EXPORT_CONSTANTS,
+    exportOptionsSchema,
+    type ExportOptions,
+} from "@/schema/exportSchema";
+import { type ExportJobRecord } from "@/schema/exportTables";
+import { type Invoice } from "@/schema/invoiceTables";
+import { ERROR_MESSAGES } from "@/schema/messageSchema";
+import { createAccountingExportStream } from "@/services/file/accountingExport";
+import {
+    createExportContentStream,
+    filterData,
+    generateFilename,
+    getMimeType,
+    isAccountingFormat,
+    toExportRecord,
+    validateExportOptions,
+} from "@/services/file/export";
+import { createHandOffPackStream } from "@/services/file/handOffPack";
+import {
+    deleteFromS3,
+    generateExportS3ObjectKey,
+    generatePresignedDownloadUrl,
+    uploadStreamToS3,
+} from "@/services/storage/aws";
+import { getWorkspaceUserId } from "@/utils/core/auth";
+import { add, subtract } from "@/utils/core/date";
+import { AppError } from "@/utils/core/error";
+import { logError, logInfo } from "@/utils/sys/log";
+
+/**
+ * Asynchronous export jobs
+ * A job is persisted as PENDING and picked up by the export worker
+ * (exportWorker.ts), a long-running process outside the web app. The worker
+ * claims the oldest PENDING job, reads the owner's invoices from the DB in
+ * batches, streams the chosen format (optionally bundled with the original
+ * files as a hand-off pack) to S3 and stores a presigned download link valid
+ * until the job's expiresAt
+ *
+ * A job whose worker is stopped never records an outcome, so PENDING and
+ * PROCESSING jobs older than JOB_TIMEOUT_MINUTES are read as FAILED and
+ * marked so by the scheduled cleanup (cleanupExpiredExportJobs)
+ */
+
+/**
+ * Validate options and persist a PENDING export job
+ * @param ctx - Caller access context (session user ID and role)
+ * @param options - Export format, fields and filters
+ * @param ownerId - Owner whose invoices are exported; defaults to the current workspace
+ * @throws AppError VALIDATION_FAILED (422) for invalid options
+ * @throws AccessDeniedError if the caller cannot export the owner's data
+ */
+export const startExportJob = async (
+    ctx: AccessContext,
+    options: ExportOptions,
+    ownerId: string = getWorkspaceUserId(ctx),
+): Promise<ExportJobRecord> => {
+    const validation = validateExportOptions(options);
+    if (!validation.isValid) {
+        throw new AppError("VALIDATION_FAILED", 422, validation.errors[0]);
+    }
+
+    const now = new Date();
+    return createExportJobRecord(ctx, {
+        userId: ownerId,
+        requestedBy: ctx.id,
+        fileName:
+            options.filename ||
+            generateFilename(
+                options.format,
+                now,
+                options.handOffPack
+                    ? EXPORT_CONSTANTS.HAND_OFF_PACK.EXTENSION
+                    : undefined,
+            ),
+        options,
+        expiresAt: new Date(
+            add(now, EXPORT_CONSTANTS.JOB_EXPIRY_HOURS, "hour"),
+        ),
+    });
+};
+
+/**
+ * Read matching invoices in BATCH_SIZE pages, one page at a time
+ * @param onBatch - Called with each page once tags are filtered
+ */
+async function* readExportInvoiceBatches(
+    ctx: AccessContext,
+    job: ExportJobRecord,
+    options: ExportOptions,
+    onBatch: (invoices: Invoice[]) => void,
+): AsyncGenerator<Invoice[]> {
+    for (let offset = 0; ; offset += EXPORT_CONSTANTS.BATCH_SIZE) {
+        const batch = await listInvoicesForExport(
+            ctx,
+            job.userId,
+            options.filters,
+            offset,
+            EXPORT_CONSTANTS.BATCH_SIZE,
+        );
+        // Tags are stored as JSON and filtered here
+        const invoices = filterData(batch, { tags: options.filters?.tags });
+        onBatch(invoices);
+        yield invoices;
+        if (batch.length < EXPORT_CONSTANTS.BATCH_SIZE) return;
+    }
+}
+
+/**
+ * Stream invoices in the job's format: a bill import layout for accounting
+ * software, otherwise a spreadsheet of the selected fields
+ */
+const createExportFileStream = (
+    batches: AsyncIterable<Invoice[]>,
+    options: ExportOptions,
+): Readable =>
+    isAccountingFormat(options.format)
+        ? createAccountingExportStream(batches, options.format, options)
+        : createExportContentStream(
+              (async function* () {
+                  for await (const invoices of batches) {
+                      yield invoices.map(toExportRecord);
+                  }
+              })(),
+              options,
+          );
+
+/**
+ * Worker: generate the export file, upload it and record the download link
+ * Failures are stored on the job as FAILED with an error message; if even
+ * that update fails it is logged and null is returned, so this never throws
+ * @param ctx - Access context of the user who requested the export
+ * @param job - Export job claimed by the worker (PROCESSING)
+ */
+export const runExportJob = async (
+    ctx: AccessContext,
+    job: ExportJobRecord,
+): Promise<ExportJobRecord | null> => {
+    try {
+        const options = exportOptionsSchema.parse(job.options);
+        let recordCount = 0;
+        const batches = readExportInvoiceBatches(
+            ctx,
+            job,
+            options,
+            (invoices) => (recordCount += invoices.length),
+        );
+        const content = options.handOffPack
+            ? await createHandOffPackStream(
+                  ctx,
+                  job.userId,
+                  batches,
+                  (packBatches) => createExportFileStream(packBatches, options),
+                  options,
+              )
+            : createExportFileStream(batches, options);
+
+        const s3ObjectKey = generateExportS3ObjectKey(
+            job.userId,
+            job.id,
+            job.fileName,
+        );
+        const upload = await uploadStreamToS3(
+            s3ObjectKey,
+            content,
+            options.handOffPack
+                ? EXPORT_CONSTANTS.HAND_OFF_PACK.MIME_TYPE
+                : getMimeType(options.format),
+        );
+        if (!upload.success) {
+            throw new Error(upload.error ?? ERROR_MESSAGES.EXPORT_FAILED);
+        }
+        await updateExportJob(job.id, { progress: 90 });
+
+        const expiresIn = Math.max(
+            1,
+            Math.floor((job.expiresAt.getTime() - Date.now()) / 1000),
+        );
+        const download = await generatePresignedDownloadUrl(
+            s3ObjectKey,
+            expiresIn,
+        );
+        if (!download.success) {
+            throw new Error(download.error ?? ERROR_MESSAGES.EXPORT_FAILED);
+        }
+
+        const completedJob = await updateExportJob(job.id, {
+            status: "COMPLETED",
+            progress: 100,
+            s3ObjectKey,
+            fileSize: upload.fileSize,
+            recordCount,
+            downloadUrl: download.signedUrl,
+            completedAt: new Date(),
+        });
+
+        logInfo("Export job completed", {
+            jobId: job.id,
+            recordCount,
+            fileSize: upload.fileSize,
+        });
+
+        return completedJob;
+    } catch (error) {
+        logError("Export job failed", { error, jobId: job.id });
+        try {
+            return await updateExportJob(job.id, {
+                status: "FAILED",
+                error:
+                    error instanceof Error
+                        ? error.message
+                        : ERROR_MESSAGES.EXPORT_FAILED,
+                completedAt: new Date(),
+            });
+        } catch (updateError) {
+            // Left PROCESSING; the scheduled cleanup fails it once stale
+            logError("Failed to record export job failure", {
+                error: updateError,
+                jobId: job.id,
+            });
+            return null;
+        }
+    }
+};
+
+/**
+ * Claim the oldest PENDING job and run it as the user who requested it
+ * A job whose requester no longer exists is failed without running
+ * @returns The finished job, or null if no job was waiting
+ */
+export const runNextExportJob = async (): Promise<ExportJobRecord | null> => {
+    const job = await claimNextExportJob();
+    if (!job) return null;
+
+    const requester = await getUserById(job.requestedBy);
+    if (!requester) {
+        logError("Export job requester not found", {
+            jobId: job.id,
+            requestedBy: job.requestedBy,
+        });
+        return updateExportJob(job.id, {
+            status: "FAILED",
+            error: ERROR_MESSAGES.EXPORT_FAILED,
+            completedAt: new Date(),
+        });
+    }
+
+    const ctx: AccessContext = {
+        id: requester.user.id,
+        role: requester.user.role,
+        ...(job.userId !== requester.user.id && {
+            workspaceUserId: job.userId,
+        }),
+    };
+    return runExportJob(ctx, job);
+};
+
+// ===== Status =====
+
+/**
+ * Whether a job is still PENDING or PROCESSING past JOB_TIMEOUT_MINUTES
+ */
+const isStaleExportJob = (job: ExportJobRecord, now: Date): boolean =>
+    (job.status === "PENDING" || job.status === "PROCESSING") &&
+    job.createdAt.getTime() <=
+        new Date(
+            subtract(now, EXPORT_CONSTANTS.JOB_TIMEOUT_MINUTES, "minute"),
+        ).getTime();
+
+/**
+ * A job as the user should see it before the scheduled cleanup has run
+ * Stale jobs read as FAILED and completed jobs past expiresAt as EXPIRED
+ * @param job - Stored export job
+ * @param now - Reference time
+ */
+export const resolveExportJobStatus = (
+    job: ExportJobRecord,
+    now: Date = new Date(),
+): ExportJobRecord => {
+    if (isStaleExportJob(job, now)) {
+        return {
+            ...job,
+            status: "FAILED",
+            error: ERROR_MESSAGES.EXPORT_JOB_TIMED_OUT,
+        };
+    }
+    if (job.status === "COMPLETED" && job.expiresAt <= now) {
+        return { ...job, status: "EXPIRED", downloadUrl: null };
+    }
+    return job;
+};
+
+// ===== Cleanup =====
+
+/**
+ * Scheduled cleanup across all owners: fail jobs stopped before they
+ * finished, expire completed jobs past expiresAt and delete their files from S3
+ * @param now - Reference time
+ */
+export const cleanupExpiredExportJobs = async (
+    now: Date = new Date(),
+): Promise<void> => {
+    await failStaleExportJobs(
+        new Date(subtract(now, EXPORT_CONSTANTS.JOB_TIMEOUT_MINUTES, "minute")),
+        ERROR_MESSAGES.EXPORT_JOB_TIMED_OUT,
+    );
+    const expiredJobs = await expireExportJobs(now);
+    await Promise.all(
+        expiredJobs
+            .filter((job) => job.s3ObjectKey)
+            .map((job) => deleteFromS3(job.s3ObjectKey!)),
+    );
+};
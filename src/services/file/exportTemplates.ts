@@ -0,0 +1,131 @@
+import { getDefaultExportTemplate } from "@/dal/export/getDefaultExportTemplate";
+import { getExportTemplateById } from "@/dal/export/getExportTemplateById";
+import { listExportTemplates } from "@/dal/export/listExportTemplates";
+import {
+    DEFAULT_INVOICE_FIELDS,
+    EXPORT_CONSTANTS,
+    exportOptionsSchema,
+    SYSTEM_EXPORT_TEMPLATES,
+    type CreateExportJobRequest,
+    type ExportOptions,
+    type ExportTemplate,
+} from "@/schema/exportSchema";
+import { type ExportTemplateRecord } from "@/schema/exportTables";
+import {
+    createExportOptions,
+    mergeExportOptions,
+} from "@/services/file/export";
+import { AppError } from "@/utils/core/error";
+
+/**
+ * Export templates
+ * Built-in system templates plus each user's saved templates; starting an
+ * export resolves its options from a template and applies request overrides
+ */
+
+// System templates have no stored timestamps
+const SYSTEM_TEMPLATE_DATE = new Date(0);
+
+export const isSystemExportTemplate = (id: string): boolean =>
+    id.startsWith(EXPORT_CONSTANTS.SYSTEM_TEMPLATE_ID_PREFIX);
+
+/**
+ * Built-in templates, with fields in the order they are listed
+ */
+export const getSystemExportTemplates = (): ExportTemplate[] =>
+    SYSTEM_EXPORT_TEMPLATES.map((template) => ({
+        id: template.id,
+        name: template.name,
+        description: template.description,
+        options: createExportOptions(
+            template.format,
+            template.fieldKeys.flatMap((key) => {
+                const field = DEFAULT_INVOICE_FIELDS.find(
+                    (item) => item.key === key,
+                );
+                return field ? [{ ...field, included: true }] : [];
+            }),
+        ),
+        isDefault: false,
+        isSystem: true,
+        userId: null,
+        createdAt: SYSTEM_TEMPLATE_DATE,
+        updatedAt: SYSTEM_TEMPLATE_DATE,
+    }));
+
+/**
+ * Convert a stored template row into an ExportTemplate
+ */
+export const toExportTemplate = (
+    record: ExportTemplateRecord,
+): ExportTemplate => ({
+    ...record,
+    description: record.description ?? undefined,
+    options: exportOptionsSchema.parse(record.options),
+    isSystem: false,
+});
+
+/**
+ * System templates followed by the user's saved templates (default first)
+ * @param userId - Signed-in user ID
+ */
+export const listAvailableExportTemplates = async (
+    userId: string,
+): Promise<ExportTemplate[]> => [
+    ...getSystemExportTemplates(),
+    ...(await listExportTemplates(userId)).map(toExportTemplate),
+];
+
+/**
+ * Resolve a system template or one of the user's saved templates
+ * @param userId - Signed-in user ID
+ * @param id - Template ID
+ * @throws NotFoundError if no such template exists for the user
+ */
+export const getExportTemplate = async (
+    userId: string,
+    id: string,
+): Promise<ExportTemplate> => {
+    if (isSystemExportTemplate(id)) {
+        const template = getSystemExportTemplates().find(
+            (item) => item.id === id,
+        );
+        if (template) return template;
+    }
+    return toExportTemplate(await getExportTemplateById(userId, id));
+};
+
+/**
+ * Reject changes to built-in templates
+ * @throws AppError EXPORT_TEMPLATE_READ_ONLY (403) for system template IDs
+ */
+export const assertEditableExportTemplate = (id: string): void => {
+    if (isSystemExportTemplate(id)) {
+        throw new AppError("EXPORT_TEMPLATE_READ_ONLY", 403);
+    }
+};
+
+/**
+ * Export options for a new export job
+ * Base options come from templateId, else the user's default template, else
+ * the default Excel export; request options override the base
+ * @param userId - Signed-in user ID (templates are personal, not per workspace)
+ * @param request - Export job request body
+ * @throws NotFoundError if templateId is not one of the user's templates
+ */
+export const resolveExportOptions = async (
+    userId: string,
+    request: CreateExportJobRequest,
+): Promise<ExportOptions> => {
+    const baseOptions = request.templateId
+        ? (await getExportTemplate(userId, request.templateId)).options
+        : await getDefaultExportTemplate(userId).then((template) =>
+              template
+                  ? toExportTemplate(template).options
+                  : createExportOptions("EXCEL"),
+          );
+
+    return exportOptionsSchema.parse(
+        mergeExportOptions(baseOptions, request.options ?? {}),
+    );
+};
@@ -0,0 +1,38 @@
+#!/usr/bin/env tsx
+
+// Load environment variables from .env file
+import { config } from "dotenv";
+config();
+import { EXPORT_CONSTANTS } from "@/schema/exportSchema";
+import { runNextExportJob } from "@/services/file/exportJobs";
+import { logError, logInfo } from "@/utils/sys/log";
+
+/**
+ * Export worker
+ * Long-running process that runs export jobs outside the web app, so an
+ * export isn't bound by a request's time limit. Runs jobs one at a time,
+ * oldest first, and checks again every WORKER_POLL_INTERVAL_MS when none is
+ * waiting. Several workers can run side by side; each job is claimed once
+ */
+export async function runExportWorker() {
+    logInfo("🔄 Export worker started");
+    for (;;) {
+        try {
+            const job = await runNextExportJob();
+            if (job) continue;
+        } catch (error) {
+            logError("❌ Error running export job:", error);
+        }
+        await new Promise((resolve) =>
+            setTimeout(resolve, EXPORT_CONSTANTS.WORKER_POLL_INTERVAL_MS),
+        );
+    }
+}
+
+// Run the worker if this file is executed directly
+if (require.main === module) {
+    runExportWorker().catch((error) => {
+        logError("❌ Export worker stopped:", error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,325 @@
+import { createReadStream, createWriteStream } from "fs";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PassThrough, pipeline as pipeStreams, type Readable } from "stream";
+import { finished, pipeline } from "stream/promises";
+import JSZip from "jszip";
+import { listInvoiceFilesForExport } from "@/dal/invoice/listInvoiceFilesForExport";
+import { type AccessContext } from "@/schema/authSchema";
+import { DATE_FORMATS } from "@/schema/dateSchema";
+import {
+    EXPORT_CONSTANTS,
+    type ExportOptions,
+    type HandOffFileStatus,
+    type HandOffPackGroupBy,
+} from "@/schema/exportSchema";
+import { type Invoice, type InvoiceFile } from "@/schema/invoiceTables";
+import { DISPLAY_MESSAGES } from "@/schema/messageSchema";
+import { getInvoiceCategoryName } from "@/services/category/categories";
+import { escapeCSVRow, getFileExtension } from "@/services/file/export";
+import { checkS3FileExists, downloadFromS3 } from "@/services/storage/aws";
+import {
+    formatCustom,
+    formatDisplay,
+    getAustralianFinancialYearString,
+} from "@/utils/core/date";
+import { logError, logInfo } from "@/utils/sys/log";
+
+/**
+ * Accountant hand-off pack
+ * A ZIP holding the export file, each invoice's original upload renamed to
+ * {date}_{supplier}_{invoiceNumber}.{ext} and grouped into category or
+ * financial year folders, and a manifest CSV linking export rows to files
+ */
+
+const { HAND_OFF_PACK } = EXPORT_CONSTANTS;
+
+// ===== Naming =====
+
+/**
+ * Keep letters, digits and dashes so names are safe on every OS
+ */
+const toSafeNamePart = (value: string): string =>
+    value
+        .normalize("NFKD")
+        .replace(/[^A-Za-z0-9-]+/g, "-")
+        .replace(/-{2,}/g, "-")
+        .replace(/^-|-$/g, "")
+        .slice(0, HAND_OFF_PACK.MAX_NAME_PART_LENGTH);
+
+const getInvoiceDate = (invoice: Invoice): Date =>
+    invoice.invoiceDate ?? invoice.createdAt;
+
+/**
+ * File name for an invoice's original upload, e.g. 2024-03-15_Supplier_INV123.pdf
+ */
+export const getHandOffFileName = (
+    invoice: Invoice,
+    file: Pick<InvoiceFile, "originalName" | "fileName">,
+): string => {
+    const extension = (file.originalName || file.fileName)
+        .split(".")
+        .pop()
+        ?.toLowerCase();
+    const baseName = [
+        formatCustom(getInvoiceDate(invoice), DATE_FORMATS.INPUT),
+        toSafeNamePart(invoice.supplierName ?? ""),
+        toSafeNamePart(invoice.invoiceNumber ?? ""),
+    ]
+        .filter(Boolean)
+        .join("_");
+    return extension ? `${baseName}.${extension}` : baseName;
+};
+
+/**
+ * Folder for an invoice: category name, or FY2024-2025 by invoice date
+ */
+export const getHandOffFolder = (
+    invoice: Invoice,
+    groupBy: HandOffPackGroupBy,
+): string => {
+    if (groupBy === "FINANCIAL_YEAR") {
+        return HAND_OFF_PACK.FINANCIAL_YEAR_FOLDER.replace(
+            "{financialYear}",
+            getAustralianFinancialYearString(getInvoiceDate(invoice)),
+        );
+    }
+    return toSafeNamePart(
+        getInvoiceCategoryName(invoice) || DISPLAY_MESSAGES.UNCATEGORISED,
+    );
+};
+
+/**
+ * Append _2, _3, ... when a path is already taken in the pack
+ */
+const toUniquePath = (path: string, usedPaths: Set<string>): string => {
+    const extensionIndex = path.lastIndexOf(".");
+    const [stem, extension] =
+        extensionIndex > path.lastIndexOf("/")
+            ? [path.slice(0, extensionIndex), path.slice(extensionIndex)]
+            : [path, ""];
+    let uniquePath = path;
+    for (let suffix = 2; usedPaths.has(uniquePath); suffix++) {
+        uniquePath = `${stem}_${suffix}${extension}`;
+    }
+    usedPaths.add(uniquePath);
+    return uniquePath;
+};
+
+// ===== Pack =====
+
+// Manifest line; path and status change if the file can't be downloaded
+type HandOffManifestRow = {
+    cells: string[];
+    path: string;
+    originalName: string;
+    status: HandOffFileStatus;
+};
+
+// Original file added to the pack, fed to the ZIP when its turn comes
+type HandOffPackFile = {
+    path: string;
+    s3ObjectKey: string;
+    manifestRow: HandOffManifestRow;
+};
+
+/**
+ * Pass invoice batches through unchanged, listing each invoice in the
+ * manifest and picking a pack path for each original file found in S3
+ */
+async function* addInvoicesToPack(
+    ctx: AccessContext,
+    ownerId: string,
+    batches: AsyncIterable<Invoice[]>,
+    groupBy: HandOffPackGroupBy,
+    manifestRows: HandOffManifestRow[],
+    packFiles: HandOffPackFile[],
+): AsyncGenerator<Invoice[]> {
+    const usedPaths = new Set<string>();
+    for await (const invoices of batches) {
+        const filesByInvoiceId = new Map(
+            (
+                await listInvoiceFilesForExport(
+                    ctx,
+                    ownerId,
+                    invoices.map((invoice) => invoice.id),
+                )
+            ).map(({ invoiceId, file }) => [invoiceId, file]),
+        );
+
+        for (const invoice of invoices) {
+            const file = filesByInvoiceId.get(invoice.id);
+            const manifestRow: HandOffManifestRow = {
+                cells: [
+                    String(manifestRows.length + 1),
+                    invoice.id,
+                    invoice.invoiceNumber ?? "",
+                    invoice.supplierName ?? "",
+                    invoice.invoiceDate
+                        ? formatDisplay(invoice.invoiceDate)
+                        : "",
+                    invoice.totalAmount?.toFixed(2) ?? "",
+                    invoice.currency ?? "",
+                    getInvoiceCategoryName(invoice) ?? "",
+                ],
+                path: "",
+                originalName: file?.originalName ?? "",
+                status: "NO_FILE",
+            };
+            manifestRows.push(manifestRow);
+            if (!file) continue;
+
+            manifestRow.status = "MISSING";
+            if (await checkS3FileExists(file.s3ObjectKey)) {
+                manifestRow.path = toUniquePath(
+                    [
+                        HAND_OFF_PACK.FILES_FOLDER,
+                        getHandOffFolder(invoice, groupBy),
+                        getHandOffFileName(invoice, file),
+                    ].join("/"),
+                    usedPaths,
+                );
+                manifestRow.status = "INCLUDED";
+                packFiles.push({
+                    path: manifestRow.path,
+                    s3ObjectKey: file.s3ObjectKey,
+                    manifestRow,
+                });
+            }
+        }
+        yield invoices;
+    }
+}
+
+/**
+ * Feed original files to their ZIP entries one at a time, each download
+ * starting once the previous entry has been written, then the manifest
+ * A file that fails to download is left empty and listed as MISSING
+ */
+const writePackFiles = async (
+    packFiles: HandOffPackFile[],
+    inputs: PassThrough[],
+    manifestRows: HandOffManifestRow[],
+    manifest: PassThrough,
+): Promise<void> => {
+    for (const [index, packFile] of packFiles.entries()) {
+        const download = await downloadFromS3(packFile.s3ObjectKey);
+        if (download.success && download.buffer) {
+            inputs[index].end(download.buffer);
+        } else {
+            packFile.manifestRow.path = "";
+            packFile.manifestRow.status = "MISSING";
+            inputs[index].end();
+        }
+        await finished(inputs[index]);
+    }
+
+    manifest.end(
+        [
+            HAND_OFF_PACK.MANIFEST_COLUMNS,
+            ...manifestRows.map(({ cells, path, originalName, status }) => [
+                ...cells,
+                path,
+                originalName,
+                status,
+            ]),
+        ]
+            .map((row) => escapeCSVRow([...row]))
+            .join("\n"),
+    );
+};
+
+/**
+ * Stream the hand-off pack ZIP
+ * Invoices are read once: each batch goes into the export file, written to a
+ * temporary file, while the manifest and file paths are collected. The ZIP
+ * is then produced as it is read, with the original files downloaded one at
+ * a time, so only one file is held in memory. An original file missing from
+ * S3 is listed as MISSING in the manifest instead of failing the pack
+ * @param ctx - Access context of the user who requested the export
+ * @param ownerId - Owner whose invoices are exported
+ * @param batches - Exported invoices in batches, in export file row order
+ * @param createExportFile - Streams the export file (spreadsheet or bill import) for the batches
+ * @param options - Export options; handOffPack.groupBy picks the folder layout
+ * @returns ZIP archive stream; the temporary file is removed once it ends
+ */
+export const createHandOffPackStream = async (
+    ctx: AccessContext,
+    ownerId: string,
+    batches: AsyncIterable<Invoice[]>,
+    createExportFile: (batches: AsyncIterable<Invoice[]>) => Readable,
+    options: ExportOptions,
+): Promise<Readable> => {
+    const groupBy = options.handOffPack?.groupBy ?? "CATEGORY";
+    const tempDir = await mkdtemp(
+        join(tmpdir(), HAND_OFF_PACK.TEMP_DIR_PREFIX),
+    );
+    const removeTempDir = () =>
+        rm(tempDir, { recursive: true, force: true }).catch((error) =>
+            logError("Failed to remove hand-off pack temporary files", {
+                error,
+                tempDir,
+            }),
+        );
+
+    try {
+        const exportFileName = `${HAND_OFF_PACK.SPREADSHEET_NAME}.${getFileExtension(options.format)}`;
+        const exportFilePath = join(tempDir, exportFileName);
+        const manifestRows: HandOffManifestRow[] = [];
+        const packFiles: HandOffPackFile[] = [];
+        await pipeline(
+            createExportFile(
+                addInvoicesToPack(
+                    ctx,
+                    ownerId,
+                    batches,
+                    groupBy,
+                    manifestRows,
+                    packFiles,
+                ),
+            ),
+            createWriteStream(exportFilePath),
+        );
+
+        const zip = new JSZip();
+        zip.file(exportFileName, createReadStream(exportFilePath));
+        const inputs = packFiles.map((packFile) => {
+            const input = new PassThrough();
+            zip.file(packFile.path, input);
+            return input;
+        });
+        const manifest = new PassThrough();
+        zip.file(HAND_OFF_PACK.MANIFEST_NAME, manifest);
+
+        const output = new PassThrough();
+        // Once the ZIP ends, or isn't read to the end, stop feeding files
+        pipeStreams(
+            zip.generateNodeStream({
+                type: "nodebuffer",
+                streamFiles: true,
+                compression: "DEFLATE",
+            }),
+            output,
+            () => {
+                [...inputs, manifest].forEach((input) => input.destroy());
+                void removeTempDir();
+            },
+        );
+        writePackFiles(packFiles, inputs, manifestRows, manifest).catch(
+            (error) => output.destroy(error),
+        );
+
+        logInfo("Hand-off pack started", {
+            ownerId,
+            invoiceCount: manifestRows.length,
+            fileCount: packFiles.length,
+            groupBy,
+        });
+
+        return output;
+    } catch (error) {
+        await removeTempDir();
+        throw error;
+    }
+};
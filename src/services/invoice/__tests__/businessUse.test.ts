@@ -0,0 +1,128 @@
+import { getInvoiceById } from "@/dal/invoice/getInvoiceById";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    applyInvoiceUpdateBusinessUse,
+    applyLineItemBusinessUse,
+    getBusinessUseAmount,
+    resolveBusinessUsePercentage,
+} from "@/services/invoice/businessUse";
+import { createInvoice } from "@/test/fixtures";
+
+jest.mock("@/dal/invoice/getInvoiceById", () => ({
+    getInvoiceById: jest.fn(),
+}));
+
+const ctx: AccessContext = { id: "user-1", role: "USER" };
+
+describe("getBusinessUseAmount", () => {
+    it("counts the whole amount when no percentage is set", () => {
+        expect(resolveBusinessUsePercentage(null)).toBe(100);
+        expect(getBusinessUseAmount(110, null)).toBe(110);
+    });
+
+    it("rounds the business-use portion to cents", () => {
+        expect(getBusinessUseAmount(99.99, 33)).toBe(33);
+        expect(getBusinessUseAmount(110, 0)).toBe(0);
+    });
+});
+
+describe("applyLineItemBusinessUse", () => {
+    it("weights the invoice percentage by line amount", () => {
+        const data = applyLineItemBusinessUse({
+            items: [
+                {
+                    description: "Phone plan",
+                    totalPrice: 80,
+                    businessUsePercentage: 50,
+                },
+                {
+                    description: "Handset",
+                    totalPrice: 20,
+                    businessUsePercentage: 100,
+                },
+            ],
+        });
+
+        expect(data.businessUsePercentage).toBe(60);
+    });
+
+    it("pins lines without a percentage to the invoice percentage", () => {
+        const data = applyLineItemBusinessUse({
+            businessUsePercentage: 40,
+            items: [
+                { description: "Internet", totalPrice: 50 },
+                {
+                    description: "Modem",
+                    totalPrice: 50,
+                    businessUsePercentage: 100,
+                },
+            ],
+        });
+
+        expect(data.items?.map((item) => item.businessUsePercentage)).toEqual([
+            40, 100,
+        ]);
+        expect(data.businessUsePercentage).toBe(70);
+    });
+
+    it("leaves invoices without line percentages unchanged", () => {
+        const input = {
+            businessUsePercentage: 40,
+            items: [{ description: "Internet", totalPrice: 50 }],
+        };
+
+        expect(applyLineItemBusinessUse(input)).toBe(input);
+    });
+});
+
+describe("applyInvoiceUpdateBusinessUse", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.mocked(getInvoiceById).mockResolvedValue({
+            invoice: createInvoice({ businessUsePercentage: 20 }),
+            file: null,
+        });
+    });
+
+    it("inherits the stored percentage when the update leaves it unset", async () => {
+        const data = await applyInvoiceUpdateBusinessUse(ctx, "invoice-1", {
+            items: [
+                { description: "Electricity", totalPrice: 50 },
+                {
+                    description: "Desk lamp",
+                    totalPrice: 50,
+                    businessUsePercentage: 100,
+                },
+            ],
+        });
+
+        expect(data.items?.[0].businessUsePercentage).toBe(20);
+        expect(data.businessUsePercentage).toBe(60);
+    });
+
+    it("inherits the updated percentage without reading the invoice", async () => {
+        const data = await applyInvoiceUpdateBusinessUse(ctx, "invoice-1", {
+            businessUsePercentage: null,
+            items: [
+                { description: "Electricity", totalPrice: 50 },
+                {
+                    description: "Heater",
+                    totalPrice: 50,
+                    businessUsePercentage: 0,
+                },
+            ],
+        });
+
+        expect(data.items?.[0].businessUsePercentage).toBe(100);
+        expect(data.businessUsePercentage).toBe(50);
+        expect(getInvoiceById).not.toHaveBeenCalled();
+    });
+
+    it("doesn't read the invoice when no line has a percentage", async () => {
+        await applyInvoiceUpdateBusinessUse(ctx, "invoice-1", {
+            businessUsePercentage: 50,
+        });
+
+        expect(getInvoiceById).not.toHaveBeenCalled();
+    });
+});
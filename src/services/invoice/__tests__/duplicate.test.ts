@@ -0,0 +1,87 @@
+import { type InvoiceCandidate } from "@/schema/invoiceQueries";
+import { findPossibleDuplicates } from "@/services/invoice/duplicate";
+import { createInvoice } from "@/test/fixtures";
+
+const candidate: InvoiceCandidate = {
+    id: "candidate",
+    supplierName: "Officeworks Pty Ltd",
+    supplierTaxId: null,
+    invoiceNumber: "INV-00123",
+    invoiceDate: new Date("2024-08-01T00:00:00"),
+    totalAmount: 110,
+};
+
+describe("findPossibleDuplicates", () => {
+    it("scores an exact match after normalising names and numbers", () => {
+        const [match] = findPossibleDuplicates(candidate, [
+            createInvoice({
+                id: "photo",
+                supplierName: "OFFICEWORKS",
+                invoiceNumber: "INV123",
+            }),
+        ]);
+
+        expect(match).toEqual({
+            invoiceId: "photo",
+            invoiceNumber: "INV123",
+            supplierName: "OFFICEWORKS",
+            matchType: "FUZZY",
+            score: 1,
+            matchedFields: [
+                "supplierName",
+                "invoiceNumber",
+                "invoiceDate",
+                "totalAmount",
+            ],
+        });
+    });
+
+    it("gives partial credit for nearby dates and amounts", () => {
+        const [match] = findPossibleDuplicates(candidate, [
+            createInvoice({
+                id: "nearby",
+                invoiceNumber: "INV-123",
+                invoiceDate: new Date("2024-08-03T00:00:00"),
+                totalAmount: 110.5,
+            }),
+        ]);
+
+        expect(match.score).toBeCloseTo(0.8);
+        expect(match.matchedFields).toHaveLength(4);
+    });
+
+    it("ignores matches below the threshold and the candidate itself", () => {
+        expect(
+            findPossibleDuplicates(candidate, [
+                createInvoice({ id: "candidate", invoiceNumber: "INV-00123" }),
+                createInvoice({
+                    id: "other-supplier",
+                    supplierName: "Bunnings",
+                    invoiceNumber: "B-555",
+                }),
+                createInvoice({
+                    id: "next-month",
+                    invoiceNumber: "INV-00456",
+                    invoiceDate: new Date("2024-09-01T00:00:00"),
+                    totalAmount: 250,
+                }),
+            ]),
+        ).toEqual([]);
+    });
+
+    it("returns the best matches first", () => {
+        const matches = findPossibleDuplicates(candidate, [
+            createInvoice({
+                id: "nearby",
+                invoiceNumber: "INV-123",
+                invoiceDate: new Date("2024-08-03T00:00:00"),
+            }),
+            createInvoice({ id: "exact", invoiceNumber: "INV-00123" }),
+        ]);
+
+        expect(matches.map((match) => match.invoiceId)).toEqual([
+            "exact",
+            "nearby",
+        ]);
+    });
+});
@@ -0,0 +1,107 @@
+import { createExtractionCorrections } from "@/dal/ai/createExtractionCorrections";
+import { getInvoiceById } from "@/dal/invoice/getInvoiceById";
+import { updateInvoice } from "@/dal/invoice/updateInvoice";
+import { type AccessContext } from "@/schema/authSchema";
+import { checkInvoiceAnomalies } from "@/services/ai/anomaly";
+import { saveInvoiceUpdate } from "@/services/invoice/updates";
+import { createInvoice } from "@/test/fixtures";
+
+jest.mock("@/dal/ai/createExtractionCorrections", () => ({
+    createExtractionCorrections: jest.fn(),
+}));
+jest.mock("@/dal/invoice/getInvoiceById", () => ({
+    getInvoiceById: jest.fn(),
+}));
+jest.mock("@/dal/invoice/updateInvoice", () => ({
+    updateInvoice: jest.fn(),
+}));
+jest.mock("@/services/ai/anomaly", () => ({
+    checkInvoiceAnomalies: jest.fn(),
+}));
+jest.mock("@/services/category/categories", () => ({
+    applyInvoiceUpdateCustomCategory: jest.fn(
+        async (_ctx: unknown, _id: unknown, data: unknown) => data,
+    ),
+}));
+jest.mock("@/services/invoice/businessUse", () => ({
+    applyInvoiceUpdateBusinessUse: jest.fn(
+        async (_ctx: unknown, _id: unknown, data: unknown) => data,
+    ),
+}));
+jest.mock("@/services/invoice/files", () => ({
+    applyInvoiceUpdateFile: jest.fn(
+        async (_ctx: unknown, _id: unknown, data: unknown) => data,
+    ),
+}));
+jest.mock("@/services/supplier/suppliers", () => ({
+    ...jest.requireActual("@/services/supplier/suppliers"),
+    applyInvoiceUpdateSupplier: jest.fn(
+        async (_ctx: unknown, _id: unknown, data: unknown) => data,
+    ),
+}));
+
+const ctx: AccessContext = { id: "accountant-1", role: "USER" };
+const invoice = createInvoice({
+    extractedData: { invoiceNumber: "INV-00I" },
+    invoiceNumber: "INV-00I",
+});
+
+describe("saveInvoiceUpdate", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.mocked(getInvoiceById).mockResolvedValue({ invoice, file: null });
+        jest.mocked(checkInvoiceAnomalies).mockResolvedValue(invoice);
+    });
+
+    it("records corrections against the owner once the update is saved", async () => {
+        jest.mocked(updateInvoice).mockResolvedValue(
+            createInvoice({ invoiceNumber: "INV-001" }),
+        );
+
+        await saveInvoiceUpdate(ctx, invoice.id, { invoiceNumber: "INV-001" });
+
+        expect(createExtractionCorrections).toHaveBeenCalledWith(
+            ctx,
+            "user-1",
+            [
+                expect.objectContaining({
+                    field: "invoiceNumber",
+                    aiValue: "INV-00I",
+                    userValue: "INV-001",
+                    invoiceId: invoice.id,
+                }),
+            ],
+        );
+        expect(
+            jest.mocked(updateInvoice).mock.invocationCallOrder[0],
+        ).toBeLessThan(
+            jest.mocked(createExtractionCorrections).mock
+                .invocationCallOrder[0],
+        );
+    });
+
+    it("records nothing when the update fails", async () => {
+        jest.mocked(updateInvoice).mockRejectedValue(new Error("write failed"));
+
+        await expect(
+            saveInvoiceUpdate(ctx, invoice.id, { invoiceNumber: "INV-001" }),
+        ).rejects.toThrow("write failed");
+        expect(createExtractionCorrections).not.toHaveBeenCalled();
+    });
+
+    it("records nothing when corrections are turned off", async () => {
+        jest.mocked(updateInvoice).mockResolvedValue(
+            createInvoice({ invoiceNumber: "INV-001" }),
+        );
+
+        await saveInvoiceUpdate(
+            ctx,
+            invoice.id,
+            { invoiceNumber: "INV-001" },
+            { recordCorrections: false },
+        );
+
+        expect(updateInvoice).toHaveBeenCalled();
+        expect(createExtractionCorrections).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,104 @@
+import { getInvoiceById } from "@/dal/invoice/getInvoiceById";
+import { type AccessContext } from "@/schema/authSchema";
+import { INVOICE_CONSTANTS } from "@/schema/invoiceSchema";
+import { type UpdateInvoiceData } from "@/schema/invoiceQueries";
+import { roundCurrency } from "@/utils/core/format";
+
+/**
+ * Business-use percentage for mixed-use expenses
+ * An invoice's businessUsePercentage (null = 100%) scales the amounts counted
+ * in stats, exports and GST credits. Line items may carry their own
+ * percentage, in which case the invoice percentage becomes the
+ * amount-weighted average of its lines. New invoices take their supplier's
+ * default percentage (see applyNewInvoiceSupplier)
+ */
+
+// ===== Percentages =====
+
+/**
+ * Effective business-use percentage, 100 when none is set
+ */
+export const resolveBusinessUsePercentage = (
+    percentage?: number | null,
+): number => percentage ?? INVOICE_CONSTANTS.FULL_BUSINESS_USE_PERCENTAGE;
+
+/**
+ * Business-use portion of an amount
+ */
+export const getBusinessUseAmount = (
+    amount: number,
+    percentage?: number | null,
+): number =>
+    roundCurrency((amount * resolveBusinessUsePercentage(percentage)) / 100);
+
+// ===== Line Items =====
+
+const hasLineItemBusinessUse = (data: UpdateInvoiceData): boolean =>
+    !!data.items?.some(
+        (item) =>
+            item.businessUsePercentage !== undefined &&
+            item.businessUsePercentage !== null,
+    );
+
+/**
+ * Fold line-item percentages into the invoice percentage
+ * Lines without their own percentage are pinned to the invoice percentage so
+ * later edits to the invoice value don't change them silently
+ * @param data - Invoice data carrying items
+ * @param invoicePercentage - Invoice percentage lines inherit when they have none
+ */
+export const applyLineItemBusinessUse = (
+    data: UpdateInvoiceData,
+    invoicePercentage: number | null = data.businessUsePercentage ?? null,
+): UpdateInvoiceData => {
+    if (!data.items || !hasLineItemBusinessUse(data)) return data;
+
+    const items = data.items.map((item) => ({
+        ...item,
+        businessUsePercentage: resolveBusinessUsePercentage(
+            item.businessUsePercentage ?? invoicePercentage,
+        ),
+    }));
+    const linesTotal = items.reduce(
+        (sum, item) => sum + (item.totalPrice ?? 0),
+        0,
+    );
+    if (linesTotal <= 0) return { ...data, items };
+
+    const businessTotal = items.reduce(
+        (sum, item) =>
+            sum + ((item.totalPrice ?? 0) * item.businessUsePercentage) / 100,
+        0,
+    );
+    return {
+        ...data,
+        items,
+        businessUsePercentage: roundCurrency(
+            (businessTotal / linesTotal) * 100,
+        ),
+    };
+};
+
+// ===== Invoice Writes =====
+
+/**
+ * Business use for an invoice update: lines without their own percentage
+ * inherit the updated percentage, or the stored one when the update leaves it unset
+ * @param ctx - Caller access context (session user ID and role)
+ * @param invoiceId - Invoice being updated
+ * @param data - Mapped invoice input
+ * @throws NotFoundError if the invoice is needed and not found
+ */
+export const applyInvoiceUpdateBusinessUse = async (
+    ctx: AccessContext,
+    invoiceId: string,
+    data: UpdateInvoiceData,
+): Promise<UpdateInvoiceData> => {
+    if (!hasLineItemBusinessUse(data)) return data;
+    const invoicePercentage =
+        data.businessUsePercentage !== undefined
+            ? data.businessUsePercentage
+            : (await getInvoiceById(ctx, invoiceId)).invoice
+                  .businessUsePercentage;
+    return applyLineItemBusinessUse(data, invoicePercentage);
+};
@@ -0,0 +1,218 @@
+import { createHash } from "crypto";
+import { getInvoicesByContentHash } from "@/dal/invoice/getInvoicesByContentHash";
+import { listSimilarInvoices } from "@/dal/invoice/listSimilarInvoices";
+import { AI_VALIDATION_CONSTANTS } from "@/schema/aiSchema";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    DUPLICATE_CONSTANTS,
+    type DuplicateCheckResult,
+    type DuplicateMatch,
+    type DuplicateMatchField,
+} from "@/schema/invoiceSchema";
+import { type InvoiceCandidate } from "@/schema/invoiceQueries";
+import { type Invoice } from "@/schema/invoiceTables";
+import { AI_MESSAGES } from "@/schema/messageSchema";
+import { diff } from "@/utils/core/date";
+
+/**
+ * Duplicate invoice detection
+ * Combines an exact content hash of the uploaded file with a fuzzy match on
+ * supplierName, invoiceNumber, invoiceDate and totalAmount so the same receipt
+ * uploaded as a photo and as the emailed PDF is still caught
+ */
+
+// ===== Normalisation =====
+
+/**
+ * SHA-256 hex digest of an uploaded file
+ */
+export const computeContentHash = (buffer: Buffer): string =>
+    createHash("sha256").update(buffer).digest("hex");
+
+/**
+ * Lowercase, strip punctuation and company suffixes (Pty Ltd, Inc, ...)
+ */
+const supplierTokens = (name?: string | null): string[] =>
+    (name ?? "")
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, " ")
+        .split(/\s+/)
+        .filter(
+            (token) =>
+                token.length > 0 &&
+                !(
+                    DUPLICATE_CONSTANTS.SUPPLIER_SUFFIXES as readonly string[]
+                ).includes(token),
+        );
+
+/**
+ * Uppercase alphanumerics without leading zeros (INV-00123 → INV123)
+ */
+const normaliseInvoiceNumber = (invoiceNumber?: string | null): string =>
+    (invoiceNumber ?? "")
+        .toUpperCase()
+        .replace(/[^A-Z0-9]/g, "")
+        .replace(/(^|[A-Z])0+(?=\d)/g, "$1");
+
+// ===== Field Scores (0-1) =====
+
+const scoreSupplier = (a?: string | null, b?: string | null): number => {
+    const tokensA = supplierTokens(a);
+    const tokensB = supplierTokens(b);
+    if (tokensA.length === 0 || tokensB.length === 0) return 0;
+    const shared = tokensA.filter((token) => tokensB.includes(token)).length;
+    return shared / new Set([...tokensA, ...tokensB]).size;
+};
+
+const scoreInvoiceNumber = (a?: string | null, b?: string | null): number => {
+    const numberA = normaliseInvoiceNumber(a);
+    return numberA.length > 0 && numberA === normaliseInvoiceNumber(b) ? 1 : 0;
+};
+
+const scoreDate = (a: Date | null, b: Date | null): number => {
+    if (!a || !b) return 0;
+    const days = Math.abs(diff(a, b, "day"));
+    if (days === 0) return 1;
+    return days <= DUPLICATE_CONSTANTS.DATE_WINDOW_DAYS ? 0.5 : 0;
+};
+
+const scoreAmount = (a: number | null, b: number | null): number => {
+    if (a === null || b === null) return 0;
+    const difference = Math.abs(a - b);
+    if (difference <= AI_VALIDATION_CONSTANTS.CALCULATION_TOLERANCE) return 1;
+    return difference <= Math.abs(b) * DUPLICATE_CONSTANTS.AMOUNT_PARTIAL_RATIO
+        ? 0.5
+        : 0;
+};
+
+// ===== Matching =====
+
+/**
+ * Score a candidate against one existing invoice
+ */
+const scoreInvoiceMatch = (
+    candidate: InvoiceCandidate,
+    invoice: Invoice,
+): { score: number; matchedFields: DuplicateMatchField[] } => {
+    const fieldScores: [DuplicateMatchField, number, number][] = [
+        [
+            "supplierName",
+            scoreSupplier(candidate.supplierName, invoice.supplierName),
+            DUPLICATE_CONSTANTS.SUPPLIER_WEIGHT,
+        ],
+        [
+            "invoiceNumber",
+            scoreInvoiceNumber(candidate.invoiceNumber, invoice.invoiceNumber),
+            DUPLICATE_CONSTANTS.INVOICE_NUMBER_WEIGHT,
+        ],
+        [
+            "invoiceDate",
+            scoreDate(candidate.invoiceDate, invoice.invoiceDate),
+            DUPLICATE_CONSTANTS.DATE_WEIGHT,
+        ],
+        [
+            "totalAmount",
+            scoreAmount(candidate.totalAmount, invoice.totalAmount),
+            DUPLICATE_CONSTANTS.AMOUNT_WEIGHT,
+        ],
+    ];
+
+    return {
+        score: fieldScores.reduce(
+            (total, [, fieldScore, weight]) => total + fieldScore * weight,
+            0,
+        ),
+        matchedFields: fieldScores
+            .filter(([, fieldScore]) => fieldScore > 0)
+            .map(([field]) => field),
+    };
+};
+
+/**
+ * Find existing invoices that fuzzily match a candidate
+ * @param candidate - New invoice (or extracted data) being checked
+ * @param history - Owner's existing invoices; the candidate itself is ignored by id
+ * @returns Matches at or above MATCH_THRESHOLD, best first
+ */
+export const findPossibleDuplicates = (
+    candidate: InvoiceCandidate,
+    history: Invoice[],
+): DuplicateMatch[] =>
+    history
+        .filter((invoice) => invoice.id !== candidate.id)
+        .map((invoice) => ({
+            invoice,
+            ...scoreInvoiceMatch(candidate, invoice),
+        }))
+        .filter(({ score }) => score >= DUPLICATE_CONSTANTS.MATCH_THRESHOLD)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, DUPLICATE_CONSTANTS.MAX_MATCHES)
+        .map(({ invoice, score, matchedFields }) => ({
+            invoiceId: invoice.id,
+            invoiceNumber: invoice.invoiceNumber,
+            supplierName: invoice.supplierName,
+            matchType: "FUZZY",
+            score: Math.min(1, score),
+            matchedFields,
+        }));
+
+/**
+ * Build the duplicate check result shown with upload results
+ */
+export const buildDuplicateCheckResult = (
+    matches: DuplicateMatch[],
+): DuplicateCheckResult => {
+    const [bestMatch] = matches;
+    return {
+        isPossibleDuplicate: !!bestMatch,
+        matches,
+        ...(bestMatch && {
+            message: AI_MESSAGES.ANOMALY_DUPLICATE_INVOICE.replace(
+                "{invoiceNumber}",
+                bestMatch.invoiceNumber ?? bestMatch.invoiceId,
+            ).replace("{supplierName}", bestMatch.supplierName ?? ""),
+        }),
+    };
+};
+
+/**
+ * Exact re-upload check: invoices whose file has the same content hash
+ * @param ctx - Caller access context (session user ID and role)
+ * @param contentHash - SHA-256 of the uploaded object
+ */
+export const checkContentHashDuplicates = async (
+    ctx: AccessContext,
+    contentHash: string,
+): Promise<DuplicateCheckResult> => {
+    const existing = await getInvoicesByContentHash(ctx, contentHash);
+    return buildDuplicateCheckResult(
+        existing
+            .slice(0, DUPLICATE_CONSTANTS.MAX_MATCHES)
+            .map(({ invoice }) => ({
+                invoiceId: invoice.id,
+                invoiceNumber: invoice.invoiceNumber,
+                supplierName: invoice.supplierName,
+                matchType: "CONTENT_HASH",
+                score: 1,
+                matchedFields: [],
+            })),
+    );
+};
+
+/**
+ * Fuzzy check of extracted data against the owner's similar invoices
+ * @param ctx - Caller access context (session user ID and role)
+ * @param candidate - Extracted invoice fields
+ * @param ownerId - Owner whose invoices are compared
+ */
+export const checkFuzzyDuplicates = async (
+    ctx: AccessContext,
+    candidate: InvoiceCandidate,
+    ownerId: string,
+): Promise<DuplicateCheckResult> =>
+    buildDuplicateCheckResult(
+        findPossibleDuplicates(
+            candidate,
+            await listSimilarInvoices(ctx, ownerId, candidate),
+        ),
+    );
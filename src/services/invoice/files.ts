@@ -0,0 +1,49 @@
+import { getInvoiceById } from "@/dal/invoice/getInvoiceById";
+import { getInvoiceFileById } from "@/dal/invoice/getInvoiceFileById";
+import { type AccessContext } from "@/schema/authSchema";
+import { type UpdateInvoiceData } from "@/schema/invoiceQueries";
+import { type InvoiceFile } from "@/schema/invoiceTables";
+import { getInvoiceS3Prefix } from "@/services/storage/aws";
+import { NotFoundError } from "@/utils/core/error";
+
+/**
+ * Invoice file ownership
+ * An invoice may only link a file its owner uploaded, so another user's file
+ * (and its S3 object) can't be pulled into GET responses or hand-off packs
+ */
+
+/**
+ * Whether a user uploaded a file; files recorded before uploads stored their
+ * owner fall back to the user's S3 key prefix
+ */
+export const isInvoiceFileOwner = (
+    file: Pick<InvoiceFile, "userId" | "s3ObjectKey">,
+    ownerId: string,
+): boolean =>
+    file.userId
+        ? file.userId === ownerId
+        : file.s3ObjectKey.startsWith(getInvoiceS3Prefix(ownerId));
+
+/**
+ * Check a file an update links to the invoice belongs to the invoice owner
+ * @param ctx - Caller access context (session user ID and role)
+ * @param invoiceId - Invoice being updated
+ * @param data - Mapped invoice input
+ * @throws NotFoundError if the invoice isn't found, or the file isn't the owner's
+ */
+export const applyInvoiceUpdateFile = async (
+    ctx: AccessContext,
+    invoiceId: string,
+    data: UpdateInvoiceData,
+): Promise<UpdateInvoiceData> => {
+    if (data.fileId === undefined) return data;
+
+    const { invoice } = await getInvoiceById(ctx, invoiceId);
+    const file = await getInvoiceFileById(data.fileId);
+    if (!file || !isInvoiceFileOwner(file, invoice.userId)) {
+        throw new NotFoundError(
+            `Invoice file with ID ${data.fileId} not found`,
+        );
+    }
+    return data;
+};
@@ -0,0 +1,39 @@
+import {
+    type InvoiceUpdateInput,
+    type ManualInvoiceInput,
+} from "@/schema/invoiceSchema";
+import { type UpdateInvoiceData } from "@/schema/invoiceQueries";
+import { parseInvoiceDate } from "@/utils/core/date";
+import { normaliseTaxId } from "@/utils/core/taxId";
+
+/**
+ * Invoice input mapping utilities
+ * Converts validated API payloads (manualInvoiceSchema / invoiceUpdateSchema)
+ * into DAL data shapes (string dates → Date objects, compact supplier tax IDs)
+ */
+
+/**
+ * Parse a validated date string into a Date, undefined when absent
+ */
+const toDate = (value?: string): Date | undefined => {
+    if (!value) return undefined;
+    const iso = parseInvoiceDate(value);
+    return iso ? new Date(iso) : undefined;
+};
+
+/**
+ * Map manual/update invoice input into DAL update data
+ */
+export const mapInvoiceInput = (
+    input: ManualInvoiceInput | InvoiceUpdateInput,
+): UpdateInvoiceData => {
+    const { invoiceDate, dueDate, supplierTaxId, ...rest } = input;
+    return {
+        ...rest,
+        ...(supplierTaxId !== undefined && {
+            supplierTaxId: normaliseTaxId(supplierTaxId),
+        }),
+        ...(invoiceDate !== undefined && { invoiceDate: toDate(invoiceDate) }),
+        ...(dueDate !== undefined && { dueDate: toDate(dueDate) }),
+    };
+};
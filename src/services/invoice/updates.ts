@@ -0,0 +1,53 @@
+import { updateInvoice } from "@/dal/invoice/updateInvoice";
+import { type AccessContext } from "@/schema/authSchema";
+import { type UpdateInvoiceData } from "@/schema/invoiceQueries";
+import { type Invoice } from "@/schema/invoiceTables";
+import { checkInvoiceAnomalies } from "@/services/ai/anomaly";
+import {
+    getInvoiceCorrections,
+    recordInvoiceCorrections,
+} from "@/services/ai/corrections";
+import { applyInvoiceUpdateCustomCategory } from "@/services/category/categories";
+import { applyInvoiceUpdateBusinessUse } from "@/services/invoice/businessUse";
+import { applyInvoiceUpdateFile } from "@/services/invoice/files";
+import { applyInvoiceUpdateSupplier } from "@/services/supplier/suppliers";
+
+/**
+ * Save an update to an existing invoice
+ * Checks a new fileId belongs to the owner, sets a custom category's parent
+ * category, re-links a changed supplier and passes the business-use
+ * percentage on to lines without their own. Changes to AI-extracted fields
+ * are compared before the write and recorded as extraction corrections once
+ * it succeeds, and anomaly detection re-runs after it
+ * @param ctx - Caller access context (session user ID and role)
+ * @param invoiceId - Invoice being updated
+ * @param input - Mapped invoice input
+ * @param options.recordCorrections - Record extraction corrections; off for
+ * changes the user didn't make by hand, such as rule application
+ * @returns Updated invoice carrying the new anomaly result
+ * @throws NotFoundError if the invoice, or a referenced file, category or supplier, isn't found
+ * @throws AccessDeniedError if the caller cannot edit the invoice owner's data
+ */
+export const saveInvoiceUpdate = async (
+    ctx: AccessContext,
+    invoiceId: string,
+    input: UpdateInvoiceData,
+    { recordCorrections = true }: { recordCorrections?: boolean } = {},
+): Promise<Invoice> => {
+    const data = await applyInvoiceUpdateSupplier(
+        ctx,
+        invoiceId,
+        await applyInvoiceUpdateCustomCategory(
+            ctx,
+            invoiceId,
+            await applyInvoiceUpdateFile(ctx, invoiceId, input),
+        ),
+    );
+    const update = await applyInvoiceUpdateBusinessUse(ctx, invoiceId, data);
+    const corrections = recordCorrections
+        ? await getInvoiceCorrections(ctx, invoiceId, update)
+        : [];
+    const invoice = await updateInvoice(ctx, invoiceId, update);
+    await recordInvoiceCorrections(ctx, invoice, corrections);
+    return checkInvoiceAnomalies(ctx, invoiceId);
+};
@@ -0,0 +1,119 @@
+import {
+    buildBASQuarterReport,
+    classifyBASInvoice,
+} from "@/services/report/bas";
+import { createInvoice } from "@/test/fixtures";
+
+describe("classifyBASInvoice", () => {
+    it("reports non-capital purchases at G11", () => {
+        expect(classifyBASInvoice(createInvoice())).toEqual({
+            label: "G11",
+            gstCreditEligible: true,
+        });
+    });
+
+    it("reports tagged or registered assets at G10", () => {
+        expect(
+            classifyBASInvoice(createInvoice({ tags: ["Capital"] })),
+        ).toMatchObject({ label: "G10" });
+        expect(
+            classifyBASInvoice(createInvoice(), new Set(["invoice-1"])),
+        ).toMatchObject({ label: "G10" });
+    });
+
+    it("reports categories without a GST credit as not eligible", () => {
+        expect(
+            classifyBASInvoice(
+                createInvoice({ category: "MEALS_ENTERTAINMENT" }),
+            ),
+        ).toEqual({ label: "G11", gstCreditEligible: false });
+    });
+
+    it("excludes invoices it cannot claim GST on", () => {
+        expect(
+            classifyBASInvoice(createInvoice({ totalAmount: null })),
+        ).toEqual({ reason: "MISSING_AMOUNT" });
+        expect(classifyBASInvoice(createInvoice({ currency: "USD" }))).toEqual({
+            reason: "FOREIGN_CURRENCY",
+        });
+        expect(classifyBASInvoice(createInvoice({ taxAmount: 0 }))).toEqual({
+            reason: "NO_GST",
+        });
+        expect(classifyBASInvoice(createInvoice({ taxAmount: 20 }))).toEqual({
+            reason: "GST_EXCEEDS_MAXIMUM",
+        });
+    });
+});
+
+describe("buildBASQuarterReport", () => {
+    const report = buildBASQuarterReport(
+        [
+            createInvoice({
+                id: "stationery",
+                totalAmount: 110.55,
+                taxAmount: 10.05,
+            }),
+            createInvoice({
+                id: "laptop",
+                totalAmount: 2200,
+                taxAmount: 200,
+                tags: ["capital"],
+            }),
+            createInvoice({
+                id: "lunch",
+                category: "MEALS_ENTERTAINMENT",
+                totalAmount: 55,
+                taxAmount: 5,
+            }),
+            createInvoice({
+                id: "phone",
+                totalAmount: 220,
+                taxAmount: 20,
+                businessUsePercentage: 50,
+            }),
+            createInvoice({ id: "software", currency: "USD" }),
+        ],
+        2024,
+        1,
+    );
+
+    it("totals G10, G11 and the 1B GST credits", () => {
+        expect(report.amounts).toEqual({
+            g10: 2200,
+            g11: 385.55,
+            gstCredits: 220.05,
+        });
+    });
+
+    it("reports whole dollars with cents dropped", () => {
+        expect(report.reported).toEqual({
+            g10: 2200,
+            g11: 385,
+            gstCredits: 220,
+        });
+    });
+
+    it("claims only the business-use share of eligible GST", () => {
+        const credits = Object.fromEntries(
+            report.includedInvoices.map((invoice) => [
+                invoice.invoiceId,
+                invoice.gstCredit,
+            ]),
+        );
+        expect(credits).toEqual({
+            stationery: 10.05,
+            laptop: 200,
+            lunch: 0,
+            phone: 10,
+        });
+    });
+
+    it("lists excluded invoices with the reason", () => {
+        expect(report.excludedInvoices).toEqual([
+            expect.objectContaining({
+                invoiceId: "software",
+                reason: "FOREIGN_CURRENCY",
+            }),
+        ]);
+    });
+});
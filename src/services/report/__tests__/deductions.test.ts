@@ -0,0 +1,129 @@
+import { listAssetInvoiceIds } from "@/dal/asset/listAssetInvoiceIds";
+import { listAssets } from "@/dal/asset/listAssets";
+import { listInvoicesByDateRange } from "@/dal/invoice/listInvoicesByDateRange";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    calculateInvoiceDeduction,
+    getDeductionSummary,
+} from "@/services/report/deductions";
+import { createAsset, createInvoice } from "@/test/fixtures";
+
+jest.mock("@/dal/asset/listAssetInvoiceIds", () => ({
+    listAssetInvoiceIds: jest.fn(),
+}));
+jest.mock("@/dal/asset/listAssets", () => ({
+    listAssets: jest.fn(),
+}));
+jest.mock("@/dal/invoice/listInvoicesByDateRange", () => ({
+    listInvoicesByDateRange: jest.fn(),
+}));
+
+describe("calculateInvoiceDeduction", () => {
+    it("deducts the GST-exclusive amount when GST is claimed as a credit", () => {
+        expect(calculateInvoiceDeduction(createInvoice())).toMatchObject({
+            deductiblePercentage: 100,
+            isOverride: false,
+            claimableAmount: 100,
+            gstCredit: 10,
+            nonDeductibleAmount: 0,
+        });
+    });
+
+    it("keeps GST in the expense for categories without a credit", () => {
+        expect(
+            calculateInvoiceDeduction(
+                createInvoice({
+                    category: "MEALS_ENTERTAINMENT",
+                    totalAmount: 55,
+                    taxAmount: 5,
+                }),
+            ),
+        ).toMatchObject({
+            deductiblePercentage: 50,
+            claimableAmount: 27.5,
+            gstCredit: 0,
+            nonDeductibleAmount: 27.5,
+        });
+    });
+
+    it("counts only the business-use portion", () => {
+        expect(
+            calculateInvoiceDeduction(
+                createInvoice({
+                    totalAmount: 220,
+                    taxAmount: 20,
+                    businessUsePercentage: 50,
+                }),
+            ),
+        ).toMatchObject({
+            businessUsePercentage: 50,
+            claimableAmount: 100,
+            gstCredit: 10,
+            nonDeductibleAmount: 110,
+        });
+    });
+
+    it("applies the invoice's own deductible percentage", () => {
+        expect(
+            calculateInvoiceDeduction(
+                createInvoice({ deductiblePercentage: 0 }),
+            ),
+        ).toMatchObject({
+            deductiblePercentage: 0,
+            isOverride: true,
+            claimableAmount: 0,
+            gstCredit: 10,
+            nonDeductibleAmount: 100,
+        });
+    });
+
+    it("treats uncategorised invoices as OTHER", () => {
+        expect(
+            calculateInvoiceDeduction(createInvoice({ category: null })),
+        ).toMatchObject({ claimableAmount: 100, gstCredit: 10 });
+    });
+});
+
+describe("getDeductionSummary", () => {
+    const ctx: AccessContext = { id: "user-1", role: "USER" };
+
+    it("claims asset register invoices through depreciation, not as expenses", async () => {
+        jest.mocked(listInvoicesByDateRange).mockResolvedValue([
+            createInvoice(),
+            createInvoice({
+                id: "laptop",
+                category: "SOFTWARE_TECH",
+                subtotal: 1000,
+                taxAmount: 100,
+                totalAmount: 1100,
+            }),
+        ]);
+        jest.mocked(listAssetInvoiceIds).mockResolvedValue(["laptop"]);
+        jest.mocked(listAssets).mockResolvedValue([
+            createAsset({ invoiceId: "laptop" }),
+        ]);
+
+        const summary = await getDeductionSummary(ctx, 2024);
+
+        expect(summary.totals).toMatchObject({
+            invoiceCount: 1,
+            totalAmount: 110,
+            claimableAmount: 100,
+            gstCredits: 10,
+        });
+        expect(summary.categories.map((item) => item.category)).toEqual([
+            "OFFICE_SUPPLIES",
+        ]);
+        expect(summary.excludedInvoices).toEqual([
+            expect.objectContaining({
+                invoiceId: "laptop",
+                reason: "CAPITAL_ASSET",
+            }),
+        ]);
+        expect(summary.depreciation).toEqual({
+            assetCount: 1,
+            declineInValue: 200,
+            deductibleAmount: 200,
+        });
+    });
+});
@@ -0,0 +1,414 @@
+import { listAssetInvoiceIds } from "@/dal/asset/listAssetInvoiceIds";
+import { listInvoicesByDateRange } from "@/dal/invoice/listInvoicesByDateRange";
+import { type AccessContext } from "@/schema/authSchema";
+import { type ExportField } from "@/schema/exportSchema";
+import {
+    AUSTRALIAN_TAX_CONSTANTS,
+    FINANCIAL_CONSTANTS,
+} from "@/schema/financialSchema";
+import { type Invoice } from "@/schema/invoiceTables";
+import { DISPLAY_MESSAGES } from "@/schema/messageSchema";
+import {
+    BAS_CONSTANTS,
+    type BASAmounts,
+    type BASExclusionReason,
+    type BASPurchaseLabel,
+    type BASQuarterReport,
+    type ReportFormat,
+} from "@/schema/reportSchema";
+import {
+    createExportOptions,
+    createReportContent,
+} from "@/services/file/export";
+import {
+    getBusinessUseAmount,
+    resolveBusinessUsePercentage,
+} from "@/services/invoice/businessUse";
+import { isGSTCreditEligible } from "@/services/report/deductions";
+import { getWorkspaceUserId } from "@/utils/core/auth";
+import { getAustralianFinancialQuarterRange } from "@/utils/core/date";
+import { roundCurrency } from "@/utils/core/format";
+
+/**
+ * BAS (Business Activity Statement) purchase reporting
+ * Computes G10 capital and G11 non-capital purchases (GST inclusive) and the
+ * 1B GST credit per quarter. Only Australian GST on the business-use portion
+ * of a GST-credit eligible category (CATEGORY_DEDUCTIBILITY) is claimable, so
+ * foreign currency and GST-free invoices are excluded and listed with a
+ * reason, and other categories are reported without a credit
+ */
+
+// ===== Classification =====
+
+/**
+ * Largest GST an Australian GST-inclusive total can contain (one eleventh at 10%)
+ */
+const getMaximumGst = (totalAmount: number): number =>
+    (totalAmount * AUSTRALIAN_TAX_CONSTANTS.GST_RATE_PERCENTAGE) /
+    (100 + AUSTRALIAN_TAX_CONSTANTS.GST_RATE_PERCENTAGE);
+
+/**
+ * Capital purchases are invoices tagged as capital or linked to a registered asset
+ */
+const isCapitalPurchase = (
+    invoice: Pick<Invoice, "id" | "tags">,
+    capitalInvoiceIds: ReadonlySet<string>,
+): boolean =>
+    capitalInvoiceIds.has(invoice.id) ||
+    (Array.isArray(invoice.tags) &&
+        invoice.tags.some(
+            (tag) =>
+                typeof tag === "string" &&
+                tag.toLowerCase() === BAS_CONSTANTS.CAPITAL_PURCHASE_TAG,
+        ));
+
+/**
+ * BAS label for an invoice and whether its GST is claimed at 1B, or the
+ * reason it is excluded
+ * @param invoice - Invoice to classify
+ * @param capitalInvoiceIds - Invoices linked to an asset in the register
+ */
+export const classifyBASInvoice = (
+    invoice: Pick<
+        Invoice,
+        "id" | "category" | "currency" | "taxAmount" | "totalAmount" | "tags"
+    >,
+    capitalInvoiceIds: ReadonlySet<string> = new Set(),
+):
+    | { label: BASPurchaseLabel; gstCreditEligible: boolean }
+    | { reason: BASExclusionReason } => {
+    if (invoice.totalAmount === null) return { reason: "MISSING_AMOUNT" };
+    if (
+        (invoice.currency ?? FINANCIAL_CONSTANTS.DEFAULT_CURRENCY) !==
+        FINANCIAL_CONSTANTS.DEFAULT_CURRENCY
+    ) {
+        return { reason: "FOREIGN_CURRENCY" };
+    }
+    if (!invoice.taxAmount || invoice.taxAmount <= 0) {
+        return { reason: "NO_GST" };
+    }
+    if (
+        invoice.taxAmount >
+        getMaximumGst(invoice.totalAmount) + BAS_CONSTANTS.GST_TOLERANCE
+    ) {
+        return { reason: "GST_EXCEEDS_MAXIMUM" };
+    }
+    return {
+        label: isCapitalPurchase(invoice, capitalInvoiceIds) ? "G10" : "G11",
+        gstCreditEligible: isGSTCreditEligible(invoice),
+    };
+};
+
+// ===== Report =====
+
+/**
+ * BAS figures are reported in whole dollars with cents dropped
+ */
+const toReportedAmounts = (amounts: BASAmounts): BASAmounts => ({
+    g10: Math.floor(amounts.g10),
+    g11: Math.floor(amounts.g11),
+    gstCredits: Math.floor(amounts.gstCredits),
+});
+
+/**
+ * Build one quarter's BAS purchases from the invoices dated in it
+ * @param invoices - Invoices dated within the quarter
+ * @param financialYear - Starting year of the financial year
+ * @param quarter - Quarter of the financial year, 1-4
+ * @param capitalInvoiceIds - Invoices linked to an asset, reported at G10
+ */
+export const buildBASQuarterReport = (
+    invoices: Invoice[],
+    financialYear: number,
+    quarter: number,
+    capitalInvoiceIds: ReadonlySet<string> = new Set(),
+): BASQuarterReport => {
+    const { start, end } = getAustralianFinancialQuarterRange(
+        financialYear,
+        quarter,
+    );
+    const report: BASQuarterReport = {
+        financialYear,
+        quarter,
+        periodStart: start,
+        periodEnd: end,
+        amounts: { g10: 0, g11: 0, gstCredits: 0 },
+        reported: { g10: 0, g11: 0, gstCredits: 0 },
+        includedInvoices: [],
+        excludedInvoices: [],
+    };
+
+    invoices.forEach((invoice) => {
+        const result = classifyBASInvoice(invoice, capitalInvoiceIds);
+        if ("reason" in result) {
+            report.excludedInvoices.push({
+                invoiceId: invoice.id,
+                invoiceNumber: invoice.invoiceNumber,
+                supplierName: invoice.supplierName,
+                invoiceDate: invoice.invoiceDate,
+                currency: invoice.currency,
+                totalAmount: invoice.totalAmount,
+                taxAmount: invoice.taxAmount,
+                reason: result.reason,
+            });
+            return;
+        }
+
+        const totalAmount = invoice.totalAmount ?? 0;
+        const gstAmount = invoice.taxAmount ?? 0;
+        const gstCredit = result.gstCreditEligible
+            ? getBusinessUseAmount(gstAmount, invoice.businessUsePercentage)
+            : 0;
+        report.includedInvoices.push({
+            invoiceId: invoice.id,
+            invoiceNumber: invoice.invoiceNumber,
+            supplierName: invoice.supplierName,
+            supplierTaxId: invoice.supplierTaxId,
+            invoiceDate: invoice.invoiceDate,
+            label: result.label,
+            totalAmount,
+            gstAmount,
+            businessUsePercentage: resolveBusinessUsePercentage(
+                invoice.businessUsePercentage,
+            ),
+            gstCreditEligible: result.gstCreditEligible,
+            gstCredit,
+        });
+        if (result.label === "G10") report.amounts.g10 += totalAmount;
+        else report.amounts.g11 += totalAmount;
+        report.amounts.gstCredits += gstCredit;
+    });
+
+    report.amounts = {
+        g10: roundCurrency(report.amounts.g10),
+        g11: roundCurrency(report.amounts.g11),
+        gstCredits: roundCurrency(report.amounts.gstCredits),
+    };
+    report.reported = toReportedAmounts(report.amounts);
+    return report;
+};
+
+/**
+ * BAS purchases for one quarter, or every quarter of the financial year
+ * @param ctx - Caller access context (session user ID and role)
+ * @param financialYear - Starting year of the financial year (2024 = FY 2024-2025)
+ * @param quarter - Quarter 1-4; all quarters when omitted
+ * @param ownerId - Owner whose invoices are reported; defaults to the current workspace
+ * @throws AccessDeniedError if the caller cannot view the owner's invoices
+ */
+export const getBASReport = async (
+    ctx: AccessContext,
+    financialYear: number,
+    quarter?: number,
+    ownerId: string = getWorkspaceUserId(ctx),
+): Promise<BASQuarterReport[]> => {
+    const quarters = quarter
+        ? [quarter]
+        : Array.from(
+              { length: AUSTRALIAN_TAX_CONSTANTS.FINANCIAL_YEAR.QUARTERS },
+              (_, index) => index + 1,
+          );
+    const capitalInvoiceIds = new Set(await listAssetInvoiceIds(ctx, ownerId));
+
+    return Promise.all(
+        quarters.map(async (item) => {
+            const { start, end } = getAustralianFinancialQuarterRange(
+                financialYear,
+                item,
+            );
+            const invoices = await listInvoicesByDateRange(
+                ctx,
+                ownerId,
+                new Date(start),
+                new Date(end),
+            );
+            return buildBASQuarterReport(
+                invoices,
+                financialYear,
+                item,
+                capitalInvoiceIds,
+            );
+        }),
+    );
+};
+
+// ===== Report File =====
+
+const BAS_SUMMARY_FIELDS: ExportField[] = [
+    {
+        key: "period",
+        label: DISPLAY_MESSAGES.REPORT_PERIOD,
+        type: "TEXT",
+        included: true,
+    },
+    {
+        key: "label",
+        label: DISPLAY_MESSAGES.REPORT_LABEL,
+        type: "TEXT",
+        included: true,
+    },
+    {
+        key: "description",
+        label: DISPLAY_MESSAGES.REPORT_DESCRIPTION,
+        type: "TEXT",
+        included: true,
+    },
+    {
+        key: "amount",
+        label: DISPLAY_MESSAGES.REPORT_AMOUNT,
+        type: "CURRENCY",
+        included: true,
+    },
+    {
+        key: "reportedAmount",
+        label: DISPLAY_MESSAGES.REPORT_REPORTED_AMOUNT,
+        type: "CURRENCY",
+        included: true,
+    },
+];
+
+const BAS_INCLUDED_FIELDS: ExportField[] = [
+    {
+        key: "period",
+        label: DISPLAY_MESSAGES.REPORT_PERIOD,
+        type: "TEXT",
+        included: true,
+    },
+    { key: "label", label: "Label", type: "TEXT", included: true },
+    { key: "invoiceDate", label: "Invoice Date", type: "DATE", included: true },
+    { key: "supplierName", label: "Supplier", type: "TEXT", included: true },
+    {
+        key: "supplierTaxId",
+        label: "Supplier Tax ID",
+        type: "TEXT",
+        included: true,
+    },
+    {
+        key: "invoiceNumber",
+        label: "Invoice Number",
+        type: "TEXT",
+        included: true,
+    },
+    {
+        key: "totalAmount",
+        label: "Total Amount",
+        type: "CURRENCY",
+        included: true,
+    },
+    { key: "gstAmount", label: "GST", type: "CURRENCY", included: true },
+    {
+        key: "businessUsePercentage",
+        label: DISPLAY_MESSAGES.REPORT_BUSINESS_USE,
+        type: "NUMBER",
+        included: true,
+    },
+    {
+        key: "gstCredit",
+        label: DISPLAY_MESSAGES.BAS_1B,
+        type: "CURRENCY",
+        included: true,
+    },
+];
+
+const BAS_EXCLUDED_FIELDS: ExportField[] = [
+    {
+        key: "period",
+        label: DISPLAY_MESSAGES.REPORT_PERIOD,
+        type: "TEXT",
+        included: true,
+    },
+    { key: "invoiceDate", label: "Invoice Date", type: "DATE", included: true },
+    { key: "supplierName", label: "Supplier", type: "TEXT", included: true },
+    {
+        key: "invoiceNumber",
+        label: "Invoice Number",
+        type: "TEXT",
+        included: true,
+    },
+    { key: "currency", label: "Currency", type: "TEXT", included: true },
+    // Amounts may be in a foreign currency, so they are not formatted as AUD
+    {
+        key: "invoiceTotal",
+        label: "Total Amount",
+        type: "NUMBER",
+        included: true,
+    },
+    { key: "invoiceTax", label: "Tax Amount", type: "NUMBER", included: true },
+    {
+        key: "reason",
+        label: DISPLAY_MESSAGES.REPORT_REASON,
+        type: "TEXT",
+        included: true,
+    },
+];
+
+const getPeriodName = (report: BASQuarterReport): string =>
+    DISPLAY_MESSAGES.BAS_PERIOD.replace(
+        "{quarter}",
+        String(report.quarter),
+    ).replace(
+        "{financialYear}",
+        `${report.financialYear}-${report.financialYear + 1}`,
+    );
+
+/**
+ * Write BAS reports as a summary, included invoices and excluded invoices
+ * (with reasons) in Excel or CSV
+ * @param reports - Quarter reports from getBASReport
+ * @param format - Report file format
+ */
+export const createBASReportFile = async (
+    reports: BASQuarterReport[],
+    format: ReportFormat,
+): Promise<Buffer> => {
+    const summaryRows = reports.flatMap((report) => {
+        const period = getPeriodName(report);
+        return [
+            ["G10", DISPLAY_MESSAGES.BAS_G10, "g10"],
+            ["G11", DISPLAY_MESSAGES.BAS_G11, "g11"],
+            ["1B", DISPLAY_MESSAGES.BAS_1B, "gstCredits"],
+        ].map(([label, description, key]) => ({
+            period,
+            label,
+            description,
+            amount: report.amounts[key as keyof BASAmounts],
+            reportedAmount: report.reported[key as keyof BASAmounts],
+        }));
+    });
+
+    return createReportContent(
+        [
+            {
+                name: DISPLAY_MESSAGES.BAS_SUMMARY_SHEET,
+                fields: BAS_SUMMARY_FIELDS,
+                data: summaryRows,
+            },
+            {
+                name: DISPLAY_MESSAGES.BAS_INCLUDED_SHEET,
+                fields: BAS_INCLUDED_FIELDS,
+                data: reports.flatMap((report) =>
+                    report.includedInvoices.map((invoice) => ({
+                        period: getPeriodName(report),
+                        ...invoice,
+                    })),
+                ),
+            },
+            {
+                name: DISPLAY_MESSAGES.BAS_EXCLUDED_SHEET,
+                fields: BAS_EXCLUDED_FIELDS,
+                data: reports.flatMap((report) =>
+                    report.excludedInvoices.map((invoice) => ({
+                        period: getPeriodName(report),
+                        ...invoice,
+                        invoiceTotal: invoice.totalAmount,
+                        invoiceTax: invoice.taxAmount,
+                        reason: DISPLAY_MESSAGES[
+                            `BAS_EXCLUDED_${invoice.reason}`
+                        ],
+                    })),
+                ),
+            },
+        ],
+        createExportOptions(format),
+    );
+};
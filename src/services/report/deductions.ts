@@ -0,0 +1,463 @@
+import { listAssetInvoiceIds } from "@/dal/asset/listAssetInvoiceIds";
+import { listInvoicesByDateRange } from "@/dal/invoice/listInvoicesByDateRange";
+import { type DepreciationYearSchedule } from "@/schema/assetSchema";
+import { type AccessContext } from "@/schema/authSchema";
+import { type ExportField } from "@/schema/exportSchema";
+import { FINANCIAL_CONSTANTS } from "@/schema/financialSchema";
+import {
+    INVOICE_CATEGORIES,
+    InvoiceCategoryEnum,
+    type InvoiceCategory,
+} from "@/schema/invoiceSchema";
+import { type Invoice } from "@/schema/invoiceTables";
+import { DISPLAY_MESSAGES } from "@/schema/messageSchema";
+import {
+    CATEGORY_DEDUCTIBILITY,
+    type DeductionCategorySummary,
+    type DeductionDepreciation,
+    type DeductionInvoice,
+    type DeductionSummary,
+    type DeductionTotals,
+    type ReportFormat,
+} from "@/schema/reportSchema";
+import { getDepreciationYearSchedule } from "@/services/asset/depreciation";
+import {
+    createExportOptions,
+    createReportContent,
+} from "@/services/file/export";
+import {
+    getBusinessUseAmount,
+    resolveBusinessUsePercentage,
+} from "@/services/invoice/businessUse";
+import { getWorkspaceUserId } from "@/utils/core/auth";
+import { getAustralianFinancialYearRangeByYear } from "@/utils/core/date";
+import { roundCurrency } from "@/utils/core/format";
+
+/**
+ * Financial-year tax deduction summary
+ * Applies the invoice's business-use percentage and each category's
+ * deductibility rule (CATEGORY_DEDUCTIBILITY), or the invoice's own override,
+ * to split every AUD invoice into the claimable deduction, the GST credit and
+ * the non-deductible remainder. Invoices that bought an asset in the register
+ * are claimed through its depreciation instead, so they are left out and the
+ * year's depreciation is reported alongside
+ */
+
+// ===== Calculation =====
+
+const isAustralianCurrency = (invoice: Pick<Invoice, "currency">): boolean =>
+    (invoice.currency ?? FINANCIAL_CONSTANTS.DEFAULT_CURRENCY) ===
+    FINANCIAL_CONSTANTS.DEFAULT_CURRENCY;
+
+/**
+ * Category whose rule applies; uncategorised invoices fall back to OTHER
+ */
+const getDeductionCategory = (
+    invoice: Pick<Invoice, "category">,
+): InvoiceCategory => invoice.category ?? "OTHER";
+
+/**
+ * Whether GST on the invoice's category can be claimed as a BAS credit
+ */
+export const isGSTCreditEligible = (
+    invoice: Pick<Invoice, "category">,
+): boolean =>
+    CATEGORY_DEDUCTIBILITY[getDeductionCategory(invoice)].gstCreditEligible;
+
+/**
+ * Split one AUD invoice into claimable, GST credit and non-deductible amounts
+ * Only the business-use portion counts. GST on it is claimed on the BAS for
+ * GST-credit eligible categories, so only the GST-exclusive amount is
+ * deducted; otherwise the GST is part of the expense
+ */
+export const calculateInvoiceDeduction = (
+    invoice: Invoice,
+): DeductionInvoice => {
+    const rule = CATEGORY_DEDUCTIBILITY[getDeductionCategory(invoice)];
+    const isOverride = invoice.deductiblePercentage !== null;
+    const deductiblePercentage =
+        invoice.deductiblePercentage ?? rule.deductiblePercentage;
+    const businessUsePercentage = resolveBusinessUsePercentage(
+        invoice.businessUsePercentage,
+    );
+    const totalAmount = invoice.totalAmount ?? 0;
+    const gstAmount = Math.max(invoice.taxAmount ?? 0, 0);
+
+    const gstCredit = rule.gstCreditEligible
+        ? getBusinessUseAmount(gstAmount, businessUsePercentage)
+        : 0;
+    const claimableAmount = roundCurrency(
+        ((getBusinessUseAmount(totalAmount, businessUsePercentage) -
+            gstCredit) *
+            deductiblePercentage) /
+            100,
+    );
+
+    return {
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        supplierName: invoice.supplierName,
+        invoiceDate: invoice.invoiceDate,
+        totalAmount,
+        gstAmount,
+        businessUsePercentage,
+        deductiblePercentage,
+        isOverride,
+        deductionNote: invoice.deductionNote,
+        claimableAmount,
+        gstCredit,
+        nonDeductibleAmount: roundCurrency(
+            totalAmount - claimableAmount - gstCredit,
+        ),
+    };
+};
+
+const emptyTotals = (): DeductionTotals => ({
+    invoiceCount: 0,
+    totalAmount: 0,
+    claimableAmount: 0,
+    gstCredits: 0,
+    nonDeductibleAmount: 0,
+});
+
+const addToTotals = (
+    totals: DeductionTotals,
+    invoice: DeductionInvoice,
+): DeductionTotals => ({
+    invoiceCount: totals.invoiceCount + 1,
+    totalAmount: roundCurrency(totals.totalAmount + invoice.totalAmount),
+    claimableAmount: roundCurrency(
+        totals.claimableAmount + invoice.claimableAmount,
+    ),
+    gstCredits: roundCurrency(totals.gstCredits + invoice.gstCredit),
+    nonDeductibleAmount: roundCurrency(
+        totals.nonDeductibleAmount + invoice.nonDeductibleAmount,
+    ),
+});
+
+// ===== Summary =====
+
+const toDeductionDepreciation = (
+    schedule: DepreciationYearSchedule | undefined,
+): DeductionDepreciation => ({
+    assetCount: schedule?.assets.length ?? 0,
+    declineInValue: schedule?.totals.declineInValue ?? 0,
+    deductibleAmount: schedule?.totals.deductibleAmount ?? 0,
+});
+
+/**
+ * Build the deduction summary from the invoices dated in the financial year
+ * @param invoices - Invoices dated within the financial year
+ * @param financialYear - Starting year of the financial year
+ * @param capitalInvoiceIds - Invoices linked to an asset, claimed through depreciation
+ * @param depreciation - Asset register depreciation for the financial year
+ */
+export const buildDeductionSummary = (
+    invoices: Invoice[],
+    financialYear: number,
+    capitalInvoiceIds: ReadonlySet<string> = new Set(),
+    depreciation?: DepreciationYearSchedule,
+): DeductionSummary => {
+    const { start, end } = getAustralianFinancialYearRangeByYear(financialYear);
+    const summary: DeductionSummary = {
+        financialYear,
+        periodStart: start,
+        periodEnd: end,
+        totals: emptyTotals(),
+        depreciation: toDeductionDepreciation(depreciation),
+        categories: [],
+        excludedInvoices: [],
+    };
+    const categories = new Map<InvoiceCategory, DeductionCategorySummary>();
+
+    invoices.forEach((invoice) => {
+        const reason = capitalInvoiceIds.has(invoice.id)
+            ? "CAPITAL_ASSET"
+            : invoice.totalAmount === null
+              ? "MISSING_AMOUNT"
+              : !isAustralianCurrency(invoice)
+                ? "FOREIGN_CURRENCY"
+                : null;
+        if (reason) {
+            summary.excludedInvoices.push({
+                invoiceId: invoice.id,
+                invoiceNumber: invoice.invoiceNumber,
+                supplierName: invoice.supplierName,
+                invoiceDate: invoice.invoiceDate,
+                currency: invoice.currency,
+                totalAmount: invoice.totalAmount,
+                reason,
+            });
+            return;
+        }
+
+        const category = getDeductionCategory(invoice);
+        const deduction = calculateInvoiceDeduction(invoice);
+        const current = categories.get(category) ?? {
+            ...emptyTotals(),
+            category,
+            categoryName: INVOICE_CATEGORIES[category].name,
+            rule: CATEGORY_DEDUCTIBILITY[category],
+            invoices: [],
+        };
+        categories.set(category, {
+            ...current,
+            ...addToTotals(current, deduction),
+            invoices: [...current.invoices, deduction],
+        });
+        summary.totals = addToTotals(summary.totals, deduction);
+    });
+
+    summary.categories = InvoiceCategoryEnum.flatMap(
+        (category) => categories.get(category) ?? [],
+    );
+    return summary;
+};
+
+/**
+ * Tax deduction summary for a financial year
+ * @param ctx - Caller access context (session user ID and role)
+ * @param financialYear - Starting year of the financial year (2024 = FY 2024-2025)
+ * @param ownerId - Owner whose invoices are summarised; defaults to the current workspace
+ * @throws AccessDeniedError if the caller cannot view the owner's invoices
+ */
+export const getDeductionSummary = async (
+    ctx: AccessContext,
+    financialYear: number,
+    ownerId: string = getWorkspaceUserId(ctx),
+): Promise<DeductionSummary> => {
+    const { start, end } = getAustralianFinancialYearRangeByYear(financialYear);
+    const [invoices, capitalInvoiceIds, depreciation] = await Promise.all([
+        listInvoicesByDateRange(ctx, ownerId, new Date(start), new Date(end)),
+        listAssetInvoiceIds(ctx, ownerId),
+        getDepreciationYearSchedule(ctx, financialYear, ownerId),
+    ]);
+    return buildDeductionSummary(
+        invoices,
+        financialYear,
+        new Set(capitalInvoiceIds),
+        depreciation,
+    );
+};
+
+// ===== Report File =====
+
+/**
+ * Depreciation in summary row form: the decline in value is the amount, its
+ * business-use share is claimable and the rest is not
+ */
+const toDepreciationTotals = (
+    depreciation: DeductionDepreciation,
+): Omit<DeductionTotals, "invoiceCount"> => ({
+    totalAmount: depreciation.declineInValue,
+    claimableAmount: depreciation.deductibleAmount,
+    gstCredits: 0,
+    nonDeductibleAmount: roundCurrency(
+        depreciation.declineInValue - depreciation.deductibleAmount,
+    ),
+});
+
+const addDepreciationToTotals = (
+    totals: DeductionTotals,
+    depreciation: DeductionDepreciation,
+): DeductionTotals => {
+    const amounts = toDepreciationTotals(depreciation);
+    return {
+        invoiceCount: totals.invoiceCount,
+        totalAmount: roundCurrency(totals.totalAmount + amounts.totalAmount),
+        claimableAmount: roundCurrency(
+            totals.claimableAmount + amounts.claimableAmount,
+        ),
+        gstCredits: totals.gstCredits,
+        nonDeductibleAmount: roundCurrency(
+            totals.nonDeductibleAmount + amounts.nonDeductibleAmount,
+        ),
+    };
+};
+
+const DEDUCTION_AMOUNT_FIELDS: ExportField[] = [
+    {
+        key: "totalAmount",
+        label: DISPLAY_MESSAGES.DEDUCTION_TOTAL,
+        type: "CURRENCY",
+        included: true,
+    },
+    {
+        key: "deductiblePercentage",
+        label: DISPLAY_MESSAGES.DEDUCTION_PERCENTAGE,
+        type: "NUMBER",
+        included: true,
+    },
+    {
+        key: "claimableAmount",
+        label: DISPLAY_MESSAGES.DEDUCTION_CLAIMABLE,
+        type: "CURRENCY",
+        included: true,
+    },
+    {
+        key: "gstCredits",
+        label: DISPLAY_MESSAGES.DEDUCTION_GST_CREDITS,
+        type: "CURRENCY",
+        included: true,
+    },
+    {
+        key: "nonDeductibleAmount",
+        label: DISPLAY_MESSAGES.DEDUCTION_NON_DEDUCTIBLE,
+        type: "CURRENCY",
+        included: true,
+    },
+];
+
+const DEDUCTION_SUMMARY_FIELDS: ExportField[] = [
+    {
+        key: "categoryName",
+        label: DISPLAY_MESSAGES.DEDUCTION_CATEGORY,
+        type: "TEXT",
+        included: true,
+    },
+    {
+        key: "invoiceCount",
+        label: DISPLAY_MESSAGES.DEDUCTION_INVOICE_COUNT,
+        type: "NUMBER",
+        included: true,
+    },
+    ...DEDUCTION_AMOUNT_FIELDS,
+    {
+        key: "notes",
+        label: DISPLAY_MESSAGES.DEDUCTION_NOTES,
+        type: "TEXT",
+        included: true,
+    },
+];
+
+const DEDUCTION_INVOICE_FIELDS: ExportField[] = [
+    {
+        key: "categoryName",
+        label: DISPLAY_MESSAGES.DEDUCTION_CATEGORY,
+        type: "TEXT",
+        included: true,
+    },
+    { key: "invoiceDate", label: "Invoice Date", type: "DATE", included: true },
+    { key: "supplierName", label: "Supplier", type: "TEXT", included: true },
+    {
+        key: "invoiceNumber",
+        label: "Invoice Number",
+        type: "TEXT",
+        included: true,
+    },
+    {
+        key: "businessUsePercentage",
+        label: DISPLAY_MESSAGES.REPORT_BUSINESS_USE,
+        type: "NUMBER",
+        included: true,
+    },
+    ...DEDUCTION_AMOUNT_FIELDS,
+    {
+        key: "isOverride",
+        label: DISPLAY_MESSAGES.DEDUCTION_OVERRIDE,
+        type: "BOOLEAN",
+        included: true,
+    },
+    {
+        key: "deductionNote",
+        label: DISPLAY_MESSAGES.DEDUCTION_NOTES,
+        type: "TEXT",
+        included: true,
+    },
+];
+
+const DEDUCTION_EXCLUDED_FIELDS: ExportField[] = [
+    { key: "invoiceDate", label: "Invoice Date", type: "DATE", included: true },
+    { key: "supplierName", label: "Supplier", type: "TEXT", included: true },
+    {
+        key: "invoiceNumber",
+        label: "Invoice Number",
+        type: "TEXT",
+        included: true,
+    },
+    { key: "currency", label: "Currency", type: "TEXT", included: true },
+    // Amounts may be in a foreign currency, so they are not formatted as AUD
+    {
+        key: "invoiceTotal",
+        label: "Total Amount",
+        type: "NUMBER",
+        included: true,
+    },
+    {
+        key: "reason",
+        label: DISPLAY_MESSAGES.REPORT_REASON,
+        type: "TEXT",
+        included: true,
+    },
+];
+
+/**
+ * Write the deduction summary as per-category totals, supporting invoices and
+ * excluded invoices (with reasons) in Excel or CSV. Depreciation has its own
+ * summary row and is included in the grand total
+ * @param summary - Summary from getDeductionSummary
+ * @param format - Report file format
+ */
+export const createDeductionSummaryFile = async (
+    summary: DeductionSummary,
+    format: ReportFormat,
+): Promise<Buffer> =>
+    createReportContent(
+        [
+            {
+                name: DISPLAY_MESSAGES.DEDUCTION_SUMMARY_SHEET,
+                fields: DEDUCTION_SUMMARY_FIELDS,
+                data: [
+                    ...summary.categories.map((category) => ({
+                        ...category,
+                        deductiblePercentage:
+                            category.rule.deductiblePercentage,
+                        notes: category.rule.notes,
+                    })),
+                    ...(summary.depreciation.assetCount > 0
+                        ? [
+                              {
+                                  categoryName:
+                                      DISPLAY_MESSAGES.DEDUCTION_DEPRECIATION,
+                                  ...toDepreciationTotals(summary.depreciation),
+                                  notes: DISPLAY_MESSAGES.DEDUCTION_DEPRECIATION_NOTES.replace(
+                                      "{count}",
+                                      String(summary.depreciation.assetCount),
+                                  ),
+                              },
+                          ]
+                        : []),
+                    {
+                        categoryName: DISPLAY_MESSAGES.SUMMARY_GRAND_TOTAL,
+                        ...addDepreciationToTotals(
+                            summary.totals,
+                            summary.depreciation,
+                        ),
+                    },
+                ],
+            },
+            {
+                name: DISPLAY_MESSAGES.DEDUCTION_INVOICES_SHEET,
+                fields: DEDUCTION_INVOICE_FIELDS,
+                data: summary.categories.flatMap((category) =>
+                    category.invoices.map((invoice) => ({
+                        categoryName: category.categoryName,
+                        ...invoice,
+                        gstCredits: invoice.gstCredit,
+                    })),
+                ),
+            },
+            {
+                name: DISPLAY_MESSAGES.DEDUCTION_EXCLUDED_SHEET,
+                fields: DEDUCTION_EXCLUDED_FIELDS,
+                data: summary.excludedInvoices.map((invoice) => ({
+                    ...invoice,
+                    invoiceTotal: invoice.totalAmount,
+                    reason: DISPLAY_MESSAGES[
+                        `DEDUCTION_EXCLUDED_${invoice.reason}`
+                    ],
+                })),
+            },
+        ],
+        createExportOptions(format),
+    );
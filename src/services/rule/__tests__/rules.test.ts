@@ -0,0 +1,182 @@
+import { getInvoicesByUserId } from "@/dal/invoice/getInvoicesByUserId";
+import { listLineItemDescriptionsByUserId } from "@/dal/invoice/listLineItemDescriptionsByUserId";
+import { getRuleById } from "@/dal/rule/getRuleById";
+import { type AccessContext } from "@/schema/authSchema";
+import { type CategorisationRule } from "@/schema/ruleTables";
+import { saveInvoiceUpdate } from "@/services/invoice/updates";
+import {
+    applyRuleToInvoices,
+    evaluateRules,
+    matchesRule,
+} from "@/services/rule/rules";
+import { createInvoice } from "@/test/fixtures";
+
+jest.mock("@/dal/invoice/getInvoicesByUserId", () => ({
+    getInvoicesByUserId: jest.fn(),
+}));
+jest.mock("@/dal/invoice/listLineItemDescriptionsByUserId", () => ({
+    listLineItemDescriptionsByUserId: jest.fn(),
+}));
+jest.mock("@/dal/rule/getRuleById", () => ({
+    getRuleById: jest.fn(),
+}));
+jest.mock("@/services/invoice/updates", () => ({
+    saveInvoiceUpdate: jest.fn(),
+}));
+
+const createRule = (
+    overrides: Partial<CategorisationRule> = {},
+): CategorisationRule => ({
+    id: "rule-1",
+    userId: "user-1",
+    name: "Rule",
+    priority: 100,
+    enabled: true,
+    conditions: {},
+    actions: {},
+    createdAt: new Date("2024-08-01T00:00:00"),
+    updatedAt: new Date("2024-08-01T00:00:00"),
+    ...overrides,
+});
+
+describe("matchesRule", () => {
+    it("requires every condition the rule sets", () => {
+        const rule = createRule({
+            conditions: {
+                supplierName: "Officeworks",
+                amountMin: 50,
+                currency: "AUD",
+            },
+        });
+
+        expect(
+            matchesRule(rule, {
+                supplierName: "Officeworks Pty Ltd",
+                totalAmount: 110,
+                currency: "aud",
+            }),
+        ).toBe(true);
+        expect(
+            matchesRule(rule, {
+                supplierName: "Officeworks Pty Ltd",
+                totalAmount: 20,
+                currency: "AUD",
+            }),
+        ).toBe(false);
+    });
+
+    it("matches keywords in the description or line items", () => {
+        const rule = createRule({ conditions: { keywords: ["toner"] } });
+
+        expect(matchesRule(rule, { description: "Printer TONER" })).toBe(true);
+        expect(
+            matchesRule(rule, {
+                description: "Order 1234",
+                itemDescriptions: ["Paper", "Toner cartridge"],
+            }),
+        ).toBe(true);
+        expect(matchesRule(rule, { description: "Paper" })).toBe(false);
+    });
+});
+
+describe("evaluateRules", () => {
+    const subject = { supplierName: "Officeworks", totalAmount: 110 };
+
+    it("lets the lowest priority number decide each field", () => {
+        const { actions, hits } = evaluateRules(
+            [
+                createRule({
+                    id: "late",
+                    name: "Late",
+                    priority: 200,
+                    actions: {
+                        category: "OTHER",
+                        tags: ["office"],
+                        businessUsePercentage: 50,
+                    },
+                }),
+                createRule({
+                    id: "early",
+                    name: "Early",
+                    priority: 10,
+                    actions: {
+                        category: "OFFICE_SUPPLIES",
+                        tags: ["supplies"],
+                    },
+                }),
+            ],
+            subject,
+        );
+
+        expect(actions).toEqual({
+            category: "OFFICE_SUPPLIES",
+            tags: ["supplies", "office"],
+            businessUsePercentage: 50,
+        });
+        expect(hits).toEqual([
+            { ruleId: "early", name: "Early", fields: ["category", "tags"] },
+            {
+                ruleId: "late",
+                name: "Late",
+                fields: ["tags", "businessUsePercentage"],
+            },
+        ]);
+    });
+
+    it("skips disabled and non-matching rules", () => {
+        const { actions, hits } = evaluateRules(
+            [
+                createRule({
+                    id: "disabled",
+                    priority: 1,
+                    enabled: false,
+                    actions: { category: "OTHER" },
+                }),
+                createRule({
+                    id: "other-supplier",
+                    priority: 2,
+                    conditions: { supplierName: "Bunnings" },
+                    actions: { category: "REPAIRS_MAINTENANCE" },
+                }),
+                createRule({
+                    id: "office",
+                    priority: 3,
+                    actions: { category: "OFFICE_SUPPLIES" },
+                }),
+            ],
+            subject,
+        );
+
+        expect(actions).toEqual({ category: "OFFICE_SUPPLIES" });
+        expect(hits.map((hit) => hit.ruleId)).toEqual(["office"]);
+    });
+});
+
+describe("applyRuleToInvoices", () => {
+    const ctx: AccessContext = { id: "user-1", role: "USER" };
+
+    beforeEach(() => {
+        jest.mocked(getRuleById).mockResolvedValue(
+            createRule({
+                conditions: { supplierName: "Officeworks" },
+                actions: { category: "SOFTWARE_TECH" },
+            }),
+        );
+        jest.mocked(listLineItemDescriptionsByUserId).mockResolvedValue([]);
+        jest.mocked(getInvoicesByUserId).mockResolvedValue([
+            { invoice: createInvoice(), file: null },
+        ]);
+    });
+
+    it("saves rule changes without recording them as corrections", async () => {
+        const result = await applyRuleToInvoices(ctx, "rule-1", false);
+
+        expect(result.invoices).toHaveLength(1);
+        expect(saveInvoiceUpdate).toHaveBeenCalledWith(
+            ctx,
+            "invoice-1",
+            { category: "SOFTWARE_TECH" },
+            { recordCorrections: false },
+        );
+    });
+});
@@ -0,0 +1,378 @@
+import { getInvoicesByUserId } from "@/dal/invoice/getInvoicesByUserId";
+import { listLineItemDescriptionsByUserId } from "@/dal/invoice/listLineItemDescriptionsByUserId";
+import { getRuleById } from "@/dal/rule/getRuleById";
+import { listRules } from "@/dal/rule/listRules";
+import { type ExtractedInvoiceData } from "@/schema/aiSchema";
+import { type AccessContext } from "@/schema/authSchema";
+import { type UpdateInvoiceData } from "@/schema/invoiceQueries";
+import { type Invoice } from "@/schema/invoiceTables";
+import { type CategorisationRule } from "@/schema/ruleTables";
+import {
+    type RuleActionField,
+    type RuleActions,
+    type RuleApplyResult,
+    type RuleEvaluation,
+    type RuleFieldChange,
+    type RuleHit,
+    type RuleInvoicePreview,
+    type RuleSubject,
+} from "@/schema/ruleSchema";
+import { unlinkChangedCustomCategory } from "@/services/category/categories";
+import { saveInvoiceUpdate } from "@/services/invoice/updates";
+import { normaliseSupplierName } from "@/services/supplier/suppliers";
+import { normaliseTaxId } from "@/utils/core/taxId";
+import { logInfo } from "@/utils/sys/log";
+
+/**
+ * User categorisation rules
+ * A rule matches when every condition it sets holds (supplier name contained
+ * in the normalised supplier name, same tax ID, any keyword in the description
+ * or line items, total within the amount range, same currency). Enabled rules
+ * run in ascending priority after extraction; the first matching rule to set
+ * a field decides it, and tags from every matching rule are combined. New
+ * invoices only take rule values for fields the input leaves out
+ */
+
+// ===== Matching =====
+
+const contains = (text: string | null | undefined, term: string): boolean =>
+    !!text && text.toLowerCase().includes(term.toLowerCase());
+
+/**
+ * Whether an invoice meets all of a rule's conditions
+ * @param rule - Categorisation rule
+ * @param subject - Invoice details rules are evaluated against
+ */
+export const matchesRule = (
+    rule: Pick<CategorisationRule, "conditions">,
+    subject: RuleSubject,
+): boolean => {
+    const { supplierName, supplierTaxId, keywords, amountMin, amountMax } =
+        rule.conditions;
+
+    if (
+        supplierName &&
+        !(
+            subject.supplierName &&
+            normaliseSupplierName(subject.supplierName).includes(
+                normaliseSupplierName(supplierName),
+            )
+        )
+    ) {
+        return false;
+    }
+    if (
+        supplierTaxId &&
+        !(
+            subject.supplierTaxId?.trim() &&
+            normaliseTaxId(subject.supplierTaxId) ===
+                normaliseTaxId(supplierTaxId)
+        )
+    ) {
+        return false;
+    }
+    if (
+        keywords?.length &&
+        !keywords.some(
+            (keyword) =>
+                contains(subject.description, keyword) ||
+                (subject.itemDescriptions ?? []).some((item) =>
+                    contains(item, keyword),
+                ),
+        )
+    ) {
+        return false;
+    }
+    if (amountMin !== undefined || amountMax !== undefined) {
+        const amount = subject.totalAmount;
+        if (amount === null || amount === undefined) return false;
+        if (amountMin !== undefined && amount < amountMin) return false;
+        if (amountMax !== undefined && amount > amountMax) return false;
+    }
+    return (
+        !rule.conditions.currency ||
+        subject.currency?.toUpperCase() === rule.conditions.currency
+    );
+};
+
+/**
+ * Combined actions of the enabled rules an invoice matches
+ * @param rules - Owner's rules (any order)
+ * @param subject - Invoice details rules are evaluated against
+ */
+export const evaluateRules = (
+    rules: CategorisationRule[],
+    subject: RuleSubject,
+): RuleEvaluation => {
+    const hits: RuleHit[] = [];
+    const actions: RuleActions = {};
+
+    const ordered = rules
+        .filter((rule) => rule.enabled)
+        .sort((a, b) => a.priority - b.priority);
+    for (const rule of ordered) {
+        if (!matchesRule(rule, subject)) continue;
+
+        const fields: RuleActionField[] = [];
+        if (rule.actions.category && !actions.category) {
+            actions.category = rule.actions.category;
+            fields.push("category");
+        }
+        if (rule.actions.tags?.length) {
+            actions.tags = [
+                ...new Set([...(actions.tags ?? []), ...rule.actions.tags]),
+            ];
+            fields.push("tags");
+        }
+        if (
+            rule.actions.businessUsePercentage !== undefined &&
+            actions.businessUsePercentage === undefined
+        ) {
+            actions.businessUsePercentage = rule.actions.businessUsePercentage;
+            fields.push("businessUsePercentage");
+        }
+        if (rule.actions.notes && !actions.notes) {
+            actions.notes = rule.actions.notes;
+            fields.push("notes");
+        }
+        if (rule.actions.status && !actions.status) {
+            actions.status = rule.actions.status;
+            fields.push("status");
+        }
+        hits.push({ ruleId: rule.id, name: rule.name, fields });
+    }
+
+    return { hits, actions };
+};
+
+/**
+ * Rule that decided a field, or undefined when no rule set it
+ */
+export const getRuleHitForField = (
+    evaluation: RuleEvaluation,
+    field: RuleActionField,
+): RuleHit | undefined =>
+    evaluation.hits.find((hit) => hit.fields.includes(field));
+
+/**
+ * Rule subject from extracted data or mapped invoice input
+ */
+export const toRuleSubject = (
+    data: ExtractedInvoiceData | UpdateInvoiceData,
+): RuleSubject => ({
+    supplierName: data.supplierName,
+    supplierTaxId: data.supplierTaxId,
+    description: data.description,
+    itemDescriptions: (data.items ?? []).map((item) => item.description),
+    totalAmount: data.totalAmount,
+    currency: data.currency,
+});
+
+/**
+ * Evaluate an owner's enabled rules against an invoice
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the rules
+ * @param subject - Invoice details rules are evaluated against
+ * @throws AccessDeniedError if the caller cannot view the owner's data
+ */
+export const evaluateOwnerRules = async (
+    ctx: AccessContext,
+    ownerId: string,
+    subject: RuleSubject,
+): Promise<RuleEvaluation> =>
+    evaluateRules(await listRules(ctx, ownerId, true), subject);
+
+// ===== New Invoices =====
+
+/**
+ * Apply an owner's rules to a new invoice, only filling fields the input omits
+ * Rules run before the supplier defaults, so a rule's category or
+ * business-use percentage wins over the supplier's
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the new invoice
+ * @param data - Mapped invoice input
+ */
+export const applyNewInvoiceRules = async (
+    ctx: AccessContext,
+    ownerId: string,
+    data: UpdateInvoiceData,
+): Promise<UpdateInvoiceData> => {
+    const { hits, actions } = await evaluateOwnerRules(
+        ctx,
+        ownerId,
+        toRuleSubject(data),
+    );
+    if (hits.length === 0) return data;
+
+    const usesRuleCategory = !data.category && !data.customCategory;
+    return {
+        ...data,
+        ...(usesRuleCategory &&
+            actions.category && { category: actions.category }),
+        ...(actions.tags && {
+            tags: [...new Set([...(data.tags ?? []), ...actions.tags])],
+        }),
+        ...(data.businessUsePercentage === undefined &&
+            actions.businessUsePercentage !== undefined && {
+                businessUsePercentage: actions.businessUsePercentage,
+            }),
+        ...(data.notes === undefined &&
+            actions.notes && { notes: actions.notes }),
+        ...(data.status === undefined &&
+            actions.status && { status: actions.status }),
+    };
+};
+
+// ===== Existing Invoices =====
+
+const invoiceTags = (invoice: Invoice): string[] =>
+    Array.isArray(invoice.tags) ? (invoice.tags as string[]) : [];
+
+/**
+ * Changes a rule's actions would make to an existing invoice
+ * Category, business use and status are overwritten (a new category unlinks
+ * a custom category under another parent); tags are added and notes appended
+ * when not already present
+ */
+const diffRuleActions = (
+    invoice: Invoice,
+    actions: RuleActions,
+): { changes: RuleFieldChange[]; data: UpdateInvoiceData } => {
+    const changes: RuleFieldChange[] = [];
+    const data: UpdateInvoiceData = {};
+
+    if (actions.category && invoice.category !== actions.category) {
+        changes.push({
+            field: "category",
+            from: invoice.category,
+            to: actions.category,
+        });
+        data.category = actions.category;
+    }
+    const tags = invoiceTags(invoice);
+    const newTags = (actions.tags ?? []).filter((tag) => !tags.includes(tag));
+    if (newTags.length) {
+        data.tags = [...tags, ...newTags];
+        changes.push({ field: "tags", from: tags, to: data.tags });
+    }
+    if (
+        actions.businessUsePercentage !== undefined &&
+        invoice.businessUsePercentage !== actions.businessUsePercentage
+    ) {
+        changes.push({
+            field: "businessUsePercentage",
+            from: invoice.businessUsePercentage,
+            to: actions.businessUsePercentage,
+        });
+        data.businessUsePercentage = actions.businessUsePercentage;
+    }
+    if (actions.notes && !invoice.notes?.includes(actions.notes)) {
+        data.notes = invoice.notes
+            ? `${invoice.notes}\n${actions.notes}`
+            : actions.notes;
+        changes.push({ field: "notes", from: invoice.notes, to: data.notes });
+    }
+    if (actions.status && invoice.status !== actions.status) {
+        changes.push({
+            field: "status",
+            from: invoice.status,
+            to: actions.status,
+        });
+        data.status = actions.status;
+    }
+
+    return { changes, data: unlinkChangedCustomCategory(invoice, data) };
+};
+
+/**
+ * Rule subject for a saved invoice and its line item descriptions
+ */
+const toInvoiceRuleSubject = (
+    invoice: Invoice,
+    itemDescriptions: (string | null)[],
+): RuleSubject => ({
+    supplierName: invoice.supplierName,
+    supplierTaxId: invoice.supplierTaxId,
+    description: invoice.description,
+    itemDescriptions,
+    totalAmount: invoice.totalAmount,
+    currency: invoice.currency,
+});
+
+/**
+ * Apply a rule to its owner's existing invoices, or preview the changes
+ * The rule is applied on its own, whatever its priority or enabled state.
+ * Each change is saved as an invoice edit would be (saveInvoiceUpdate), one
+ * invoice at a time, so a failure leaves earlier invoices updated and the
+ * rule can be applied again. Rule changes aren't user corrections, so none
+ * are recorded
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ruleId - Rule ID
+ * @param dryRun - Only report the changes
+ * @throws NotFoundError if rule not found
+ * @throws AccessDeniedError if the caller cannot edit the rule owner's data
+ */
+export const applyRuleToInvoices = async (
+    ctx: AccessContext,
+    ruleId: string,
+    dryRun: boolean = true,
+): Promise<RuleApplyResult> => {
+    const rule = await getRuleById(ctx, ruleId, "EDIT");
+    const itemDescriptions = new Map<string, (string | null)[]>();
+    for (const item of await listLineItemDescriptionsByUserId(
+        ctx,
+        rule.userId,
+    )) {
+        itemDescriptions.set(item.invoiceId, [
+            ...(itemDescriptions.get(item.invoiceId) ?? []),
+            item.description,
+        ]);
+    }
+    const matched = (await getInvoicesByUserId(ctx, rule.userId))
+        .map(({ invoice }) => invoice)
+        .filter(
+            (invoice) =>
+                invoice.userId === rule.userId &&
+                matchesRule(
+                    rule,
+                    toInvoiceRuleSubject(
+                        invoice,
+                        itemDescriptions.get(invoice.id) ?? [],
+                    ),
+                ),
+        );
+
+    const invoices: RuleInvoicePreview[] = [];
+    for (const invoice of matched) {
+        const { changes, data } = diffRuleActions(invoice, rule.actions);
+        if (changes.length === 0) continue;
+        if (!dryRun) {
+            await saveInvoiceUpdate(ctx, invoice.id, data, {
+                recordCorrections: false,
+            });
+        }
+        invoices.push({
+            invoiceId: invoice.id,
+            invoiceNumber: invoice.invoiceNumber,
+            supplierName: invoice.supplierName,
+            invoiceDate: invoice.invoiceDate,
+            changes,
+        });
+    }
+
+    if (!dryRun) {
+        logInfo("Categorisation rule applied to existing invoices", {
+            ruleId,
+            userId: rule.userId,
+            changedCount: invoices.length,
+        });
+    }
+
+    return {
+        ruleId,
+        dryRun,
+        matchedCount: matched.length,
+        changedCount: invoices.length,
+        invoices,
+    };
+};
@@ -0,0 +1,96 @@
+import { Readable } from "stream";
+import { EXPORT_CONSTANTS } from "@/schema/exportSchema";
+import { uploadStreamToS3 } from "@/services/storage/aws";
+
+const mockSend = jest.fn();
+
+jest.mock("@aws-sdk/client-s3", () => {
+    const command = (name: string) =>
+        class {
+            name = name;
+            constructor(public input: Record<string, unknown>) {}
+        };
+    return {
+        S3Client: jest.fn(() => ({ send: mockSend })),
+        PutObjectCommand: command("PutObject"),
+        CreateMultipartUploadCommand: command("CreateMultipartUpload"),
+        UploadPartCommand: command("UploadPart"),
+        CompleteMultipartUploadCommand: command("CompleteMultipartUpload"),
+        AbortMultipartUploadCommand: command("AbortMultipartUpload"),
+    };
+});
+
+const sentCommands = () =>
+    mockSend.mock.calls.map(([command]) => command.name as string);
+
+const PART_SIZE = EXPORT_CONSTANTS.UPLOAD_PART_SIZE;
+
+describe("uploadStreamToS3", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockSend.mockImplementation(async (command) =>
+            command.name === "CreateMultipartUpload"
+                ? { UploadId: "upload-1" }
+                : { ETag: `"${command.input.PartNumber}"` },
+        );
+    });
+
+    it("puts content that fits in one part as a single object", async () => {
+        const result = await uploadStreamToS3(
+            "exports/user-1/job-1/invoices.csv",
+            Readable.from([Buffer.from("a,b\n"), Buffer.from("1,2")]),
+            "text/csv",
+        );
+
+        expect(result).toEqual({ success: true, fileSize: 7 });
+        expect(sentCommands()).toEqual(["PutObject"]);
+        expect(mockSend.mock.calls[0][0].input.Body.toString()).toBe(
+            "a,b\n1,2",
+        );
+    });
+
+    it("uploads larger content in parts", async () => {
+        const result = await uploadStreamToS3(
+            "exports/user-1/job-1/invoices.zip",
+            Readable.from([Buffer.alloc(PART_SIZE), Buffer.alloc(10)]),
+            "application/zip",
+        );
+
+        expect(result).toEqual({ success: true, fileSize: PART_SIZE + 10 });
+        expect(sentCommands()).toEqual([
+            "CreateMultipartUpload",
+            "UploadPart",
+            "UploadPart",
+            "CompleteMultipartUpload",
+        ]);
+        expect(mockSend.mock.calls[3][0].input.MultipartUpload).toEqual({
+            Parts: [
+                { ETag: '"1"', PartNumber: 1 },
+                { ETag: '"2"', PartNumber: 2 },
+            ],
+        });
+    });
+
+    it("aborts the multipart upload and reports the body's error", async () => {
+        const body = Readable.from(
+            (async function* () {
+                yield Buffer.alloc(PART_SIZE);
+                throw new Error("query failed");
+            })(),
+        );
+
+        const result = await uploadStreamToS3(
+            "exports/user-1/job-1/invoices.zip",
+            body,
+            "application/zip",
+        );
+
+        expect(result).toEqual({ success: false, error: "query failed" });
+        expect(sentCommands()).toEqual([
+            "CreateMultipartUpload",
+            "UploadPart",
+            "AbortMultipartUpload",
+        ]);
+        expect(body.destroyed).toBe(true);
+    });
+});
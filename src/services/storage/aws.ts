@@ -1,5 +1,6 @@
 import { Readable } from "stream";
 import { env } from "@/schema/envSchema";
+import { EXPORT_CONSTANTS } from "@/schema/exportSchema";
 import { ERROR_MESSAGES } from "@/schema/messageSchema";
 import { logError, logInfo } from "@/utils/sys/log";
 
@@ -48,6 +49,12 @@ const initS3Client = async (): Promise<unknown> => {
     }
 };
 
+/**
+ * S3 key prefix under which a user's invoice files are stored
+ */
+export const getInvoiceS3Prefix = (userId: string): string =>
+    `invoices/${userId}/`;
+
 /**
  * Generate S3 object key for invoice file
  * Pattern: invoices/{userId}/{year}/{month}/{filename}
@@ -73,7 +80,199 @@ export const generateS3ObjectKey = (
             .replace(/[^a-zA-Z0-9._-]/g, "_")
             .replace(/_{2,}/g, "_");
 
-    return `invoices/${userId}/${year}/${month}/${sanitizedFileName}`;
+    return `${getInvoiceS3Prefix(userId)}${year}/${month}/${sanitizedFileName}`;
+};
+
+/**
+ * Generate S3 object key for a generated export file
+ * Pattern: exports/{userId}/{jobId}/{fileName}
+ */
+export const generateExportS3ObjectKey = (
+    userId: string,
+    jobId: string,
+    fileName: string,
+): string =>
+    `exports/${userId}/${jobId}/${fileName.replace(/[^a-zA-Z0-9._-]/g, "_")}`;
+
+/**
+ * Upload server-generated content (exports, archives) to S3
+ */
+export const uploadToS3 = async (
+    s3ObjectKey: string,
+    body: Buffer,
+    contentType: string,
+): Promise<{
+    success: boolean;
+    error?: string;
+}> => {
+    try {
+        // eslint-disable-next-line unused-imports/no-unused-vars
+        const { S3Client, PutObjectCommand } = await import(
+            "@aws-sdk/client-s3"
+        );
+        const client = (await initS3Client()) as InstanceType<typeof S3Client>;
+
+        const command = new PutObjectCommand({
+            Bucket: env.AWS_S3_BUCKET,
+            Key: s3ObjectKey,
+            Body: body,
+            ContentType: contentType,
+        });
+
+        await client.send(command);
+
+        logInfo("File uploaded to S3 successfully", {
+            s3ObjectKey,
+            contentLength: body.length,
+        });
+
+        return { success: true };
+    } catch (error) {
+        logError("Failed to upload file to S3", { error, s3ObjectKey });
+        return {
+            success: false,
+            error: ERROR_MESSAGES.S3_UPLOAD_FAILED,
+        };
+    }
+};
+
+/**
+ * Upload a stream of server-generated content to S3 as it is produced
+ * Content that fits in one UPLOAD_PART_SIZE part is sent with a single
+ * PutObject; anything larger goes up as a multipart upload, one part at a
+ * time, so at most one part is held in memory. A failed multipart upload is
+ * aborted, and the body is destroyed so its producer stops
+ * @returns Uploaded size; on failure the error the body was destroyed with,
+ * if any, otherwise S3_UPLOAD_FAILED
+ */
+export const uploadStreamToS3 = async (
+    s3ObjectKey: string,
+    body: Readable,
+    contentType: string,
+): Promise<{
+    success: boolean;
+    fileSize?: number;
+    error?: string;
+}> => {
+    let uploadId: string | undefined;
+    const abortUpload = async () => {
+        if (!uploadId) return;
+        try {
+            // eslint-disable-next-line unused-imports/no-unused-vars
+            const { S3Client, AbortMultipartUploadCommand } = await import(
+                "@aws-sdk/client-s3"
+            );
+            const client = (await initS3Client()) as InstanceType<
+                typeof S3Client
+            >;
+            await client.send(
+                new AbortMultipartUploadCommand({
+                    Bucket: env.AWS_S3_BUCKET,
+                    Key: s3ObjectKey,
+                    UploadId: uploadId,
+                }),
+            );
+        } catch (error) {
+            logError("Failed to abort S3 multipart upload", {
+                error,
+                s3ObjectKey,
+                uploadId,
+            });
+        }
+    };
+
+    try {
+        const {
+            // eslint-disable-next-line unused-imports/no-unused-vars
+            S3Client,
+            PutObjectCommand,
+            CreateMultipartUploadCommand,
+            UploadPartCommand,
+            CompleteMultipartUploadCommand,
+        } = await import("@aws-sdk/client-s3");
+        const client = (await initS3Client()) as InstanceType<typeof S3Client>;
+
+        const parts: { ETag?: string; PartNumber: number }[] = [];
+        const uploadPart = async (part: Buffer) => {
+            if (!uploadId) {
+                const upload = await client.send(
+                    new CreateMultipartUploadCommand({
+                        Bucket: env.AWS_S3_BUCKET,
+                        Key: s3ObjectKey,
+                        ContentType: contentType,
+                    }),
+                );
+                uploadId = upload.UploadId;
+            }
+            const PartNumber = parts.length + 1;
+            const { ETag } = await client.send(
+                new UploadPartCommand({
+                    Bucket: env.AWS_S3_BUCKET,
+                    Key: s3ObjectKey,
+                    UploadId: uploadId,
+                    PartNumber,
+                    Body: part,
+                }),
+            );
+            parts.push({ ETag, PartNumber });
+        };
+
+        let chunks: Buffer[] = [];
+        let bufferedSize = 0;
+        let fileSize = 0;
+        for await (const chunk of body) {
+            const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+            chunks.push(buffer);
+            bufferedSize += buffer.length;
+            fileSize += buffer.length;
+            if (bufferedSize >= EXPORT_CONSTANTS.UPLOAD_PART_SIZE) {
+                await uploadPart(Buffer.concat(chunks));
+                chunks = [];
+                bufferedSize = 0;
+            }
+        }
+
+        if (uploadId) {
+            if (bufferedSize > 0) await uploadPart(Buffer.concat(chunks));
+            await client.send(
+                new CompleteMultipartUploadCommand({
+                    Bucket: env.AWS_S3_BUCKET,
+                    Key: s3ObjectKey,
+                    UploadId: uploadId,
+                    MultipartUpload: { Parts: parts },
+                }),
+            );
+        } else {
+            await client.send(
+                new PutObjectCommand({
+                    Bucket: env.AWS_S3_BUCKET,
+                    Key: s3ObjectKey,
+                    Body: Buffer.concat(chunks),
+                    ContentType: contentType,
+                }),
+            );
+        }
+
+        logInfo("Stream uploaded to S3 successfully", {
+            s3ObjectKey,
+            contentLength: fileSize,
+            parts: parts.length,
+        });
+
+        return { success: true, fileSize };
+    } catch (error) {
+        const bodyError = body.errored;
+        body.destroy();
+        await abortUpload();
+        logError("Failed to upload stream to S3", { error, s3ObjectKey });
+        return {
+            success: false,
+            error:
+                bodyError instanceof Error
+                    ? bodyError.message
+                    : ERROR_MESSAGES.S3_UPLOAD_FAILED,
+        };
+    }
 };
 
 /**
@@ -0,0 +1,82 @@
+import { deleteLegacyBusinessUseDefault } from "@/dal/supplier/deleteLegacyBusinessUseDefault";
+import { listLegacyBusinessUseDefaults } from "@/dal/supplier/listLegacyBusinessUseDefaults";
+import { updateSupplier } from "@/dal/supplier/updateSupplier";
+import { type SupplierBusinessUseDefault } from "@/schema/invoiceTables";
+import { migrateLegacyBusinessUseDefaults } from "@/services/supplier/backfill";
+import { findOrCreateSupplier } from "@/services/supplier/suppliers";
+import { createSupplier } from "@/test/fixtures";
+
+jest.mock("@/dal/supplier/deleteLegacyBusinessUseDefault", () => ({
+    deleteLegacyBusinessUseDefault: jest.fn(),
+}));
+jest.mock("@/dal/supplier/listLegacyBusinessUseDefaults", () => ({
+    listLegacyBusinessUseDefaults: jest.fn(),
+}));
+jest.mock("@/dal/supplier/updateSupplier", () => ({
+    updateSupplier: jest.fn(),
+}));
+jest.mock("@/services/supplier/suppliers", () => ({
+    findOrCreateSupplier: jest.fn(),
+}));
+
+const admin = { id: "admin", role: "ADMIN" as const };
+
+const createLegacyDefault = (
+    overrides: Partial<SupplierBusinessUseDefault>,
+): SupplierBusinessUseDefault => ({
+    id: "legacy-1",
+    userId: "user-1",
+    supplierKey: "officeworks",
+    supplierName: "Officeworks",
+    businessUsePercentage: 60,
+    createdAt: new Date("2024-08-01T00:00:00"),
+    updatedAt: new Date("2024-08-01T00:00:00"),
+    ...overrides,
+});
+
+describe("migrateLegacyBusinessUseDefaults", () => {
+    beforeEach(() => jest.clearAllMocks());
+
+    it("moves a default onto a supplier without one, then deletes the row", async () => {
+        jest.mocked(listLegacyBusinessUseDefaults).mockResolvedValue([
+            createLegacyDefault({ id: "legacy-1" }),
+        ]);
+        jest.mocked(findOrCreateSupplier).mockResolvedValue(createSupplier());
+
+        await expect(migrateLegacyBusinessUseDefaults(admin)).resolves.toBe(1);
+        expect(updateSupplier).toHaveBeenCalledWith(admin, "supplier-1", {
+            defaultBusinessUsePercentage: 60,
+        });
+        expect(deleteLegacyBusinessUseDefault).toHaveBeenCalledWith(
+            admin,
+            "legacy-1",
+        );
+    });
+
+    it("keeps the supplier's own default and deletes the skipped row", async () => {
+        jest.mocked(listLegacyBusinessUseDefaults).mockResolvedValue([
+            createLegacyDefault({ id: "legacy-1" }),
+        ]);
+        jest.mocked(findOrCreateSupplier).mockResolvedValue(
+            createSupplier({ defaultBusinessUsePercentage: 80 }),
+        );
+
+        await expect(migrateLegacyBusinessUseDefaults(admin)).resolves.toBe(0);
+        expect(updateSupplier).not.toHaveBeenCalled();
+        expect(deleteLegacyBusinessUseDefault).toHaveBeenCalledWith(
+            admin,
+            "legacy-1",
+        );
+    });
+
+    it("keeps rows that resolve to no supplier", async () => {
+        jest.mocked(listLegacyBusinessUseDefaults).mockResolvedValue([
+            createLegacyDefault({ id: "blank", supplierName: " " }),
+        ]);
+        jest.mocked(findOrCreateSupplier).mockResolvedValue(null);
+
+        await expect(migrateLegacyBusinessUseDefaults(admin)).resolves.toBe(0);
+        expect(updateSupplier).not.toHaveBeenCalled();
+        expect(deleteLegacyBusinessUseDefault).not.toHaveBeenCalled();
+    });
+});
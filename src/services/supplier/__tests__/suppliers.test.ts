@@ -0,0 +1,128 @@
+import { getSupplierById } from "@/dal/supplier/getSupplierById";
+import { type AccessContext } from "@/schema/authSchema";
+import {
+    applyNewInvoiceSupplier,
+    buildSupplierResolution,
+    matchSupplier,
+    normaliseSupplierName,
+} from "@/services/supplier/suppliers";
+import { createSupplier } from "@/test/fixtures";
+
+jest.mock("@/dal/supplier/getSupplierById", () => ({
+    getSupplierById: jest.fn(),
+}));
+
+describe("normaliseSupplierName", () => {
+    it("drops case, punctuation and trailing legal suffixes", () => {
+        expect(normaliseSupplierName("OFFICEWORKS PTY. LTD.")).toBe(
+            "officeworks",
+        );
+        expect(normaliseSupplierName("Acme Holdings Pty Limited")).toBe(
+            "acme holdings",
+        );
+    });
+
+    it("keeps a suffix that follows 'and'", () => {
+        expect(normaliseSupplierName("Smith & Co")).toBe("smith and co");
+    });
+});
+
+describe("matchSupplier", () => {
+    const suppliers = [
+        createSupplier({ id: "officeworks", taxId: "51824753556" }),
+        createSupplier({
+            id: "telstra",
+            name: "Telstra",
+            normalisedName: "telstra",
+            aliases: ["Telstra Corporation Ltd", "TELSTRA BIGPOND"],
+        }),
+    ];
+
+    it("matches on tax ID first, however it is printed", () => {
+        expect(
+            matchSupplier(suppliers, {
+                supplierName: "Unknown Name",
+                supplierTaxId: "ABN 51 824 753 556",
+            }),
+        ).toMatchObject({
+            supplier: { id: "officeworks" },
+            matchedBy: "TAX_ID",
+        });
+    });
+
+    it("matches the normalised name, then aliases", () => {
+        expect(
+            matchSupplier(suppliers, { supplierName: "Officeworks Pty Ltd" }),
+        ).toMatchObject({ supplier: { id: "officeworks" }, matchedBy: "NAME" });
+        expect(
+            matchSupplier(suppliers, { supplierName: "Telstra Bigpond" }),
+        ).toMatchObject({ supplier: { id: "telstra" }, matchedBy: "ALIAS" });
+    });
+
+    it("matches nothing without a known name or tax ID", () => {
+        expect(matchSupplier(suppliers, { supplierName: "Bunnings" })).toBe(
+            null,
+        );
+        expect(matchSupplier(suppliers, { supplierName: "  " })).toBeNull();
+    });
+});
+
+describe("buildSupplierResolution", () => {
+    it("proposes a new supplier with a normalised tax ID", () => {
+        expect(
+            buildSupplierResolution([], {
+                supplierName: " Bunnings Group Ltd ",
+                supplierTaxId: "ABN 26 008 672 179",
+                supplierAddress: "",
+            }),
+        ).toEqual({
+            supplier: null,
+            matchedBy: null,
+            proposedSupplier: {
+                name: "Bunnings Group Ltd",
+                taxId: "26008672179",
+                address: null,
+            },
+        });
+    });
+
+    it("proposes nothing without a supplier name", () => {
+        expect(buildSupplierResolution([], {}).proposedSupplier).toBeNull();
+    });
+});
+
+describe("applyNewInvoiceSupplier", () => {
+    const ctx: AccessContext = { id: "user-1", role: "USER" };
+
+    beforeEach(() => {
+        jest.mocked(getSupplierById).mockResolvedValue(
+            createSupplier({ defaultBusinessUsePercentage: 60 }),
+        );
+    });
+
+    it("applies the supplier's default business-use percentage", async () => {
+        const data = await applyNewInvoiceSupplier(ctx, "user-1", {
+            supplierId: "supplier-1",
+        });
+
+        expect(data).toMatchObject({
+            supplierName: "Officeworks",
+            businessUsePercentage: 60,
+        });
+    });
+
+    it("keeps a percentage set on the invoice, including none", async () => {
+        await expect(
+            applyNewInvoiceSupplier(ctx, "user-1", {
+                supplierId: "supplier-1",
+                businessUsePercentage: 25,
+            }),
+        ).resolves.toMatchObject({ businessUsePercentage: 25 });
+        await expect(
+            applyNewInvoiceSupplier(ctx, "user-1", {
+                supplierId: "supplier-1",
+                businessUsePercentage: null,
+            }),
+        ).resolves.toMatchObject({ businessUsePercentage: null });
+    });
+});
@@ -0,0 +1,108 @@
+import { listInvoicesWithoutSupplier } from "@/dal/invoice/listInvoicesWithoutSupplier";
+import { updateInvoice } from "@/dal/invoice/updateInvoice";
+import { deleteLegacyBusinessUseDefault } from "@/dal/supplier/deleteLegacyBusinessUseDefault";
+import { listLegacyBusinessUseDefaults } from "@/dal/supplier/listLegacyBusinessUseDefaults";
+import { updateSupplier } from "@/dal/supplier/updateSupplier";
+import { AUTH_CONSTANTS, type AccessContext } from "@/schema/authSchema";
+import { SUPPLIER_CONSTANTS } from "@/schema/supplierSchema";
+import { findOrCreateSupplier } from "@/services/supplier/suppliers";
+import { logInfo, logWarn } from "@/utils/sys/log";
+
+/**
+ * One-off supplier directory backfill for data saved before the directory
+ * existed: links existing invoices to a supplier, and moves the legacy
+ * per-supplier business-use defaults onto directory entries. Both steps are
+ * idempotent, so an interrupted run can be repeated
+ */
+
+/**
+ * Link every invoice without a supplierId to its directory entry, creating
+ * entries as findOrCreateSupplier does when an invoice is saved
+ * Supplier defaults are not applied to the existing invoices
+ * @param ctx - Admin access context
+ * @returns Number of invoices linked
+ * @throws AccessDeniedError if the caller is not an admin
+ */
+export const backfillInvoiceSuppliers = async (
+    ctx: AccessContext,
+): Promise<number> => {
+    let linked = 0;
+    let afterId: string | null = null;
+    for (;;) {
+        const batch = await listInvoicesWithoutSupplier(
+            ctx,
+            AUTH_CONSTANTS.ALL_USERS_SCOPE,
+            afterId,
+            SUPPLIER_CONSTANTS.BACKFILL_BATCH_SIZE,
+        );
+        for (const invoice of batch) {
+            const supplier = await findOrCreateSupplier(
+                ctx,
+                invoice.userId,
+                invoice,
+            );
+            if (!supplier) continue;
+            await updateInvoice(ctx, invoice.id, { supplierId: supplier.id });
+            linked += 1;
+        }
+        if (batch.length < SUPPLIER_CONSTANTS.BACKFILL_BATCH_SIZE) break;
+        afterId = batch[batch.length - 1].id;
+    }
+
+    logInfo("Invoice suppliers backfilled", { linked });
+    return linked;
+};
+
+/**
+ * Move each legacy business-use default onto its supplier's directory entry
+ * A legacy row is deleted once it is migrated, or skipped because the entry
+ * already has its own default; rows that resolve to no supplier (a blank
+ * name) are kept and logged for manual review
+ * @param ctx - Admin access context
+ * @returns Number of defaults migrated
+ * @throws AccessDeniedError if the caller is not an admin
+ */
+export const migrateLegacyBusinessUseDefaults = async (
+    ctx: AccessContext,
+): Promise<number> => {
+    const legacyDefaults = await listLegacyBusinessUseDefaults(ctx);
+    let migrated = 0;
+    let kept = 0;
+    for (const legacyDefault of legacyDefaults) {
+        const supplier = await findOrCreateSupplier(ctx, legacyDefault.userId, {
+            supplierName: legacyDefault.supplierName,
+        });
+        if (!supplier) {
+            logWarn("Legacy business-use default kept: no supplier", {
+                legacyDefaultId: legacyDefault.id,
+                userId: legacyDefault.userId,
+                supplierName: legacyDefault.supplierName,
+            });
+            kept += 1;
+            continue;
+        }
+
+        if (supplier.defaultBusinessUsePercentage === null) {
+            await updateSupplier(ctx, supplier.id, {
+                defaultBusinessUsePercentage:
+                    legacyDefault.businessUsePercentage,
+            });
+            migrated += 1;
+        } else {
+            logInfo("Legacy business-use default skipped: supplier has one", {
+                legacyDefaultId: legacyDefault.id,
+                supplierId: supplier.id,
+                legacyPercentage: legacyDefault.businessUsePercentage,
+                supplierPercentage: supplier.defaultBusinessUsePercentage,
+            });
+        }
+        await deleteLegacyBusinessUseDefault(ctx, legacyDefault.id);
+    }
+
+    logInfo("Legacy business-use defaults migrated", {
+        migrated,
+        kept,
+        total: legacyDefaults.length,
+    });
+    return migrated;
+};
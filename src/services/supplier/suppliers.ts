@@ -0,0 +1,344 @@
+import { getInvoiceById } from "@/dal/invoice/getInvoiceById";
+import { createSupplier } from "@/dal/supplier/createSupplier";
+import { getSupplierById } from "@/dal/supplier/getSupplierById";
+import { listSuppliers } from "@/dal/supplier/listSuppliers";
+import { updateSupplier } from "@/dal/supplier/updateSupplier";
+import { type AccessContext } from "@/schema/authSchema";
+import { type UpdateInvoiceData } from "@/schema/invoiceQueries";
+import { type Supplier } from "@/schema/invoiceTables";
+import {
+    type SupplierResolution,
+    type UpdateSupplierData,
+} from "@/schema/supplierQueries";
+import {
+    SUPPLIER_CONSTANTS,
+    type SupplierCandidate,
+    type SupplierInput,
+    type SupplierMatchType,
+    type SupplierUpdateInput,
+} from "@/schema/supplierSchema";
+import { AppError, NotFoundError } from "@/utils/core/error";
+import { hasValidTaxIdChecksum, normaliseTaxId } from "@/utils/core/taxId";
+
+/**
+ * Supplier directory
+ * Invoice supplier details resolve to a directory entry by tax ID, then
+ * normalised name, then alias. Extraction only proposes a new supplier;
+ * saving an invoice creates it, and a known supplier seen under another name
+ * learns that name as an alias. New invoices take the supplier's default
+ * category and business-use percentage when they don't set their own
+ */
+
+// ===== Matching =====
+
+/**
+ * Supplier name used for matching: lower case, punctuation and trailing
+ * legal suffixes dropped ("OFFICEWORKS PTY. LTD." = "officeworks"); a suffix
+ * after "and" is part of the name ("Smith & Co")
+ */
+export const normaliseSupplierName = (name: string): string => {
+    const words = name
+        .toLowerCase()
+        .replace(/&/g, " and ")
+        .replace(/[^\p{L}\p{N}]+/gu, " ")
+        .trim()
+        .split(" ")
+        .filter(Boolean);
+
+    let end = words.length;
+    while (
+        end > 1 &&
+        words[end - 2] !== "and" &&
+        (SUPPLIER_CONSTANTS.LEGAL_SUFFIXES as readonly string[]).includes(
+            words[end - 1],
+        )
+    ) {
+        end--;
+    }
+    return words.slice(0, end).join(" ") || name.trim().toLowerCase();
+};
+
+const toTaxIdKey = (taxId?: string | null): string | null =>
+    taxId?.trim() ? normaliseTaxId(taxId) : null;
+
+const hasName = (supplier: Supplier, normalisedName: string): boolean =>
+    supplier.normalisedName === normalisedName ||
+    supplier.aliases.some(
+        (alias) => normaliseSupplierName(alias) === normalisedName,
+    );
+
+/**
+ * Directory entry matching an invoice's supplier details, or null
+ * @param suppliers - Owner's supplier directory
+ * @param candidate - Supplier name and tax ID as printed on the invoice
+ */
+export const matchSupplier = (
+    suppliers: Supplier[],
+    candidate: SupplierCandidate,
+): { supplier: Supplier; matchedBy: SupplierMatchType } | null => {
+    const taxId = toTaxIdKey(candidate.supplierTaxId);
+    const byTaxId = taxId && suppliers.find((item) => item.taxId === taxId);
+    if (byTaxId) return { supplier: byTaxId, matchedBy: "TAX_ID" };
+
+    if (!candidate.supplierName?.trim()) return null;
+    const name = normaliseSupplierName(candidate.supplierName);
+    const byName = suppliers.find((item) => item.normalisedName === name);
+    if (byName) return { supplier: byName, matchedBy: "NAME" };
+
+    const byAlias = suppliers.find((item) => hasName(item, name));
+    return byAlias ? { supplier: byAlias, matchedBy: "ALIAS" } : null;
+};
+
+/**
+ * Resolve supplier details against a directory, proposing a new entry when
+ * nothing matches and a name is known
+ * @param suppliers - Owner's supplier directory
+ * @param candidate - Supplier details as printed on the invoice
+ */
+export const buildSupplierResolution = (
+    suppliers: Supplier[],
+    candidate: SupplierCandidate,
+): SupplierResolution => {
+    const match = matchSupplier(suppliers, candidate);
+    if (match) return { ...match, proposedSupplier: null };
+
+    const name = candidate.supplierName?.trim();
+    return {
+        supplier: null,
+        matchedBy: null,
+        proposedSupplier: name
+            ? {
+                  name,
+                  taxId: toTaxIdKey(candidate.supplierTaxId),
+                  address: candidate.supplierAddress?.trim() || null,
+              }
+            : null,
+    };
+};
+
+/**
+ * Resolve supplier details against an owner's directory
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the supplier directory
+ * @param candidate - Supplier details as printed or extracted
+ * @throws AccessDeniedError if the caller cannot view the owner's data
+ */
+export const resolveSupplier = async (
+    ctx: AccessContext,
+    ownerId: string,
+    candidate: SupplierCandidate,
+): Promise<SupplierResolution> =>
+    buildSupplierResolution(await listSuppliers(ctx, ownerId), candidate);
+
+// ===== Invoice Linking =====
+
+/**
+ * Record a new name as an alias, and a missing tax ID, on a matched supplier
+ */
+const learnSupplierDetails = async (
+    ctx: AccessContext,
+    supplier: Supplier,
+    candidate: SupplierCandidate,
+): Promise<Supplier> => {
+    const updates: UpdateSupplierData = {};
+    const name = candidate.supplierName?.trim();
+    if (
+        name &&
+        !hasName(supplier, normaliseSupplierName(name)) &&
+        supplier.aliases.length < SUPPLIER_CONSTANTS.MAX_ALIASES
+    ) {
+        updates.aliases = [...supplier.aliases, name];
+    }
+    const taxId = toTaxIdKey(candidate.supplierTaxId);
+    if (!supplier.taxId && taxId && hasValidTaxIdChecksum(taxId)) {
+        updates.taxId = taxId;
+    }
+
+    return Object.keys(updates).length
+        ? updateSupplier(ctx, supplier.id, updates)
+        : supplier;
+};
+
+/**
+ * Directory entry for an invoice's supplier details, created when none matches
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the supplier directory
+ * @param candidate - Supplier details as printed on the invoice
+ * @returns Supplier, or null when the invoice has no supplier name or tax ID
+ * @throws AccessDeniedError if the caller cannot edit the owner's data
+ */
+export const findOrCreateSupplier = async (
+    ctx: AccessContext,
+    ownerId: string,
+    candidate: SupplierCandidate,
+): Promise<Supplier | null> => {
+    const { supplier, proposedSupplier } = await resolveSupplier(
+        ctx,
+        ownerId,
+        candidate,
+    );
+    if (supplier) return learnSupplierDetails(ctx, supplier, candidate);
+    if (!proposedSupplier) return null;
+
+    return createSupplier(ctx, ownerId, {
+        ...proposedSupplier,
+        normalisedName: normaliseSupplierName(proposedSupplier.name),
+        taxId:
+            proposedSupplier.taxId &&
+            hasValidTaxIdChecksum(proposedSupplier.taxId)
+                ? proposedSupplier.taxId
+                : null,
+    });
+};
+
+/**
+ * Supplier by ID, checked to belong to the given owner
+ * @throws NotFoundError if the supplier isn't the owner's
+ */
+const getOwnedSupplier = async (
+    ctx: AccessContext,
+    ownerId: string,
+    supplierId: string,
+): Promise<Supplier> => {
+    const supplier = await getSupplierById(ctx, supplierId);
+    if (supplier.userId !== ownerId) {
+        throw new NotFoundError(`Supplier with ID ${supplierId} not found`);
+    }
+    return supplier;
+};
+
+/**
+ * Link a new invoice to its supplier and apply the supplier's defaults
+ * An explicit supplierId wins; null leaves the invoice unlinked
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the new invoice
+ * @param data - Mapped invoice input
+ * @throws NotFoundError if supplierId isn't one of the owner's suppliers
+ */
+export const applyNewInvoiceSupplier = async (
+    ctx: AccessContext,
+    ownerId: string,
+    data: UpdateInvoiceData,
+): Promise<UpdateInvoiceData> => {
+    if (data.supplierId === null) return data;
+    const supplier = data.supplierId
+        ? await getOwnedSupplier(ctx, ownerId, data.supplierId)
+        : await findOrCreateSupplier(ctx, ownerId, data);
+    if (!supplier) return data;
+
+    const usesDefaultCategory = !data.category && !data.customCategory;
+    return {
+        ...data,
+        supplierId: supplier.id,
+        supplierName: data.supplierName ?? supplier.name,
+        ...(usesDefaultCategory &&
+            supplier.defaultCategory && {
+                category: supplier.defaultCategory,
+            }),
+        businessUsePercentage:
+            data.businessUsePercentage !== undefined
+                ? data.businessUsePercentage
+                : supplier.defaultBusinessUsePercentage,
+    };
+};
+
+/**
+ * Re-link an invoice when an update changes its supplier details
+ * Defaults are not re-applied to existing invoices
+ * @param ctx - Caller access context (session user ID and role)
+ * @param invoiceId - Invoice being updated
+ * @param data - Mapped invoice input
+ * @throws NotFoundError if the invoice, or a given supplierId, isn't found
+ */
+export const applyInvoiceUpdateSupplier = async (
+    ctx: AccessContext,
+    invoiceId: string,
+    data: UpdateInvoiceData,
+): Promise<UpdateInvoiceData> => {
+    const changesSupplier =
+        data.supplierId !== undefined ||
+        data.supplierName !== undefined ||
+        data.supplierTaxId !== undefined;
+    if (!changesSupplier || data.supplierId === null) return data;
+
+    const { invoice } = await getInvoiceById(ctx, invoiceId);
+    const supplier = data.supplierId
+        ? await getOwnedSupplier(ctx, invoice.userId, data.supplierId)
+        : await findOrCreateSupplier(ctx, invoice.userId, {
+              supplierName: data.supplierName ?? invoice.supplierName,
+              supplierTaxId: data.supplierTaxId ?? invoice.supplierTaxId,
+              supplierAddress: data.supplierAddress ?? invoice.supplierAddress,
+          });
+    return { ...data, supplierId: supplier?.id ?? null };
+};
+
+// ===== Directory =====
+
+const toSupplierData = (
+    input: SupplierUpdateInput,
+): Omit<UpdateSupplierData, "name" | "normalisedName"> => {
+    const { name: _name, taxId, aliases, ...rest } = input;
+    return {
+        ...rest,
+        ...(taxId !== undefined && { taxId: toTaxIdKey(taxId) }),
+        ...(aliases !== undefined && {
+            aliases: [...new Set(aliases.map((alias) => alias.trim()))],
+        }),
+    };
+};
+
+/**
+ * Add a supplier to the directory
+ * @param ctx - Caller access context (session user ID and role)
+ * @param ownerId - Owner of the supplier directory
+ * @param input - Validated supplier input
+ * @throws AppError SUPPLIER_ALREADY_EXISTS (409) when the name or tax ID is taken
+ */
+export const createSupplierFromInput = async (
+    ctx: AccessContext,
+    ownerId: string,
+    input: SupplierInput,
+): Promise<Supplier> => {
+    const existing = matchSupplier(await listSuppliers(ctx, ownerId), {
+        supplierName: input.name,
+        supplierTaxId: input.taxId,
+    });
+    if (existing) throw new AppError("SUPPLIER_ALREADY_EXISTS", 409);
+
+    return createSupplier(ctx, ownerId, {
+        ...toSupplierData(input),
+        name: input.name,
+        normalisedName: normaliseSupplierName(input.name),
+    });
+};
+
+/**
+ * Update a supplier, keeping its normalised name in step with a renamed entry
+ * @param ctx - Caller access context (session user ID and role)
+ * @param id - Supplier ID
+ * @param input - Validated partial supplier input
+ * @throws NotFoundError if supplier not found
+ * @throws AppError SUPPLIER_ALREADY_EXISTS (409) when renamed onto another supplier
+ */
+export const updateSupplierFromInput = async (
+    ctx: AccessContext,
+    id: string,
+    input: SupplierUpdateInput,
+): Promise<Supplier> => {
+    if (input.name === undefined) {
+        return updateSupplier(ctx, id, toSupplierData(input));
+    }
+
+    const supplier = await getSupplierById(ctx, id, "EDIT");
+    const normalisedName = normaliseSupplierName(input.name);
+    const clash = (await listSuppliers(ctx, supplier.userId)).some(
+        (item) => item.id !== id && item.normalisedName === normalisedName,
+    );
+    if (clash) throw new AppError("SUPPLIER_ALREADY_EXISTS", 409);
+
+    return updateSupplier(ctx, id, {
+        ...toSupplierData(input),
+        name: input.name,
+        normalisedName,
+    });
+};
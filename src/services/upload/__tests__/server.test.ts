@@ -0,0 +1,84 @@
+import { listExtractionCorrections } from "@/dal/ai/listExtractionCorrections";
+import { listCustomCategories } from "@/dal/category/listCustomCategories";
+import { listSuppliers } from "@/dal/supplier/listSuppliers";
+import { type AccessContext } from "@/schema/authSchema";
+import { recordAIUsage, reserveAIUsage } from "@/services/ai/usage";
+import { checkContentHashDuplicates } from "@/services/invoice/duplicate";
+import {
+    checkS3FileExists,
+    downloadFromS3,
+    generatePresignedDownloadUrl,
+} from "@/services/storage/aws";
+import { handleProcessWithAI } from "@/services/upload/server";
+
+jest.mock("@/dal/ai/listExtractionCorrections", () => ({
+    listExtractionCorrections: jest.fn(),
+}));
+jest.mock("@/dal/category/listCustomCategories", () => ({
+    listCustomCategories: jest.fn(),
+}));
+jest.mock("@/dal/invoice/createInvoiceFile", () => ({
+    createInvoiceFile: jest.fn(),
+}));
+jest.mock("@/dal/invoice/getInvoicesByUserId", () => ({
+    getInvoicesByUserId: jest.fn(),
+}));
+jest.mock("@/dal/supplier/listSuppliers", () => ({
+    listSuppliers: jest.fn(),
+}));
+jest.mock("@/services/ai/usage", () => ({
+    recordAIUsage: jest.fn(),
+    reserveAIUsage: jest.fn(),
+}));
+jest.mock("@/services/invoice/duplicate", () => ({
+    ...jest.requireActual("@/services/invoice/duplicate"),
+    checkContentHashDuplicates: jest.fn(),
+}));
+jest.mock("@/services/storage/aws", () => ({
+    ...jest.requireActual("@/services/storage/aws"),
+    checkS3FileExists: jest.fn(),
+    downloadFromS3: jest.fn(),
+    generatePresignedDownloadUrl: jest.fn(),
+}));
+
+const ctx: AccessContext = { id: "user-1", role: "USER" };
+
+describe("handleProcessWithAI", () => {
+    beforeEach(() => {
+        jest.mocked(checkS3FileExists).mockResolvedValue(true);
+        jest.mocked(downloadFromS3).mockResolvedValue({
+            success: true,
+            buffer: Buffer.from("Officeworks Pty Ltd\nTotal: $110.00 AUD"),
+        });
+        jest.mocked(checkContentHashDuplicates).mockResolvedValue({
+            isPossibleDuplicate: false,
+            matches: [],
+        });
+        jest.mocked(generatePresignedDownloadUrl).mockResolvedValue({
+            success: true,
+            signedUrl: "https://bucket.s3.amazonaws.com/receipt.txt",
+        });
+        jest.mocked(reserveAIUsage).mockResolvedValue("usage-1");
+        jest.mocked(listCustomCategories).mockResolvedValue([]);
+        jest.mocked(listExtractionCorrections).mockResolvedValue([]);
+    });
+
+    it("settles the usage reservation when processing fails after extraction", async () => {
+        jest.mocked(listSuppliers).mockRejectedValue(new Error("db down"));
+
+        const result = await handleProcessWithAI({
+            s3ObjectKey: "invoices/user-1/receipt.txt",
+            ctx,
+        });
+
+        expect(result.success).toBe(false);
+        expect(recordAIUsage).toHaveBeenCalledWith(
+            "usage-1",
+            expect.objectContaining({
+                success: false,
+                metadata: expect.objectContaining({ provider: "MOCK" }),
+            }),
+            undefined,
+        );
+    });
+});
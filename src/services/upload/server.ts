@@ -1,20 +1,77 @@
 import { ERROR_MESSAGES } from "@/schema/messageSchema";
-import { ExtractedInvoiceData } from "@/schema/aiSchema";
+import {
+    type AIExtractionMetadata,
+    type AIExtractionResponse,
+    type CorrectionField,
+    type ExtractedInvoiceData,
+    type SmartCategoryResult,
+    type ValidationResult,
+} from "@/schema/aiSchema";
+import { type CapitalAssetSuggestion } from "@/schema/assetSchema";
+import { type AccessContext } from "@/schema/authSchema";
+import { type CustomCategory } from "@/schema/invoiceTables";
+import { type DuplicateCheckResult } from "@/schema/invoiceSchema";
+import { type RuleEvaluation } from "@/schema/ruleSchema";
+import { type SupplierResolution } from "@/schema/supplierQueries";
+import { listExtractionCorrections } from "@/dal/ai/listExtractionCorrections";
+import { listCustomCategories } from "@/dal/category/listCustomCategories";
 import { createInvoiceFile } from "@/dal/invoice/createInvoiceFile";
+import { getInvoicesByUserId } from "@/dal/invoice/getInvoicesByUserId";
+import { listSuppliers } from "@/dal/supplier/listSuppliers";
+import { getWorkspaceUserId } from "@/utils/core/auth";
+import { isAppError } from "@/utils/core/error";
 import { logError, logInfo } from "@/utils/sys/log";
-import { processWithOpenAIVision } from "@/services/ai/processing";
+import { toInvoiceCandidate } from "@/services/ai/anomaly";
+import {
+    applyCorrectionOverrides,
+    getSupplierCorrections,
+    toCorrectionHints,
+} from "@/services/ai/corrections";
+import { suggestCapitalAssets } from "@/services/asset/assets";
+import {
+    findCustomCategoryByName,
+    toCustomCategoryHints,
+} from "@/services/category/categories";
+import {
+    extractInvoiceData,
+    suggestCategory,
+    validateExtractionData,
+} from "@/services/ai/processing";
+import { recordAIUsage, reserveAIUsage } from "@/services/ai/usage";
+import {
+    checkContentHashDuplicates,
+    checkFuzzyDuplicates,
+    computeContentHash,
+} from "@/services/invoice/duplicate";
+import { evaluateOwnerRules, toRuleSubject } from "@/services/rule/rules";
+import { buildSupplierResolution } from "@/services/supplier/suppliers";
 import {
     generateS3ObjectKey,
     generatePresignedUploadUrl,
     generatePresignedDownloadUrl,
     checkS3FileExists,
+    downloadFromS3,
+    getInvoiceS3Prefix,
 } from "@/services/storage/aws";
 
 /**
  * Server-side upload processing utilities
  * Supports the client-side upload workflow with server-side coordination
  * - Generates S3 pre-signed URLs for secure client uploads
- * - Processes uploaded images with OpenAI Vision API
+ * - Flags possible duplicates (content hash, then fuzzy match on extracted data)
+ * - Processes uploaded images with the configured AI provider (env.AI_PROVIDER),
+ *   metered per user and blocked once the monthly AI quota is used up
+ * - Offers the user's custom categories to the AI and resolves the one it picks
+ * - Learns from the user's corrections: recent ones are offered to the AI,
+ *   and values the user keeps correcting for the supplier are replaced
+ * - Validates extracted totals, tax and line items
+ * - Settles the category: a rule category replaces the AI suggestion, and a
+ *   low-confidence AI category may give way to supplier history or the
+ *   offline keyword classifier; the others are returned as alternatives
+ * - Resolves the supplier against the directory (or proposes a new one) and
+ *   returns the rule or supplier business-use default to prefill the invoice
+ * - Suggests line items costing more than env.CAPITAL_ASSET_THRESHOLD per unit
+ *   as depreciating assets
  * - Creates database records for successful uploads
  * - Provides file access management for secure downloads
  */
@@ -30,7 +87,9 @@ interface RequestUploadUrlParams {
 
 interface ProcessWithAIParams {
     s3ObjectKey: string;
-    userId: string;
+    ctx: AccessContext;
+    // Re-process a file even when an identical file was already uploaded
+    allowDuplicate?: boolean;
 }
 
 // ===== Server-side API Functions =====
@@ -112,16 +171,33 @@ export const handleRequestUploadUrl = async ({
  * API Function: Process uploaded file with AI
  * Called by client after successful S3 upload
  * Endpoint: POST /api/files/process-with-ai
+ *
+ * An exact re-upload (same content hash) returns the matching invoices without
+ * running AI or creating a file record unless allowDuplicate is set; otherwise
+ * extracted data is fuzzy-matched against the owner's invoices before any
+ * invoice is created
  */
 export const handleProcessWithAI = async ({
     s3ObjectKey,
-    userId,
+    ctx,
+    allowDuplicate = false,
 }: ProcessWithAIParams): Promise<{
     success: boolean;
     fileId?: string;
     extractedData?: ExtractedInvoiceData;
+    validation?: ValidationResult;
+    duplicate?: DuplicateCheckResult;
+    supplier?: SupplierResolution;
+    ruleEvaluation?: RuleEvaluation;
+    categorySuggestion?: SmartCategoryResult;
+    customCategory?: CustomCategory | null;
+    correctedFields?: CorrectionField[];
+    businessUsePercentage?: number | null;
+    capitalAssetSuggestions?: CapitalAssetSuggestion[];
+    metadata?: AIExtractionMetadata;
     error?: string;
 }> => {
+    const userId = getWorkspaceUserId(ctx);
     try {
         // Validate parameters
         const validation = validateAIParams({ s3ObjectKey, userId });
@@ -141,7 +217,33 @@ export const handleProcessWithAI = async ({
             };
         }
 
-        // Step 2: Generate S3 download URL for OpenAI Vision
+        // Step 2: Hash file content and check for an exact re-upload
+        const download = await downloadFromS3(s3ObjectKey);
+        if (!download.success || !download.buffer) {
+            return {
+                success: false,
+                error: ERROR_MESSAGES.S3_DIRECT_UPLOAD_FAILED,
+            };
+        }
+        const contentHash = computeContentHash(download.buffer);
+
+        const hashDuplicate = await checkContentHashDuplicates(
+            ctx,
+            contentHash,
+        );
+        if (hashDuplicate.isPossibleDuplicate && !allowDuplicate) {
+            logInfo("Upload matches an existing invoice file", {
+                s3ObjectKey,
+                userId,
+                matches: hashDuplicate.matches.map((match) => match.invoiceId),
+            });
+            return {
+                success: true,
+                duplicate: hashDuplicate,
+            };
+        }
+
+        // Step 3: Generate S3 download URL for remote AI providers
         const downloadUrlResult = await generatePresignedDownloadUrl(
             s3ObjectKey,
             3600, // 1 hour expiry
@@ -154,37 +256,143 @@ export const handleProcessWithAI = async ({
             };
         }
 
-        // Step 3: Create database file record
-        const fileName = s3ObjectKey.split("/").pop() || "unknown";
-        const invoiceFile = await createInvoiceFile({
-            originalName: fileName,
-            fileName: fileName,
-            fileSize: 0, // Will be updated if needed
-            mimeType: "image/jpeg", // Processed images are JPEG
-            s3ObjectKey,
-        });
-
-        // Step 4: Process with OpenAI Vision
-        const extractedData = await processWithOpenAIVision(
-            downloadUrlResult.signedUrl!,
-        );
-
-        logInfo("AI processing completed successfully", {
-            fileId: invoiceFile.id,
-            s3ObjectKey,
-            userId,
-            extractedData: {
-                invoiceNumber: extractedData.invoiceNumber,
-                supplierName: extractedData.supplierName,
-                totalAmount: extractedData.totalAmount,
-            },
-        });
-
-        return {
-            success: true,
-            fileId: invoiceFile.id,
-            extractedData,
+        // Step 4: Extract with the configured AI provider (within the
+        // caller's monthly quota), record usage and validate
+        const usageId = await reserveAIUsage(ctx);
+        // Settle the reservation however processing ends, so a failure after
+        // it doesn't leave a PENDING record counting against the quota
+        let usageResponse: AIExtractionResponse = {
+            success: false,
+            error: ERROR_MESSAGES.AI_PROCESSING_FAILED,
         };
+        let usageFileId: string | undefined;
+        try {
+            const fileName = s3ObjectKey.split("/").pop() || "unknown";
+            const customCategories = await listCustomCategories(ctx, userId);
+            const corrections = await listExtractionCorrections(ctx, userId);
+            const extraction = await extractInvoiceData({
+                fileName,
+                imageUrl: downloadUrlResult.signedUrl,
+                buffer: download.buffer,
+                contentHash,
+                customCategories: toCustomCategoryHints(customCategories),
+                corrections: toCorrectionHints(corrections),
+            });
+            // Tokens spent count even when the upload fails later on
+            usageResponse = { ...extraction, success: false };
+            if (!extraction.success || !extraction.data) {
+                return {
+                    success: false,
+                    error:
+                        extraction.error ?? ERROR_MESSAGES.AI_PROCESSING_FAILED,
+                };
+            }
+
+            // Step 5: Replace values the user keeps correcting for this
+            // supplier, then validate
+            const suppliers = await listSuppliers(ctx, userId);
+            const supplierCorrections = getSupplierCorrections(corrections, {
+                supplierId: buildSupplierResolution(suppliers, extraction.data)
+                    .supplier?.id,
+                supplierName: extraction.data.supplierName,
+            });
+            const { data: correctedData, fields: correctedFields } =
+                applyCorrectionOverrides(extraction.data, supplierCorrections);
+            const extractionValidation = validateExtractionData(correctedData);
+
+            // Step 6: Apply the user's rules and settle the category, fuzzy
+            // match extracted data against existing invoices, resolve the
+            // supplier and flag capital items
+            const ruleEvaluation = await evaluateOwnerRules(
+                ctx,
+                userId,
+                toRuleSubject(correctedData),
+            );
+            const historicalInvoices = (
+                await getInvoicesByUserId(ctx, userId)
+            ).map(({ invoice }) => invoice);
+            const categorySuggestion = suggestCategory(
+                correctedData,
+                historicalInvoices,
+                ruleEvaluation,
+                supplierCorrections,
+            );
+            // The AI's custom category only stands while its parent is the settled category
+            const aiCustomCategory = findCustomCategoryByName(
+                customCategories,
+                correctedData.customCategory,
+            );
+            const customCategory =
+                aiCustomCategory?.parentCategory ===
+                categorySuggestion.suggestedCategory
+                    ? aiCustomCategory
+                    : null;
+            const extractedData: ExtractedInvoiceData = {
+                ...correctedData,
+                suggestedCategory: categorySuggestion.suggestedCategory,
+                categoryConfidence: categorySuggestion.confidence,
+                categoryReasoning: categorySuggestion.reasoning,
+                customCategory: customCategory?.name ?? null,
+            };
+            const duplicate = hashDuplicate.isPossibleDuplicate
+                ? hashDuplicate
+                : await checkFuzzyDuplicates(
+                      ctx,
+                      toInvoiceCandidate(extractedData),
+                      userId,
+                  );
+            const supplier = buildSupplierResolution(suppliers, extractedData);
+            const businessUsePercentage =
+                ruleEvaluation.actions.businessUsePercentage ??
+                supplier.supplier?.defaultBusinessUsePercentage ??
+                null;
+            const capitalAssetSuggestions = suggestCapitalAssets(extractedData);
+
+            // Step 7: Create database file record
+            const invoiceFile = await createInvoiceFile({
+                userId,
+                originalName: fileName,
+                fileName: fileName,
+                fileSize: download.buffer.length,
+                mimeType: "image/jpeg", // Processed images are JPEG
+                s3ObjectKey,
+                contentHash,
+            });
+            usageResponse = extraction;
+            usageFileId = invoiceFile.id;
+
+            logInfo("AI processing completed successfully", {
+                fileId: invoiceFile.id,
+                s3ObjectKey,
+                userId,
+                provider: extraction.metadata?.provider,
+                isPossibleDuplicate: duplicate.isPossibleDuplicate,
+                correctedFields,
+                extractedData: {
+                    invoiceNumber: extractedData.invoiceNumber,
+                    supplierName: extractedData.supplierName,
+                    totalAmount: extractedData.totalAmount,
+                },
+            });
+
+            return {
+                success: true,
+                fileId: invoiceFile.id,
+                extractedData,
+                validation: extractionValidation,
+                duplicate,
+                supplier,
+                ruleEvaluation,
+                categorySuggestion,
+                customCategory,
+                correctedFields,
+                businessUsePercentage,
+                capitalAssetSuggestions,
+                metadata: extraction.metadata,
+            };
+        } finally {
+            await recordAIUsage(usageId, usageResponse, usageFileId);
+        }
     } catch (error) {
         logError("Failed to process file with AI", {
             error,
@@ -193,7 +401,9 @@ export const handleProcessWithAI = async ({
         });
         return {
             success: false,
-            error: ERROR_MESSAGES.AI_PROCESSING_FAILED,
+            error: isAppError(error)
+                ? error.message
+                : ERROR_MESSAGES.AI_PROCESSING_FAILED,
         };
     }
 };
@@ -278,7 +488,10 @@ export const validateUploadParams = ({
 export const validateAIParams = ({
     s3ObjectKey,
     userId,
-}: ProcessWithAIParams): {
+}: {
+    s3ObjectKey: string;
+    userId: string;
+}): {
     isValid: boolean;
     error?: string;
 } => {
@@ -290,6 +503,11 @@ export const validateAIParams = ({
         return { isValid: false, error: "User ID is required" };
     }
 
+    // The file record is owned by the user, so the object must be theirs
+    if (!s3ObjectKey.startsWith(getInvoiceS3Prefix(userId))) {
+        return { isValid: false, error: "File not found in cloud storage" };
+    }
+
     return { isValid: true };
 };
 
@@ -0,0 +1,113 @@
+import { type Asset } from "@/schema/assetTables";
+import {
+    type CustomCategory,
+    type Invoice,
+    type Supplier,
+} from "@/schema/invoiceTables";
+
+/**
+ * Shared unit test fixtures
+ * Complete rows with neutral defaults, so a test only spells out the fields
+ * it is about
+ */
+
+/**
+ * AUD office supplies invoice of $110 including $10 GST, dated 1 August 2024
+ */
+export const createInvoice = (overrides: Partial<Invoice> = {}): Invoice => ({
+    id: "invoice-1",
+    userId: "user-1",
+    fileId: null,
+    invoiceNumber: "INV-001",
+    supplierId: null,
+    supplierName: "Officeworks",
+    supplierAddress: null,
+    supplierTaxId: null,
+    subtotal: 100,
+    taxAmount: 10,
+    taxRate: 10,
+    totalAmount: 110,
+    currency: "AUD",
+    invoiceDate: new Date("2024-08-01T00:00:00"),
+    dueDate: null,
+    category: "OFFICE_SUPPLIES",
+    customCategoryId: null,
+    customCategory: null,
+    description: null,
+    businessUsePercentage: null,
+    deductiblePercentage: null,
+    deductionNote: null,
+    extractedData: null,
+    aiConfidenceScore: null,
+    validationStatus: "PENDING",
+    validationErrors: null,
+    anomalyResult: null,
+    status: "PENDING",
+    notes: null,
+    tags: null,
+    createdAt: new Date("2024-08-01T00:00:00"),
+    updatedAt: new Date("2024-08-01T00:00:00"),
+    processedAt: null,
+    ...overrides,
+});
+
+/**
+ * Supplier directory entry without defaults or aliases
+ */
+export const createSupplier = (
+    overrides: Partial<Supplier> = {},
+): Supplier => ({
+    id: "supplier-1",
+    userId: "user-1",
+    name: "Officeworks",
+    normalisedName: "officeworks",
+    taxId: null,
+    aliases: [],
+    defaultCategory: null,
+    defaultBusinessUsePercentage: null,
+    email: null,
+    phone: null,
+    address: null,
+    website: null,
+    createdAt: new Date("2024-08-01T00:00:00"),
+    updatedAt: new Date("2024-08-01T00:00:00"),
+    ...overrides,
+});
+
+/**
+ * "Tools" custom category under repairs and maintenance
+ */
+export const createCustomCategory = (
+    overrides: Partial<CustomCategory> = {},
+): CustomCategory => ({
+    id: "custom-category-1",
+    userId: "user-1",
+    name: "Tools",
+    color: "#f59e0b",
+    description: null,
+    keywords: [],
+    parentCategory: "REPAIRS_MAINTENANCE",
+    createdAt: new Date("2024-08-01T00:00:00"),
+    updatedAt: new Date("2024-08-01T00:00:00"),
+    ...overrides,
+});
+
+/**
+ * $1,000 laptop written off by prime cost over 5 years from 1 July 2024
+ */
+export const createAsset = (overrides: Partial<Asset> = {}): Asset => ({
+    id: "asset-1",
+    userId: "user-1",
+    invoiceId: null,
+    lineItemId: null,
+    name: "Laptop",
+    description: null,
+    cost: 1000,
+    startDate: new Date("2024-07-01T00:00:00"),
+    effectiveLifeYears: 5,
+    method: "PRIME_COST",
+    businessUsePercentage: null,
+    createdAt: new Date("2024-08-01T00:00:00"),
+    updatedAt: new Date("2024-08-01T00:00:00"),
+    ...overrides,
+});
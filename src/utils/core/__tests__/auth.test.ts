@@ -0,0 +1,96 @@
+import {
+    canAccessUser,
+    getWorkspaceUserId,
+    isDelegationInviteExpired,
+} from "@/utils/core/auth";
+
+describe("canAccessUser", () => {
+    it("lets users access only their own data", () => {
+        const user = { id: "user-1", role: "USER" as const };
+
+        expect(canAccessUser(user, "user-1", "EDIT")).toBe(true);
+        expect(canAccessUser(user, "user-2")).toBe(false);
+    });
+
+    it("lets admins access any user", () => {
+        expect(canAccessUser({ id: "admin", role: "ADMIN" }, "user-2")).toBe(
+            true,
+        );
+    });
+});
+
+describe("canAccessUser with delegations", () => {
+    const accountant = { id: "accountant", role: "ACCOUNTANT" as const };
+    const delegation = {
+        accountantId: "accountant",
+        clientId: "client",
+        status: "ACTIVE" as const,
+        permissions: ["VIEW" as const, "EXPORT" as const],
+    };
+
+    it("grants the permissions an active delegation lists", () => {
+        expect(canAccessUser(accountant, "client", "VIEW", [delegation])).toBe(
+            true,
+        );
+        expect(
+            canAccessUser(accountant, "client", "EXPORT", [delegation]),
+        ).toBe(true);
+        expect(canAccessUser(accountant, "client", "EDIT", [delegation])).toBe(
+            false,
+        );
+    });
+
+    it("ignores pending, revoked and other clients' delegations", () => {
+        expect(
+            canAccessUser(accountant, "client", "VIEW", [
+                { ...delegation, status: "PENDING" },
+                { ...delegation, status: "REVOKED" },
+                { ...delegation, clientId: "other-client" },
+            ]),
+        ).toBe(false);
+    });
+
+    it("does not let clients access their accountant through a delegation", () => {
+        expect(
+            canAccessUser(
+                { id: "client", role: "USER" },
+                "accountant",
+                "VIEW",
+                [delegation],
+            ),
+        ).toBe(false);
+    });
+});
+
+describe("isDelegationInviteExpired", () => {
+    it("expires invites past inviteExpiresAt", () => {
+        expect(
+            isDelegationInviteExpired({
+                inviteExpiresAt: new Date(Date.now() - 1000),
+            }),
+        ).toBe(true);
+        expect(
+            isDelegationInviteExpired({
+                inviteExpiresAt: new Date(Date.now() + 60000),
+            }),
+        ).toBe(false);
+        expect(isDelegationInviteExpired({ inviteExpiresAt: null })).toBe(
+            false,
+        );
+    });
+});
+
+describe("getWorkspaceUserId", () => {
+    it("defaults to the caller's own workspace", () => {
+        expect(getWorkspaceUserId({ id: "user-1", role: "USER" })).toBe(
+            "user-1",
+        );
+        expect(
+            getWorkspaceUserId({
+                id: "accountant",
+                role: "ACCOUNTANT",
+                workspaceUserId: "client",
+            }),
+        ).toBe("client");
+    });
+});
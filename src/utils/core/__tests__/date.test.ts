@@ -0,0 +1,30 @@
+import { getAustralianFinancialQuarterRange } from "@/utils/core/date";
+
+describe("getAustralianFinancialQuarterRange", () => {
+    it("starts the financial year's first quarter in July", () => {
+        expect(getAustralianFinancialQuarterRange(2024, 1)).toEqual({
+            start: "2024-07-01T00:00:00.000Z",
+            end: "2024-09-30T23:59:59.999Z",
+        });
+        expect(getAustralianFinancialQuarterRange(2024, 3)).toEqual({
+            start: "2025-01-01T00:00:00.000Z",
+            end: "2025-03-31T23:59:59.999Z",
+        });
+    });
+
+    it("puts an invoice dated on a quarter boundary in that quarter", () => {
+        const invoiceDate = new Date("2024-10-01T00:00:00.000Z");
+        const isInQuarter = (quarter: number) => {
+            const { start, end } = getAustralianFinancialQuarterRange(
+                2024,
+                quarter,
+            );
+            return (
+                invoiceDate >= new Date(start) && invoiceDate <= new Date(end)
+            );
+        };
+
+        expect(isInQuarter(1)).toBe(false);
+        expect(isInQuarter(2)).toBe(true);
+    });
+});
@@ -0,0 +1,86 @@
+import {
+    detectTaxIdType,
+    hasValidTaxIdChecksum,
+    isValidABN,
+    isValidACN,
+    normaliseTaxId,
+} from "@/utils/core/taxId";
+
+describe("isValidABN", () => {
+    it("accepts ABNs that pass the modulus 89 checksum", () => {
+        expect(isValidABN("51824753556")).toBe(true);
+        expect(isValidABN("51 824 753 556")).toBe(true);
+    });
+
+    it("rejects a misread digit", () => {
+        expect(isValidABN("51824753557")).toBe(false);
+    });
+
+    it("rejects values that are not 11 digits", () => {
+        expect(isValidABN("5182475355")).toBe(false);
+        expect(isValidABN("ABN51824753556X")).toBe(false);
+    });
+});
+
+describe("isValidACN", () => {
+    it("accepts ACNs with a matching check digit", () => {
+        expect(isValidACN("004085616")).toBe(true);
+        expect(isValidACN("000 000 019")).toBe(true);
+    });
+
+    it("rejects a wrong check digit", () => {
+        expect(isValidACN("004085617")).toBe(false);
+    });
+
+    it("rejects values that are not 9 digits", () => {
+        expect(isValidACN("00408561")).toBe(false);
+    });
+});
+
+describe("detectTaxIdType", () => {
+    it("tells tax ID formats apart", () => {
+        expect(detectTaxIdType("51 824 753 556")).toBe("ABN");
+        expect(detectTaxIdType("004 085 616")).toBe("ACN");
+        expect(detectTaxIdType("12-3456789")).toBe("EIN");
+        expect(detectTaxIdType("GB123456789")).toBe("VAT");
+        expect(detectTaxIdType("")).toBeNull();
+    });
+
+    it("reads through a printed ABN or ACN label", () => {
+        expect(detectTaxIdType("ABN 51 824 753 556")).toBe("ABN");
+        expect(detectTaxIdType("A.B.N.: 51 824 753 556")).toBe("ABN");
+        expect(detectTaxIdType("ACN 004 085 616")).toBe("ACN");
+    });
+});
+
+describe("hasValidTaxIdChecksum", () => {
+    it("always checks ABNs", () => {
+        expect(hasValidTaxIdChecksum("51824753557")).toBe(false);
+        expect(hasValidTaxIdChecksum("51824753556", "USD")).toBe(true);
+    });
+
+    it("checks labelled IDs instead of skipping them", () => {
+        expect(hasValidTaxIdChecksum("ABN 51 824 753 557")).toBe(false);
+        expect(hasValidTaxIdChecksum("ACN 004 085 617", "AUD")).toBe(false);
+        expect(hasValidTaxIdChecksum("ACN 004 085 616", "AUD")).toBe(true);
+    });
+
+    it("only checks ACNs on AUD invoices, since 9 digits may be an EIN", () => {
+        expect(hasValidTaxIdChecksum("123456789")).toBe(true);
+        expect(hasValidTaxIdChecksum("123456789", "USD")).toBe(true);
+        expect(hasValidTaxIdChecksum("123456789", "AUD")).toBe(false);
+        expect(hasValidTaxIdChecksum("004085616", "AUD")).toBe(true);
+    });
+});
+
+describe("normaliseTaxId", () => {
+    it("compacts ABNs but keeps the EIN hyphen", () => {
+        expect(normaliseTaxId("51 824 753 556")).toBe("51824753556");
+        expect(normaliseTaxId(" 12-3456789 ")).toBe("12-3456789");
+    });
+
+    it("drops a printed ABN or ACN label", () => {
+        expect(normaliseTaxId("ABN: 51 824 753 556")).toBe("51824753556");
+        expect(normaliseTaxId("ACN 004 085 616")).toBe("004085616");
+    });
+});
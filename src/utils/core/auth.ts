@@ -1,10 +1,14 @@
 import crypto from "crypto";
 import bcrypt from "bcryptjs";
-import { AUTH_CONSTANTS } from "@/schema/authSchema";
+import { AUTH_CONSTANTS, type AccessContext } from "@/schema/authSchema";
 import { ERROR_MESSAGES } from "@/schema/messageSchema";
 import { ROUTES } from "@/schema/routeSchema";
-import { type UserRole } from "@/schema/userSchema";
-import { type User, type UserProfile } from "@/schema/userTables";
+import { type DelegationPermission, type UserRole } from "@/schema/userSchema";
+import {
+    type AccountantClient,
+    type User,
+    type UserProfile,
+} from "@/schema/userTables";
 import { buildUrl } from "@/utils/core/route";
 
 /**
@@ -58,22 +62,44 @@ export const hasPermission = (
 };
 
 export const canAccessUser = (
-    currentUser: User,
+    currentUser: Pick<User, "id" | "role">,
     targetUserId: string,
+    permission: DelegationPermission = "VIEW",
+    delegations: Pick<
+        AccountantClient,
+        "accountantId" | "clientId" | "status" | "permissions"
+    >[] = [],
 ): boolean => {
     // Admin can access any user
     if (currentUser.role === "ADMIN") return true;
 
-    // Accountants can access their assigned users (would need additional logic for client assignments)
+    // Users can always access their own data
+    if (currentUser.id === targetUserId) return true;
+
+    // Accountants can access clients who granted them this permission
     if (currentUser.role === "ACCOUNTANT") {
-        // For now, accountants can access any user - this would be refined with client assignments
-        return true;
+        return delegations.some(
+            (delegation) =>
+                delegation.accountantId === currentUser.id &&
+                delegation.clientId === targetUserId &&
+                delegation.status === "ACTIVE" &&
+                delegation.permissions.includes(permission),
+        );
     }
 
-    // Users can only access their own data
-    return currentUser.id === targetUserId;
+    return false;
 };
 
+// Workspace the caller is acting in (switched client, or their own)
+export const getWorkspaceUserId = (ctx: AccessContext): string =>
+    ctx.workspaceUserId ?? ctx.id;
+
+export const isDelegationInviteExpired = (
+    delegation: Pick<AccountantClient, "inviteExpiresAt">,
+): boolean =>
+    !!delegation.inviteExpiresAt &&
+    delegation.inviteExpiresAt.getTime() < Date.now();
+
 export const canManageInvoices = (userRole: UserRole): boolean =>
     hasPermission(userRole, "USER");
 
@@ -9,7 +9,12 @@ import relativeTime from "dayjs/plugin/relativeTime";
 import utc from "dayjs/plugin/utc";
 import weekday from "dayjs/plugin/weekday";
 import { AUSTRALIAN_TAX_CONSTANTS } from "@/schema/financialSchema";
-import { DateFormatEnum, DATE_FORMATS, DateRange } from "@/schema/dateSchema";
+import {
+    DateFormatEnum,
+    DATE_FORMATS,
+    DateRange,
+    type DateFormat,
+} from "@/schema/dateSchema";
 
 // Extend dayjs with plugins
 dayjs.extend(utc);
@@ -54,6 +59,12 @@ export const formatDisplayDateTime = (date: string | Date): string =>
 export const formatISO = (date: string | Date): string =>
     dayjs(date).format(DATE_FORMATS.ISO);
 
+/**
+ * Format date with a DATE_FORMATS pattern
+ */
+export const formatCustom = (date: string | Date, format: DateFormat): string =>
+    dayjs(date).format(format);
+
 /**
  * Parse date string with custom format
  */
@@ -394,6 +405,42 @@ export const getAustralianFinancialYearRange = (
     };
 };
 
+/**
+ * Get Australian financial year date range from its starting year
+ * @param financialYear - Starting year of the financial year (2024 = FY 2024-2025)
+ */
+export const getAustralianFinancialYearRangeByYear = (
+    financialYear: number,
+): { start: string; end: string } =>
+    getAustralianFinancialYearRange(
+        `${financialYear}-${String(AUSTRALIAN_TAX_CONSTANTS.FINANCIAL_YEAR.START_MONTH).padStart(2, "0")}-${String(AUSTRALIAN_TAX_CONSTANTS.FINANCIAL_YEAR.START_DAY).padStart(2, "0")}`,
+    );
+
+/**
+ * Get Australian financial year quarter date range (BAS quarters, Q1 = July - September)
+ * Bounds are in UTC, like invoice dates parsed on the server, so which
+ * quarter an invoice falls in doesn't depend on the host timezone
+ * @param financialYear - Starting year of the financial year (2024 = FY 2024-2025)
+ * @param quarter - Quarter of the financial year, 1-4
+ */
+export const getAustralianFinancialQuarterRange = (
+    financialYear: number,
+    quarter: number,
+): { start: string; end: string } => {
+    const { START_MONTH, MONTHS_PER_QUARTER } =
+        AUSTRALIAN_TAX_CONSTANTS.FINANCIAL_YEAR;
+    const start = dayjs
+        .utc(`${financialYear}-${String(START_MONTH).padStart(2, "0")}-01`)
+        .add((quarter - 1) * MONTHS_PER_QUARTER, "month");
+    return {
+        start: start.startOf("day").toISOString(),
+        end: start
+            .add(MONTHS_PER_QUARTER - 1, "month")
+            .endOf("month")
+            .toISOString(),
+    };
+};
+
 /**
  * Check if date is in current Australian financial year
  */
@@ -0,0 +1,64 @@
+import { type AITokenUsage } from "@/schema/aiSchema";
+import { ERROR_MESSAGES, type ErrorMessageKey } from "@/schema/messageSchema";
+
+/**
+ * Typed application errors
+ * Carry an ERROR_MESSAGES key and HTTP status so API routes can map
+ * DAL/service failures to consistent response envelopes
+ */
+
+export class AppError extends Error {
+    constructor(
+        public readonly code: ErrorMessageKey,
+        public readonly status: number = 500,
+        message: string = ERROR_MESSAGES[code],
+    ) {
+        super(message);
+        this.name = "AppError";
+    }
+}
+
+// Thrown when a requested record does not exist
+export class NotFoundError extends AppError {
+    constructor(message: string = ERROR_MESSAGES.RECORD_NOT_FOUND) {
+        super("RECORD_NOT_FOUND", 404, message);
+        this.name = "NotFoundError";
+    }
+}
+
+// Thrown when the caller tries to read or write another user's data without access
+export class AccessDeniedError extends AppError {
+    constructor(
+        public readonly targetUserId?: string,
+        message: string = ERROR_MESSAGES.CROSS_TENANT_ACCESS_DENIED,
+    ) {
+        super("CROSS_TENANT_ACCESS_DENIED", 403, message);
+        this.name = "AccessDeniedError";
+    }
+}
+
+// Thrown by AI extraction providers; retryAfterMs comes from a Retry-After header
+export class AIProviderError extends AppError {
+    // Tokens the provider billed before the call failed, e.g. an unparsable response
+    public usage?: AITokenUsage;
+
+    constructor(
+        code: ErrorMessageKey,
+        public readonly retryAfterMs?: number,
+        message: string = ERROR_MESSAGES[code],
+    ) {
+        super(code, 502, message);
+        this.name = "AIProviderError";
+    }
+}
+
+// Type guard helpers
+export const isAppError = (error: unknown): error is AppError =>
+    error instanceof AppError;
+export const isNotFoundError = (error: unknown): error is NotFoundError =>
+    error instanceof NotFoundError;
+export const isAccessDeniedError = (
+    error: unknown,
+): error is AccessDeniedError => error instanceof AccessDeniedError;
+export const isAIProviderError = (error: unknown): error is AIProviderError =>
+    error instanceof AIProviderError;
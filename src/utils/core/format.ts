@@ -5,6 +5,7 @@ import {
 import { INVOICE_CONSTANTS } from "@/schema/invoiceSchema";
 import { UI_CONSTANTS } from "@/schema/uiSchema";
 import { FILE_SIZE_CONSTANTS } from "@/schema/uploadSchema";
+import { detectTaxIdType, normaliseTaxId } from "@/utils/core/taxId";
 
 /**
  * Sanitize HTML input （e.g. description input)
@@ -38,6 +39,12 @@ export const formatCurrency = (
     }
 };
 
+/**
+ * Round a monetary amount to cents
+ */
+export const roundCurrency = (amount: number): number =>
+    Math.round(amount * 100) / 100;
+
 /**
  * Format number with thousands separators
  */
@@ -274,22 +281,23 @@ export const formatInvoiceNumber = (
 };
 
 /**
- * Format tax ID/number
+ * Format tax ID/number for display
+ * ABN 51 824 753 556, ACN 004 085 616, EIN 12-3456789; VAT and unrecognised
+ * IDs are shown in their stored form
  */
 export const formatTaxId = (taxId: string): string => {
-    // Remove all non-alphanumeric characters
-    const cleaned = taxId.replace(/[^A-Za-z0-9]/g, "");
-
-    // Format based on common patterns
-    if (cleaned.length === 9 && /^\d+$/.test(cleaned)) {
-        // US EIN format: 12-3456789
-        return `${cleaned.slice(0, 2)}-${cleaned.slice(2)}`;
-    } else if (cleaned.length === 11 && /^\d+$/.test(cleaned)) {
-        // US SSN format: 123-45-6789
-        return `${cleaned.slice(0, 3)}-${cleaned.slice(3, 5)}-${cleaned.slice(5)}`;
-    } else {
-        // Generic format: add hyphens every 4 characters
-        return cleaned.replace(/(.{4})/g, "$1-").replace(/-$/, "");
+    const normalised = normaliseTaxId(taxId);
+
+    switch (detectTaxIdType(normalised)) {
+        case "ABN":
+            return normalised.replace(
+                /^(\d{2})(\d{3})(\d{3})(\d{3})$/,
+                "$1 $2 $3 $4",
+            );
+        case "ACN":
+            return normalised.replace(/^(\d{3})(\d{3})(\d{3})$/, "$1 $2 $3");
+        default:
+            return normalised;
     }
 };
 
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { defaultApiError, defaultApiResponse } from "@/schema/apiSchema";
+import { ERROR_MESSAGES, type ErrorMessageKey } from "@/schema/messageSchema";
+import { PAGINATION_HEADERS } from "@/schema/routeSchema";
+import { isAppError } from "@/utils/core/error";
+import { logError } from "@/utils/sys/log";
+
+/**
+ * API route response builders
+ *
+ * Purpose: Wrap route handler results in the createApiResponseSchema envelope
+ * Used by: App Router API route handlers under src/app/api
+ *
+ * Usage Examples:
+ * ```typescript
+ * return apiSuccess(invoice, { status: 201 });
+ * return apiError("UNAUTHORIZED", 401);
+ * return apiErrorFromException(error);
+ * return apiFile(buffer, "report.xlsx", mimeType);
+ * ```
+ */
+
+/**
+ * Build a successful JSON response envelope
+ */
+export const apiSuccess = <T>(
+    data: T,
+    options: { status?: number; message?: string; headers?: HeadersInit } = {},
+) => {
+    const { status = 200, message, headers } = options;
+    return NextResponse.json(
+        {
+            ...defaultApiResponse(),
+            data,
+            message: message ?? defaultApiResponse().message,
+            statusCode: status,
+        },
+        { status, headers },
+    );
+};
+
+/**
+ * Build an error JSON response envelope from an ERROR_MESSAGES key
+ */
+export const apiError = (
+    code: ErrorMessageKey,
+    status: number,
+    message: string = ERROR_MESSAGES[code],
+) =>
+    NextResponse.json(
+        {
+            ...defaultApiError(),
+            error: code,
+            message,
+            statusCode: status,
+        },
+        { status },
+    );
+
+/**
+ * Map thrown errors to error envelopes
+ * AppError keeps its own code/status, Zod errors become 422,
+ * malformed JSON bodies become 400, anything else 500
+ */
+export const apiErrorFromException = (error: unknown) => {
+    if (isAppError(error)) {
+        return apiError(error.code, error.status, error.message);
+    }
+    if (error instanceof ZodError) {
+        return apiError(
+            "VALIDATION_FAILED",
+            422,
+            error.errors[0]?.message || ERROR_MESSAGES.VALIDATION_FAILED,
+        );
+    }
+    if (error instanceof SyntaxError) {
+        return apiError("INVALID_RESPONSE_FORMAT", 400);
+    }
+    logError("Unhandled API route error", error);
+    return apiError("SERVER_ERROR", 500);
+};
+
+/**
+ * Build pagination headers (x-page, x-limit, x-total, x-total-pages)
+ */
+export const buildPaginationHeaders = (
+    page: number,
+    limit: number,
+    total: number,
+): Record<string, string> => ({
+    [PAGINATION_HEADERS.PAGE]: String(page),
+    [PAGINATION_HEADERS.LIMIT]: String(limit),
+    [PAGINATION_HEADERS.TOTAL]: String(total),
+    [PAGINATION_HEADERS.TOTAL_PAGES]: String(Math.ceil(total / limit)),
+});
+
+/**
+ * Build a file download response (Content-Disposition: attachment)
+ */
+export const apiFile = (content: Buffer, fileName: string, mimeType: string) =>
+    new NextResponse(new Uint8Array(content), {
+        status: 200,
+        headers: {
+            "Content-Type": mimeType,
+            "Content-Disposition": `attachment; filename="${fileName}"`,
+            "Content-Length": String(content.length),
+        },
+    });
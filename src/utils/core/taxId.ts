@@ -0,0 +1,108 @@
+import {
+    AUSTRALIAN_TAX_CONSTANTS,
+    FINANCIAL_CONSTANTS,
+    OVERSEAS_TAX_ID_CONSTANTS,
+    type TaxIdType,
+} from "@/schema/financialSchema";
+
+/**
+ * Tax ID recognition, validation and normalisation
+ * - ABN: 11 digits with the ATO modulus 89 checksum
+ * - ACN: 9 digits with the ASIC check digit
+ * - VAT (EU/UK): country prefix followed by the national number
+ * - EIN (US): 9 digits written as 12-3456789
+ * Stored IDs are compact (no label, spaces or separators) so the same supplier
+ * matches however the ID was printed; formatTaxId is for display
+ */
+
+/**
+ * Drop a leading ABN/ACN label, upper-case and drop spaces, dots and hyphens
+ */
+const compactTaxId = (taxId: string): string =>
+    taxId
+        .replace(AUSTRALIAN_TAX_CONSTANTS.TAX_ID_LABEL_REGEX, "")
+        .toUpperCase()
+        .replace(/[^A-Z0-9]/g, "");
+
+const digitsOf = (value: string): number[] => value.split("").map(Number);
+
+/**
+ * ATO ABN checksum: subtract 1 from the first digit, weight each digit and
+ * check the sum is divisible by 89
+ */
+export const isValidABN = (abn: string): boolean => {
+    const compact = compactTaxId(abn);
+    if (!AUSTRALIAN_TAX_CONSTANTS.ABN_REGEX.test(compact)) return false;
+
+    const digits = digitsOf(compact);
+    digits[0] -= 1;
+    const sum = digits.reduce(
+        (total, digit, index) =>
+            total + digit * AUSTRALIAN_TAX_CONSTANTS.ABN_WEIGHTS[index],
+        0,
+    );
+    return sum % AUSTRALIAN_TAX_CONSTANTS.ABN_MODULUS === 0;
+};
+
+/**
+ * ASIC ACN check digit: complement of the weighted sum of the first 8 digits mod 10
+ */
+export const isValidACN = (acn: string): boolean => {
+    const compact = compactTaxId(acn);
+    if (!AUSTRALIAN_TAX_CONSTANTS.ACN_REGEX.test(compact)) return false;
+
+    const digits = digitsOf(compact);
+    const sum = AUSTRALIAN_TAX_CONSTANTS.ACN_WEIGHTS.reduce(
+        (total, weight, index) => total + digits[index] * weight,
+        0,
+    );
+    const modulus = AUSTRALIAN_TAX_CONSTANTS.ACN_MODULUS;
+    return (modulus - (sum % modulus)) % modulus === digits[8];
+};
+
+/**
+ * Tax ID type from its format, or null when unrecognised
+ * A hyphenated 12-3456789 is an EIN; any other 9 digits are read as an ACN
+ */
+export const detectTaxIdType = (taxId?: string | null): TaxIdType | null => {
+    if (!taxId?.trim()) return null;
+    if (OVERSEAS_TAX_ID_CONSTANTS.EIN_REGEX.test(taxId.trim())) return "EIN";
+
+    const compact = compactTaxId(taxId);
+    if (AUSTRALIAN_TAX_CONSTANTS.ABN_REGEX.test(compact)) return "ABN";
+    if (AUSTRALIAN_TAX_CONSTANTS.ACN_REGEX.test(compact)) return "ACN";
+    if (OVERSEAS_TAX_ID_CONSTANTS.VAT_REGEX.test(compact)) return "VAT";
+    return null;
+};
+
+/**
+ * Whether a tax ID passes its checksum
+ * Only ABNs and ACNs carry one; other formats always pass. A US EIN may be
+ * written as 9 plain digits too, so the ACN check digit is only applied to
+ * domestic (AUD) invoices
+ * @param taxId - Tax ID as printed or stored
+ * @param currency - Invoice currency; ACNs are not checked when omitted
+ */
+export const hasValidTaxIdChecksum = (
+    taxId?: string | null,
+    currency?: string | null,
+): boolean => {
+    const type = detectTaxIdType(taxId);
+    if (type === "ABN") return isValidABN(taxId!);
+    if (type === "ACN" && currency === FINANCIAL_CONSTANTS.DEFAULT_CURRENCY) {
+        return isValidACN(taxId!);
+    }
+    return true;
+};
+
+/**
+ * Canonical stored form of a tax ID
+ * ABN, ACN and VAT are compacted, EINs keep their hyphen so they aren't read
+ * back as ACNs, and unrecognised IDs only lose their whitespace
+ */
+export const normaliseTaxId = (taxId: string): string => {
+    const type = detectTaxIdType(taxId);
+    if (type === "EIN") return taxId.trim();
+    if (type) return compactTaxId(taxId);
+    return taxId.replace(/\s/g, "").toUpperCase();
+};